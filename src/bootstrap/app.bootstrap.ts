@@ -7,9 +7,12 @@ import dotenv from 'dotenv';
 import { init as initDatabase } from '../configuration/database.config';
 import { init as initRouter } from '../configuration/router.config';
 import { errorHandler } from '../middlewares/error-handler.middleware';
+import { getPaymentProvider } from '../configuration/payment.config';
 import { setupSwagger } from './swagger';
 import { WeatherScheduler } from '../utils/weather.scheduler';
 import { AmadeusTokenScheduler } from '../utils/amadeus.scheduler';
+import { PaymentScheduler } from '../utils/payment.scheduler';
+import { WeatherAlertScheduler } from '../utils/weather-alert.scheduler';
 import { createServer, Server as HttpServer } from 'http';
 import { SocketBootstrap } from './socket.bootstrap';
 
@@ -51,6 +54,8 @@ export class AppBootstrap {
 
     private scheduler?: WeatherScheduler;
     private amadeusScheduler?: AmadeusTokenScheduler;
+    private paymentScheduler?: PaymentScheduler;
+    private weatherAlertScheduler?: WeatherAlertScheduler;
     private httpServer?: HttpServer;
     private socket?: SocketBootstrap;
 
@@ -68,7 +73,14 @@ export class AppBootstrap {
         morgan.token('date', () => moment().format('DD/MM/YYYY hh:mm:ss a'));
         this.app.use(morgan(':method :url HTTP/:http-version :status - :response-time ms - :date'));
 
-        this.app.use(express.json());
+        // Keep the raw body around so payment webhooks can verify their signature
+        this.app.use(
+            express.json({
+                verify: (req, _res, buf) => {
+                    (req as any).rawBody = buf;
+                },
+            })
+        );
         this.app.use(express.urlencoded({ extended: true }));
 
         return this;
@@ -92,6 +104,14 @@ export class AppBootstrap {
         return this;
     }
 
+    /**
+     * Resolve the payment provider up front so a misconfigured one stops the app instead of failing bookings
+     */
+    initPayments() {
+        getPaymentProvider();
+        return this;
+    }
+
     initSchedulers() {
         this.scheduler = new WeatherScheduler();
         this.scheduler.start();
@@ -99,6 +119,12 @@ export class AppBootstrap {
         this.amadeusScheduler = new AmadeusTokenScheduler();
         this.amadeusScheduler.start();
         console.log('🔐 AmadeusTokenScheduler initialized (every 25 minutes).');
+        this.paymentScheduler = new PaymentScheduler();
+        this.paymentScheduler.start();
+        console.log('💳 PaymentScheduler initialized (hourly overdue check).');
+        this.weatherAlertScheduler = new WeatherAlertScheduler();
+        this.weatherAlertScheduler.start();
+        console.log('🌧️ WeatherAlertScheduler initialized (after each weather refresh).');
         return this;
     }
 
@@ -112,7 +138,7 @@ export class AppBootstrap {
     }
 
     static run() {
-        new AppBootstrap().initDatabase().setMiddlewares().setRoutes().setErrorHandler().initSchedulers().listen();
+        new AppBootstrap().initDatabase().initPayments().setMiddlewares().setRoutes().setErrorHandler().initSchedulers().listen();
     }
 
     static runInTestMode() {
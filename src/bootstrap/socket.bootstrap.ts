@@ -4,6 +4,7 @@ import { ChatService } from '../services/chat.service';
 import { AuthService } from '../services/auth.service';
 import { CachedUserState } from '../interfaces/chat.interface';
 import { RateLimitEntry } from '../interfaces/chat.interface';
+import { PackageJobEvent, PackageJobService } from '../services/package-job.service';
 
 export class SocketBootstrap {
     private io: SocketIOServer;
@@ -29,6 +30,7 @@ export class SocketBootstrap {
         });
 
         this.setupEventHandlers();
+        this.setupPackageJobNamespace();
     }
 
     private setupEventHandlers() {
@@ -64,6 +66,27 @@ export class SocketBootstrap {
         });
     }
 
+    /**
+     * Generation progress on the `/packages` namespace. Any signed-in user may connect (no KYC needed, unlike
+     * global chat) and only receives events for their own jobs.
+     */
+    private setupPackageJobNamespace() {
+        const nsp = this.io.of('/packages');
+        nsp.on('connection', async (socket) => {
+            const token = this.extractToken(socket);
+            if (!token) return this.disconnectWithError(socket, 'Missing access token');
+            const user = await this.verifyUser(socket, token);
+            if (!user) return;
+            socket.join(`user:${user.id}`);
+        });
+
+        PackageJobService.events.on('job', (event: PackageJobEvent) => {
+            if (!event.userId) return;
+            const { type, userId, ...payload } = event;
+            nsp.to(`user:${userId}`).emit(`package-job-${type}`, payload);
+        });
+    }
+
     private extractToken(socket: Socket): string | undefined {
         const authHeader = socket.handshake.headers?.authorization;
         return (
@@ -63,14 +63,64 @@ const options: swaggerJSDoc.Options = {
                 GeneratePackageRequest: {
                     type: 'object',
                     properties: {
-                        destinationIds: { type: 'array', items: { type: 'string', format: 'uuid' } },
-                        people: { type: 'integer', minimum: 1, example: 2 },
+                        destinationIds: { type: 'array', items: { type: 'string', format: 'uuid' }, description: 'Legacy: one night per entry. Ignored when stops is provided.' },
+                        stops: {
+                            type: 'array',
+                            description: 'Ordered stops with the number of nights spent at each destination',
+                            items: {
+                                type: 'object',
+                                properties: {
+                                    destinationId: { type: 'string', format: 'uuid' },
+                                    nights: { type: 'integer', minimum: 1, maximum: 14, example: 2 },
+                                },
+                                required: ['destinationId', 'nights']
+                            }
+                        },
+                        people: { type: 'integer', minimum: 1, example: 2, description: 'Headcount. Required unless travellers is given; counted as adults without travellers.' },
+                        travellers: {
+                            type: 'object',
+                            properties: {
+                                adults: { type: 'integer', minimum: 1, example: 2 },
+                                childAges: { type: 'array', items: { type: 'integer', minimum: 0, maximum: 17 }, example: [4, 9], description: 'One age per child. Children up to 2 are free for activities.' },
+                            },
+                            required: ['adults']
+                        },
+                        rooms: {
+                            type: 'array',
+                            maxItems: 9,
+                            description: 'Explicit room plan seating exactly the travellers. Defaults to two adults per room with children spread over the rooms.',
+                            items: {
+                                type: 'object',
+                                properties: {
+                                    adults: { type: 'integer', minimum: 1 },
+                                    childAges: { type: 'array', items: { type: 'integer', minimum: 0, maximum: 17 } },
+                                },
+                                required: ['adults']
+                            }
+                        },
                         priceBucket: { type: 'string', enum: ['budget_conscious','optimal','go_crazy'] },
                         activities: { type: 'array', items: { type: 'string' } },
                         includeCommonAttractions: { type: 'boolean', description: 'Auto-add top purchasable attractions and return the rest as suggestions' },
                         startDate: { type: 'string', format: 'date-time', description: 'Optional start date (ISO, UTC). Pass to regenerate package for a different travel date. Defaults to now + 3 days. Must not be in the past.' },
+                        optimizeRoute: {
+                            description: 'Reorder stops for the least total distance or driving time. `true` uses distance with Srinagar pinned first when present.',
+                            oneOf: [
+                                { type: 'boolean' },
+                                {
+                                    type: 'object',
+                                    properties: {
+                                        metric: { type: 'string', enum: ['distance', 'duration'], default: 'distance' },
+                                        startDestinationId: { type: 'string', format: 'uuid', description: 'Pinned first stop (defaults to Srinagar when present)' },
+                                        endDestinationId: { type: 'string', format: 'uuid', description: 'Pinned last stop' },
+                                    }
+                                }
+                            ]
+                        },
+                        maxTotalBudget: { type: 'number', minimum: 0, example: 25000, description: 'Fit the whole trip under this amount (INR)' },
+                        maxPerPersonBudget: { type: 'number', minimum: 0, example: 12500, description: 'Per-person limit; the lower of the two limits wins when both are set' },
+                        enforceAcclimatization: { type: 'boolean', description: 'Reorder stops and add rest nights so sleeping altitude follows the acclimatization guidelines (see meta.acclimatization)' },
                     },
-                    required: ['destinationIds', 'people', 'priceBucket']
+                    required: ['priceBucket']
                 },
                 BookingHistoryItem: {
                     type: 'object',
@@ -104,6 +154,25 @@ const options: swaggerJSDoc.Options = {
                                 },
                                 required: ['dayIndex']
                             }
+                        },
+                        dayOperations: {
+                            type: 'array',
+                            description: 'Structural edits applied in order; indexes refer to the itinerary left by the previous operation',
+                            items: {
+                                type: 'object',
+                                properties: {
+                                    type: { type: 'string', enum: ['insert', 'remove', 'move', 'change_destination'] },
+                                    dayIndex: { type: 'integer', description: 'Day to remove or re-target, or the position of an inserted day' },
+                                    fromIndex: { type: 'integer', description: 'move: current position of the day' },
+                                    toIndex: { type: 'integer', description: 'move: new position of the day' },
+                                    destinationId: { type: 'string', format: 'uuid', description: 'insert / change_destination: destination of the day' }
+                                },
+                                required: ['type']
+                            },
+                            example: [
+                                { type: 'insert', dayIndex: 2, destinationId: '550e8400-e29b-41d4-a716-446655440001' },
+                                { type: 'move', fromIndex: 4, toIndex: 1 }
+                            ]
                         }
                     }
                 },
@@ -115,9 +184,44 @@ const options: swaggerJSDoc.Options = {
                         distanceKm: { type: 'number', nullable: true },
                         durationMinutes: { type: 'integer', nullable: true },
                         cabCost: { type: 'number', nullable: true, description: 'Transport cost for this leg' },
+                        date: { type: 'string', format: 'date', description: 'Travel date of the leg' },
+                        viaDestinationIds: {
+                            type: 'array',
+                            items: { type: 'string', format: 'uuid' },
+                            description: 'Destinations the leg is rerouted through because the direct road is closed on its date',
+                        },
+                        notices: { type: 'array', items: { $ref: '#/components/schemas/RouteNotice' } },
                     },
                     required: ['originId', 'destinationId']
                 },
+                RouteClosure: {
+                    type: 'object',
+                    properties: {
+                        id: { type: 'string', format: 'uuid' },
+                        originId: { type: 'string', format: 'uuid' },
+                        destinationId: { type: 'string', format: 'uuid' },
+                        kind: { type: 'string', enum: ['closure', 'advisory'], description: 'closure: the road cannot be used; advisory: open with a caution' },
+                        startsOn: { type: 'string', format: 'date' },
+                        endsOn: { type: 'string', format: 'date', description: 'Last affected date (inclusive)' },
+                        bidirectional: { type: 'boolean', description: 'Also applies from destinationId to originId' },
+                        reason: { type: 'string', example: 'Zojila pass closed for winter' },
+                        createdBy: { type: 'string', format: 'uuid', nullable: true },
+                        createdAt: { type: 'string', format: 'date-time' },
+                        updatedAt: { type: 'string', format: 'date-time' },
+                    },
+                },
+                RouteNotice: {
+                    type: 'object',
+                    properties: {
+                        closureId: { type: 'string', format: 'uuid' },
+                        kind: { type: 'string', enum: ['closure', 'advisory'] },
+                        originId: { type: 'string', format: 'uuid' },
+                        destinationId: { type: 'string', format: 'uuid' },
+                        reason: { type: 'string' },
+                        startsOn: { type: 'string', format: 'date' },
+                        endsOn: { type: 'string', format: 'date' },
+                    },
+                },
                 ActivityWithPrice: {
                     type: 'object',
                     properties: {
@@ -140,6 +244,7 @@ const options: swaggerJSDoc.Options = {
                         checkInDate: { type: 'string', format: 'date', nullable: true },
                         checkOutDate: { type: 'string', format: 'date', nullable: true },
                         roomQuantity: { type: 'integer', nullable: true },
+                        nights: { type: 'integer', nullable: true, description: 'Nights covered by the stay; price is the per-night share' },
                         hotelId: { type: 'string', nullable: true, description: 'Amadeus hotel ID' },
                         distanceKm: { type: 'number', nullable: true, description: 'Distance from destination center in km' },
                         latitude: { type: 'number', nullable: true },
@@ -169,6 +274,8 @@ const options: swaggerJSDoc.Options = {
                         destinationId: { type: 'string', format: 'uuid' },
                         destinationName: { type: 'string', description: 'Name of the destination' },
                         destinationAltitudeM: { type: 'number', nullable: true, description: 'Altitude in meters above sea level' },
+                        stopIndex: { type: 'integer', nullable: true, description: 'Index of the stop this day belongs to' },
+                        nightOfStay: { type: 'integer', nullable: true, description: '1-based night within the stop' },
                         activities: { type: 'array', items: { $ref: '#/components/schemas/ActivityWithPrice' }, description: 'Activities for this day' },
                         activitiesCost: { type: 'number', nullable: true, description: 'Total cost of activities for this day' },
                         hotel: { $ref: '#/components/schemas/HotelOption', nullable: true, description: 'Selected hotel for this day' },
@@ -177,9 +284,45 @@ const options: swaggerJSDoc.Options = {
                         transportCost: { type: 'number', nullable: true, description: 'Daily local transport cost' },
                         legTransportCost: { type: 'number', nullable: true, description: 'Transport cost for leg to this destination' },
                         weather: { type: 'object', nullable: true, description: 'Daily weather forecast (null if outside 5-day window)' },
+                        schedule: { $ref: '#/components/schemas/DaySchedule' },
                     },
                     required: ['date', 'title', 'destinationId', 'destinationName', 'activities']
                 },
+                ScheduleSlot: {
+                    type: 'object',
+                    properties: {
+                        kind: { type: 'string', enum: ['travel', 'activity', 'lunch', 'dinner'] },
+                        start: { type: 'string', example: '09:30', description: 'Local time (IST), HH:mm' },
+                        end: { type: 'string', example: '11:30' },
+                        title: { type: 'string', example: 'Lunch at Ahdoos' },
+                        poiId: { type: 'string', format: 'uuid', nullable: true },
+                        restaurantId: { type: 'string', format: 'uuid', nullable: true },
+                    },
+                    required: ['kind', 'start', 'end', 'title']
+                },
+                DaySchedule: {
+                    type: 'object',
+                    description: 'Timed plan for the day built from opening hours, drive time, activity durations and daylight',
+                    properties: {
+                        weekday: { type: 'string', enum: ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'] },
+                        sunrise: { type: 'string', nullable: true, example: '06:12', description: 'From the forecast; null outside the forecast window' },
+                        sunset: { type: 'string', nullable: true, example: '18:41' },
+                        slots: { type: 'array', items: { $ref: '#/components/schemas/ScheduleSlot' } },
+                        warnings: {
+                            type: 'array',
+                            items: {
+                                type: 'object',
+                                properties: {
+                                    code: { type: 'string', enum: ['venue_closed', 'outside_opening_hours', 'after_sunset', 'no_open_restaurant', 'day_overrun'] },
+                                    message: { type: 'string' },
+                                    poiId: { type: 'string', format: 'uuid', nullable: true },
+                                    restaurantId: { type: 'string', format: 'uuid', nullable: true },
+                                },
+                            },
+                        },
+                    },
+                    required: ['weekday', 'slots', 'warnings']
+                },
                 AvailableCab: {
                     type: 'object',
                     properties: {
@@ -199,14 +342,17 @@ const options: swaggerJSDoc.Options = {
                         title: { type: 'string', description: 'Package title (e.g., "Srinagar • Gulmarg Getaway")' },
                         startDate: { type: 'string', format: 'date-time', description: 'Package start date (ISO UTC)' },
                         people: { type: 'integer', minimum: 1, description: 'Number of travelers' },
+                        travellers: { type: 'object', properties: { adults: { type: 'integer' }, childAges: { type: 'array', items: { type: 'integer' } } } },
+                        rooms: { type: 'array', items: { type: 'object', properties: { adults: { type: 'integer' }, childAges: { type: 'array', items: { type: 'integer' } } } }, description: 'Room plan used for hotel pricing' },
                         cabType: { type: 'string', enum: ['hatchback','sedan','suv','tempo'], description: 'Recommended cab type based on group size' },
                         totalBasePrice: { type: 'number', description: 'Total package price in currency units' },
-                        perPersonPrice: { type: 'number', description: 'Price per person' },
+                        perPersonPrice: { type: 'number', description: 'Price per paying traveller (infants excluded)' },
                         days: { type: 'array', items: { $ref: '#/components/schemas/DayPlan' }, description: 'Day-by-day itinerary' },
                         legs: { type: 'array', items: { $ref: '#/components/schemas/PackageLeg' }, description: 'Transport legs between destinations' },
                         currency: { type: 'string', example: 'INR', description: 'Currency code' },
                         cabSelection: { $ref: '#/components/schemas/CabSelection', nullable: true, description: 'Selected cab details' },
                         optionalAttractions: { type: 'array', items: { $ref: '#/components/schemas/OptionalAttraction' }, nullable: true, description: 'Additional optional attractions' },
+                        quoteValidUntil: { type: 'string', format: 'date-time', description: 'Prices are honoured until this time; booking later re-prices hotels and cabs' },
                         breakdown: {
                             type: 'object',
                             properties: {
@@ -218,6 +364,7 @@ const options: swaggerJSDoc.Options = {
                             description: 'Cost breakdown by category'
                         },
                         is_public: { type: 'boolean', description: 'Visibility status of the package' },
+                        fulfilmentStatus: { type: 'string', enum: ['pending', 'in_progress', 'fulfilled', 'failed', 'cancelled'], nullable: true, description: 'Progress of reserving hotels, cabs and tickets once booked' },
                         stats: {
                             type: 'object',
                             properties: {
@@ -240,6 +387,101 @@ const options: swaggerJSDoc.Options = {
                                         required: ['date', 'destinationId', 'reason']
                                     },
                                     description: 'Days where weather is null and the reason (typically outside 5-day forecast window)'
+                                },
+                                routeOptimization: {
+                                    type: 'object',
+                                    nullable: true,
+                                    description: 'Present when optimizeRoute was requested; compares the requested and optimized order',
+                                    properties: {
+                                        metric: { type: 'string', enum: ['distance', 'duration'] },
+                                        reordered: { type: 'boolean' },
+                                        originalOrder: { type: 'array', items: { type: 'string', format: 'uuid' } },
+                                        optimizedOrder: { type: 'array', items: { type: 'string', format: 'uuid' } },
+                                        originalTotalKm: { type: 'number' },
+                                        optimizedTotalKm: { type: 'number' },
+                                        originalTotalMinutes: { type: 'number' },
+                                        optimizedTotalMinutes: { type: 'number' },
+                                    }
+                                },
+                                timings: {
+                                    type: 'object',
+                                    description: 'Per-stage generation timings (destinations, reference, hotels, weather, assemble, budget, schedule)',
+                                    properties: {
+                                        stages: { type: 'array', items: { type: 'object', properties: { stage: { type: 'string' }, ms: { type: 'integer' } } } },
+                                        totalMs: { type: 'integer' },
+                                        concurrency: { type: 'integer', description: 'Hotel/weather lookups allowed in flight at once' },
+                                    }
+                                },
+                                acclimatization: {
+                                    type: 'object',
+                                    description: 'Sleeping-altitude check of the itinerary',
+                                    properties: {
+                                        guidelines: {
+                                            type: 'object',
+                                            properties: {
+                                                thresholdM: { type: 'integer', example: 3000, description: 'Gains count above this altitude' },
+                                                maxDailyGainM: { type: 'integer', example: 500 },
+                                                restDayEveryM: { type: 'integer', example: 1000, description: 'A night at the same or a lower altitude is needed per this much gain' },
+                                            }
+                                        },
+                                        enforced: { type: 'boolean', description: 'enforceAcclimatization was requested' },
+                                        warnings: {
+                                            type: 'array',
+                                            items: {
+                                                type: 'object',
+                                                properties: {
+                                                    rule: { type: 'string', enum: ['excessive_gain', 'rest_day_needed'] },
+                                                    dayIndex: { type: 'integer' },
+                                                    date: { type: 'string', format: 'date' },
+                                                    stopIndex: { type: 'integer' },
+                                                    destinationId: { type: 'string', format: 'uuid' },
+                                                    altitudeM: { type: 'integer' },
+                                                    gainM: { type: 'integer' },
+                                                    message: { type: 'string' },
+                                                }
+                                            }
+                                        },
+                                        adjustments: {
+                                            type: 'array',
+                                            items: {
+                                                type: 'object',
+                                                properties: {
+                                                    type: { type: 'string', enum: ['reorder', 'rest_day'] },
+                                                    message: { type: 'string' },
+                                                    destinationId: { type: 'string', format: 'uuid', nullable: true },
+                                                    order: { type: 'array', items: { type: 'string', format: 'uuid' }, nullable: true },
+                                                }
+                                            }
+                                        },
+                                    }
+                                },
+                                budget: {
+                                    type: 'object',
+                                    nullable: true,
+                                    description: 'Present when maxTotalBudget or maxPerPersonBudget was requested',
+                                    properties: {
+                                        maxTotal: { type: 'number', description: 'Effective limit for the whole group' },
+                                        originalTotal: { type: 'number' },
+                                        fittedTotal: { type: 'number' },
+                                        withinBudget: { type: 'boolean' },
+                                        shortfall: { type: 'number', description: 'Amount over the limit after all adjustments; 0 when it fits' },
+                                        minimumAchievableTotal: { type: 'number', description: 'Only when the budget cannot be met' },
+                                        minimumAchievablePerPerson: { type: 'number' },
+                                        adjustments: {
+                                            type: 'array',
+                                            items: {
+                                                type: 'object',
+                                                properties: {
+                                                    type: { type: 'string', enum: ['hotel', 'cab', 'attraction_removed'] },
+                                                    stopIndex: { type: 'integer' },
+                                                    destinationId: { type: 'string', format: 'uuid' },
+                                                    from: { type: 'string' },
+                                                    to: { type: 'string' },
+                                                    saving: { type: 'number' },
+                                                }
+                                            }
+                                        },
+                                    }
                                 }
                             },
                             nullable: true
@@ -247,6 +489,648 @@ const options: swaggerJSDoc.Options = {
                     },
                     required: ['title','startDate','people','cabType','totalBasePrice','perPersonPrice','days','legs','currency']
                 },
+                PackagePriceChange: {
+                    type: 'object',
+                    description: 'Re-quote of an expired package price: old vs new per breakdown component',
+                    properties: {
+                        requoteId: { type: 'string', format: 'uuid' },
+                        packageId: { type: 'string', format: 'uuid' },
+                        currency: { type: 'string', example: 'INR' },
+                        previousQuoteValidUntil: { type: 'string', format: 'date-time', nullable: true },
+                        oldTotal: { type: 'number', example: 15000 },
+                        newTotal: { type: 'number', example: 16240 },
+                        difference: { type: 'number', example: 1240 },
+                        components: {
+                            type: 'array',
+                            items: {
+                                type: 'object',
+                                properties: {
+                                    component: { type: 'string', enum: ['accommodation','transport','activities','cab'] },
+                                    oldAmount: { type: 'number' },
+                                    newAmount: { type: 'number' },
+                                    difference: { type: 'number' }
+                                }
+                            }
+                        },
+                        hotels: {
+                            type: 'array',
+                            items: {
+                                type: 'object',
+                                properties: {
+                                    stopIndex: { type: 'integer' },
+                                    destinationId: { type: 'string', format: 'uuid' },
+                                    oldHotelId: { type: 'string' },
+                                    newHotelId: { type: 'string' },
+                                    oldStayPrice: { type: 'number' },
+                                    newStayPrice: { type: 'number' },
+                                    available: { type: 'boolean', description: 'false when no offer was found and the old price was kept' }
+                                }
+                            }
+                        },
+                        cab: {
+                            type: 'object',
+                            properties: {
+                                oldRatePerKm: { type: 'number' },
+                                newRatePerKm: { type: 'number' },
+                                cabId: { type: 'string', format: 'uuid' }
+                            }
+                        },
+                        computedAt: { type: 'string', format: 'date-time' },
+                        acceptBefore: { type: 'string', format: 'date-time' }
+                    }
+                },
+                PackageGenerationJob: {
+                    type: 'object',
+                    properties: {
+                        jobId: { type: 'string', format: 'uuid' },
+                        status: { type: 'string', enum: ['queued','running','completed','failed'] },
+                        progress: { type: 'integer', minimum: 0, maximum: 100 },
+                        events: {
+                            type: 'array',
+                            items: {
+                                type: 'object',
+                                properties: {
+                                    stage: { type: 'string', enum: ['destinations','reference','hotels','weather','assemble','budget','saved'] },
+                                    message: { type: 'string', example: 'Hotels for day 2 found' },
+                                    progress: { type: 'integer' },
+                                    at: { type: 'string', format: 'date-time' },
+                                    data: { type: 'object' }
+                                }
+                            }
+                        },
+                        partial: {
+                            type: 'object',
+                            properties: {
+                                title: { type: 'string' },
+                                order: { type: 'array', items: { type: 'string', format: 'uuid' } },
+                                hotels: {
+                                    type: 'array',
+                                    items: {
+                                        type: 'object',
+                                        properties: {
+                                            stopIndex: { type: 'integer' },
+                                            dayIndexes: { type: 'array', items: { type: 'integer' } },
+                                            hotel: { type: 'object', nullable: true }
+                                        }
+                                    }
+                                },
+                                weatherAttached: { type: 'boolean' }
+                            }
+                        },
+                        packageId: { type: 'string', format: 'uuid' },
+                        result: { $ref: '#/components/schemas/PackageGenerationResult' },
+                        error: { type: 'string' },
+                        createdAt: { type: 'string', format: 'date-time' },
+                        updatedAt: { type: 'string', format: 'date-time' },
+                        completedAt: { type: 'string', format: 'date-time' }
+                    }
+                },
+                PackageComparison: {
+                    type: 'object',
+                    description: 'Side-by-side comparison; differences are relative to the first option',
+                    properties: {
+                        mode: { type: 'string', enum: ['buckets','packages'] },
+                        currency: { type: 'string', example: 'INR' },
+                        options: {
+                            type: 'array',
+                            items: {
+                                type: 'object',
+                                properties: {
+                                    key: { type: 'string', description: 'Price bucket or package id' },
+                                    priceBucket: { type: 'string', enum: ['budget_conscious','optimal','go_crazy'] },
+                                    packageId: { type: 'string', format: 'uuid' },
+                                    title: { type: 'string' },
+                                    startDate: { type: 'string', format: 'date-time' },
+                                    people: { type: 'integer' },
+                                    cabType: { type: 'string' },
+                                    currency: { type: 'string' },
+                                    totalBasePrice: { type: 'number' },
+                                    perPersonPrice: { type: 'number' },
+                                    breakdown: {
+                                        type: 'object',
+                                        properties: {
+                                            accommodation: { type: 'number' },
+                                            transport: { type: 'number' },
+                                            activities: { type: 'number' },
+                                            cab: { type: 'number' }
+                                        }
+                                    }
+                                }
+                            }
+                        },
+                        components: {
+                            type: 'array',
+                            items: {
+                                type: 'object',
+                                properties: {
+                                    component: { type: 'string', enum: ['accommodation','activities','cab','transport','perPersonPrice','totalBasePrice'] },
+                                    values: { type: 'array', items: { type: 'number' } },
+                                    differences: { type: 'array', items: { type: 'number' } },
+                                    cheapestKey: { type: 'string' }
+                                }
+                            }
+                        },
+                        days: {
+                            type: 'array',
+                            items: {
+                                type: 'object',
+                                properties: {
+                                    dayIndex: { type: 'integer' },
+                                    cells: {
+                                        type: 'array',
+                                        items: {
+                                            type: 'object',
+                                            nullable: true,
+                                            properties: {
+                                                date: { type: 'string', format: 'date-time' },
+                                                destinationId: { type: 'string', format: 'uuid' },
+                                                destinationName: { type: 'string' },
+                                                hotelName: { type: 'string' },
+                                                hotelPrice: { type: 'number' },
+                                                activities: { type: 'array', items: { type: 'string' } },
+                                                activitiesCost: { type: 'number' },
+                                                transportCost: { type: 'number' }
+                                            }
+                                        }
+                                    },
+                                    differences: {
+                                        type: 'array',
+                                        items: {
+                                            type: 'object',
+                                            nullable: true,
+                                            properties: {
+                                                hotelPrice: { type: 'number' },
+                                                activitiesCost: { type: 'number' },
+                                                transportCost: { type: 'number' }
+                                            }
+                                        }
+                                    }
+                                }
+                            }
+                        }
+                    }
+                },
+                PackageStatusHistoryItem: {
+                    type: 'object',
+                    properties: {
+                        id: { type: 'string', format: 'uuid' },
+                        packageId: { type: 'string', format: 'uuid' },
+                        fromStatus: { type: 'string', nullable: true, enum: ['generated','awaiting_auth','awaiting_verification','pending_kyc','awaiting_payment','booked','payment_overdue','cancelled'] },
+                        toStatus: { type: 'string', enum: ['generated','awaiting_auth','awaiting_verification','pending_kyc','awaiting_payment','booked','payment_overdue','cancelled'] },
+                        actorId: { type: 'string', format: 'uuid', nullable: true },
+                        actorType: { type: 'string', enum: ['user','system','admin'] },
+                        reason: { type: 'string', nullable: true },
+                        metadata: { type: 'object' },
+                        createdAt: { type: 'string', format: 'date-time' }
+                    },
+                    required: ['id','packageId','toStatus','actorType','createdAt']
+                },
+                FulfilmentItem: {
+                    type: 'object',
+                    properties: {
+                        id: { type: 'string', format: 'uuid' },
+                        packageId: { type: 'string', format: 'uuid' },
+                        kind: { type: 'string', enum: ['hotel_night', 'cab_leg', 'activity', 'restaurant_reservation'] },
+                        dayIndex: { type: 'integer', nullable: true },
+                        serviceDate: { type: 'string', format: 'date' },
+                        description: { type: 'string' },
+                        details: { type: 'object', description: 'hotelId, cabId, poiId, restaurantId, ... depending on kind' },
+                        amount: { type: 'number', nullable: true },
+                        currency: { type: 'string' },
+                        status: { type: 'string', enum: ['pending', 'confirmed', 'failed'] },
+                        confirmationRef: { type: 'string', nullable: true },
+                        failureReason: { type: 'string', nullable: true },
+                        note: { type: 'string', nullable: true },
+                        updatedBy: { type: 'string', format: 'uuid', nullable: true },
+                        createdAt: { type: 'string', format: 'date-time' },
+                        updatedAt: { type: 'string', format: 'date-time' }
+                    }
+                },
+                FulfilmentQueueItem: {
+                    allOf: [
+                        { $ref: '#/components/schemas/FulfilmentItem' },
+                        {
+                            type: 'object',
+                            properties: {
+                                packageTitle: { type: 'string' },
+                                packageStartDate: { type: 'string', format: 'date-time' }
+                            }
+                        }
+                    ]
+                },
+                PackageFulfilment: {
+                    type: 'object',
+                    properties: {
+                        packageId: { type: 'string', format: 'uuid' },
+                        status: { type: 'string', enum: ['pending', 'in_progress', 'fulfilled', 'failed', 'cancelled'], nullable: true },
+                        counts: {
+                            type: 'object',
+                            properties: {
+                                pending: { type: 'integer' },
+                                confirmed: { type: 'integer' },
+                                failed: { type: 'integer' }
+                            }
+                        },
+                        items: { type: 'array', items: { $ref: '#/components/schemas/FulfilmentItem' } }
+                    }
+                },
+                WeatherAlert: {
+                    type: 'object',
+                    properties: {
+                        id: { type: 'string', format: 'uuid' },
+                        packageId: { type: 'string', format: 'uuid' },
+                        dayIndex: { type: 'integer' },
+                        date: { type: 'string', format: 'date' },
+                        destinationId: { type: 'string', format: 'uuid' },
+                        rule: { type: 'string', enum: ['heavy_precipitation', 'high_wind', 'low_visibility'] },
+                        severity: { type: 'string', enum: ['warning', 'severe'] },
+                        message: { type: 'string', example: 'Gulmarg, 2026-10-21: winds up to 16 m/s at 2650 m; cable cars and high-altitude outings may be suspended' },
+                        forecast: { type: 'object', additionalProperties: { type: 'number', nullable: true }, description: 'The forecast values the rule tripped on' },
+                        suggestions: {
+                            type: 'array',
+                            items: {
+                                type: 'object',
+                                properties: {
+                                    type: { type: 'string', enum: ['swap_days', 'replace_activity'] },
+                                    dayIndex: { type: 'integer' },
+                                    withDayIndex: { type: 'integer', nullable: true, description: 'swap_days only' },
+                                    poiId: { type: 'string', format: 'uuid', nullable: true, description: 'replace_activity only: the outdoor activity' },
+                                    replacementPoiId: { type: 'string', format: 'uuid', nullable: true },
+                                    replacementName: { type: 'string', nullable: true },
+                                    message: { type: 'string' },
+                                    dayOperations: { type: 'array', items: { type: 'object' }, nullable: true, description: 'swap_days: send as `dayOperations` to PATCH /packages/{packageId}' },
+                                    dayConfiguration: { type: 'object', nullable: true, description: 'replace_activity: send inside `dayConfigurations` to PATCH /packages/{packageId}' },
+                                },
+                            },
+                        },
+                        status: { type: 'string', enum: ['active', 'resolved'] },
+                        firstDetectedAt: { type: 'string', format: 'date-time' },
+                        lastEvaluatedAt: { type: 'string', format: 'date-time' },
+                        resolvedAt: { type: 'string', format: 'date-time', nullable: true },
+                    },
+                },
+                PackageTravellerInput: {
+                    type: 'object',
+                    required: ['fullName', 'age', 'gender'],
+                    properties: {
+                        fullName: { type: 'string', example: 'Aisha Khan' },
+                        age: { type: 'integer', minimum: 0, maximum: 120, description: 'Age at the start of the trip' },
+                        gender: { type: 'string', enum: ['male', 'female', 'other'] },
+                        documentId: { type: 'string', format: 'uuid', nullable: true, description: 'user_documents entry with the ID proof' }
+                    }
+                },
+                PackageTraveller: {
+                    type: 'object',
+                    properties: {
+                        travellerId: { type: 'string', format: 'uuid' },
+                        packageId: { type: 'string', format: 'uuid' },
+                        fullName: { type: 'string' },
+                        age: { type: 'integer' },
+                        gender: { type: 'string', enum: ['male', 'female', 'other'] },
+                        documentId: { type: 'string', format: 'uuid', nullable: true },
+                        documentStatus: { type: 'string', enum: ['pending', 'under_review', 'verified', 'rejected'], nullable: true },
+                        createdBy: { type: 'string', format: 'uuid', nullable: true },
+                        createdAt: { type: 'string', format: 'date-time' },
+                        updatedAt: { type: 'string', format: 'date-time' }
+                    }
+                },
+                TravellerManifest: {
+                    type: 'object',
+                    properties: {
+                        packageId: { type: 'string', format: 'uuid' },
+                        required: { type: 'integer', description: 'Number of travellers on the package (people)' },
+                        travellers: { type: 'array', items: { $ref: '#/components/schemas/PackageTraveller' } },
+                        complete: { type: 'boolean' },
+                        issues: { type: 'array', items: { type: 'string' }, description: 'What still blocks booking' }
+                    }
+                },
+                PackageMember: {
+                    type: 'object',
+                    properties: {
+                        memberId: { type: 'string', format: 'uuid' },
+                        packageId: { type: 'string', format: 'uuid' },
+                        userId: { type: 'string', format: 'uuid', nullable: true, description: 'Set once the invitation is accepted' },
+                        invitedEmail: { type: 'string', nullable: true },
+                        invitedPhone: { type: 'string', nullable: true, description: 'Digits only' },
+                        role: { type: 'string', enum: ['editor', 'viewer'] },
+                        status: { type: 'string', enum: ['pending', 'accepted', 'declined'] },
+                        invitedBy: { type: 'string', format: 'uuid', nullable: true },
+                        createdAt: { type: 'string', format: 'date-time' },
+                        respondedAt: { type: 'string', format: 'date-time', nullable: true }
+                    }
+                },
+                PackageProposal: {
+                    type: 'object',
+                    properties: {
+                        proposalId: { type: 'string', format: 'uuid' },
+                        packageId: { type: 'string', format: 'uuid' },
+                        proposedBy: { type: 'string', format: 'uuid', nullable: true },
+                        change: { type: 'object', description: 'cabId, dayConfigurations and/or dayOperations, as in PATCH /packages/{packageId}' },
+                        note: { type: 'string', nullable: true },
+                        baseRevision: { type: 'integer', nullable: true, description: 'Package revision the proposal was made against' },
+                        status: { type: 'string', enum: ['pending', 'approved', 'rejected', 'withdrawn'] },
+                        decidedBy: { type: 'string', format: 'uuid', nullable: true },
+                        decidedAt: { type: 'string', format: 'date-time', nullable: true },
+                        createdAt: { type: 'string', format: 'date-time' }
+                    }
+                },
+                AttractionVoteTally: {
+                    type: 'object',
+                    properties: {
+                        poiId: { type: 'string', format: 'uuid' },
+                        name: { type: 'string' },
+                        price: { type: 'number' },
+                        up: { type: 'integer' },
+                        down: { type: 'integer' },
+                        myVote: { type: 'integer', enum: [1, -1], nullable: true }
+                    }
+                },
+                PackageShareLink: {
+                    type: 'object',
+                    properties: {
+                        shareId: { type: 'string', format: 'uuid' },
+                        packageId: { type: 'string', format: 'uuid' },
+                        hidePrices: { type: 'boolean' },
+                        expiresAt: { type: 'string', format: 'date-time' },
+                        revokedAt: { type: 'string', format: 'date-time', nullable: true },
+                        viewCount: { type: 'integer' },
+                        lastViewedAt: { type: 'string', format: 'date-time', nullable: true },
+                        createdAt: { type: 'string', format: 'date-time' }
+                    }
+                },
+                SharedPackageView: {
+                    type: 'object',
+                    properties: {
+                        share: {
+                            type: 'object',
+                            properties: {
+                                hidePrices: { type: 'boolean' },
+                                expiresAt: { type: 'string', format: 'date-time' },
+                                viewCount: { type: 'integer' }
+                            }
+                        },
+                        package: {
+                            type: 'object',
+                            description: 'Package without ids; amounts (totals, breakdown, hotel, activity and leg prices) are omitted when hidePrices is set',
+                            properties: {
+                                title: { type: 'string' },
+                                startDate: { type: 'string', format: 'date-time' },
+                                people: { type: 'integer' },
+                                cabType: { type: 'string' },
+                                currency: { type: 'string' },
+                                days: { type: 'array', items: { type: 'object' } },
+                                legs: { type: 'array', items: { type: 'object' } },
+                                totalBasePrice: { type: 'number' },
+                                perPersonPrice: { type: 'number' },
+                                breakdown: { type: 'object' }
+                            }
+                        }
+                    }
+                },
+                PublicPackageCard: {
+                    type: 'object',
+                    properties: {
+                        packageId: { type: 'string', format: 'uuid' },
+                        title: { type: 'string' },
+                        startDate: { type: 'string', format: 'date-time' },
+                        endDate: { type: 'string', format: 'date-time' },
+                        days: { type: 'integer' },
+                        people: { type: 'integer' },
+                        priceBucket: { type: 'string', enum: ['budget_conscious', 'optimal', 'go_crazy'] },
+                        totalBasePrice: { type: 'number' },
+                        perPersonPrice: { type: 'number' },
+                        currency: { type: 'string', example: 'INR' },
+                        destinationIds: { type: 'array', items: { type: 'string', format: 'uuid' } },
+                        destinationImage: { type: 'string', nullable: true },
+                        booked: { type: 'boolean' },
+                        stats: {
+                            type: 'object',
+                            properties: {
+                                clonedCount: { type: 'integer' },
+                                bookedCloneCount: { type: 'integer' },
+                                isPopular: { type: 'boolean' },
+                                trendingScore: { type: 'number' }
+                            }
+                        }
+                    }
+                },
+                PublicPackagePage: {
+                    type: 'object',
+                    properties: {
+                        items: { type: 'array', items: { $ref: '#/components/schemas/PublicPackageCard' } },
+                        nextCursor: { type: 'string', nullable: true, description: 'Pass as `cursor` for the next page; null on the last page' }
+                    },
+                    required: ['items', 'nextCursor']
+                },
+                PackageRevision: {
+                    type: 'object',
+                    properties: {
+                        revision: { type: 'integer', example: 3 },
+                        packageId: { type: 'string', format: 'uuid' },
+                        reason: { type: 'string', enum: ['generated','baseline','configuration','restore','requote'] },
+                        createdBy: { type: 'string', format: 'uuid', nullable: true },
+                        change: { type: 'object', nullable: true, description: 'PATCH body that produced the revision, or { restoredFrom } for restores' },
+                        totalBasePrice: { type: 'number' },
+                        createdAt: { type: 'string', format: 'date-time' },
+                        snapshot: { allOf: [{ $ref: '#/components/schemas/PackageGenerationResult' }], description: 'Only on GET /packages/{packageId}/revisions/{revision}; includes the stored `request`' }
+                    },
+                    required: ['revision','packageId','reason','totalBasePrice','createdAt']
+                },
+                PackageRevisionDiff: {
+                    type: 'object',
+                    properties: {
+                        packageId: { type: 'string', format: 'uuid' },
+                        from: { type: 'integer' },
+                        to: { type: 'integer' },
+                        fields: {
+                            type: 'array',
+                            description: 'Package-level values that changed (title, startDate, people, cabType, cabId, totals, is_public)',
+                            items: {
+                                type: 'object',
+                                properties: { field: { type: 'string' }, from: {}, to: {} }
+                            }
+                        },
+                        breakdown: {
+                            type: 'array',
+                            items: {
+                                type: 'object',
+                                properties: {
+                                    component: { type: 'string', enum: ['accommodation','transport','activities','cab'] },
+                                    from: { type: 'number' },
+                                    to: { type: 'number' },
+                                    difference: { type: 'number' }
+                                }
+                            }
+                        },
+                        days: {
+                            type: 'array',
+                            description: 'Changed days aligned by index',
+                            items: {
+                                type: 'object',
+                                properties: {
+                                    dayIndex: { type: 'integer' },
+                                    status: { type: 'string', enum: ['added','removed','changed'] },
+                                    date: { type: 'object', properties: { from: { type: 'string', nullable: true }, to: { type: 'string', nullable: true } } },
+                                    destination: { type: 'object', properties: { from: { type: 'object', nullable: true }, to: { type: 'object', nullable: true } } },
+                                    hotel: {
+                                        type: 'object',
+                                        description: 'Hotel refs are { hotelId, name, price } with price per night',
+                                        properties: { from: { type: 'object', nullable: true }, to: { type: 'object', nullable: true } }
+                                    },
+                                    activitiesAdded: { type: 'array', items: { type: 'object', properties: { poiId: { type: 'string' }, name: { type: 'string' } } } },
+                                    activitiesRemoved: { type: 'array', items: { type: 'object', properties: { poiId: { type: 'string' }, name: { type: 'string' } } } },
+                                    activitiesCost: { type: 'object', properties: { from: { type: 'number' }, to: { type: 'number' } } },
+                                    transportCost: { type: 'object', properties: { from: { type: 'number' }, to: { type: 'number' } } }
+                                }
+                            }
+                        }
+                    },
+                    required: ['packageId','from','to','fields','breakdown','days']
+                },
+                CancellationQuote: {
+                    type: 'object',
+                    properties: {
+                        packageId: { type: 'string', format: 'uuid' },
+                        bookingStatus: { type: 'string' },
+                        startDate: { type: 'string', format: 'date-time' },
+                        daysBeforeStart: { type: 'integer', description: 'Whole days between now and start_date (UTC)' },
+                        currency: { type: 'string', example: 'INR' },
+                        totalAmount: { type: 'number' },
+                        paidAmount: { type: 'number', description: 'Paid so far (ledger balance)' },
+                        policyRefundAmount: { type: 'number', description: 'Refund the tiers give on the full price' },
+                        refundAmount: { type: 'number', description: 'Refund for what was actually paid: paidAmount - nonRefundableAmount, at least 0' },
+                        nonRefundableAmount: { type: 'number', description: 'Part of the price the policy keeps' },
+                        components: {
+                            type: 'array',
+                            items: {
+                                type: 'object',
+                                properties: {
+                                    component: { type: 'string', enum: ['accommodation','transport','activities','cab'] },
+                                    amount: { type: 'number' },
+                                    refundPercent: { type: 'number' },
+                                    refundAmount: { type: 'number' },
+                                    tier: {
+                                        type: 'object',
+                                        nullable: true,
+                                        properties: {
+                                            minDaysBeforeStart: { type: 'integer' },
+                                            refundPercent: { type: 'number' }
+                                        }
+                                    }
+                                }
+                            }
+                        },
+                        quotedAt: { type: 'string', format: 'date-time' }
+                    },
+                    required: ['packageId','daysBeforeStart','currency','totalAmount','refundAmount','components']
+                },
+                PackageCancellation: {
+                    type: 'object',
+                    properties: {
+                        id: { type: 'string', format: 'uuid' },
+                        packageId: { type: 'string', format: 'uuid' },
+                        cancelledBy: { type: 'string', format: 'uuid', nullable: true },
+                        reason: { type: 'string', nullable: true },
+                        refundAmount: { type: 'number' },
+                        currency: { type: 'string' },
+                        refundStatus: { type: 'string', enum: ['pending','not_applicable','refunded','failed'] },
+                        providerRefundIds: { type: 'array', items: { type: 'string' } },
+                        quote: { $ref: '#/components/schemas/CancellationQuote' },
+                        createdAt: { type: 'string', format: 'date-time' }
+                    }
+                },
+                PaymentIntent: {
+                    type: 'object',
+                    properties: {
+                        id: { type: 'string', format: 'uuid' },
+                        packageId: { type: 'string', format: 'uuid' },
+                        userId: { type: 'string', format: 'uuid', nullable: true },
+                        instalmentId: { type: 'string', format: 'uuid', nullable: true },
+                        provider: { type: 'string', example: 'fake' },
+                        providerIntentId: { type: 'string' },
+                        amount: { type: 'number', example: 15000 },
+                        currency: { type: 'string', example: 'INR' },
+                        status: { type: 'string', enum: ['requires_payment','captured','failed','cancelled'] },
+                        clientSecret: { type: 'string', nullable: true, description: 'Pass to the payment provider SDK to complete the payment' },
+                        capturedAt: { type: 'string', format: 'date-time', nullable: true },
+                        createdAt: { type: 'string', format: 'date-time' }
+                    }
+                },
+                LedgerEntry: {
+                    type: 'object',
+                    properties: {
+                        id: { type: 'string', format: 'uuid' },
+                        packageId: { type: 'string', format: 'uuid' },
+                        paymentIntentId: { type: 'string', format: 'uuid', nullable: true },
+                        type: { type: 'string', enum: ['charge','refund','adjustment'] },
+                        amount: { type: 'number', description: 'Signed: charges positive, refunds negative' },
+                        currency: { type: 'string' },
+                        providerReference: { type: 'string', nullable: true },
+                        description: { type: 'string', nullable: true },
+                        createdBy: { type: 'string', format: 'uuid', nullable: true },
+                        createdAt: { type: 'string', format: 'date-time' }
+                    }
+                },
+                PaymentPlan: {
+                    type: 'object',
+                    properties: {
+                        depositPercent: { type: 'number', minimum: 10, maximum: 100, example: 30 },
+                        instalments: {
+                            type: 'array',
+                            maxItems: 4,
+                            items: {
+                                type: 'object',
+                                properties: {
+                                    percent: { type: 'number', example: 70 },
+                                    dueDaysBeforeStart: { type: 'integer', minimum: 0, example: 14 }
+                                },
+                                required: ['percent','dueDaysBeforeStart']
+                            }
+                        }
+                    },
+                    required: ['depositPercent','instalments']
+                },
+                PaymentInstalment: {
+                    type: 'object',
+                    properties: {
+                        id: { type: 'string', format: 'uuid' },
+                        packageId: { type: 'string', format: 'uuid' },
+                        sequence: { type: 'integer', description: '0 is the deposit' },
+                        label: { type: 'string', example: 'deposit' },
+                        percent: { type: 'number' },
+                        amount: { type: 'number' },
+                        currency: { type: 'string' },
+                        dueDate: { type: 'string', format: 'date' },
+                        status: { type: 'string', enum: ['pending','paid','overdue'] },
+                        paidAt: { type: 'string', format: 'date-time', nullable: true },
+                        paymentIntentId: { type: 'string', format: 'uuid', nullable: true }
+                    }
+                },
+                PaymentSchedule: {
+                    type: 'object',
+                    properties: {
+                        packageId: { type: 'string', format: 'uuid' },
+                        plan: { $ref: '#/components/schemas/PaymentPlan' },
+                        currency: { type: 'string' },
+                        totalAmount: { type: 'number' },
+                        paidAmount: { type: 'number' },
+                        outstandingAmount: { type: 'number' },
+                        instalments: { type: 'array', items: { $ref: '#/components/schemas/PaymentInstalment' } },
+                        nextDue: { allOf: [{ $ref: '#/components/schemas/PaymentInstalment' }], nullable: true }
+                    }
+                },
+                PackageLedger: {
+                    type: 'object',
+                    properties: {
+                        packageId: { type: 'string', format: 'uuid' },
+                        currency: { type: 'string' },
+                        entries: { type: 'array', items: { $ref: '#/components/schemas/LedgerEntry' } },
+                        charged: { type: 'number' },
+                        refunded: { type: 'number' },
+                        adjustments: { type: 'number' },
+                        balance: { type: 'number', description: 'Net amount held for the package' }
+                    }
+                },
                 CabSelection: {
                     type: 'object',
                     properties: {
@@ -1645,6 +2529,18 @@ const options: swaggerJSDoc.Options = {
                 name: 'Packages',
                 description: 'Travel package generation and recommendations',
             },
+            {
+                name: 'Package Collaboration',
+                description: 'Co-travellers, change proposals and votes on shared trips',
+            },
+            {
+                name: 'Payments',
+                description: 'Booking payments, provider webhooks and the package ledger',
+            },
+            {
+                name: 'Fulfilment',
+                description: 'Ops queue for reserving hotels, cabs, tickets and tables of booked packages',
+            },
             {
                 name: 'POIs',
                 description: 'Points of Interest management and operations',
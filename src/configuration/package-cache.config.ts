@@ -0,0 +1,44 @@
+import { InternalServerError } from '@hyperflake/http-errors';
+import { PackageCacheStore } from '../interfaces/package-cache.interface';
+import { PriceBucket } from '../interfaces/package.interface';
+import { MemoryPackageCacheStore } from '../services/memory-package-cache.store';
+import { PostgresPackageCacheStore } from '../services/postgres-package-cache.store';
+
+let store: PackageCacheStore | null = null;
+let ttlByBucket: Partial<Record<PriceBucket, number>> | null = null;
+
+/**
+ * Resolve the package cache selected by `PACKAGE_CACHE_DRIVER` (defaults to the in-memory cache)
+ */
+export const getPackageCacheStore = (): PackageCacheStore => {
+    if (store) return store;
+
+    const name = (process.env.PACKAGE_CACHE_DRIVER || 'memory').toLowerCase();
+    switch (name) {
+        case 'memory':
+            store = new MemoryPackageCacheStore();
+            break;
+        case 'postgres':
+            store = new PostgresPackageCacheStore();
+            break;
+        default:
+            throw new InternalServerError(`Unsupported package cache driver: ${name}`);
+    }
+    return store;
+};
+
+/**
+ * Cache lifetime for a price bucket: `PACKAGE_CACHE_TTL_BY_BUCKET` (JSON, ms per bucket) wins over `PACKAGE_CACHE_TTL_MS`
+ */
+export const getPackageCacheTtl = (bucket: PriceBucket): number => {
+    if (!ttlByBucket) {
+        try {
+            ttlByBucket = process.env.PACKAGE_CACHE_TTL_BY_BUCKET ? JSON.parse(process.env.PACKAGE_CACHE_TTL_BY_BUCKET) : {};
+        } catch {
+            console.warn('⚠️ PACKAGE_CACHE_TTL_BY_BUCKET is not valid JSON; using PACKAGE_CACHE_TTL_MS for every bucket.');
+            ttlByBucket = {};
+        }
+    }
+    const override = Number(ttlByBucket![bucket]);
+    return Number.isFinite(override) && override >= 0 ? override : Number(process.env.PACKAGE_CACHE_TTL_MS || 15000);
+};
@@ -0,0 +1,26 @@
+import { InternalServerError } from '@hyperflake/http-errors';
+import { PaymentProvider } from '../interfaces/payment.interface';
+import { FakePaymentProvider } from '../services/fake-payment.provider';
+
+let provider: PaymentProvider | null = null;
+
+/**
+ * Resolve the payment provider selected by `PAYMENT_PROVIDER` (defaults to the fake provider).
+ * The fake provider never charges anyone, so it is refused in production.
+ */
+export const getPaymentProvider = (): PaymentProvider => {
+    if (provider) return provider;
+
+    const name = (process.env.PAYMENT_PROVIDER || 'fake').toLowerCase();
+    switch (name) {
+        case 'fake':
+            if (process.env.NODE_ENV === 'production') {
+                throw new InternalServerError('PAYMENT_PROVIDER=fake cannot be used in production: bookings would not charge customers');
+            }
+            provider = new FakePaymentProvider();
+            break;
+        default:
+            throw new InternalServerError(`Unsupported payment provider: ${name}`);
+    }
+    return provider;
+};
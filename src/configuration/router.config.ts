@@ -11,6 +11,8 @@ import poiWishlistRoutes from '../routes/poi.wishlist.routes';
 import chatRoutes from '../routes/chat.routes';
 import packageRoutes from '../routes/package.routes';
 import documentRoutes from '../routes/document.routes';
+import paymentRoutes from '../routes/payment.routes';
+import fulfilmentRoutes from '../routes/fulfilment.routes';
 import { getDB } from './database.config';
 
 // Health check throttling: cache DB status to avoid frequent queries
@@ -219,4 +221,6 @@ export const init = (app: Express) => {
     app.use('/api/chat', chatRoutes);
     app.use('/api/packages', packageRoutes);
     app.use('/api/documents', documentRoutes);
+    app.use('/api/payments', paymentRoutes);
+    app.use('/api/fulfilment', fulfilmentRoutes);
 };
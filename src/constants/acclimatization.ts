@@ -0,0 +1,26 @@
+import { AcclimatizationGuidelines } from '../interfaces/package.interface';
+
+/**
+ * Default sleeping-altitude guidelines (the usual 500 m/day above 3,000 m, a rest night per 1,000 m).
+ * Override any of them with the `PACKAGE_ACCLIMATIZATION_GUIDELINES` env var (JSON, same shape).
+ */
+export const DEFAULT_ACCLIMATIZATION_GUIDELINES: AcclimatizationGuidelines = {
+    thresholdM: 3000,
+    maxDailyGainM: 500,
+    restDayEveryM: 1000,
+};
+
+// Upper bound on nights `enforceAcclimatization` may add to a trip
+export const MAX_ACCLIMATIZATION_REST_DAYS = 3;
+
+export function resolveAcclimatizationGuidelines(): AcclimatizationGuidelines {
+    const raw = process.env.PACKAGE_ACCLIMATIZATION_GUIDELINES;
+    if (!raw) return DEFAULT_ACCLIMATIZATION_GUIDELINES;
+    try {
+        const override = JSON.parse(raw) as Partial<AcclimatizationGuidelines>;
+        return { ...DEFAULT_ACCLIMATIZATION_GUIDELINES, ...override };
+    } catch (e: any) {
+        console.error('[Acclimatization] Invalid PACKAGE_ACCLIMATIZATION_GUIDELINES, using defaults:', e?.message || e);
+        return DEFAULT_ACCLIMATIZATION_GUIDELINES;
+    }
+}
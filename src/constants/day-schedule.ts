@@ -0,0 +1,18 @@
+/**
+ * Day schedules are laid out in local trip time. Times are minutes after midnight.
+ */
+export const SCHEDULE_TIMEZONE = 'Asia/Kolkata';
+
+// Sightseeing starts at 09:00 (or sunrise, if later) and the evening ends at 22:00
+export const SCHEDULE_DAY_START = 9 * 60;
+export const SCHEDULE_DAY_END = 22 * 60;
+
+// Used when poi_pricing.metadata has no durationMinutes
+export const DEFAULT_ACTIVITY_MINUTES = 120;
+
+// Lunch is taken once it is past 12:30 (13:00 at the latest), dinner from 19:30
+export const LUNCH_EARLIEST = 12 * 60 + 30;
+export const LUNCH_TIME = 13 * 60;
+export const LUNCH_MINUTES = 60;
+export const DINNER_TIME = 19 * 60 + 30;
+export const DINNER_MINUTES = 75;
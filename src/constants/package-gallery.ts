@@ -0,0 +1,5 @@
+// A package counts as popular once this many users cloned it
+export const POPULAR_CLONE_COUNT = 5;
+
+export const GALLERY_DEFAULT_LIMIT = 20;
+export const GALLERY_MAX_LIMIT = 50;
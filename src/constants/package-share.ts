@@ -0,0 +1,3 @@
+// Lifetime of a share link when the owner does not pick one, and the longest allowed
+export const SHARE_DEFAULT_TTL_HOURS = 7 * 24;
+export const SHARE_MAX_TTL_HOURS = 90 * 24;
@@ -0,0 +1,13 @@
+import { PaymentPlan } from '../interfaces/payment.interface';
+
+/**
+ * Plan applied when a customer asks for a deposit without giving their own split:
+ * 30% now, the balance two weeks before arrival.
+ */
+export const DEFAULT_PAYMENT_PLAN: PaymentPlan = {
+    depositPercent: 30,
+    instalments: [{ percent: 70, dueDaysBeforeStart: 14 }],
+};
+
+export const MIN_DEPOSIT_PERCENT = 10;
+export const MAX_INSTALMENTS = 4;
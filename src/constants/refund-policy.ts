@@ -0,0 +1,41 @@
+import { RefundPolicy } from '../interfaces/cancellation.interface';
+
+/**
+ * Default tiered refund policy per `breakdown` component. Tiers are matched on the number of
+ * whole days between cancellation and `start_date`; below the lowest tier nothing is refunded.
+ * Override any component with the `PACKAGE_REFUND_POLICY` env var (JSON, same shape).
+ */
+export const DEFAULT_REFUND_POLICY: RefundPolicy = {
+    accommodation: [
+        { minDaysBeforeStart: 30, refundPercent: 100 },
+        { minDaysBeforeStart: 15, refundPercent: 75 },
+        { minDaysBeforeStart: 7, refundPercent: 50 },
+        { minDaysBeforeStart: 2, refundPercent: 25 },
+    ],
+    cab: [
+        { minDaysBeforeStart: 7, refundPercent: 100 },
+        { minDaysBeforeStart: 2, refundPercent: 50 },
+        { minDaysBeforeStart: 1, refundPercent: 25 },
+    ],
+    transport: [
+        { minDaysBeforeStart: 7, refundPercent: 100 },
+        { minDaysBeforeStart: 2, refundPercent: 50 },
+        { minDaysBeforeStart: 1, refundPercent: 25 },
+    ],
+    activities: [
+        { minDaysBeforeStart: 3, refundPercent: 100 },
+        { minDaysBeforeStart: 1, refundPercent: 50 },
+    ],
+};
+
+export function resolveRefundPolicy(): RefundPolicy {
+    const raw = process.env.PACKAGE_REFUND_POLICY;
+    if (!raw) return DEFAULT_REFUND_POLICY;
+    try {
+        const override = JSON.parse(raw) as Partial<RefundPolicy>;
+        return { ...DEFAULT_REFUND_POLICY, ...override };
+    } catch (e: any) {
+        console.error('[RefundPolicy] Invalid PACKAGE_REFUND_POLICY, using defaults:', e?.message || e);
+        return DEFAULT_REFUND_POLICY;
+    }
+}
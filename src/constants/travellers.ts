@@ -0,0 +1,14 @@
+/**
+ * Price bands, used when a POI price has no bands of its own and to check the traveller manifest against the price.
+ * Infants travel free; children up to CHILD_MAX_AGE pay `child_price` (or the adult price when unset); anyone older
+ * pays the adult price, including minors.
+ */
+export const INFANT_MAX_AGE = 2;
+export const CHILD_MAX_AGE = 11;
+
+// Oldest age accepted in `childAges` of a request; older travellers are counted in `adults`. Not a price band.
+export const MINOR_MAX_AGE = 17;
+
+// Hotels rarely accept more than 4 guests per room; Amadeus caps adults per room at 9
+export const MAX_ROOM_OCCUPANCY = 4;
+export const MAX_ROOMS = 9;
@@ -0,0 +1,30 @@
+import { WeatherAlertThresholds } from '../interfaces/weather-alert.interface';
+
+/**
+ * Default thresholds of the weather rules. Override any of them with the `WEATHER_ALERT_THRESHOLDS`
+ * env var (JSON, same shape).
+ */
+export const DEFAULT_WEATHER_ALERT_THRESHOLDS: WeatherAlertThresholds = {
+    precipitationProbability: 70,
+    windSpeed: 12,
+    windAltitudeM: 2500,
+    visibilityKm: 2,
+};
+
+// POI categories that are not spoiled by rain or wind; every other category counts as outdoor
+export const INDOOR_POI_CATEGORIES = ['Religious Sites', 'Shopping & Markets'];
+
+// Tomorrow.io daily forecasts cover the next 5 days
+export const WEATHER_FORECAST_DAYS = 5;
+
+export function resolveWeatherAlertThresholds(): WeatherAlertThresholds {
+    const raw = process.env.WEATHER_ALERT_THRESHOLDS;
+    if (!raw) return DEFAULT_WEATHER_ALERT_THRESHOLDS;
+    try {
+        const override = JSON.parse(raw) as Partial<WeatherAlertThresholds>;
+        return { ...DEFAULT_WEATHER_ALERT_THRESHOLDS, ...override };
+    } catch (e: any) {
+        console.error('[WeatherAlerts] Invalid WEATHER_ALERT_THRESHOLDS, using defaults:', e?.message || e);
+        return DEFAULT_WEATHER_ALERT_THRESHOLDS;
+    }
+}
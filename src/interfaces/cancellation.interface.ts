@@ -0,0 +1,44 @@
+export type RefundComponent = 'accommodation' | 'transport' | 'activities' | 'cab';
+
+export interface RefundTier {
+    minDaysBeforeStart: number; // tier applies when cancelling at least this many days before start_date
+    refundPercent: number; // 0-100
+}
+
+export type RefundPolicy = Record<RefundComponent, RefundTier[]>;
+
+export interface RefundComponentQuote {
+    component: RefundComponent;
+    amount: number;
+    refundPercent: number;
+    refundAmount: number;
+    tier: RefundTier | null;
+}
+
+export interface CancellationQuote {
+    packageId: string;
+    bookingStatus: string;
+    startDate: string;
+    daysBeforeStart: number;
+    currency: string;
+    totalAmount: number;
+    paidAmount: number; // ledger balance at quote time
+    policyRefundAmount: number; // sum of the component tiers, as if the full price had been paid
+    refundAmount: number; // what is paid back: max(0, paidAmount - nonRefundableAmount)
+    nonRefundableAmount: number; // totalAmount - policyRefundAmount, kept from whatever was paid
+    components: RefundComponentQuote[];
+    quotedAt: string;
+}
+
+export interface PackageCancellation {
+    id: string;
+    packageId: string;
+    cancelledBy: string | null;
+    reason: string | null;
+    refundAmount: number;
+    currency: string;
+    refundStatus: 'pending' | 'not_applicable' | 'refunded' | 'failed';
+    providerRefundIds: string[];
+    quote: CancellationQuote;
+    createdAt: string;
+}
@@ -0,0 +1,58 @@
+export type FulfilmentItemKind = 'hotel_night' | 'cab_leg' | 'activity' | 'restaurant_reservation';
+export type FulfilmentItemStatus = 'pending' | 'confirmed' | 'failed';
+
+// Rolled up from the items: any failed -> failed, all confirmed -> fulfilled, some confirmed -> in_progress
+export type PackageFulfilmentStatus = 'pending' | 'in_progress' | 'fulfilled' | 'failed' | 'cancelled';
+
+export interface FulfilmentItem {
+    id: string;
+    packageId: string;
+    kind: FulfilmentItemKind;
+    dayIndex: number | null;
+    serviceDate: string; // YYYY-MM-DD
+    description: string;
+    details: Record<string, any>; // hotelId, poiId, restaurantId, originId/destinationId, ...
+    amount: number | null;
+    currency: string;
+    status: FulfilmentItemStatus;
+    confirmationRef: string | null;
+    failureReason: string | null;
+    note: string | null;
+    updatedBy: string | null;
+    createdAt: string;
+    updatedAt: string;
+}
+
+export interface PackageFulfilment {
+    packageId: string;
+    status: PackageFulfilmentStatus | null; // null until the package is booked
+    counts: Record<FulfilmentItemStatus, number>;
+    items: FulfilmentItem[];
+}
+
+export interface FulfilmentQueueItem extends FulfilmentItem {
+    packageTitle: string;
+    packageStartDate: string;
+}
+
+export interface FulfilmentQueueFilters {
+    status?: FulfilmentItemStatus; // defaults to pending
+    kind?: FulfilmentItemKind;
+    from?: string; // service date range, YYYY-MM-DD
+    to?: string;
+    limit?: number;
+}
+
+export interface UpdateFulfilmentItemRequest {
+    status?: FulfilmentItemStatus;
+    confirmationRef?: string;
+    failureReason?: string;
+    note?: string;
+}
+
+export interface RestaurantReservationRequest {
+    dayIndex: number;
+    restaurantId: string; // one of the day's restaurant suggestions
+    time?: string; // HH:mm local time
+    note?: string;
+}
@@ -0,0 +1,21 @@
+import { PackageGenerationResult, PriceBucket } from './package.interface';
+
+export interface PackageCacheEntryMeta {
+    bucket: PriceBucket;
+    destinationIds: string[];
+}
+
+export interface PackageCacheInvalidation {
+    destinationIds?: string[]; // omit to clear everything
+}
+
+/**
+ * Storage for generated package content keyed by the normalized request. Implementations treat their own
+ * failures as misses so a broken cache never breaks generation.
+ */
+export interface PackageCacheStore {
+    readonly name: string;
+    get(key: string): Promise<PackageGenerationResult | null>;
+    set(key: string, value: PackageGenerationResult, ttlMs: number, meta: PackageCacheEntryMeta): Promise<void>;
+    invalidate(filter?: PackageCacheInvalidation): Promise<number>; // number of entries removed
+}
@@ -1,11 +1,56 @@
+import { DocumentStatus } from './document.interface';
+import { PackageFulfilmentStatus } from './fulfilment.interface';
+import { RouteNotice } from './route-closure.interface';
+
+export interface PackageStop {
+    destinationId: string;
+    nights: number; // consecutive hotel nights spent at this destination
+}
+
 export interface GeneratePackageRequest {
-    destinationIds: string[];
-    people: number;
+    destinationIds?: string[]; // legacy: one night per entry, consecutive duplicates are merged into one stop
+    stops?: PackageStop[]; // preferred: takes precedence over destinationIds when provided
+    people: number; // headcount; derived from travellers when those are given
+    travellers?: Travellers; // without it, people counts as adults
+    rooms?: RoomOccupancy[]; // explicit room plan; defaults to two adults per room with children spread over the rooms
     priceBucket: PriceBucket; // replaces budget
     activities?: string[];
     startDate?: string; // ISO; default now + 3 days
     includeCommonAttractions?: boolean;
     clonedFrom?: string;
+    optimizeRoute?: boolean | RouteOptimizationOptions;
+    maxTotalBudget?: number; // fit the whole trip under this amount (INR)
+    maxPerPersonBudget?: number; // same, per person; the lower of the two wins when both are set
+    enforceAcclimatization?: boolean; // reorder stops and add rest nights to follow the altitude guidelines
+}
+
+export type RouteMetric = 'distance' | 'duration';
+
+export interface RouteOptimizationOptions {
+    metric?: RouteMetric; // default distance
+    startDestinationId?: string; // pinned first stop; defaults to Srinagar when present
+    endDestinationId?: string; // pinned last stop
+}
+
+export interface RouteOptimizationSummary {
+    metric: RouteMetric;
+    reordered: boolean;
+    originalOrder: string[];
+    optimizedOrder: string[];
+    originalTotalKm: number;
+    optimizedTotalKm: number;
+    originalTotalMinutes: number;
+    optimizedTotalMinutes: number;
+}
+
+export interface Travellers {
+    adults: number;
+    childAges?: number[]; // age in years at the start of the trip, one entry per child
+}
+
+export interface RoomOccupancy {
+    adults: number;
+    childAges?: number[];
 }
 
 export type PriceBucket = 'budget_conscious' | 'optimal' | 'go_crazy';
@@ -17,6 +62,9 @@ export interface PackageLeg {
     distanceKm?: number;
     durationMinutes?: number;
     cabCost?: number;
+    date?: string; // YYYY-MM-DD the drive happens (check-in day at destinationId)
+    viaDestinationIds?: string[]; // detour around a closure; distance and duration cover the whole detour
+    notices?: RouteNotice[]; // closures and advisories on the route that day
 }
 
 export interface ActivityWithPrice {
@@ -25,6 +73,10 @@ export interface ActivityWithPrice {
     pricing_type?: 'one_time' | 'per_person' | 'rental' | 'free';
     base_price?: number;
     metadata?: any;
+    rating?: number; // POI average rating, used to pick what to drop when fitting a budget
+    child_price?: number; // per_person only; adult price when unset
+    child_max_age?: number;
+    infant_max_age?: number; // infants up to this age are free
 }
 
 export interface HotelOption {
@@ -36,6 +88,7 @@ export interface HotelOption {
     checkInDate?: string;
     checkOutDate?: string;
     roomQuantity?: number;
+    nights?: number; // number of nights covered by the stay; price is the per-night share
     hotelId?: string;
     distanceKm?: number;
     latitude?: number;
@@ -59,6 +112,8 @@ export interface DayPlan {
     destinationId: string;
     destinationName: string;
     destinationAltitudeM?: number;
+    stopIndex?: number; // index of the stop this day belongs to
+    nightOfStay?: number; // 1-based night within the stop
     activities: ActivityWithPrice[];
     activitiesCost?: number;
     hotel?: HotelOption;
@@ -67,6 +122,40 @@ export interface DayPlan {
     transportCost?: number;
     legTransportCost?: number;
     weather?: any;
+    schedule?: DaySchedule; // computed on generation and read, not stored
+}
+
+export type Weekday = 'monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday' | 'sunday';
+
+// `opening_hours` of pois and restaurants; a missing weekday means the hours are unknown
+export type OpeningHours = Partial<Record<Weekday, { open?: string; close?: string; closed?: boolean }>>;
+
+export type ScheduleSlotKind = 'travel' | 'activity' | 'lunch' | 'dinner';
+
+export interface ScheduleSlot {
+    kind: ScheduleSlotKind;
+    start: string; // HH:mm local time
+    end: string;
+    title: string;
+    poiId?: string;
+    restaurantId?: string;
+}
+
+export type ScheduleWarningCode = 'venue_closed' | 'outside_opening_hours' | 'after_sunset' | 'no_open_restaurant' | 'day_overrun';
+
+export interface ScheduleWarning {
+    code: ScheduleWarningCode;
+    message: string;
+    poiId?: string;
+    restaurantId?: string;
+}
+
+export interface DaySchedule {
+    weekday: Weekday;
+    sunrise: string | null; // HH:mm local time, from the day's forecast
+    sunset: string | null;
+    slots: ScheduleSlot[];
+    warnings: ScheduleWarning[];
 }
 
 export interface AvailableCab {
@@ -83,9 +172,11 @@ export interface PackageGenerationResult {
     title: string;
     startDate: string;
     people: number;
+    travellers?: Travellers;
+    rooms?: RoomOccupancy[];
     cabType: CabType;
     totalBasePrice: number;
-    perPersonPrice: number;
+    perPersonPrice: number; // total divided by paying travellers (infants travel free)
     days: DayPlan[];
     legs: PackageLeg[];
     currency: string;
@@ -99,9 +190,16 @@ export interface PackageGenerationResult {
     meta?: {
         weatherNullDays?: Array<{ date: string; destinationId: string; reason: string }>;
         clonedFrom?: string;
+        routeOptimization?: RouteOptimizationSummary;
+        pendingRequote?: PendingRequote;
+        budget?: BudgetFitSummary;
+        timings?: GenerationTimings;
+        acclimatization?: AcclimatizationSummary;
     };
+    quoteValidUntil?: string; // prices are honoured until then; booking later re-prices hotels and cabs
     availableCabs?: AvailableCab[];
     is_public?: boolean;
+    fulfilmentStatus?: PackageFulfilmentStatus | null; // set once the package is booked
     stats?: {
         clonedCount: number;
         isPopular: boolean;
@@ -118,8 +216,18 @@ export interface UpdatePackageConfigurationRequest {
         hotelId?: string;
         activityIds?: string[]; // List of POI IDs to set for this day
     }>;
+    dayOperations?: DayOperation[]; // applied in order, before dayConfigurations
 }
 
+/**
+ * Structural itinerary edit. Indexes are zero-based and refer to the itinerary as left by the previous operation.
+ */
+export type DayOperation =
+    | { type: 'insert'; dayIndex: number; destinationId: string } // new day placed at dayIndex (0..days)
+    | { type: 'remove'; dayIndex: number }
+    | { type: 'move'; fromIndex: number; toIndex: number }
+    | { type: 'change_destination'; dayIndex: number; destinationId: string };
+
 export interface BookingHistoryItem {
     packageId: string;
     title: string;
@@ -132,3 +240,438 @@ export interface BookingHistoryItem {
     people: number;
 }
 
+
+export type BookingStatus =
+    | 'generated'
+    | 'awaiting_auth'
+    | 'awaiting_verification'
+    | 'pending_kyc'
+    | 'awaiting_payment'
+    | 'booked'
+    | 'payment_overdue'
+    | 'cancelled';
+
+export type TransitionActorType = 'user' | 'system' | 'admin';
+
+export interface BookingTransitionContext {
+    actorId?: string | null;
+    actorType?: TransitionActorType;
+    reason?: string;
+    metadata?: Record<string, any>;
+}
+
+export interface PackageStatusHistoryItem {
+    id: string;
+    packageId: string;
+    fromStatus: BookingStatus | null;
+    toStatus: BookingStatus;
+    actorId: string | null;
+    actorType: TransitionActorType;
+    reason: string | null;
+    metadata: Record<string, any>;
+    createdAt: string;
+}
+
+export type PriceComponent = 'accommodation' | 'transport' | 'activities' | 'cab';
+
+export interface PriceComponentChange {
+    component: PriceComponent;
+    oldAmount: number;
+    newAmount: number;
+    difference: number;
+}
+
+export interface HotelPriceChange {
+    stopIndex: number;
+    destinationId: string;
+    oldHotelId?: string;
+    newHotelId?: string;
+    oldStayPrice: number;
+    newStayPrice: number;
+    available: boolean; // false when no offer was found and the old price was kept
+}
+
+export interface PackagePriceChange {
+    requoteId: string;
+    packageId: string;
+    currency: string;
+    previousQuoteValidUntil: string | null;
+    oldTotal: number;
+    newTotal: number;
+    difference: number;
+    components: PriceComponentChange[];
+    hotels: HotelPriceChange[];
+    cab: { oldRatePerKm?: number; newRatePerKm: number; cabId?: string };
+    computedAt: string;
+    acceptBefore: string; // the re-quote must be accepted before this time
+}
+
+/** Re-quote waiting for the user's acceptance, kept in packages.meta. */
+export interface PendingRequote extends PackagePriceChange {
+    hotelUpdates: Array<{ dayIndexes: number[]; hotel: HotelOption }>;
+    legCabCosts: Array<{ legId: string; cabCost: number }>;
+}
+
+export type ComparisonComponent = 'accommodation' | 'activities' | 'cab' | 'transport' | 'perPersonPrice' | 'totalBasePrice';
+
+export interface PackageComparisonOption {
+    key: string; // price bucket or package id
+    priceBucket?: PriceBucket;
+    packageId?: string;
+    title: string;
+    startDate: string;
+    people: number;
+    cabType: CabType;
+    currency: string;
+    totalBasePrice: number;
+    perPersonPrice: number;
+    breakdown: { accommodation: number; transport: number; activities: number; cab: number };
+}
+
+export interface ComparisonComponentRow {
+    component: ComparisonComponent;
+    values: number[]; // aligned with options
+    differences: number[]; // vs the first option
+    cheapestKey: string;
+}
+
+export interface ComparisonDayCell {
+    date: string;
+    destinationId: string;
+    destinationName: string;
+    hotelName?: string;
+    hotelPrice: number;
+    activities: string[];
+    activitiesCost: number;
+    transportCost: number;
+}
+
+export interface ComparisonDayRow {
+    dayIndex: number;
+    cells: Array<ComparisonDayCell | null>; // null when the option has fewer days
+    differences: Array<{ hotelPrice: number; activitiesCost: number; transportCost: number } | null>; // vs the first option
+}
+
+export interface PackageComparison {
+    mode: 'buckets' | 'packages';
+    currency: string;
+    options: PackageComparisonOption[];
+    components: ComparisonComponentRow[];
+    days: ComparisonDayRow[];
+}
+
+export type BudgetAdjustmentType = 'hotel' | 'cab' | 'attraction_removed';
+
+export interface BudgetAdjustment {
+    type: BudgetAdjustmentType;
+    stopIndex?: number;
+    destinationId?: string;
+    from?: string; // hotel name, cab id or attraction name
+    to?: string;
+    saving: number;
+}
+
+export interface BudgetFitSummary {
+    maxTotal: number; // effective limit for the whole group
+    originalTotal: number;
+    fittedTotal: number;
+    withinBudget: boolean;
+    shortfall: number; // how far the cheapest achievable trip is over the limit; 0 when it fits
+    minimumAchievableTotal?: number; // only when the budget cannot be met
+    minimumAchievablePerPerson?: number;
+    adjustments: BudgetAdjustment[];
+}
+
+/**
+ * Sleeping-altitude guidelines. Above `thresholdM`, each night should be at most `maxDailyGainM` higher than the
+ * previous one (gains from below the threshold count from the threshold), and every `restDayEveryM` of gain
+ * needs a night at the same or a lower altitude.
+ */
+export interface AcclimatizationGuidelines {
+    thresholdM: number;
+    maxDailyGainM: number;
+    restDayEveryM: number;
+}
+
+export type AcclimatizationRule = 'excessive_gain' | 'rest_day_needed';
+
+export interface AcclimatizationWarning {
+    rule: AcclimatizationRule;
+    dayIndex: number;
+    date: string; // YYYY-MM-DD
+    stopIndex: number;
+    destinationId: string;
+    altitudeM: number;
+    gainM: number; // counted gain behind the warning (daily, or since the last rest night)
+    message: string;
+}
+
+export interface AcclimatizationAdjustment {
+    type: 'reorder' | 'rest_day';
+    message: string;
+    destinationId?: string; // rest_day: stop that got the extra night
+    order?: string[]; // reorder: destination ids in the new order
+}
+
+export interface AcclimatizationSummary {
+    guidelines: AcclimatizationGuidelines;
+    enforced: boolean;
+    warnings: AcclimatizationWarning[]; // on the final itinerary
+    adjustments: AcclimatizationAdjustment[]; // only when enforced
+}
+
+export interface GenerationTimings {
+    stages: Array<{ stage: string; ms: number }>; // in completion order; hotels and weather overlap
+    totalMs: number;
+    concurrency: number;
+}
+
+export type PackageJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export type GenerationProgressStage = 'destinations' | 'reference' | 'hotels' | 'weather' | 'assemble' | 'budget' | 'saved';
+
+export interface GenerationProgressEvent {
+    stage: GenerationProgressStage;
+    message: string; // e.g. "Hotels for day 2 found"
+    progress: number; // 0-100
+    at: string;
+    data?: any;
+}
+
+export type GenerationProgressListener = (event: Omit<GenerationProgressEvent, 'progress' | 'at'>) => void;
+
+export interface PackageGenerationJob {
+    jobId: string;
+    status: PackageJobStatus;
+    progress: number;
+    events: GenerationProgressEvent[];
+    partial?: {
+        title?: string;
+        order?: string[];
+        hotels: Array<{ stopIndex: number; dayIndexes: number[]; hotel: HotelOption | null }>;
+        weatherAttached: boolean;
+    };
+    packageId?: string;
+    result?: PackageGenerationResult;
+    error?: string;
+    createdAt: string;
+    updatedAt: string;
+    completedAt?: string;
+}
+
+export type PackageRevisionReason = 'generated' | 'baseline' | 'configuration' | 'restore' | 'requote';
+
+/**
+ * Saved package as it was at one revision; `request` is what a reschedule regenerates from
+ */
+export type PackageRevisionSnapshot = Omit<PackageGenerationResult, 'stats'> & { request?: GeneratePackageRequest };
+
+export interface PackageRevision {
+    revision: number; // 1-based, increasing per package
+    packageId: string;
+    reason: PackageRevisionReason;
+    createdBy: string | null;
+    change: Record<string, any> | null; // the PATCH body, or { restoredFrom } for restores
+    totalBasePrice: number;
+    createdAt: string;
+    snapshot?: PackageRevisionSnapshot; // only when a single revision is requested
+}
+
+export interface ValueChange<T> {
+    from: T;
+    to: T;
+}
+
+export interface RevisionHotelRef {
+    hotelId?: string;
+    name?: string;
+    price: number; // per night
+}
+
+export interface PackageRevisionDayDiff {
+    dayIndex: number;
+    status: 'added' | 'removed' | 'changed';
+    date?: ValueChange<string | null>;
+    destination?: ValueChange<{ destinationId: string; destinationName: string } | null>;
+    hotel?: ValueChange<RevisionHotelRef | null>;
+    activitiesAdded: Array<{ poiId: string; name: string }>;
+    activitiesRemoved: Array<{ poiId: string; name: string }>;
+    activitiesCost?: ValueChange<number>;
+    transportCost?: ValueChange<number>;
+}
+
+export interface PackageRevisionDiff {
+    packageId: string;
+    from: number;
+    to: number;
+    fields: Array<{ field: string } & ValueChange<any>>; // package-level values that changed
+    breakdown: Array<{ component: PriceComponent; difference: number } & ValueChange<number>>;
+    days: PackageRevisionDayDiff[]; // aligned by day index; unchanged days are left out
+}
+
+export type PublicPackageSort = 'trending' | 'clones' | 'recent' | 'price_asc' | 'price_desc';
+
+export interface PublicPackageFilters {
+    destinationIds?: string[]; // packages visiting all of these
+    minDays?: number;
+    maxDays?: number;
+    priceBucket?: PriceBucket;
+    minPrice?: number; // per person
+    maxPrice?: number; // per person
+    month?: number; // 1-12, month of the start date (UTC)
+    sort?: PublicPackageSort;
+    limit?: number;
+    cursor?: string;
+}
+
+export interface PublicPackageCard {
+    packageId: string;
+    title: string;
+    startDate: string;
+    endDate: string;
+    days: number;
+    people: number;
+    priceBucket?: PriceBucket;
+    totalBasePrice: number;
+    perPersonPrice: number;
+    currency: string;
+    destinationIds: string[];
+    destinationImage?: string;
+    booked: boolean;
+    stats: {
+        clonedCount: number;
+        bookedCloneCount: number;
+        isPopular: boolean;
+        trendingScore: number;
+    };
+}
+
+export interface PublicPackagePage {
+    items: PublicPackageCard[];
+    nextCursor: string | null;
+}
+
+export interface CreatePackageShareRequest {
+    expiresInHours?: number;
+    hidePrices?: boolean; // recipients see the itinerary without any amounts
+}
+
+export interface PackageShareLink {
+    shareId: string;
+    packageId: string;
+    hidePrices: boolean;
+    expiresAt: string;
+    revokedAt: string | null;
+    viewCount: number;
+    lastViewedAt: string | null;
+    createdAt: string;
+}
+
+// Returned once, when the link is created; the token is not stored
+export interface CreatedPackageShare extends PackageShareLink {
+    token: string;
+}
+
+type SharedDayPlan = Omit<DayPlan, 'hotelOptions' | 'activitiesCost' | 'transportCost' | 'legTransportCost'> &
+    Partial<Pick<DayPlan, 'activitiesCost' | 'transportCost' | 'legTransportCost'>>;
+
+/**
+ * Package as seen through a share link: no package, user or cab ids, and no amounts when the link hides prices
+ */
+export interface SharedPackage {
+    title: string;
+    startDate: string;
+    people: number;
+    travellers?: Travellers;
+    rooms?: RoomOccupancy[];
+    cabType: CabType;
+    currency: string;
+    days: SharedDayPlan[];
+    legs: PackageLeg[];
+    totalBasePrice?: number;
+    perPersonPrice?: number;
+    breakdown?: { accommodation: number; transport: number; activities: number; cab: number };
+}
+
+export interface SharedPackageView {
+    share: { hidePrices: boolean; expiresAt: string; viewCount: number };
+    package: SharedPackage;
+}
+
+// Owner is the package's user_id; editors can propose changes, viewers can only view and vote
+export type PackageRole = 'owner' | 'editor' | 'viewer';
+export type PackageMemberStatus = 'pending' | 'accepted' | 'declined';
+
+export interface PackageMember {
+    memberId: string;
+    packageId: string;
+    userId: string | null; // set once the invite is accepted
+    invitedEmail: string | null;
+    invitedPhone: string | null;
+    role: Exclude<PackageRole, 'owner'>;
+    status: PackageMemberStatus;
+    invitedBy: string | null;
+    createdAt: string;
+    respondedAt: string | null;
+}
+
+export interface InvitePackageMemberRequest {
+    email?: string;
+    phone?: string;
+    role: Exclude<PackageRole, 'owner'>;
+}
+
+export type PackageProposalStatus = 'pending' | 'approved' | 'rejected' | 'withdrawn';
+export type PackageProposalChange = Pick<UpdatePackageConfigurationRequest, 'cabId' | 'dayConfigurations' | 'dayOperations'>;
+
+export interface PackageProposal {
+    proposalId: string;
+    packageId: string;
+    proposedBy: string | null;
+    change: PackageProposalChange;
+    note: string | null;
+    baseRevision: number | null;
+    status: PackageProposalStatus;
+    decidedBy: string | null;
+    decidedAt: string | null;
+    createdAt: string;
+}
+
+export interface AttractionVoteTally {
+    poiId: string;
+    name: string;
+    price?: number;
+    up: number;
+    down: number;
+    myVote: 1 | -1 | null;
+}
+
+export type TravellerGender = 'male' | 'female' | 'other';
+
+export interface PackageTraveller {
+    travellerId: string;
+    packageId: string;
+    fullName: string;
+    age: number; // at the start of the trip
+    gender: TravellerGender;
+    documentId: string | null; // user_documents entry holding the ID proof
+    documentStatus: DocumentStatus | null;
+    createdBy: string | null;
+    createdAt: string;
+    updatedAt: string;
+}
+
+export interface PackageTravellerInput {
+    fullName: string;
+    age: number;
+    gender: TravellerGender;
+    documentId?: string | null;
+}
+
+export interface TravellerManifest {
+    packageId: string;
+    required: number; // the package's `people`
+    travellers: PackageTraveller[];
+    complete: boolean;
+    issues: string[]; // why the manifest is not complete yet
+}
@@ -0,0 +1,112 @@
+export type PaymentIntentStatus = 'requires_payment' | 'captured' | 'failed' | 'cancelled';
+
+export type LedgerEntryType = 'charge' | 'refund' | 'adjustment';
+
+export interface PaymentIntent {
+    id: string;
+    packageId: string;
+    userId: string | null;
+    instalmentId: string | null; // set when paying one instalment of a payment schedule
+    provider: string;
+    providerIntentId: string;
+    amount: number;
+    currency: string;
+    status: PaymentIntentStatus;
+    clientSecret: string | null; // handed to the client SDK to complete payment
+    capturedAt: string | null;
+    createdAt: string;
+}
+
+export interface LedgerEntry {
+    id: string;
+    packageId: string;
+    paymentIntentId: string | null;
+    type: LedgerEntryType;
+    amount: number; // signed: charges positive, refunds negative, adjustments either
+    currency: string;
+    providerReference: string | null;
+    description: string | null;
+    createdBy: string | null;
+    createdAt: string;
+}
+
+export interface PackageLedger {
+    packageId: string;
+    currency: string;
+    entries: LedgerEntry[];
+    charged: number;
+    refunded: number;
+    adjustments: number;
+    balance: number; // net amount held for the package
+}
+
+export type PaymentWebhookEventType = 'payment.captured' | 'payment.failed' | 'refund.succeeded' | 'refund.failed';
+
+export interface PaymentWebhookEvent {
+    id: string; // provider event id, used for idempotency
+    type: PaymentWebhookEventType;
+    providerIntentId: string;
+    providerRefundId?: string;
+    amount: number;
+    currency: string;
+    occurredAt: string;
+}
+
+export interface ProviderIntent {
+    providerIntentId: string;
+    clientSecret: string | null;
+}
+
+export interface ProviderRefund {
+    providerRefundId: string;
+}
+
+/**
+ * Contract every payment gateway adapter implements. Money movement is confirmed only through
+ * `parseWebhook`; the synchronous calls just start the operation.
+ */
+export interface PaymentProvider {
+    readonly name: string;
+    createIntent(params: { amount: number; currency: string; reference: string; metadata?: Record<string, any> }): Promise<ProviderIntent>;
+    cancelIntent(providerIntentId: string): Promise<void>;
+    refund(params: { providerIntentId: string; amount: number; currency: string; reason?: string }): Promise<ProviderRefund>;
+    /** Verify the signature of a webhook call and parse it. Throws when the signature is invalid. */
+    parseWebhook(rawBody: Buffer, signature: string | undefined): PaymentWebhookEvent;
+}
+
+export interface PaymentPlanInstalment {
+    percent: number; // share of totalBasePrice
+    dueDaysBeforeStart: number; // due date = start_date minus this many days
+}
+
+export interface PaymentPlan {
+    depositPercent: number; // due when the booking is made; 100 means pay in full
+    instalments: PaymentPlanInstalment[];
+}
+
+export type InstalmentStatus = 'pending' | 'paid' | 'overdue';
+
+export interface PaymentInstalment {
+    id: string;
+    packageId: string;
+    sequence: number; // 0 is the deposit
+    label: string;
+    percent: number;
+    amount: number;
+    currency: string;
+    dueDate: string; // YYYY-MM-DD (UTC)
+    status: InstalmentStatus;
+    paidAt: string | null;
+    paymentIntentId: string | null;
+}
+
+export interface PaymentSchedule {
+    packageId: string;
+    plan: PaymentPlan;
+    currency: string;
+    totalAmount: number;
+    paidAmount: number;
+    outstandingAmount: number;
+    instalments: PaymentInstalment[];
+    nextDue: PaymentInstalment | null;
+}
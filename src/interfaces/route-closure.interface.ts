@@ -0,0 +1,47 @@
+export type RouteClosureKind = 'closure' | 'advisory'; // advisories are shown on legs but never block them
+
+export interface RouteClosure {
+    id: string;
+    originId: string;
+    destinationId: string;
+    kind: RouteClosureKind;
+    startsOn: string; // YYYY-MM-DD, inclusive
+    endsOn: string; // YYYY-MM-DD, inclusive
+    bidirectional: boolean; // also applies from destinationId to originId
+    reason: string;
+    createdBy: string | null;
+    createdAt: string;
+    updatedAt: string;
+}
+
+export interface CreateRouteClosureRequest {
+    originId: string;
+    destinationId: string;
+    kind: RouteClosureKind;
+    startsOn: string;
+    endsOn: string;
+    bidirectional?: boolean; // default true
+    reason: string;
+}
+
+export type UpdateRouteClosureRequest = Partial<Omit<CreateRouteClosureRequest, 'originId' | 'destinationId'>>;
+
+export interface RouteClosureFilters {
+    destinationId?: string; // either end of the route
+    kind?: RouteClosureKind;
+    from?: string; // closures overlapping this date range, YYYY-MM-DD
+    to?: string;
+}
+
+/**
+ * A closure or advisory that applied to a package leg on its travel date
+ */
+export interface RouteNotice {
+    closureId: string;
+    kind: RouteClosureKind;
+    originId: string;
+    destinationId: string;
+    reason: string;
+    startsOn: string;
+    endsOn: string;
+}
@@ -0,0 +1,45 @@
+import { DayOperation } from './package.interface';
+
+export type WeatherAlertRule = 'heavy_precipitation' | 'high_wind' | 'low_visibility';
+export type WeatherAlertSeverity = 'warning' | 'severe';
+export type WeatherAlertStatus = 'active' | 'resolved';
+
+export interface WeatherAlertThresholds {
+    precipitationProbability: number; // %, daily max
+    windSpeed: number; // m/s, daily max; only checked at high altitude
+    windAltitudeM: number; // destinations or POIs at or above this altitude get the wind rule (Gulmarg gondola)
+    visibilityKm: number; // daily min; only checked on days with a drive between destinations
+}
+
+/**
+ * Ready-made fixes: `dayOperations` / `dayConfiguration` can be sent as-is to PATCH /packages/{packageId}
+ * (or proposed by a co-traveller).
+ */
+export type WeatherAlertSuggestion =
+    | { type: 'swap_days'; dayIndex: number; withDayIndex: number; message: string; dayOperations: DayOperation[] }
+    | {
+          type: 'replace_activity';
+          dayIndex: number;
+          poiId: string;
+          replacementPoiId: string;
+          replacementName: string;
+          message: string;
+          dayConfiguration: { dayIndex: number; activityIds: string[] };
+      };
+
+export interface WeatherAlert {
+    id: string;
+    packageId: string;
+    dayIndex: number;
+    date: string; // YYYY-MM-DD
+    destinationId: string;
+    rule: WeatherAlertRule;
+    severity: WeatherAlertSeverity;
+    message: string;
+    forecast: Record<string, number | null>; // the values the rule tripped on
+    suggestions: WeatherAlertSuggestion[];
+    status: WeatherAlertStatus;
+    firstDetectedAt: string;
+    lastEvaluatedAt: string;
+    resolvedAt: string | null;
+}
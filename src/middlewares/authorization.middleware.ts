@@ -31,6 +31,14 @@ function getRolesFromUser(user: User): string[] {
     return Array.from(new Set(roles));
 }
 
+/**
+ * For handlers that allow either the resource owner or staff, where a middleware cannot decide up front
+ */
+export function hasAnyRole(user: User, ...roles: string[]): boolean {
+    const normalized = roles.map((r) => r.toLowerCase());
+    return getRolesFromUser(user).some((r) => normalized.includes(r));
+}
+
 export function requireRoles(...allowedRoles: string[]) {
     const normalizedAllowed = allowedRoles.map((r) => r.toLowerCase());
 
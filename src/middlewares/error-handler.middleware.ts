@@ -1,11 +1,14 @@
 import createError from 'http-errors';
 import { Request, Response, NextFunction } from 'express';
+import { getErrorHttpStatus } from '../utils/http-error-status.util';
 
 export const errorHandler = (err: any, req: Request, res: Response, next: NextFunction) => {
-    if (createError.isHttpError(err)) {
-        return res.status(err.status || 500).json({
+    // @hyperflake/http-errors (thrown by services) only carry `status`, so they fail createError.isHttpError
+    if (createError.isHttpError(err) || getErrorHttpStatus(err, 0)) {
+        const status = getErrorHttpStatus(err);
+        return res.status(status).json({
             timestamp: Date.now(),
-            status: err.status,
+            status,
             message: err.message,
         });
     }
@@ -1,11 +1,42 @@
 import { Request, Response, Router } from 'express';
 import { authMiddleware } from '../middlewares/auth.middleware';
+import { requireRoles } from '../middlewares/authorization.middleware';
 import { DestinationService } from '../services/destination.service';
+import { RouteClosureService } from '../services/route-closure.service';
+import { RouteClosureKind } from '../interfaces/route-closure.interface';
 import { getDB } from '../configuration/database.config';
 import { pathParam } from '../utils/path-param.util';
+import { getErrorHttpStatus } from '../utils/http-error-status.util';
 
 const router = Router();
 const destinationService = new DestinationService();
+const routeClosureService = new RouteClosureService();
+
+const CLOSURE_KINDS: RouteClosureKind[] = ['closure', 'advisory'];
+
+const isUuid = (value: unknown) => typeof value === 'string' && /^[0-9a-f-]{36}$/i.test(value);
+
+const isYmd = (value: unknown) => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value));
+
+/**
+ * Shared checks for closure create/update; `partial` skips the required-field checks for PATCH
+ */
+const validateClosure = (body: any, partial: boolean): string[] => {
+    const errors: string[] = [];
+    const { originId, destinationId, kind, startsOn, endsOn, bidirectional, reason } = body || {};
+    if (!partial) {
+        if (!isUuid(originId)) errors.push('originId must be a destination id (UUID)');
+        if (!isUuid(destinationId)) errors.push('destinationId must be a destination id (UUID)');
+        if (originId && originId === destinationId) errors.push('originId and destinationId must differ');
+    }
+    if ((!partial || kind !== undefined) && !CLOSURE_KINDS.includes(kind)) errors.push(`kind must be one of ${CLOSURE_KINDS.join(' | ')}`);
+    if ((!partial || startsOn !== undefined) && !isYmd(startsOn)) errors.push('startsOn must be a date (YYYY-MM-DD)');
+    if ((!partial || endsOn !== undefined) && !isYmd(endsOn)) errors.push('endsOn must be a date (YYYY-MM-DD)');
+    if (isYmd(startsOn) && isYmd(endsOn) && endsOn < startsOn) errors.push('endsOn must not be before startsOn');
+    if (bidirectional !== undefined && typeof bidirectional !== 'boolean') errors.push('bidirectional must be a boolean');
+    if ((!partial || reason !== undefined) && (typeof reason !== 'string' || !reason.trim())) errors.push('reason must be a non-empty string');
+    return errors;
+};
 
 /**
  * @swagger
@@ -94,6 +125,294 @@ router.post('/', [authMiddleware], async (req: Request, res: Response) => {
     res.send(destination);
 });
 
+/**
+ * @swagger
+ * /destinations/closures:
+ *   get:
+ *     summary: Road closure calendar
+ *     description: |
+ *       Seasonal road and pass closures and advisories between destinations, earliest first. Package legs on a
+ *       closed date are rerouted or rejected; advisories are shown on the leg. This endpoint is publicly accessible.
+ *     tags:
+ *       - Destinations
+ *     parameters:
+ *       - in: query
+ *         name: destinationId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Closures with this destination at either end
+ *       - in: query
+ *         name: kind
+ *         schema:
+ *           type: string
+ *           enum: [closure, advisory]
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Only closures still in effect on or after this date
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Only closures starting on or before this date
+ *     responses:
+ *       200:
+ *         description: Closures
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/RouteClosure'
+ *       400:
+ *         description: Invalid filters
+ */
+router.get('/closures', async (req: Request, res: Response) => {
+    const { destinationId, kind, from, to } = req.query;
+    const errors: string[] = [];
+    if (destinationId !== undefined && !isUuid(destinationId)) errors.push('destinationId must be a destination id (UUID)');
+    if (kind !== undefined && !CLOSURE_KINDS.includes(kind as RouteClosureKind)) errors.push(`kind must be one of ${CLOSURE_KINDS.join(' | ')}`);
+    if (from !== undefined && !isYmd(from)) errors.push('from must be a date (YYYY-MM-DD)');
+    if (to !== undefined && !isYmd(to)) errors.push('to must be a date (YYYY-MM-DD)');
+    if (errors.length) return res.status(400).json({ error: 'Bad Request', details: errors });
+
+    try {
+        const closures = await routeClosureService.list({
+            destinationId: destinationId as string | undefined,
+            kind: kind as RouteClosureKind | undefined,
+            from: from as string | undefined,
+            to: to as string | undefined,
+        });
+        res.json(closures);
+    } catch (error: any) {
+        res.status(getErrorHttpStatus(error)).json({ error: error.message || 'Failed to fetch road closures' });
+    }
+});
+
+/**
+ * @swagger
+ * /destinations/closures:
+ *   post:
+ *     summary: Add a road closure or advisory
+ *     description: |
+ *       Generated packages touching either destination are dropped from the generation cache so new itineraries
+ *       follow the calendar. Saved packages keep their legs until their itinerary is next rebuilt.
+ *     tags:
+ *       - Destinations
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [originId, destinationId, kind, startsOn, endsOn, reason]
+ *             properties:
+ *               originId:
+ *                 type: string
+ *                 format: uuid
+ *               destinationId:
+ *                 type: string
+ *                 format: uuid
+ *               kind:
+ *                 type: string
+ *                 enum: [closure, advisory]
+ *               startsOn:
+ *                 type: string
+ *                 format: date
+ *               endsOn:
+ *                 type: string
+ *                 format: date
+ *               bidirectional:
+ *                 type: boolean
+ *                 default: true
+ *               reason:
+ *                 type: string
+ *                 example: Zojila pass closed for winter
+ *     responses:
+ *       201:
+ *         description: Created closure
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/RouteClosure'
+ *       400:
+ *         description: Invalid input
+ *       403:
+ *         description: Admin role required
+ */
+router.post('/closures', [authMiddleware, requireRoles('admin')], async (req: Request, res: Response) => {
+    const errors = validateClosure(req.body, false);
+    if (errors.length) return res.status(400).json({ error: 'Bad Request', details: errors });
+
+    try {
+        const { originId, destinationId, kind, startsOn, endsOn, bidirectional, reason } = req.body;
+        const closure = await routeClosureService.create({ originId, destinationId, kind, startsOn, endsOn, bidirectional, reason }, (req as any).user.id);
+        res.status(201).json(closure);
+    } catch (error: any) {
+        res.status(getErrorHttpStatus(error)).json({ error: error.message || 'Failed to create road closure' });
+    }
+});
+
+/**
+ * @swagger
+ * /destinations/closures/{closureId}:
+ *   patch:
+ *     summary: Update a road closure or advisory
+ *     description: The route itself cannot be changed; delete the closure and add a new one instead.
+ *     tags:
+ *       - Destinations
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: closureId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               kind:
+ *                 type: string
+ *                 enum: [closure, advisory]
+ *               startsOn:
+ *                 type: string
+ *                 format: date
+ *               endsOn:
+ *                 type: string
+ *                 format: date
+ *               bidirectional:
+ *                 type: boolean
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Updated closure
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/RouteClosure'
+ *       400:
+ *         description: Invalid input
+ *       403:
+ *         description: Admin role required
+ *       404:
+ *         description: Closure not found
+ */
+router.patch('/closures/:closureId', [authMiddleware, requireRoles('admin')], async (req: Request, res: Response) => {
+    const errors = validateClosure(req.body, true);
+    if (errors.length) return res.status(400).json({ error: 'Bad Request', details: errors });
+
+    try {
+        const { kind, startsOn, endsOn, bidirectional, reason } = req.body;
+        res.json(await routeClosureService.update(pathParam(req.params.closureId), { kind, startsOn, endsOn, bidirectional, reason }));
+    } catch (error: any) {
+        res.status(getErrorHttpStatus(error)).json({ error: error.message || 'Failed to update road closure' });
+    }
+});
+
+/**
+ * @swagger
+ * /destinations/closures/{closureId}:
+ *   delete:
+ *     summary: Delete a road closure or advisory
+ *     tags:
+ *       - Destinations
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: closureId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       204:
+ *         description: Closure deleted
+ *       403:
+ *         description: Admin role required
+ *       404:
+ *         description: Closure not found
+ */
+router.delete('/closures/:closureId', [authMiddleware, requireRoles('admin')], async (req: Request, res: Response) => {
+    try {
+        await routeClosureService.remove(pathParam(req.params.closureId));
+        res.status(204).send();
+    } catch (error: any) {
+        res.status(getErrorHttpStatus(error)).json({ error: error.message || 'Failed to delete road closure' });
+    }
+});
+
+/**
+ * @swagger
+ * /destinations/{destinationId}/closures:
+ *   get:
+ *     summary: Road closures of a destination
+ *     description: Closures and advisories on routes to or from the destination. Publicly accessible.
+ *     tags:
+ *       - Destinations
+ *     parameters:
+ *       - in: path
+ *         name: destinationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date
+ *     responses:
+ *       200:
+ *         description: Closures
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/RouteClosure'
+ *       400:
+ *         description: Invalid destination id or dates
+ */
+router.get('/:destinationId/closures', async (req: Request, res: Response) => {
+    const destinationId = pathParam(req.params.destinationId);
+    const { from, to } = req.query;
+    const errors: string[] = [];
+    if (!isUuid(destinationId)) errors.push('destinationId must be a destination id (UUID)');
+    if (from !== undefined && !isYmd(from)) errors.push('from must be a date (YYYY-MM-DD)');
+    if (to !== undefined && !isYmd(to)) errors.push('to must be a date (YYYY-MM-DD)');
+    if (errors.length) return res.status(400).json({ error: 'Bad Request', details: errors });
+
+    try {
+        const closures = await routeClosureService.list({
+            destinationId,
+            from: from as string | undefined,
+            to: to as string | undefined,
+        });
+        res.json(closures);
+    } catch (error: any) {
+        res.status(getErrorHttpStatus(error)).json({ error: error.message || 'Failed to fetch road closures' });
+    }
+});
+
 /**
  * @swagger
  * /destinations/{id}:
@@ -0,0 +1,240 @@
+import { Request, Response, Router } from 'express';
+import { authMiddleware } from '../middlewares/auth.middleware';
+import { requireRoles } from '../middlewares/authorization.middleware';
+import { PackageFulfilmentService } from '../services/package-fulfilment.service';
+import { FulfilmentItemKind, FulfilmentItemStatus } from '../interfaces/fulfilment.interface';
+import { pathParam } from '../utils/path-param.util';
+import { getErrorHttpStatus } from '../utils/http-error-status.util';
+
+const router = Router();
+const fulfilmentService = new PackageFulfilmentService();
+
+const ITEM_STATUSES: FulfilmentItemStatus[] = ['pending', 'confirmed', 'failed'];
+const ITEM_KINDS: FulfilmentItemKind[] = ['hotel_night', 'cab_leg', 'activity', 'restaurant_reservation'];
+const MAX_QUEUE_LIMIT = 500;
+
+const isYmd = (value: unknown) => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value));
+
+/**
+ * @swagger
+ * /fulfilment/queue:
+ *   get:
+ *     summary: Fulfilment work queue
+ *     description: |
+ *       Line items of booked packages for the ops team, soonest service date first. Defaults to `pending` items;
+ *       use `status=failed` to see what needs another attempt.
+ *     tags:
+ *       - Fulfilment
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, confirmed, failed]
+ *           default: pending
+ *       - in: query
+ *         name: kind
+ *         schema:
+ *           type: string
+ *           enum: [hotel_night, cab_leg, activity, restaurant_reservation]
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Earliest service date
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Latest service date
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 100
+ *           maximum: 500
+ *     responses:
+ *       200:
+ *         description: Queue items
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/FulfilmentQueueItem'
+ *       403:
+ *         description: Admin or ops role required
+ */
+router.get('/queue', [authMiddleware, requireRoles('admin', 'ops')], async (req: Request, res: Response) => {
+    const { status, kind, from, to, limit } = req.query;
+    const errors: string[] = [];
+    if (status !== undefined && !ITEM_STATUSES.includes(status as FulfilmentItemStatus)) errors.push(`status must be one of ${ITEM_STATUSES.join(' | ')}`);
+    if (kind !== undefined && !ITEM_KINDS.includes(kind as FulfilmentItemKind)) errors.push(`kind must be one of ${ITEM_KINDS.join(' | ')}`);
+    if (from !== undefined && !isYmd(from)) errors.push('from must be a date (YYYY-MM-DD)');
+    if (to !== undefined && !isYmd(to)) errors.push('to must be a date (YYYY-MM-DD)');
+    const parsedLimit = limit === undefined ? undefined : Number(limit);
+    if (parsedLimit !== undefined && (!Number.isInteger(parsedLimit) || parsedLimit < 1 || parsedLimit > MAX_QUEUE_LIMIT)) {
+        errors.push(`limit must be an integer between 1 and ${MAX_QUEUE_LIMIT}`);
+    }
+    if (errors.length) return res.status(400).json({ error: 'Bad Request', details: errors });
+
+    try {
+        const items = await fulfilmentService.queue({
+            status: status as FulfilmentItemStatus | undefined,
+            kind: kind as FulfilmentItemKind | undefined,
+            from: from as string | undefined,
+            to: to as string | undefined,
+            limit: parsedLimit,
+        });
+        res.json(items);
+    } catch (error: any) {
+        res.status(getErrorHttpStatus(error)).json({ error: error.message || 'Failed to fetch fulfilment queue' });
+    }
+});
+
+/**
+ * @swagger
+ * /fulfilment/packages/{packageId}:
+ *   get:
+ *     summary: Fulfilment of a package
+ *     description: All line items of the package with the overall fulfilment status.
+ *     tags:
+ *       - Fulfilment
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: packageId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Package fulfilment
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PackageFulfilment'
+ *       403:
+ *         description: Admin or ops role required
+ *       404:
+ *         description: Package not found
+ */
+router.get('/packages/:packageId', [authMiddleware, requireRoles('admin', 'ops')], async (req: Request, res: Response) => {
+    try {
+        res.json(await fulfilmentService.getForPackage(pathParam(req.params.packageId)));
+    } catch (error: any) {
+        res.status(getErrorHttpStatus(error)).json({ error: error.message || 'Failed to fetch fulfilment' });
+    }
+});
+
+/**
+ * @swagger
+ * /fulfilment/packages/{packageId}/generate:
+ *   post:
+ *     summary: Create missing fulfilment items
+ *     description: |
+ *       Items are created automatically when a package is booked. This adds any that are missing (e.g. for packages
+ *       booked before fulfilment existed, or when creating them failed) without touching existing items.
+ *     tags:
+ *       - Fulfilment
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: packageId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Package fulfilment
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PackageFulfilment'
+ *       404:
+ *         description: Package not found
+ *       409:
+ *         description: Package is not booked
+ */
+router.post('/packages/:packageId/generate', [authMiddleware, requireRoles('admin', 'ops')], async (req: Request, res: Response) => {
+    try {
+        res.json(await fulfilmentService.createForPackage(pathParam(req.params.packageId)));
+    } catch (error: any) {
+        res.status(getErrorHttpStatus(error)).json({ error: error.message || 'Failed to create fulfilment items' });
+    }
+});
+
+/**
+ * @swagger
+ * /fulfilment/items/{itemId}:
+ *   patch:
+ *     summary: Update a fulfilment item
+ *     description: |
+ *       Record the outcome of a reservation. `confirmed` requires `confirmationRef` (the supplier's booking
+ *       reference) and `failed` requires `failureReason`. The package's fulfilment status is updated accordingly.
+ *     tags:
+ *       - Fulfilment
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: itemId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [pending, confirmed, failed]
+ *               confirmationRef:
+ *                 type: string
+ *                 example: HTL-448812
+ *               failureReason:
+ *                 type: string
+ *               note:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Updated item
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/FulfilmentItem'
+ *       400:
+ *         description: Invalid input
+ *       404:
+ *         description: Item not found
+ */
+router.patch('/items/:itemId', [authMiddleware, requireRoles('admin', 'ops')], async (req: Request, res: Response) => {
+    const { status, confirmationRef, failureReason, note } = req.body || {};
+    const errors: string[] = [];
+    if (status !== undefined && !ITEM_STATUSES.includes(status)) errors.push(`status must be one of ${ITEM_STATUSES.join(' | ')}`);
+    for (const [name, value] of Object.entries({ confirmationRef, failureReason, note })) {
+        if (value !== undefined && (typeof value !== 'string' || !value.trim())) errors.push(`${name} must be a non-empty string`);
+    }
+    if (errors.length) return res.status(400).json({ error: 'Bad Request', details: errors });
+
+    try {
+        const item = await fulfilmentService.updateItem(pathParam(req.params.itemId), (req as any).user.id, { status, confirmationRef, failureReason, note });
+        res.json(item);
+    } catch (error: any) {
+        res.status(getErrorHttpStatus(error)).json({ error: error.message || 'Failed to update fulfilment item' });
+    }
+});
+
+export default router;
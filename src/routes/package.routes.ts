@@ -3,11 +3,156 @@ import { PackageService } from '../services/package.service';
 import { startOfDayUtc } from '../utils/date.util';
 import { optionalAuthMiddleware } from '../middlewares/optional-auth.middleware';
 import { authMiddleware } from '../middlewares/auth.middleware';
+import { hasAnyRole, requireRoles } from '../middlewares/authorization.middleware';
 import { getDB } from '../configuration/database.config';
 import { pathParam } from '../utils/path-param.util';
+import { PackageBookingStateMachine } from '../services/package-booking-state-machine.service';
+import { PackageCancellationService } from '../services/package-cancellation.service';
+import { PaymentService } from '../services/payment.service';
+import { PackageComparisonService } from '../services/package-comparison.service';
+import { PackageJobService } from '../services/package-job.service';
+import { PackageRevisionService } from '../services/package-revision.service';
+import { PackageExportService } from '../services/package-export.service';
+import { PackageGalleryService } from '../services/package-gallery.service';
+import { PackageShareService } from '../services/package-share.service';
+import { PackageCollaborationService } from '../services/package-collaboration.service';
+import { PackageManifestService } from '../services/package-manifest.service';
+import { PackageFulfilmentService } from '../services/package-fulfilment.service';
+import { WeatherAlertService } from '../services/weather-alert.service';
+import { getErrorHttpStatus } from '../utils/http-error-status.util';
+import { WeatherAlertStatus } from '../interfaces/weather-alert.interface';
+import { BookingStatus, PackageRole, PriceBucket, PublicPackageFilters, PublicPackageSort } from '../interfaces/package.interface';
+import { MINOR_MAX_AGE, MAX_ROOM_OCCUPANCY, MAX_ROOMS } from '../constants/travellers';
+import { GALLERY_MAX_LIMIT } from '../constants/package-gallery';
+import { SHARE_MAX_TTL_HOURS } from '../constants/package-share';
+import { headcount, resolveTravellers } from '../utils/traveller.util';
 
 const router = Router();
 const service = new PackageService();
+const stateMachine = new PackageBookingStateMachine();
+const cancellationService = new PackageCancellationService();
+const paymentService = new PaymentService();
+const comparisonService = new PackageComparisonService();
+const jobService = new PackageJobService();
+const revisionService = new PackageRevisionService();
+const exportService = new PackageExportService();
+const galleryService = new PackageGalleryService();
+const shareService = new PackageShareService();
+const collaborationService = new PackageCollaborationService();
+const manifestService = new PackageManifestService();
+const fulfilmentService = new PackageFulfilmentService();
+const weatherAlertService = new WeatherAlertService();
+
+const MAX_NIGHTS_PER_STOP = 14;
+const MAX_COMPARE_PACKAGES = 4;
+const VALID_BUCKETS: PriceBucket[] = ['budget_conscious', 'optimal', 'go_crazy'];
+const GALLERY_SORTS: PublicPackageSort[] = ['trending', 'clones', 'recent', 'price_asc', 'price_desc'];
+const PACKAGE_ROLES: PackageRole[] = ['owner', 'editor', 'viewer'];
+const MEMBER_ROLES: PackageRole[] = ['editor', 'viewer'];
+const PROPOSAL_DECISIONS = ['approve', 'reject', 'withdraw'] as const;
+const TRAVELLER_GENDERS = ['male', 'female', 'other'];
+
+const isChildAge = (age: any) => Number.isInteger(age) && age >= 0 && age <= MINOR_MAX_AGE;
+
+function validateTravellers(travellers: any, people: any): string[] {
+    if (typeof travellers !== 'object' || travellers === null) return ['travellers must be an object when provided'];
+    const errors: string[] = [];
+    if (!Number.isInteger(travellers.adults) || travellers.adults < 1) errors.push('travellers.adults must be a positive integer');
+    if (travellers.childAges !== undefined && (!Array.isArray(travellers.childAges) || !travellers.childAges.every(isChildAge))) {
+        errors.push(`travellers.childAges must be an array of ages between 0 and ${MINOR_MAX_AGE}`);
+    }
+    if (!errors.length && people !== undefined && Number(people) !== headcount(resolveTravellers({ travellers }))) {
+        errors.push('people must equal adults plus children when travellers is provided');
+    }
+    return errors;
+}
+
+/**
+ * Every room needs an adult, and the plan must seat exactly the requested travellers
+ */
+function validateRooms(rooms: any, travellers: any): string[] {
+    if (!Array.isArray(rooms) || rooms.length === 0 || rooms.length > MAX_ROOMS) return [`rooms must be an array of 1 to ${MAX_ROOMS} rooms when provided`];
+    const errors: string[] = [];
+    for (const room of rooms) {
+        const childAges = room?.childAges ?? [];
+        if (!Number.isInteger(room?.adults) || room.adults < 1) errors.push('each room must have at least one adult');
+        else if (!Array.isArray(childAges) || !childAges.every(isChildAge)) errors.push(`room childAges must be ages between 0 and ${MINOR_MAX_AGE}`);
+        else if (room.adults + childAges.length > MAX_ROOM_OCCUPANCY) errors.push(`a room can host at most ${MAX_ROOM_OCCUPANCY} guests`);
+    }
+    if (errors.length) return Array.from(new Set(errors));
+
+    const sortAges = (ages: number[]) => [...ages].sort((a, b) => a - b).join(',');
+    const roomAdults = rooms.reduce((s: number, r: any) => s + r.adults, 0);
+    const roomChildAges = rooms.flatMap((r: any) => r.childAges ?? []);
+    if (roomAdults !== Number(travellers?.adults) || sortAges(roomChildAges) !== sortAges(travellers?.childAges ?? [])) {
+        errors.push('rooms must seat exactly the requested adults and children');
+    }
+    return errors;
+}
+
+const DAY_OPERATION_TYPES = ['insert', 'remove', 'move', 'change_destination'];
+
+/**
+ * Shape checks for PATCH dayOperations; index ranges depend on earlier operations and are checked by the service
+ */
+function validateDayOperations(operations: any): string[] {
+    if (!Array.isArray(operations)) return ['dayOperations must be an array when provided'];
+    const errors: string[] = [];
+    const isIndex = (n: any) => Number.isInteger(n) && n >= 0;
+    operations.forEach((op: any, i: number) => {
+        if (!DAY_OPERATION_TYPES.includes(op?.type)) return errors.push(`dayOperations[${i}].type must be one of ${DAY_OPERATION_TYPES.join(' | ')}`);
+        if (op.type === 'move') {
+            if (!isIndex(op.fromIndex) || !isIndex(op.toIndex)) errors.push(`dayOperations[${i}] needs integer fromIndex and toIndex`);
+        } else if (!isIndex(op.dayIndex)) errors.push(`dayOperations[${i}].dayIndex must be a non-negative integer`);
+        if ((op.type === 'insert' || op.type === 'change_destination') && (!op.destinationId || typeof op.destinationId !== 'string')) {
+            errors.push(`dayOperations[${i}].destinationId is required`);
+        }
+    });
+    return errors;
+}
+
+/**
+ * Validate a GeneratePackageRequest body; returns the list of problems (empty when valid)
+ */
+function validateGenerateRequest(body: any, options: { requirePriceBucket?: boolean } = {}): string[] {
+    const { destinationIds, stops, people, travellers, rooms, priceBucket, activities, includeCommonAttractions, startDate, optimizeRoute, maxTotalBudget, maxPerPersonBudget, enforceAcclimatization } = body;
+
+    const errors: string[] = [];
+    if (stops !== undefined) {
+        if (!Array.isArray(stops) || stops.length === 0) errors.push('stops must be a non-empty array when provided');
+        else if (stops.some((s: any) => !s?.destinationId || typeof s.destinationId !== 'string')) errors.push('each stop must have a destinationId');
+        else if (stops.some((s: any) => !Number.isInteger(Number(s.nights)) || Number(s.nights) < 1 || Number(s.nights) > MAX_NIGHTS_PER_STOP)) errors.push(`each stop must have nights between 1 and ${MAX_NIGHTS_PER_STOP}`);
+    } else if (!Array.isArray(destinationIds) || destinationIds.length === 0) errors.push('destinationIds must be a non-empty array');
+    if (options.requirePriceBucket !== false && !VALID_BUCKETS.includes(priceBucket)) errors.push('priceBucket must be one of budget_conscious | optimal | go_crazy');
+    if (travellers === undefined) {
+        if (Number.isNaN(Number(people)) || Number(people) <= 0) errors.push('people must be a positive number');
+    } else {
+        errors.push(...validateTravellers(travellers, people));
+    }
+    if (rooms !== undefined) errors.push(...validateRooms(rooms, travellers === undefined ? { adults: Number(people), childAges: [] } : travellers));
+    if (activities && !Array.isArray(activities)) errors.push('activities must be an array when provided');
+    if (includeCommonAttractions !== undefined && typeof includeCommonAttractions !== 'boolean') errors.push('includeCommonAttractions must be boolean when provided');
+    if (optimizeRoute !== undefined && typeof optimizeRoute !== 'boolean') {
+        const requestedIds: string[] = Array.isArray(stops) ? stops.map((s: any) => s?.destinationId) : Array.isArray(destinationIds) ? destinationIds : [];
+        if (typeof optimizeRoute !== 'object' || optimizeRoute === null) errors.push('optimizeRoute must be a boolean or an object when provided');
+        else {
+            if (optimizeRoute.metric !== undefined && !['distance', 'duration'].includes(optimizeRoute.metric)) errors.push('optimizeRoute.metric must be one of distance | duration');
+            if (optimizeRoute.startDestinationId && !requestedIds.includes(optimizeRoute.startDestinationId)) errors.push('optimizeRoute.startDestinationId must be one of the requested destinations');
+            if (optimizeRoute.endDestinationId && !requestedIds.includes(optimizeRoute.endDestinationId)) errors.push('optimizeRoute.endDestinationId must be one of the requested destinations');
+        }
+    }
+    if (maxTotalBudget !== undefined && (typeof maxTotalBudget !== 'number' || !(maxTotalBudget > 0))) errors.push('maxTotalBudget must be a positive number when provided');
+    if (maxPerPersonBudget !== undefined && (typeof maxPerPersonBudget !== 'number' || !(maxPerPersonBudget > 0))) errors.push('maxPerPersonBudget must be a positive number when provided');
+    if (enforceAcclimatization !== undefined && typeof enforceAcclimatization !== 'boolean') errors.push('enforceAcclimatization must be boolean when provided');
+    if (startDate && Number.isNaN(Date.parse(startDate))) errors.push('startDate must be a valid ISO date string when provided');
+    if (startDate && !Number.isNaN(Date.parse(startDate))) {
+        const parsed = new Date(startDate);
+        const todayStart = startOfDayUtc(new Date());
+        if (parsed < todayStart) errors.push('startDate must not be in the past (UTC)');
+    }
+
+    return errors;
+}
 
 /**
  * @swagger
@@ -25,7 +170,23 @@ const service = new PackageService();
  *       - Calculates transport costs between destinations
  *       - Provides available cab options for UI switching
  *       - Supports date regeneration via startDate parameter
+ *       - Supports multi-night stays via `stops` (one hotel search per stop, one day plan per calendar day)
+ *       - Optional `optimizeRoute` reorders stops for the least total distance or driving time (see `meta.routeOptimization`)
+ *       - Optional `travellers` (adults plus child ages) and `rooms` price hotels per room, charge children the POI child
+ *         price (infants free) and size the cab for everyone; `perPersonPrice` divides by paying travellers
+ *       - Optional `maxTotalBudget` / `maxPerPersonBudget` fit the trip under a limit by switching to cheaper hotel offers,
+ *         a cheaper cab and dropping lower-rated attractions. `meta.budget` lists the changes; when the limit cannot be met
+ *         the cheapest version is returned with `withinBudget: false`, the `shortfall` and `minimumAchievableTotal`
+ *       - Legs honour the road closure calendar: a leg on a closed date is rerouted through another destination
+ *         (`viaDestinationIds`, with the closure in `notices`) or the request is rejected with 409. Advisories are
+ *         listed in the leg's `notices`.
+ *       - `meta.acclimatization` flags nights whose sleeping altitude rises too fast (configurable guidelines). With
+ *         `enforceAcclimatization: true` stops are climbed in ascending order and rest nights are added (listed in
+ *         `adjustments`, which can make the trip longer); gains only an intermediate stop could fix stay as warnings
  *       - If user is authenticated, the package is automatically associated with their user_id
+ *       - With `?async=true` the call returns 202 with a `jobId` right away; poll `GET /packages/jobs/{jobId}` or listen
+ *         on the `/packages` Socket.IO namespace (`package-job-progress`, `package-job-completed`, `package-job-failed`).
+ *         Without it the generated package is returned directly, as before.
  *       
  *       **Weather Data:**
  *       - Weather data is fetched from Tomorrow.io API
@@ -36,6 +197,13 @@ const service = new PackageService();
  *       - Packages
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: async
+ *         required: false
+ *         schema:
+ *           type: boolean
+ *         description: Run as a background job and return a jobId (202)
  *     requestBody:
  *       required: true
  *       content:
@@ -51,6 +219,46 @@ const service = new PackageService();
  *                 priceBucket: budget_conscious
  *                 includeCommonAttractions: true
  *                 startDate: "2025-11-01T00:00:00.000Z"
+ *             multiNight:
+ *               summary: Multi-night stays per destination
+ *               value:
+ *                 stops:
+ *                   - destinationId: "6d04f442-3f07-4f72-90aa-bb75a7bbd167"
+ *                     nights: 2
+ *                   - destinationId: "b1c2d3e4-0000-4000-8000-000000000002"
+ *                     nights: 3
+ *                 people: 2
+ *                 priceBucket: optimal
+ *                 includeCommonAttractions: true
+ *             optimizedRoute:
+ *               summary: Let the server pick the shortest order, ending in Pahalgam
+ *               value:
+ *                 destinationIds: ["6d04f442-3f07-4f72-90aa-bb75a7bbd167", "b1c2d3e4-0000-4000-8000-000000000002", "b1c2d3e4-0000-4000-8000-000000000003"]
+ *                 people: 2
+ *                 priceBucket: optimal
+ *                 optimizeRoute:
+ *                   metric: distance
+ *                   endDestinationId: "b1c2d3e4-0000-4000-8000-000000000003"
+ *             family:
+ *               summary: Two adults and two children in one family room, plus a solo traveller
+ *               value:
+ *                 destinationIds: ["6d04f442-3f07-4f72-90aa-bb75a7bbd167"]
+ *                 travellers:
+ *                   adults: 3
+ *                   childAges: [4, 9]
+ *                 rooms:
+ *                   - adults: 2
+ *                     childAges: [4, 9]
+ *                   - adults: 1
+ *                 priceBucket: optimal
+ *             budget:
+ *               summary: Fit the trip under a total budget
+ *               value:
+ *                 destinationIds: ["6d04f442-3f07-4f72-90aa-bb75a7bbd167", "b1c2d3e4-0000-4000-8000-000000000002"]
+ *                 people: 2
+ *                 priceBucket: optimal
+ *                 includeCommonAttractions: true
+ *                 maxTotalBudget: 25000
  *             regenerate:
  *               summary: Regenerate with a new startDate (use this to regenerate the package for different travel dates)
  *               value:
@@ -60,6 +268,21 @@ const service = new PackageService();
  *                 includeCommonAttractions: true
  *                 startDate: "2025-12-15T00:00:00.000Z"
  *     responses:
+ *       202:
+ *         description: Job queued (`?async=true`)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 jobId:
+ *                   type: string
+ *                   format: uuid
+ *                 status:
+ *                   type: string
+ *                   example: queued
+ *                 statusUrl:
+ *                   type: string
  *       200:
  *         description: "Generated package. Note: weather may be null for dates outside the 5-day forecast window."
  *         content:
@@ -97,62 +320,2083 @@ const service = new PackageService();
  *         content:
  *           application/json:
  *             schema:
- *               type: object
- *               properties:
- *                 error:
- *                   type: string
- *                   example: "Bad Request"
- *                 details:
- *                   type: array
- *                   items:
- *                     type: string
- *                   example:
- *                     - "startDate must not be in the past (UTC)"
- *                     - "people must be a positive number"
+ *               type: object
+ *               properties:
+ *                 error:
+ *                   type: string
+ *                   example: "Bad Request"
+ *                 details:
+ *                   type: array
+ *                   items:
+ *                     type: string
+ *                   example:
+ *                     - "startDate must not be in the past (UTC)"
+ *                     - "people must be a positive number"
+ *                     - "each stop must have nights between 1 and 14"
+ *       409:
+ *         description: A leg falls on a date its road is closed and there is no open detour (see `/destinations/closures`)
+ */
+router.post('/generate', [optionalAuthMiddleware], async (req: Request, res: Response) => {
+    const { destinationIds, stops, people, travellers, rooms, priceBucket, activities, includeCommonAttractions, startDate, optimizeRoute, maxTotalBudget, maxPerPersonBudget, enforceAcclimatization } = req.body || {};
+
+    const errors = validateGenerateRequest(req.body || {});
+    if (errors.length) return res.status(400).json({ error: 'Bad Request', details: errors });
+
+    const user = (req as any).user as { id: string } | undefined;
+    const userId = user?.id || undefined;
+
+    const headCount = headcount(resolveTravellers({ people: Number(people), travellers }));
+    const generateReq = { destinationIds, stops, people: headCount, travellers, rooms, priceBucket, activities, includeCommonAttractions, startDate, optimizeRoute, maxTotalBudget, maxPerPersonBudget, enforceAcclimatization };
+
+    if (req.query.async === 'true') {
+        const job = await jobService.create(generateReq, userId);
+        return res.status(202).json({ jobId: job.jobId, status: job.status, statusUrl: `/api/packages/jobs/${job.jobId}` });
+    }
+
+    const result = await service.generate(generateReq, userId);
+    res.json(result);
+});
+
+/**
+ * @swagger
+ * /packages/compare:
+ *   post:
+ *     summary: Compare package options side by side
+ *     description: |
+ *       Lines up two or more package options and returns per-component and per-day differences.
+ *
+ *       - **Price buckets**: send one generate `request` plus `priceBuckets`; the request is generated once per
+ *         bucket (nothing is saved).
+ *       - **Saved packages**: send `packageIds` (2 to 4). Each package must be owned by the caller or be public;
+ *         private packages require authentication.
+ *
+ *       Differences are relative to the first option. Days are aligned by their position in the trip; a `null`
+ *       cell means that option has fewer days.
+ *     tags:
+ *       - Packages
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               request:
+ *                 $ref: '#/components/schemas/GeneratePackageRequest'
+ *               priceBuckets:
+ *                 type: array
+ *                 minItems: 2
+ *                 items:
+ *                   type: string
+ *                   enum: [budget_conscious, optimal, go_crazy]
+ *               packageIds:
+ *                 type: array
+ *                 minItems: 2
+ *                 maxItems: 4
+ *                 items:
+ *                   type: string
+ *                   format: uuid
+ *           examples:
+ *             buckets:
+ *               summary: Same trip in every price bucket
+ *               value:
+ *                 request:
+ *                   destinationIds: ["6d04f442-3f07-4f72-90aa-bb75a7bbd167"]
+ *                   people: 2
+ *                 priceBuckets: [budget_conscious, optimal, go_crazy]
+ *             packages:
+ *               summary: Two saved packages
+ *               value:
+ *                 packageIds: ["6d04f442-3f07-4f72-90aa-bb75a7bbd167", "b1c2d3e4-0000-4000-8000-000000000002"]
+ *     responses:
+ *       200:
+ *         description: Aligned comparison
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PackageComparison'
+ *       400:
+ *         description: Invalid request
+ *       403:
+ *         description: A package is private and the caller is not a member of it
+ *       404:
+ *         description: Package not found
+ *       500:
+ *         description: Server error
+ */
+router.post('/compare', [optionalAuthMiddleware], async (req: Request, res: Response) => {
+    const { request, priceBuckets, packageIds } = req.body || {};
+    const user = (req as any).user as { id: string } | undefined;
+
+    if (packageIds !== undefined) {
+        if (request !== undefined || priceBuckets !== undefined) {
+            return res.status(400).json({ error: 'Send either packageIds or request with priceBuckets, not both' });
+        }
+        if (!Array.isArray(packageIds) || packageIds.some((id: any) => typeof id !== 'string' || !id)) {
+            return res.status(400).json({ error: 'packageIds must be an array of package ids' });
+        }
+        const ids = Array.from(new Set(packageIds as string[]));
+        if (ids.length < 2 || ids.length > MAX_COMPARE_PACKAGES) {
+            return res.status(400).json({ error: `packageIds must contain between 2 and ${MAX_COMPARE_PACKAGES} distinct packages` });
+        }
+
+        for (const id of ids) {
+            if (!(await checkPackageRole(id, user, res, PACKAGE_ROLES, { allowPublic: true }))) return;
+        }
+
+        try {
+            return res.json(await comparisonService.comparePackages(ids));
+        } catch (error: any) {
+            if (error.message === 'Package not found') return res.status(404).json({ error: error.message });
+            return res.status(getErrorHttpStatus(error)).json({ error: error.message || 'Failed to compare packages' });
+        }
+    }
+
+    if (!request || typeof request !== 'object') {
+        return res.status(400).json({ error: 'Either packageIds or request with priceBuckets is required' });
+    }
+    const errors = validateGenerateRequest(request, { requirePriceBucket: false });
+    const buckets: PriceBucket[] = Array.isArray(priceBuckets) ? Array.from(new Set(priceBuckets)) : [];
+    if (buckets.length < 2) errors.push('priceBuckets must contain at least 2 distinct buckets');
+    if (buckets.some((b) => !VALID_BUCKETS.includes(b))) errors.push('priceBuckets must be one of budget_conscious | optimal | go_crazy');
+    if (errors.length) return res.status(400).json({ error: 'Bad Request', details: errors });
+
+    const { destinationIds, stops, people, travellers, rooms, activities, includeCommonAttractions, startDate, optimizeRoute, maxTotalBudget, maxPerPersonBudget, enforceAcclimatization } = request;
+    const headCount = headcount(resolveTravellers({ people: Number(people), travellers }));
+    try {
+        const comparison = await comparisonService.compareBuckets(
+            { destinationIds, stops, people: headCount, travellers, rooms, priceBucket: buckets[0], activities, includeCommonAttractions, startDate, optimizeRoute, maxTotalBudget, maxPerPersonBudget, enforceAcclimatization },
+            buckets
+        );
+        res.json(comparison);
+    } catch (error: any) {
+        res.status(getErrorHttpStatus(error)).json({ error: error.message || 'Failed to compare packages' });
+    }
+});
+
+/**
+ * @swagger
+ * /packages/jobs/{jobId}:
+ *   get:
+ *     summary: Get the status of an async generation job
+ *     description: |
+ *       Reports progress (0-100), every progress event so far and partial results (route order, hotels found per stop).
+ *       Once `completed`, `result` holds the same payload the synchronous generate call returns.
+ *       Jobs started by a signed-in user are only visible to that user.
+ *     tags:
+ *       - Packages
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: jobId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Job status
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PackageGenerationJob'
+ *       401:
+ *         description: Authentication required for this job
+ *       403:
+ *         description: Job belongs to another user
+ *       404:
+ *         description: Job not found
+ */
+router.get('/jobs/:jobId', [optionalAuthMiddleware], async (req: Request, res: Response) => {
+    const jobId = pathParam(req.params.jobId);
+    const user = (req as any).user as { id: string } | undefined;
+
+    try {
+        const { userId, ...job } = await jobService.get(jobId);
+        if (userId && !user) return res.status(401).json({ error: 'Authentication required' });
+        if (userId && userId !== user!.id) return res.status(403).json({ error: 'Access denied: This job belongs to another user' });
+        res.json(job);
+    } catch (error: any) {
+        res.status(getErrorHttpStatus(error)).json({ error: error.message || 'Failed to fetch job' });
+    }
+});
+
+/**
+ * @swagger
+ * /packages/cache/invalidate:
+ *   post:
+ *     summary: Invalidate cached generated packages (admin)
+ *     description: |
+ *       Drops cached generation results so the next request is generated from current prices. Changes to
+ *       `destination_pricing_buckets` and `cab_inventory` already invalidate the Postgres cache through database
+ *       triggers; use this after editing prices while `PACKAGE_CACHE_DRIVER=memory`, or to force a refresh.
+ *       Only the cache of the instance handling the call is cleared when the memory driver is used.
+ *     tags:
+ *       - Packages
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               destinationIds:
+ *                 type: array
+ *                 description: Only drop packages visiting any of these destinations. Omit to clear everything.
+ *                 items:
+ *                   type: string
+ *                   format: uuid
+ *     responses:
+ *       200:
+ *         description: Cache entries removed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 invalidated:
+ *                   type: integer
+ *                   example: 12
+ *       400:
+ *         description: Invalid destinationIds
+ *       403:
+ *         description: Admin role required
+ */
+router.post('/cache/invalidate', [authMiddleware, requireRoles('admin')], async (req: Request, res: Response) => {
+    const { destinationIds } = req.body || {};
+    if (destinationIds !== undefined && (!Array.isArray(destinationIds) || destinationIds.some((id: unknown) => typeof id !== 'string' || !id))) {
+        return res.status(400).json({ error: 'destinationIds must be an array of destination ids' });
+    }
+
+    try {
+        const invalidated = await PackageService.invalidateCache(destinationIds ? { destinationIds } : undefined);
+        res.json({ invalidated });
+    } catch (error: any) {
+        res.status(getErrorHttpStatus(error)).json({ error: error.message || 'Failed to invalidate package cache' });
+    }
+});
+
+/**
+ * Parse gallery query params; returns the filters or the list of problems
+ */
+function parseGalleryQuery(query: Request['query']): { filters: PublicPackageFilters; errors: string[] } {
+    const errors: string[] = [];
+    const filters: PublicPackageFilters = {};
+    const str = (v: unknown) => (typeof v === 'string' && v.trim() !== '' ? v.trim() : undefined);
+    const num = (name: string, min: number, max = Number.MAX_SAFE_INTEGER, integer = true) => {
+        const raw = str(query[name]);
+        if (raw === undefined) return undefined;
+        const n = Number(raw);
+        if (!Number.isFinite(n) || n < min || n > max || (integer && !Number.isInteger(n))) {
+            errors.push(`${name} must be ${integer ? 'an integer' : 'a number'} between ${min} and ${max === Number.MAX_SAFE_INTEGER ? 'any' : max}`);
+            return undefined;
+        }
+        return n;
+    };
+
+    const destinations = query.destinationIds;
+    if (destinations !== undefined) {
+        filters.destinationIds = (Array.isArray(destinations) ? destinations : [destinations])
+            .flatMap((v) => String(v).split(','))
+            .map((v) => v.trim())
+            .filter(Boolean);
+    }
+    filters.minDays = num('minDays', 1);
+    filters.maxDays = num('maxDays', 1);
+    filters.minPrice = num('minPrice', 0, Number.MAX_SAFE_INTEGER, false);
+    filters.maxPrice = num('maxPrice', 0, Number.MAX_SAFE_INTEGER, false);
+    filters.month = num('month', 1, 12);
+    filters.limit = num('limit', 1, GALLERY_MAX_LIMIT);
+    filters.cursor = str(query.cursor);
+
+    const bucket = str(query.priceBucket);
+    if (bucket !== undefined && !VALID_BUCKETS.includes(bucket as PriceBucket)) errors.push('priceBucket must be one of budget_conscious | optimal | go_crazy');
+    else filters.priceBucket = bucket as PriceBucket | undefined;
+    const sort = str(query.sort);
+    if (sort !== undefined && !GALLERY_SORTS.includes(sort as PublicPackageSort)) errors.push(`sort must be one of ${GALLERY_SORTS.join(' | ')}`);
+    else filters.sort = sort as PublicPackageSort | undefined;
+
+    if (filters.minDays !== undefined && filters.maxDays !== undefined && filters.minDays > filters.maxDays) errors.push('minDays must not exceed maxDays');
+    if (filters.minPrice !== undefined && filters.maxPrice !== undefined && filters.minPrice > filters.maxPrice) errors.push('minPrice must not exceed maxPrice');
+    return { filters, errors };
+}
+
+/**
+ * @swagger
+ * /packages/public:
+ *   get:
+ *     summary: Browse public packages
+ *     description: |
+ *       Gallery of packages their owners made public (cancelled ones are hidden), with cursor pagination.
+ *       Pass `nextCursor` back as `cursor` with the same `sort` to get the next page.
+ *
+ *       `trending` ranks by `stats.trendingScore`: clones made in the last 30 days, plus 2 per clone that was
+ *       booked, plus 3 when the package itself is booked. Prices are filtered per person.
+ *     tags:
+ *       - Packages
+ *     parameters:
+ *       - in: query
+ *         name: destinationIds
+ *         schema:
+ *           type: string
+ *         description: Comma-separated destination ids; packages must include all of them
+ *       - in: query
+ *         name: minDays
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: maxDays
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: priceBucket
+ *         schema:
+ *           type: string
+ *           enum: [budget_conscious, optimal, go_crazy]
+ *       - in: query
+ *         name: minPrice
+ *         schema:
+ *           type: number
+ *         description: Minimum per-person price
+ *       - in: query
+ *         name: maxPrice
+ *         schema:
+ *           type: number
+ *         description: Maximum per-person price
+ *       - in: query
+ *         name: month
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 12
+ *         description: Month of the start date
+ *       - in: query
+ *         name: sort
+ *         schema:
+ *           type: string
+ *           enum: [trending, clones, recent, price_asc, price_desc]
+ *           default: trending
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 50
+ *       - in: query
+ *         name: cursor
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: A page of package cards
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PublicPackagePage'
+ *       400:
+ *         description: Invalid filters or cursor
+ */
+router.get('/public', async (req: Request, res: Response) => {
+    const { filters, errors } = parseGalleryQuery(req.query);
+    if (errors.length) return res.status(400).json({ error: 'Bad Request', details: errors });
+
+    try {
+        res.json(await galleryService.list(filters));
+    } catch (error: any) {
+        res.status(getErrorHttpStatus(error)).json({ error: error.message || 'Failed to fetch public packages' });
+    }
+});
+
+/**
+ * @swagger
+ * /packages/shared/{token}:
+ *   get:
+ *     summary: View a package through a share link
+ *     description: |
+ *       Public, read-only view of a package shared by its owner. User, package and cab ids are left out, as are
+ *       all amounts when the link was created with `hidePrices`. Each successful call counts as a view.
+ *       Unknown, expired and revoked links all return 404.
+ *     tags:
+ *       - Packages
+ *     parameters:
+ *       - in: path
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Redacted package
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SharedPackageView'
+ *       404:
+ *         description: Link not found, expired or revoked
+ */
+router.get('/shared/:token', async (req: Request, res: Response) => {
+    try {
+        res.json(await shareService.resolve(pathParam(req.params.token)));
+    } catch (error: any) {
+        res.status(getErrorHttpStatus(error)).json({ error: error.message || 'Failed to open shared package' });
+    }
+});
+
+/**
+ * @swagger
+ * /packages/invitations:
+ *   get:
+ *     summary: List my package invitations
+ *     description: Pending invitations to co-travel, matched on the email or phone of the signed-in user's profile.
+ *     tags:
+ *       - Package Collaboration
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Pending invitations, newest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/PackageMember'
+ */
+router.get('/invitations', authMiddleware, async (req: Request, res: Response) => {
+    try {
+        res.json(await collaborationService.listInvitations((req as any).user.id));
+    } catch (error: any) {
+        res.status(getErrorHttpStatus(error)).json({ error: error.message || 'Failed to fetch invitations' });
+    }
+});
+
+/**
+ * @swagger
+ * /packages/invitations/{memberId}/{response}:
+ *   post:
+ *     summary: Accept or decline a package invitation
+ *     description: Accepting makes the user a member with the invited role.
+ *     tags:
+ *       - Package Collaboration
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: memberId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: response
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [accept, decline]
+ *     responses:
+ *       200:
+ *         description: Updated membership
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PackageMember'
+ *       404:
+ *         description: Invitation not found or not addressed to this user
+ *       409:
+ *         description: Invitation already answered
+ */
+router.post('/invitations/:memberId/:response', authMiddleware, async (req: Request, res: Response) => {
+    const response = pathParam(req.params.response);
+    if (response !== 'accept' && response !== 'decline') return res.status(400).json({ error: 'response must be one of accept | decline' });
+
+    try {
+        res.json(await collaborationService.respondToInvitation(pathParam(req.params.memberId), (req as any).user.id, response === 'accept'));
+    } catch (error: any) {
+        res.status(getErrorHttpStatus(error)).json({ error: error.message || 'Failed to answer invitation' });
+    }
+});
+
+/**
+ * @swagger
+ * /packages/{packageId}/book:
+ *   post:
+ *     summary: Attempt to book a generated package
+ *     description: |
+ *       Initiates the booking flow for a previously generated package.
+ *       Optionally accepts configuration updates (cab, hotels, activities, date) to apply before booking.
+ *       
+ *       - If configuration is provided, the package is updated first. This requires authentication and, once the
+ *         package has an owner, being that owner (co-travellers send proposals instead).
+ *       - Then, the booking logic matches the user and updates status.
+ *       - If unauthenticated, `booking_status` -> `awaiting_auth` (401).
+ *       - If authenticated but unverified, `booking_status` -> `awaiting_verification` (403).
+ *       - If verified but no KYC, `booking_status` -> `pending_kyc` (202).
+ *       - If fully verified, a payment intent for `totalBasePrice` is created (or the open one reused) and
+ *         `booking_status` -> `awaiting_payment` (202). Complete the payment with `paymentIntent.clientSecret`.
+ *         When the package has a payment schedule (`PUT /payments/packages/{packageId}/schedule`) the intent
+ *         covers the deposit only; later instalments are paid through the schedule endpoints.
+ *       - Prices are honoured until `quoteValidUntil`. After that, hotels and cabs are re-priced; if the total
+ *         changed the call returns 409 `price_changed` with a per-component diff (old vs new). Call again with
+ *         `acceptPriceChange: true` within `priceChange.acceptBefore` to accept the new price and continue.
+ *       - The package becomes `booked` only when the payment provider reports the capture
+ *         (`POST /payments/webhook`). Calling this endpoint on a booked package returns 200.
+ *       - Cancelled packages cannot be booked (409).
+ *
+ *       Every status change goes through the booking state machine and is recorded in `package_status_history`.
+ *     tags:
+ *       - Packages
+ *     parameters:
+ *       - in: path
+ *         name: packageId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             allOf:
+ *               - $ref: '#/components/schemas/UpdatePackageConfigurationRequest'
+ *               - type: object
+ *                 properties:
+ *                   acceptPriceChange:
+ *                     type: boolean
+ *                     description: Accept the pending re-quote returned by a previous `price_changed` response
+ *     responses:
+ *       200:
+ *         description: Package is already booked
+ *       202:
+ *         description: KYC required (`pending_kyc`) or payment required (`awaiting_payment`, includes `paymentIntent`)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 packageId:
+ *                   type: string
+ *                   format: uuid
+ *                 booking_status:
+ *                   type: string
+ *                   enum: [pending_kyc, awaiting_payment]
+ *                 paymentIntent:
+ *                   $ref: '#/components/schemas/PaymentIntent'
+ *       401:
+ *         description: Authentication required
+ *       403:
+ *         description: Verification required, or configuration sent by someone other than the owner
+ *       404:
+ *         description: Package not found
+ *       409:
+ *         description: |
+ *           Package is cancelled, the transition is not allowed, the traveller manifest is incomplete
+ *           (`error: manifest_incomplete`, see `issues` and `GET /packages/{packageId}/travellers`), or the quote
+ *           expired and the price changed (`error: price_changed`, see `priceChange`)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 error:
+ *                   type: string
+ *                   example: price_changed
+ *                 packageId:
+ *                   type: string
+ *                   format: uuid
+ *                 booking_status:
+ *                   type: string
+ *                 priceChange:
+ *                   $ref: '#/components/schemas/PackagePriceChange'
+ *       500:
+ *         description: Server error
+ */
+router.post('/:packageId/book', [optionalAuthMiddleware], async (req: Request, res: Response) => {
+    const packageId = pathParam(req.params.packageId);
+    const { cabId, dayConfigurations } = req.body || {};
+    const user = (req as any).user as { id: string } | undefined;
+    const db = getDB();
+
+    // 1. If configuration updates are provided, apply them first
+    if (cabId || (dayConfigurations && Array.isArray(dayConfigurations) && dayConfigurations.length > 0)) {
+        if (!user) return res.status(401).json({ error: 'Authentication required to change the package configuration' });
+        try {
+            // Unclaimed packages are claimed by whoever books them below; as with PATCH, only the owner changes an
+            // owned package directly and co-travellers send proposals
+            const { role, ownerId } = await collaborationService.getAccess(packageId, user.id);
+            if (ownerId && role !== 'owner') {
+                return res.status(403).json({ error: 'Access denied: Only the owner can change this package; co-travellers can send proposals' });
+            }
+            await service.updateConfiguration(packageId, { cabId, dayConfigurations }, user.id);
+        } catch (error: any) {
+            if (error.message?.includes('booked') || error.message?.includes('cancelled')) {
+                return res.status(409).json({ error: `Cannot update configuration: ${error.message}` });
+            } else if (error.message?.includes('not found')) {
+                return res.status(404).json({ error: 'Package not found during update' });
+            }
+            // Log warning but maybe proceed? Or fail? Better to fail if explicit update requested.
+            return res.status(400).json({ error: 'Failed to apply configuration updates', details: error.message });
+        }
+    }
+
+    const { data: pkg, error } = await db
+        .from('packages')
+        .select('id,user_id,booking_status')
+        .eq('id', packageId)
+        .maybeSingle();
+
+    if (error) return res.status(500).json({ error: error.message });
+    if (!pkg) return res.status(404).json({ error: 'Package not found' });
+
+    const currentStatus = (pkg as any).booking_status as BookingStatus;
+    if (currentStatus === 'cancelled') {
+        return res.status(409).json({ error: 'package_cancelled', packageId, booking_status: currentStatus });
+    }
+
+    // Unauthenticated: set awaiting_auth and prompt login
+    if (!user) {
+        if (stateMachine.canTransition(currentStatus, 'awaiting_auth')) {
+            await stateMachine.transition(packageId, 'awaiting_auth', { reason: 'authentication_required' });
+        }
+        return res.status(401).json({
+            error: 'authentication_required',
+            packageId,
+            booking_status: 'awaiting_auth',
+        });
+    }
+
+    // If package is owned by a different user, block
+    if ((pkg as any).user_id && (pkg as any).user_id !== user.id) {
+        return res.status(409).json({ error: 'package_owned_by_another_user' });
+    }
+
+    // Attach package to this user if not already
+    if (!(pkg as any).user_id) {
+        await db.from('packages').update({ user_id: user.id }).eq('id', (pkg as any).id);
+    }
+
+    // Fetch profile for verification and KYC checks
+    const { data: profile, error: profErr } = await db
+        .from('user_profiles')
+        .select('verification_status,kyc_status,phone')
+        .eq('id', user.id)
+        .maybeSingle();
+    if (profErr) return res.status(500).json({ error: profErr.message });
+
+    const verificationStatus = (profile as any)?.verification_status;
+    const kycStatus = (profile as any)?.kyc_status;
+    const phone = (profile as any)?.phone;
+
+    // Booked packages (including ones with an overdue instalment) keep their status
+    const isBooked = currentStatus === 'booked' || currentStatus === 'payment_overdue';
+
+    if (!isBooked && (verificationStatus !== 'verified' || !phone)) {
+        await stateMachine.transition(packageId, 'awaiting_verification', { actorId: user.id, reason: 'verification_required' });
+        return res.status(403).json({
+            error: 'verification_required',
+            packageId,
+            booking_status: 'awaiting_verification',
+        });
+    }
+
+    if (!isBooked && kycStatus !== 'verified') {
+        await stateMachine.transition(packageId, 'pending_kyc', { actorId: user.id, reason: 'kyc_required' });
+        return res.status(202).json({
+            message: 'KYC required to finalize booking',
+            packageId,
+            booking_status: 'pending_kyc',
+        });
+    }
+
+    if (isBooked) {
+        return res.json({ packageId, booking_status: currentStatus });
+    }
+
+    // Hotels and cab operators need every traveller's details and ID proof
+    const manifest = await manifestService.getManifest(packageId);
+    if (!manifest.complete) {
+        return res.status(409).json({
+            error: 'manifest_incomplete',
+            packageId,
+            booking_status: currentStatus,
+            issues: manifest.issues,
+        });
+    }
+
+    // Prices are honoured until quoteValidUntil; after that hotels and cabs are re-priced and must be accepted
+    const quote = await service.ensureValidQuote(packageId, { acceptPriceChange: req.body?.acceptPriceChange === true }, user.id);
+    if (quote.status === 'price_changed') {
+        return res.status(409).json({
+            error: 'price_changed',
+            packageId,
+            booking_status: currentStatus,
+            priceChange: quote.priceChange,
+        });
+    }
+
+    // Booking is confirmed by the payment webhook once the provider captures the payment
+    const paymentIntent = await paymentService.createIntentForPackage(packageId, user.id);
+    await stateMachine.transition(packageId, 'awaiting_payment', {
+        actorId: user.id,
+        reason: 'payment_required',
+        metadata: { paymentIntentId: paymentIntent.id },
+    });
+    return res.status(202).json({
+        message: 'Payment required to confirm booking',
+        packageId,
+        booking_status: 'awaiting_payment',
+        paymentIntent,
+        quoteValidUntil: quote.quoteValidUntil,
+        ...(quote.status === 'repriced' ? { priceChange: quote.priceChange } : {}),
+    });
+});
+
+/**
+ * @swagger
+ * /packages/{packageId}/cancel:
+ *   post:
+ *     summary: Cancel a package
+ *     description: |
+ *       Moves the package to `cancelled` through the booking state machine and records the transition.
+ *       Only the owner can cancel. Trips that have already started cannot be cancelled.
+ *       The refund is computed from the tiered refund policy (see `GET /packages/{packageId}/cancellation-quote`)
+ *       and stored as a cancellation record. Packages that were never booked are cancelled without a refund
+ *       and any unpaid payment intent is cancelled. For booked packages the refund is issued against the
+ *       captured payment; `refundStatus` turns `refunded` once the provider confirms it.
+ *     tags:
+ *       - Packages
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: packageId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reason:
+ *                 type: string
+ *                 example: "Change of plans"
+ *     responses:
+ *       200:
+ *         description: Package cancelled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 packageId:
+ *                   type: string
+ *                   format: uuid
+ *                 booking_status:
+ *                   type: string
+ *                   example: cancelled
+ *                 cancellation:
+ *                   $ref: '#/components/schemas/PackageCancellation'
+ *       403:
+ *         description: Not the package owner
+ *       404:
+ *         description: Package not found
+ *       409:
+ *         description: Package is already cancelled or cannot be cancelled from its current status
+ */
+router.post('/:packageId/cancel', authMiddleware, async (req: Request, res: Response) => {
+    const packageId = pathParam(req.params.packageId);
+    const user = (req as any).user;
+    const { reason } = req.body || {};
+    if (!(await checkPackageRole(packageId, user, res, ['owner']))) return;
+
+    const cancellation = await cancellationService.cancel(packageId, { actorId: user.id, reason });
+    res.json({ packageId, booking_status: 'cancelled', cancellation });
+});
+
+/**
+ * @swagger
+ * /packages/{packageId}/cancellation-quote:
+ *   get:
+ *     summary: Preview the refund for cancelling a package
+ *     description: |
+ *       Dry run of `POST /packages/{packageId}/cancel`, visible to the owner and members. Applies the tiered refund policy (by days before `start_date`,
+ *       separately for accommodation, transport, activities and cab) to the package `breakdown` without cancelling.
+ *       The part of the price the tiers keep is deducted from what has been paid so far (`paidAmount`), so a
+ *       deposit-only booking may get less back than `policyRefundAmount`, or nothing.
+ *     tags:
+ *       - Packages
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: packageId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Refund quote
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/CancellationQuote'
+ *       403:
+ *         description: Not the owner or a member
+ *       404:
+ *         description: Package not found
+ */
+router.get('/:packageId/cancellation-quote', authMiddleware, async (req: Request, res: Response) => {
+    const packageId = pathParam(req.params.packageId);
+    if (!(await checkPackageRole(packageId, (req as any).user, res, PACKAGE_ROLES))) return;
+
+    const quote = await cancellationService.getQuote(packageId);
+    res.json(quote);
+});
+
+/**
+ * @swagger
+ * /packages/{packageId}/status-history:
+ *   get:
+ *     summary: Get the booking status history of a package
+ *     description: Returns every recorded booking status transition with actor, reason and timestamp. Visible to the owner and members.
+ *     tags:
+ *       - Packages
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: packageId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Ordered list of transitions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/PackageStatusHistoryItem'
+ *       403:
+ *         description: Not the owner or a member
+ *       404:
+ *         description: Package not found
+ */
+router.get('/:packageId/status-history', authMiddleware, async (req: Request, res: Response) => {
+    const packageId = pathParam(req.params.packageId);
+    if (!(await checkPackageRole(packageId, (req as any).user, res, PACKAGE_ROLES))) return;
+
+    const history = await stateMachine.getHistory(packageId);
+    res.json(history);
+});
+
+
+/**
+ * Revision history is available to package members with one of `roles` and to admins (support); sends the error
+ * response otherwise
+ */
+async function checkRevisionAccess(packageId: string, user: any, res: Response, roles: PackageRole[] = PACKAGE_ROLES): Promise<boolean> {
+    if (!hasAnyRole(user, 'admin')) return !!(await checkPackageRole(packageId, user, res, roles));
+    try {
+        await collaborationService.getAccess(packageId, user.id);
+        return true;
+    } catch (error: any) {
+        res.status(getErrorHttpStatus(error)).json({ error: error.message });
+        return false;
+    }
+}
+
+const parseRevision = (value: unknown): number | undefined => {
+    if (value === undefined || value === '') return undefined;
+    const n = Number(value);
+    return Number.isInteger(n) && n > 0 ? n : NaN;
+};
+
+/**
+ * @swagger
+ * /packages/{packageId}/revisions:
+ *   get:
+ *     summary: List package revisions
+ *     description: |
+ *       Every saved package starts at revision 1 (`generated`) and every configuration change (`PATCH`), restore or
+ *       re-pricing of an expired quote at booking (`requote`) adds one. Packages saved before revisions existed get a `baseline` revision on their first change.
+ *       Visible to the owner, members and admins.
+ *     tags:
+ *       - Packages
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: packageId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Revisions, oldest first (without snapshots)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/PackageRevision'
+ *       403:
+ *         description: Not the owner or a member
+ *       404:
+ *         description: Package not found
+ */
+router.get('/:packageId/revisions', authMiddleware, async (req: Request, res: Response) => {
+    const packageId = pathParam(req.params.packageId);
+    if (!(await checkRevisionAccess(packageId, (req as any).user, res))) return;
+
+    try {
+        res.json(await revisionService.list(packageId));
+    } catch (error: any) {
+        res.status(getErrorHttpStatus(error)).json({ error: error.message || 'Failed to fetch revisions' });
+    }
+});
+
+/**
+ * @swagger
+ * /packages/{packageId}/revisions/diff:
+ *   get:
+ *     summary: Diff two package revisions
+ *     description: |
+ *       Package-level changes (dates, cab, totals), price components that moved, and per-day hotel, activity and cost
+ *       changes. Days are aligned by position in the trip and unchanged days are omitted.
+ *       Defaults compare the latest revision with the one before it.
+ *     tags:
+ *       - Packages
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: packageId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: integer
+ *         description: Older revision (default `to - 1`)
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: integer
+ *         description: Newer revision (default latest)
+ *     responses:
+ *       200:
+ *         description: Structured diff
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PackageRevisionDiff'
+ *       400:
+ *         description: Invalid revision numbers or fewer than two revisions
+ *       403:
+ *         description: Not the owner or a member
+ *       404:
+ *         description: Package or revision not found
+ */
+router.get('/:packageId/revisions/diff', authMiddleware, async (req: Request, res: Response) => {
+    const packageId = pathParam(req.params.packageId);
+    const from = parseRevision(req.query.from);
+    const to = parseRevision(req.query.to);
+    if (Number.isNaN(from) || Number.isNaN(to)) return res.status(400).json({ error: 'from and to must be positive revision numbers' });
+    if (!(await checkRevisionAccess(packageId, (req as any).user, res))) return;
+
+    try {
+        res.json(await revisionService.diff(packageId, from, to));
+    } catch (error: any) {
+        res.status(getErrorHttpStatus(error)).json({ error: error.message || 'Failed to diff revisions' });
+    }
+});
+
+/**
+ * @swagger
+ * /packages/{packageId}/revisions/{revision}:
+ *   get:
+ *     summary: Get one package revision with its snapshot
+ *     tags:
+ *       - Packages
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: packageId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: revision
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Revision including `snapshot`
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PackageRevision'
+ *       403:
+ *         description: Not the owner or a member
+ *       404:
+ *         description: Package or revision not found
+ */
+router.get('/:packageId/revisions/:revision', authMiddleware, async (req: Request, res: Response) => {
+    const packageId = pathParam(req.params.packageId);
+    const revision = parseRevision(pathParam(req.params.revision));
+    if (!revision) return res.status(400).json({ error: 'revision must be a positive integer' });
+    if (!(await checkRevisionAccess(packageId, (req as any).user, res))) return;
+
+    try {
+        res.json(await revisionService.get(packageId, revision));
+    } catch (error: any) {
+        res.status(getErrorHttpStatus(error)).json({ error: error.message || 'Failed to fetch revision' });
+    }
+});
+
+/**
+ * @swagger
+ * /packages/{packageId}/revisions/{revision}/restore:
+ *   post:
+ *     summary: Restore a package revision
+ *     description: |
+ *       Puts the itinerary, prices, cab and stored request back as they were in `revision` and records the result as a
+ *       new `restore` revision. Only possible while the package is editable (not booked or cancelled). Restored prices
+ *       keep their original `quoteValidUntil`; booking re-prices an expired quote as usual.
+ *     tags:
+ *       - Packages
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: packageId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: revision
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Restored package
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PackageGenerationResult'
+ *       403:
+ *         description: Not the owner
+ *       404:
+ *         description: Package or revision not found
+ *       409:
+ *         description: Package is booked or cancelled
+ */
+router.post('/:packageId/revisions/:revision/restore', authMiddleware, async (req: Request, res: Response) => {
+    const packageId = pathParam(req.params.packageId);
+    const revision = parseRevision(pathParam(req.params.revision));
+    const user = (req as any).user;
+    if (!revision) return res.status(400).json({ error: 'revision must be a positive integer' });
+    if (!(await checkRevisionAccess(packageId, user, res, ['owner']))) return;
+
+    try {
+        res.json(await service.restoreRevision(packageId, revision, user.id));
+    } catch (error: any) {
+        res.status(getErrorHttpStatus(error)).json({ error: error.message || 'Failed to restore revision' });
+    }
+});
+
+/**
+ * Resolve the caller's role on the package and check it is one of `roles` (any signed-in user passes for public
+ * packages when `allowPublic` is set); sends the error response otherwise
+ */
+async function checkPackageRole(
+    packageId: string,
+    user: any,
+    res: Response,
+    roles: PackageRole[],
+    options: { allowPublic?: boolean } = {}
+): Promise<{ role: PackageRole | null } | null> {
+    try {
+        const { role, isPublic } = await collaborationService.getAccess(packageId, user?.id);
+        if ((role && roles.includes(role)) || (options.allowPublic && isPublic)) return { role };
+        res.status(403).json({ error: role ? `Access denied: requires role ${roles.join(' or ')}` : 'Access denied: You do not own this package' });
+    } catch (error: any) {
+        res.status(getErrorHttpStatus(error)).json({ error: error.message });
+    }
+    return null;
+}
+
+function validateProposalChange(change: any): string[] {
+    if (typeof change !== 'object' || change === null) return ['change must be an object'];
+    const errors: string[] = [];
+    const allowed = ['cabId', 'dayConfigurations', 'dayOperations'];
+    const unknown = Object.keys(change).filter((key) => !allowed.includes(key));
+    if (unknown.length) errors.push(`change only accepts ${allowed.join(', ')} (got ${unknown.join(', ')})`);
+    if (!allowed.some((key) => change[key] !== undefined)) errors.push('change must include at least one of cabId, dayConfigurations, dayOperations');
+    if (change.cabId !== undefined && typeof change.cabId !== 'string') errors.push('change.cabId must be a string');
+    if (change.dayConfigurations !== undefined) {
+        if (!Array.isArray(change.dayConfigurations)) errors.push('change.dayConfigurations must be an array');
+        else change.dayConfigurations.forEach((day: any, i: number) => {
+            if (!Number.isInteger(day?.dayIndex) || day.dayIndex < 0) errors.push(`change.dayConfigurations[${i}].dayIndex must be a non-negative integer`);
+            if (day?.hotelId !== undefined && typeof day.hotelId !== 'string') errors.push(`change.dayConfigurations[${i}].hotelId must be a string`);
+            if (day?.activityIds !== undefined && (!Array.isArray(day.activityIds) || !day.activityIds.every((id: any) => typeof id === 'string'))) {
+                errors.push(`change.dayConfigurations[${i}].activityIds must be an array of POI ids`);
+            }
+        });
+    }
+    if (change.dayOperations !== undefined) errors.push(...validateDayOperations(change.dayOperations).map((e) => `change.${e}`));
+    return errors;
+}
+
+/**
+ * @swagger
+ * /packages/{packageId}/members:
+ *   get:
+ *     summary: List co-travellers
+ *     description: Members and pending invitations of the package. Visible to the owner and members.
+ *     tags:
+ *       - Package Collaboration
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: packageId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Members, oldest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/PackageMember'
+ *       403:
+ *         description: Not the owner or a member
+ *       404:
+ *         description: Package not found
+ *   post:
+ *     summary: Invite a co-traveller
+ *     description: |
+ *       Owner only. Invites someone by email or phone as an `editor` (can propose changes and vote) or `viewer`
+ *       (can view and vote). They see the invitation under `GET /packages/invitations` once signed in with that
+ *       email or phone.
+ *     tags:
+ *       - Package Collaboration
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: packageId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [role]
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *               phone:
+ *                 type: string
+ *                 example: '+919876543210'
+ *               role:
+ *                 type: string
+ *                 enum: [editor, viewer]
+ *     responses:
+ *       201:
+ *         description: Invitation created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PackageMember'
+ *       400:
+ *         description: Invalid input
+ *       403:
+ *         description: Not the owner
+ *       409:
+ *         description: Already invited
+ */
+router.get('/:packageId/members', authMiddleware, async (req: Request, res: Response) => {
+    const packageId = pathParam(req.params.packageId);
+    if (!(await checkPackageRole(packageId, (req as any).user, res, PACKAGE_ROLES))) return;
+
+    try {
+        res.json(await collaborationService.listMembers(packageId));
+    } catch (error: any) {
+        res.status(getErrorHttpStatus(error)).json({ error: error.message || 'Failed to fetch members' });
+    }
+});
+
+router.post('/:packageId/members', authMiddleware, async (req: Request, res: Response) => {
+    const packageId = pathParam(req.params.packageId);
+    const user = (req as any).user;
+    const { email, phone, role } = req.body || {};
+
+    const errors: string[] = [];
+    if (email === undefined && phone === undefined) errors.push('email or phone is required');
+    if (email !== undefined && (typeof email !== 'string' || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email.trim()))) errors.push('email must be a valid email address');
+    if (phone !== undefined && (typeof phone !== 'string' || !/^\+?[\d\s-]{7,20}$/.test(phone.trim()))) errors.push('phone must be a valid phone number');
+    if (!MEMBER_ROLES.includes(role)) errors.push('role must be one of editor | viewer');
+    if (errors.length) return res.status(400).json({ error: 'Bad Request', details: errors });
+
+    if (!(await checkPackageRole(packageId, user, res, ['owner']))) return;
+
+    try {
+        res.status(201).json(await collaborationService.invite(packageId, user.id, { email, phone, role }));
+    } catch (error: any) {
+        res.status(getErrorHttpStatus(error)).json({ error: error.message || 'Failed to invite member' });
+    }
+});
+
+/**
+ * @swagger
+ * /packages/{packageId}/members/{memberId}:
+ *   patch:
+ *     summary: Change a co-traveller's role
+ *     description: Owner only.
+ *     tags:
+ *       - Package Collaboration
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: packageId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: memberId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [role]
+ *             properties:
+ *               role:
+ *                 type: string
+ *                 enum: [editor, viewer]
+ *     responses:
+ *       200:
+ *         description: Updated member
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PackageMember'
+ *       403:
+ *         description: Not the owner
+ *       404:
+ *         description: Member not found
+ *   delete:
+ *     summary: Remove a co-traveller
+ *     description: The owner can remove anyone or withdraw an invitation; members can remove themselves (leave the trip).
+ *     tags:
+ *       - Package Collaboration
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: packageId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: memberId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Member removed
+ *       403:
+ *         description: Not allowed
+ *       404:
+ *         description: Member not found
+ */
+router.patch('/:packageId/members/:memberId', authMiddleware, async (req: Request, res: Response) => {
+    const packageId = pathParam(req.params.packageId);
+    const role = req.body?.role;
+    if (!MEMBER_ROLES.includes(role)) return res.status(400).json({ error: 'Bad Request', details: ['role must be one of editor | viewer'] });
+    if (!(await checkPackageRole(packageId, (req as any).user, res, ['owner']))) return;
+
+    try {
+        res.json(await collaborationService.updateMemberRole(packageId, pathParam(req.params.memberId), role));
+    } catch (error: any) {
+        res.status(getErrorHttpStatus(error)).json({ error: error.message || 'Failed to update member' });
+    }
+});
+
+router.delete('/:packageId/members/:memberId', authMiddleware, async (req: Request, res: Response) => {
+    const packageId = pathParam(req.params.packageId);
+    const user = (req as any).user;
+    const access = await checkPackageRole(packageId, user, res, PACKAGE_ROLES);
+    if (!access) return;
+
+    try {
+        await collaborationService.removeMember(packageId, pathParam(req.params.memberId), { userId: user.id, role: access.role });
+        res.json({ message: 'Member removed' });
+    } catch (error: any) {
+        res.status(getErrorHttpStatus(error)).json({ error: error.message || 'Failed to remove member' });
+    }
+});
+
+/**
+ * @swagger
+ * /packages/{packageId}/proposals:
+ *   get:
+ *     summary: List change proposals
+ *     description: Proposals made by co-travellers, newest first. Visible to the owner and members.
+ *     tags:
+ *       - Package Collaboration
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: packageId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Proposals
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/PackageProposal'
+ *   post:
+ *     summary: Propose a change
+ *     description: |
+ *       Owner and editors. `change` takes the same `cabId`, `dayConfigurations` (hotel swaps, activity lists) and
+ *       `dayOperations` as `PATCH /packages/{packageId}`; nothing changes until the owner approves.
+ *     tags:
+ *       - Package Collaboration
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: packageId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [change]
+ *             properties:
+ *               change:
+ *                 type: object
+ *                 properties:
+ *                   cabId:
+ *                     type: string
+ *                   dayConfigurations:
+ *                     type: array
+ *                     items:
+ *                       type: object
+ *                   dayOperations:
+ *                     type: array
+ *                     items:
+ *                       type: object
+ *               note:
+ *                 type: string
+ *                 example: Can we stay at the houseboat in Srinagar instead?
+ *     responses:
+ *       201:
+ *         description: Proposal created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PackageProposal'
+ *       400:
+ *         description: Invalid change
+ *       403:
+ *         description: Viewers cannot propose changes
+ */
+router.get('/:packageId/proposals', authMiddleware, async (req: Request, res: Response) => {
+    const packageId = pathParam(req.params.packageId);
+    if (!(await checkPackageRole(packageId, (req as any).user, res, PACKAGE_ROLES))) return;
+
+    try {
+        res.json(await collaborationService.listProposals(packageId));
+    } catch (error: any) {
+        res.status(getErrorHttpStatus(error)).json({ error: error.message || 'Failed to fetch proposals' });
+    }
+});
+
+router.post('/:packageId/proposals', authMiddleware, async (req: Request, res: Response) => {
+    const packageId = pathParam(req.params.packageId);
+    const user = (req as any).user;
+    const { change, note } = req.body || {};
+
+    const errors = validateProposalChange(change);
+    if (note !== undefined && typeof note !== 'string') errors.push('note must be a string');
+    if (errors.length) return res.status(400).json({ error: 'Bad Request', details: errors });
+
+    if (!(await checkPackageRole(packageId, user, res, ['owner', 'editor']))) return;
+
+    try {
+        res.status(201).json(await collaborationService.propose(packageId, user.id, change, note));
+    } catch (error: any) {
+        res.status(getErrorHttpStatus(error)).json({ error: error.message || 'Failed to create proposal' });
+    }
+});
+
+/**
+ * @swagger
+ * /packages/{packageId}/proposals/{proposalId}/{decision}:
+ *   post:
+ *     summary: Approve, reject or withdraw a proposal
+ *     description: |
+ *       The owner approves or rejects; the proposer can withdraw. Approving applies the change to the package as it
+ *       is now (recorded as a configuration revision) and returns the updated package. If the change no longer
+ *       applies, the proposal stays pending and the error is returned.
+ *     tags:
+ *       - Package Collaboration
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: packageId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: proposalId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: decision
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [approve, reject, withdraw]
+ *     responses:
+ *       200:
+ *         description: Decided proposal, with the updated package when approved
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 proposal:
+ *                   $ref: '#/components/schemas/PackageProposal'
+ *                 package:
+ *                   $ref: '#/components/schemas/PackageGenerationResult'
+ *       403:
+ *         description: Not allowed to take this decision
+ *       404:
+ *         description: Proposal not found
+ *       409:
+ *         description: Proposal already decided
+ */
+router.post('/:packageId/proposals/:proposalId/:decision', authMiddleware, async (req: Request, res: Response) => {
+    const packageId = pathParam(req.params.packageId);
+    const decision = pathParam(req.params.decision) as (typeof PROPOSAL_DECISIONS)[number];
+    const user = (req as any).user;
+    if (!PROPOSAL_DECISIONS.includes(decision)) return res.status(400).json({ error: `decision must be one of ${PROPOSAL_DECISIONS.join(' | ')}` });
+
+    const access = await checkPackageRole(packageId, user, res, PACKAGE_ROLES);
+    if (!access) return;
+
+    try {
+        res.json(await collaborationService.decide(packageId, pathParam(req.params.proposalId), decision, { userId: user.id, role: access.role }));
+    } catch (error: any) {
+        if (error.message?.includes('booked') || error.message?.includes('cancelled')) return res.status(403).json({ error: error.message });
+        res.status(getErrorHttpStatus(error)).json({ error: error.message || 'Failed to decide on proposal' });
+    }
+});
+
+/**
+ * @swagger
+ * /packages/{packageId}/attraction-votes:
+ *   get:
+ *     summary: Votes on optional attractions
+ *     description: Up and down votes of the owner and members on each optional attraction of the package.
+ *     tags:
+ *       - Package Collaboration
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: packageId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Tally per optional attraction
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/AttractionVoteTally'
+ */
+router.get('/:packageId/attraction-votes', authMiddleware, async (req: Request, res: Response) => {
+    const packageId = pathParam(req.params.packageId);
+    const user = (req as any).user;
+    if (!(await checkPackageRole(packageId, user, res, PACKAGE_ROLES))) return;
+
+    try {
+        res.json(await collaborationService.listAttractionVotes(packageId, user.id));
+    } catch (error: any) {
+        res.status(getErrorHttpStatus(error)).json({ error: error.message || 'Failed to fetch votes' });
+    }
+});
+
+/**
+ * @swagger
+ * /packages/{packageId}/attraction-votes/{poiId}:
+ *   put:
+ *     summary: Vote on an optional attraction
+ *     description: Owner and members. Voting again replaces the previous vote; `none` clears it.
+ *     tags:
+ *       - Package Collaboration
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: packageId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: poiId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [vote]
+ *             properties:
+ *               vote:
+ *                 type: string
+ *                 enum: [up, down, none]
+ *     responses:
+ *       200:
+ *         description: Updated tally for all optional attractions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/AttractionVoteTally'
+ *       404:
+ *         description: Not an optional attraction of the package
+ */
+router.put('/:packageId/attraction-votes/:poiId', authMiddleware, async (req: Request, res: Response) => {
+    const packageId = pathParam(req.params.packageId);
+    const user = (req as any).user;
+    const votes = { up: 1, down: -1, none: null } as const;
+    const vote = req.body?.vote as keyof typeof votes;
+    if (!Object.keys(votes).includes(vote)) return res.status(400).json({ error: 'Bad Request', details: ['vote must be one of up | down | none'] });
+
+    if (!(await checkPackageRole(packageId, user, res, PACKAGE_ROLES))) return;
+
+    try {
+        res.json(await collaborationService.vote(packageId, user.id, pathParam(req.params.poiId), votes[vote]));
+    } catch (error: any) {
+        res.status(getErrorHttpStatus(error)).json({ error: error.message || 'Failed to record vote' });
+    }
+});
+
+function validateTravellerInput(body: any, partial: boolean): string[] {
+    if (typeof body !== 'object' || body === null) return ['body must be an object'];
+    const errors: string[] = [];
+    const { fullName, age, gender, documentId } = body;
+    if ((!partial || fullName !== undefined) && (typeof fullName !== 'string' || !fullName.trim() || fullName.length > 120)) {
+        errors.push('fullName must be a non-empty string of at most 120 characters');
+    }
+    if ((!partial || age !== undefined) && (!Number.isInteger(age) || age < 0 || age > 120)) errors.push('age must be an integer between 0 and 120');
+    if ((!partial || gender !== undefined) && !TRAVELLER_GENDERS.includes(gender)) errors.push(`gender must be one of ${TRAVELLER_GENDERS.join(' | ')}`);
+    if (documentId !== undefined && documentId !== null && (typeof documentId !== 'string' || !/^[0-9a-f-]{36}$/i.test(documentId))) {
+        errors.push('documentId must be a document id or null');
+    }
+    return errors;
+}
+
+/**
+ * @swagger
+ * /packages/{packageId}/travellers:
+ *   get:
+ *     summary: Get the traveller manifest
+ *     description: |
+ *       Travellers listed for the package with their ID proof, and whether the manifest is complete. Booking is
+ *       blocked until it is: one entry per person in `people`, each linked to an ID document that was not rejected,
+ *       and (for packages generated with `travellers`) the same number of travellers in each price band: infants up to
+ *       2, children up to 11, adult price above that (minors included).
+ *     tags:
+ *       - Packages
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: packageId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Manifest
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/TravellerManifest'
+ *       403:
+ *         description: Not the owner or a member
+ *       404:
+ *         description: Package not found
+ *   post:
+ *     summary: Add a traveller
+ *     description: |
+ *       Owner and editors. `documentId` is a `user_documents` entry (see `POST /documents/confirm`) uploaded by the
+ *       caller or the package owner. At most `people` travellers can be added.
+ *     tags:
+ *       - Packages
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: packageId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/PackageTravellerInput'
+ *     responses:
+ *       201:
+ *         description: Traveller added
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PackageTraveller'
+ *       400:
+ *         description: Invalid input, unusable document or manifest already full
+ *       403:
+ *         description: Not the owner or an editor
+ *       409:
+ *         description: Package is cancelled
+ */
+router.get('/:packageId/travellers', authMiddleware, async (req: Request, res: Response) => {
+    const packageId = pathParam(req.params.packageId);
+    if (!(await checkPackageRole(packageId, (req as any).user, res, PACKAGE_ROLES))) return;
+
+    try {
+        res.json(await manifestService.getManifest(packageId));
+    } catch (error: any) {
+        res.status(getErrorHttpStatus(error)).json({ error: error.message || 'Failed to fetch travellers' });
+    }
+});
+
+router.post('/:packageId/travellers', authMiddleware, async (req: Request, res: Response) => {
+    const packageId = pathParam(req.params.packageId);
+    const user = (req as any).user;
+    const errors = validateTravellerInput(req.body, false);
+    if (errors.length) return res.status(400).json({ error: 'Bad Request', details: errors });
+
+    if (!(await checkPackageRole(packageId, user, res, ['owner', 'editor']))) return;
+
+    try {
+        const { fullName, age, gender, documentId } = req.body;
+        res.status(201).json(await manifestService.add(packageId, user.id, { fullName, age, gender, documentId }));
+    } catch (error: any) {
+        res.status(getErrorHttpStatus(error)).json({ error: error.message || 'Failed to add traveller' });
+    }
+});
+
+/**
+ * @swagger
+ * /packages/{packageId}/travellers/{travellerId}:
+ *   patch:
+ *     summary: Update a traveller
+ *     description: Owner and editors. Send only the fields to change; `documentId` null unlinks the ID proof.
+ *     tags:
+ *       - Packages
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: packageId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: travellerId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/PackageTravellerInput'
+ *     responses:
+ *       200:
+ *         description: Updated traveller
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PackageTraveller'
+ *       404:
+ *         description: Traveller not found
+ *   delete:
+ *     summary: Remove a traveller
+ *     description: Owner and editors. Not allowed once the package is booked.
+ *     tags:
+ *       - Packages
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: packageId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: travellerId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Traveller removed
+ *       404:
+ *         description: Traveller not found
+ *       409:
+ *         description: Package is booked or cancelled
+ */
+router.patch('/:packageId/travellers/:travellerId', authMiddleware, async (req: Request, res: Response) => {
+    const packageId = pathParam(req.params.packageId);
+    const user = (req as any).user;
+    const errors = validateTravellerInput(req.body, true);
+    if (errors.length) return res.status(400).json({ error: 'Bad Request', details: errors });
+
+    if (!(await checkPackageRole(packageId, user, res, ['owner', 'editor']))) return;
+
+    try {
+        const { fullName, age, gender, documentId } = req.body;
+        res.json(await manifestService.update(packageId, pathParam(req.params.travellerId), user.id, { fullName, age, gender, documentId }));
+    } catch (error: any) {
+        res.status(getErrorHttpStatus(error)).json({ error: error.message || 'Failed to update traveller' });
+    }
+});
+
+router.delete('/:packageId/travellers/:travellerId', authMiddleware, async (req: Request, res: Response) => {
+    const packageId = pathParam(req.params.packageId);
+    if (!(await checkPackageRole(packageId, (req as any).user, res, ['owner', 'editor']))) return;
+
+    try {
+        await manifestService.remove(packageId, pathParam(req.params.travellerId));
+        res.json({ message: 'Traveller removed' });
+    } catch (error: any) {
+        res.status(getErrorHttpStatus(error)).json({ error: error.message || 'Failed to remove traveller' });
+    }
+});
+
+/**
+ * @swagger
+ * /packages/{packageId}/fulfilment:
+ *   get:
+ *     summary: Reservation progress of a booked package
+ *     description: |
+ *       Hotel nights, cab legs, activity tickets and restaurant reservations our team is arranging, each with its
+ *       status and confirmation reference. Visible to the owner and members.
+ *     tags:
+ *       - Packages
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: packageId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Package fulfilment
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PackageFulfilment'
+ *       403:
+ *         description: Not the owner or a member
+ */
+router.get('/:packageId/fulfilment', authMiddleware, async (req: Request, res: Response) => {
+    const packageId = pathParam(req.params.packageId);
+    if (!(await checkPackageRole(packageId, (req as any).user, res, PACKAGE_ROLES))) return;
+
+    try {
+        res.json(await fulfilmentService.getForPackage(packageId));
+    } catch (error: any) {
+        res.status(getErrorHttpStatus(error)).json({ error: error.message || 'Failed to fetch fulfilment' });
+    }
+});
+
+/**
+ * @swagger
+ * /packages/{packageId}/fulfilment/restaurant-reservations:
+ *   post:
+ *     summary: Request a restaurant reservation
+ *     description: Owner only, once booked. Asks our team to reserve a table at one of the restaurants suggested for a day.
+ *     tags:
+ *       - Packages
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: packageId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [dayIndex, restaurantId]
+ *             properties:
+ *               dayIndex:
+ *                 type: integer
+ *                 minimum: 0
+ *               restaurantId:
+ *                 type: string
+ *               time:
+ *                 type: string
+ *                 example: '20:00'
+ *               note:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Reservation item created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/FulfilmentItem'
+ *       400:
+ *         description: Invalid day or restaurant
+ *       409:
+ *         description: Package not booked, or reservation already requested
+ */
+router.post('/:packageId/fulfilment/restaurant-reservations', authMiddleware, async (req: Request, res: Response) => {
+    const packageId = pathParam(req.params.packageId);
+    const { dayIndex, restaurantId, time, note } = req.body || {};
+
+    const errors: string[] = [];
+    if (!Number.isInteger(dayIndex) || dayIndex < 0) errors.push('dayIndex must be a non-negative integer');
+    if (typeof restaurantId !== 'string' || !restaurantId) errors.push('restaurantId is required');
+    if (time !== undefined && (typeof time !== 'string' || !/^([01]\d|2[0-3]):[0-5]\d$/.test(time))) errors.push('time must be HH:mm');
+    if (note !== undefined && typeof note !== 'string') errors.push('note must be a string');
+    if (errors.length) return res.status(400).json({ error: 'Bad Request', details: errors });
+
+    if (!(await checkPackageRole(packageId, (req as any).user, res, ['owner']))) return;
+
+    try {
+        res.status(201).json(await fulfilmentService.requestRestaurantReservation(packageId, { dayIndex, restaurantId, time, note }));
+    } catch (error: any) {
+        res.status(getErrorHttpStatus(error)).json({ error: error.message || 'Failed to request reservation' });
+    }
+});
+
+/**
+ * @swagger
+ * /packages/{packageId}/weather-alerts:
+ *   get:
+ *     summary: Weather alerts of a package
+ *     description: |
+ *       Rain, wind at high altitude and low visibility on driving days, flagged on upcoming days from the latest
+ *       forecast. Booked packages are re-checked after every forecast refresh. Each alert carries suggested fixes
+ *       whose `dayOperations` / `dayConfiguration` can be sent as-is to `PATCH /packages/{packageId}`.
+ *       Visible to the owner and members.
+ *     tags:
+ *       - Packages
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: packageId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [active, resolved, all]
+ *           default: active
+ *     responses:
+ *       200:
+ *         description: Alerts, by date
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/WeatherAlert'
+ *       400:
+ *         description: Invalid status
+ *       403:
+ *         description: Not the owner or a member
+ */
+router.get('/:packageId/weather-alerts', authMiddleware, async (req: Request, res: Response) => {
+    const packageId = pathParam(req.params.packageId);
+    const status = (req.query.status as string | undefined) || 'active';
+    if (!['active', 'resolved', 'all'].includes(status)) {
+        return res.status(400).json({ error: 'Bad Request', details: ['status must be one of active | resolved | all'] });
+    }
+    if (!(await checkPackageRole(packageId, (req as any).user, res, PACKAGE_ROLES))) return;
+
+    try {
+        res.json(await weatherAlertService.list(packageId, status === 'all' ? undefined : (status as WeatherAlertStatus)));
+    } catch (error: any) {
+        res.status(getErrorHttpStatus(error)).json({ error: error.message || 'Failed to fetch weather alerts' });
+    }
+});
+
+/**
+ * @swagger
+ * /packages/{packageId}/weather-alerts/evaluate:
+ *   post:
+ *     summary: Re-check the weather now
+ *     description: Owner or editor. Runs the weather rules against the latest stored forecasts and returns the active alerts.
+ *     tags:
+ *       - Packages
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: packageId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Active alerts
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/WeatherAlert'
+ *       403:
+ *         description: Not the owner or an editor
  */
-router.post('/generate', [optionalAuthMiddleware], async (req: Request, res: Response) => {
-    const { destinationIds, people, priceBucket, activities, includeCommonAttractions, startDate } = req.body || {};
+router.post('/:packageId/weather-alerts/evaluate', authMiddleware, async (req: Request, res: Response) => {
+    const packageId = pathParam(req.params.packageId);
+    if (!(await checkPackageRole(packageId, (req as any).user, res, ['owner', 'editor']))) return;
 
-    const errors: string[] = [];
-    if (!Array.isArray(destinationIds) || destinationIds.length === 0) errors.push('destinationIds must be a non-empty array');
-    const validBuckets = ['budget_conscious', 'optimal', 'go_crazy'];
-    if (!validBuckets.includes(String(priceBucket))) errors.push('priceBucket must be one of budget_conscious | optimal | go_crazy');
-    if (Number.isNaN(Number(people)) || Number(people) <= 0) errors.push('people must be a positive number');
-    if (activities && !Array.isArray(activities)) errors.push('activities must be an array when provided');
-    if (includeCommonAttractions !== undefined && typeof includeCommonAttractions !== 'boolean') errors.push('includeCommonAttractions must be boolean when provided');
-    if (startDate && Number.isNaN(Date.parse(startDate))) errors.push('startDate must be a valid ISO date string when provided');
-    if (startDate && !Number.isNaN(Date.parse(startDate))) {
-        const parsed = new Date(startDate);
-        const todayStart = startOfDayUtc(new Date());
-        if (parsed < todayStart) errors.push('startDate must not be in the past (UTC)');
+    try {
+        res.json(await weatherAlertService.evaluatePackage(packageId));
+    } catch (error: any) {
+        res.status(getErrorHttpStatus(error)).json({ error: error.message || 'Failed to evaluate weather alerts' });
     }
-
-    if (errors.length) return res.status(400).json({ error: 'Bad Request', details: errors });
-
-    const user = (req as any).user as { id: string } | undefined;
-    const userId = user?.id || undefined;
-
-    const result = await service.generate({ destinationIds, people: Number(people), priceBucket, activities, includeCommonAttractions, startDate }, userId);
-    res.json(result);
 });
 
+/**
+ * Only the owner manages share links for a package; sends the error response otherwise
+ */
+async function checkShareAccess(packageId: string, user: any, res: Response): Promise<boolean> {
+    const { data: pkg, error } = await getDB().from('packages').select('user_id').eq('id', packageId).maybeSingle();
+    if (error) {
+        res.status(500).json({ error: error.message });
+        return false;
+    }
+    if (!pkg) {
+        res.status(404).json({ error: 'Package not found' });
+        return false;
+    }
+    if (pkg.user_id !== user.id) {
+        res.status(403).json({ error: 'Access denied: You do not own this package' });
+        return false;
+    }
+    return true;
+}
+
 /**
  * @swagger
- * /packages/{packageId}/book:
+ * /packages/{packageId}/share:
  *   post:
- *     summary: Attempt to book a generated package
+ *     summary: Create a share link
  *     description: |
- *       Initiates the booking flow for a previously generated package.
- *       Optionally accepts configuration updates (cab, hotels, activities, date) to apply before booking.
- *       
- *       - If configuration is provided, the package is updated first.
- *       - Then, the booking logic matches the user and updates status.
- *       - If unauthenticated, `booking_status` -> `awaiting_auth` (401).
- *       - If authenticated but unverified, `booking_status` -> `awaiting_verification` (403).
- *       - If verified but no KYC, `booking_status` -> `pending_kyc` (202).
- *       - If fully verified, `booking_status` -> `booked` (200).
+ *       Mints a signed read-only link for `GET /packages/shared/{token}`, e.g. to send a trip to family.
+ *       The token is returned only here. Links expire after `expiresInHours` (default 7 days, at most 90 days)
+ *       and can be revoked earlier.
  *     tags:
  *       - Packages
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: packageId
@@ -161,119 +2405,224 @@ router.post('/generate', [optionalAuthMiddleware], async (req: Request, res: Res
  *           type: string
  *           format: uuid
  *     requestBody:
- *       required: false
  *       content:
  *         application/json:
  *           schema:
- *             $ref: '#/components/schemas/UpdatePackageConfigurationRequest'
+ *             type: object
+ *             properties:
+ *               expiresInHours:
+ *                 type: number
+ *                 example: 72
+ *               hidePrices:
+ *                 type: boolean
+ *                 default: false
  *     responses:
- *       200:
- *         description: Booking confirmed
- *       202:
- *         description: KYC required
- *       401:
- *         description: Authentication required
+ *       201:
+ *         description: Share link with its token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/PackageShareLink'
+ *                 - type: object
+ *                   properties:
+ *                     token:
+ *                       type: string
+ *       400:
+ *         description: Invalid expiry
  *       403:
- *         description: Verification required
+ *         description: Not the owner
  *       404:
  *         description: Package not found
- *       500:
- *         description: Server error
  */
-router.post('/:packageId/book', [optionalAuthMiddleware], async (req: Request, res: Response) => {
+router.post('/:packageId/share', authMiddleware, async (req: Request, res: Response) => {
     const packageId = pathParam(req.params.packageId);
-    const { cabId, dayConfigurations } = req.body || {};
-    const db = getDB();
+    const user = (req as any).user;
+    const { expiresInHours, hidePrices } = req.body || {};
 
-    // 1. If configuration updates are provided, apply them first
-    if (cabId || (dayConfigurations && Array.isArray(dayConfigurations) && dayConfigurations.length > 0)) {
-        try {
-            await service.updateConfiguration(packageId, { cabId, dayConfigurations });
-        } catch (error: any) {
-            if (error.message?.includes('booked')) {
-                return res.status(409).json({ error: 'Cannot update configuration: Package is already booked' });
-            } else if (error.message?.includes('not found')) {
-                return res.status(404).json({ error: 'Package not found during update' });
-            }
-            // Log warning but maybe proceed? Or fail? Better to fail if explicit update requested.
-            return res.status(400).json({ error: 'Failed to apply configuration updates', details: error.message });
-        }
+    const errors: string[] = [];
+    if (expiresInHours !== undefined && (typeof expiresInHours !== 'number' || !(expiresInHours > 0) || expiresInHours > SHARE_MAX_TTL_HOURS)) {
+        errors.push(`expiresInHours must be a number between 0 and ${SHARE_MAX_TTL_HOURS}`);
     }
+    if (hidePrices !== undefined && typeof hidePrices !== 'boolean') errors.push('hidePrices must be a boolean');
+    if (errors.length) return res.status(400).json({ error: 'Bad Request', details: errors });
 
-    const { data: pkg, error } = await db
-        .from('packages')
-        .select('id,user_id,booking_status')
-        .eq('id', packageId)
-        .maybeSingle();
+    if (!(await checkShareAccess(packageId, user, res))) return;
 
-    if (error) return res.status(500).json({ error: error.message });
-    if (!pkg) return res.status(404).json({ error: 'Package not found' });
+    try {
+        res.status(201).json(await shareService.create(packageId, user.id, { expiresInHours, hidePrices }));
+    } catch (error: any) {
+        res.status(getErrorHttpStatus(error)).json({ error: error.message || 'Failed to create share link' });
+    }
+});
 
-    const user = (req as any).user as { id: string } | undefined;
+/**
+ * @swagger
+ * /packages/{packageId}/shares:
+ *   get:
+ *     summary: List share links
+ *     description: Share links of the package, newest first, with their view counts. Tokens are not included.
+ *     tags:
+ *       - Packages
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: packageId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Share links
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/PackageShareLink'
+ *       403:
+ *         description: Not the owner
+ *       404:
+ *         description: Package not found
+ */
+router.get('/:packageId/shares', authMiddleware, async (req: Request, res: Response) => {
+    const packageId = pathParam(req.params.packageId);
+    if (!(await checkShareAccess(packageId, (req as any).user, res))) return;
 
-    // Unauthenticated: set awaiting_auth and prompt login
-    if (!user) {
-        if ((pkg as any).booking_status !== 'booked') {
-            await db.from('packages').update({ booking_status: 'awaiting_auth' }).eq('id', (pkg as any).id);
-        }
-        return res.status(401).json({
-            error: 'authentication_required',
-            packageId,
-            booking_status: 'awaiting_auth',
-        });
+    try {
+        res.json(await shareService.list(packageId));
+    } catch (error: any) {
+        res.status(getErrorHttpStatus(error)).json({ error: error.message || 'Failed to fetch share links' });
     }
+});
 
-    // If package is owned by a different user, block
-    if ((pkg as any).user_id && (pkg as any).user_id !== user.id) {
-        return res.status(409).json({ error: 'package_owned_by_another_user' });
-    }
+/**
+ * @swagger
+ * /packages/{packageId}/shares/{shareId}:
+ *   delete:
+ *     summary: Revoke a share link
+ *     description: The link stops working immediately. Revoking an already revoked link is a no-op.
+ *     tags:
+ *       - Packages
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: packageId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: shareId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Revoked share link
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PackageShareLink'
+ *       403:
+ *         description: Not the owner
+ *       404:
+ *         description: Package or share link not found
+ */
+router.delete('/:packageId/shares/:shareId', authMiddleware, async (req: Request, res: Response) => {
+    const packageId = pathParam(req.params.packageId);
+    if (!(await checkShareAccess(packageId, (req as any).user, res))) return;
 
-    // Attach package to this user if not already
-    if (!(pkg as any).user_id) {
-        await db.from('packages').update({ user_id: user.id }).eq('id', (pkg as any).id);
+    try {
+        res.json(await shareService.revoke(packageId, pathParam(req.params.shareId)));
+    } catch (error: any) {
+        res.status(getErrorHttpStatus(error)).json({ error: error.message || 'Failed to revoke share link' });
     }
+});
 
-    // Fetch profile for verification and KYC checks
-    const { data: profile, error: profErr } = await db
-        .from('user_profiles')
-        .select('verification_status,kyc_status,phone')
-        .eq('id', user.id)
-        .maybeSingle();
-    if (profErr) return res.status(500).json({ error: profErr.message });
-
-    const verificationStatus = (profile as any)?.verification_status;
-    const kycStatus = (profile as any)?.kyc_status;
-    const phone = (profile as any)?.phone;
+/**
+ * @swagger
+ * /packages/{packageId}/export/{format}:
+ *   get:
+ *     summary: Export a package as a PDF voucher or iCalendar file
+ *     description: |
+ *       - `pdf`: printable voucher with stays and check-in dates, cab, day-by-day plan (activities, restaurants,
+ *         travel, weather) and the price breakdown. Packages that are not booked yet are titled as an itinerary.
+ *       - `ics`: calendar with an all-day event per day and an event per leg, starting 09:00 IST on the day of
+ *         arrival and lasting the leg's `durationMinutes`.
+ *
+ *       Available to the owner, or to anyone signed in when the package is public.
+ *     tags:
+ *       - Packages
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: packageId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: format
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [pdf, ics]
+ *     responses:
+ *       200:
+ *         description: Export file as an attachment
+ *         content:
+ *           application/pdf:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *           text/calendar:
+ *             schema:
+ *               type: string
+ *       400:
+ *         description: Unsupported format
+ *       403:
+ *         description: Access denied
+ *       404:
+ *         description: Package not found
+ */
+router.get('/:packageId/export/:format', authMiddleware, async (req: Request, res: Response) => {
+    const packageId = pathParam(req.params.packageId);
+    const format = pathParam(req.params.format);
+    const user = (req as any).user;
+    if (format !== 'pdf' && format !== 'ics') return res.status(400).json({ error: 'format must be one of pdf | ics' });
 
-    if (verificationStatus !== 'verified' || !phone) {
-        await db.from('packages').update({ booking_status: 'awaiting_verification' }).eq('id', (pkg as any).id);
-        return res.status(403).json({
-            error: 'verification_required',
-            packageId,
-            booking_status: 'awaiting_verification',
-        });
-    }
+    if (!(await checkPackageRole(packageId, user, res, PACKAGE_ROLES, { allowPublic: true }))) return;
+    const { data: pkg, error } = await getDB().from('packages').select('booking_status').eq('id', packageId).maybeSingle();
+    if (error) return res.status(500).json({ error: error.message });
+    if (!pkg) return res.status(404).json({ error: 'Package not found' });
 
-    if (kycStatus !== 'verified') {
-        await db.from('packages').update({ booking_status: 'pending_kyc' }).eq('id', (pkg as any).id);
-        return res.status(202).json({
-            message: 'KYC required to finalize booking',
-            packageId,
-            booking_status: 'pending_kyc',
-        });
+    try {
+        const result = await service.getById(packageId);
+        const filename = `itinerary-${packageId}.${format}`;
+        res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+        if (format === 'pdf') {
+            res.type('application/pdf').send(exportService.renderPdf(result, pkg.booking_status));
+        } else {
+            res.type('text/calendar; charset=utf-8').send(exportService.renderIcs(result));
+        }
+    } catch (error: any) {
+        if (error.message === 'Package not found') return res.status(404).json({ error: error.message });
+        res.status(getErrorHttpStatus(error)).json({ error: error.message || 'Failed to export package' });
     }
-
-    await db.from('packages').update({ booking_status: 'booked' }).eq('id', (pkg as any).id);
-    return res.json({ packageId, booking_status: 'booked' });
 });
 
-
 /**
  * @swagger
  * /packages/{packageId}:
  *   get:
  *     summary: Get package details
- *     description: Retrieve full details of a specific package. Requires authentication and ownership.
+ *     description: Retrieve full details of a specific package. Requires authentication and ownership or membership (co-travellers), unless the package is public.
  *     tags:
  *       - Packages
  *     parameters:
@@ -302,22 +2651,10 @@ router.post('/:packageId/book', [optionalAuthMiddleware], async (req: Request, r
 router.get('/:packageId', authMiddleware, async (req: Request, res: Response) => {
     const packageId = pathParam(req.params.packageId);
     const user = (req as any).user;
-    const db = getDB();
 
     try {
-        // 1. Check ownership or public access
-        const { data: pkg, error } = await db
-            .from('packages')
-            .select('user_id, is_public')
-            .eq('id', packageId)
-            .maybeSingle();
-
-        if (error) return res.status(500).json({ error: error.message });
-        if (!pkg) return res.status(404).json({ error: 'Package not found' });
-
-        if (pkg.user_id !== user.id && !pkg.is_public) {
-            return res.status(403).json({ error: 'Access denied: You do not own this package' });
-        }
+        // 1. Check ownership, membership or public access
+        if (!(await checkPackageRole(packageId, user, res, PACKAGE_ROLES, { allowPublic: true }))) return;
 
         // 2. Fetch full details
         const result = await service.getById(packageId);
@@ -419,6 +2756,12 @@ router.post('/:packageId/clone', authMiddleware, async (req: Request, res: Respo
  *       Update specific configurations of a generated package before booking.
  *       Supports changing Cab, Hotels, Activities, or **Rescheduling** (via `startDate`).
  *       Note: Changing `startDate` will regenerate the entire itinerary (prices, weather, availability).
+ *
+ *       `dayOperations` edit the itinerary structure: `insert` a day for a destination, `remove` a day, `move` a day
+ *       and `change_destination` of a day. Operations apply in order, each on the result of the previous one, after a
+ *       reschedule and before `dayConfigurations` (whose `dayIndex` refers to the edited itinerary). Dates, legs,
+ *       `breakdown` and `totalBasePrice` are recomputed. Untouched days keep their activities, and a stay keeps its
+ *       hotel while any of its days remain; new days get the destination's top attractions and a fresh hotel search.
  *     tags:
  *       - Packages
  *     parameters:
@@ -444,23 +2787,32 @@ router.post('/:packageId/clone', authMiddleware, async (req: Request, res: Respo
  *       400:
  *         description: Bad Request
  *       403:
- *         description: Forbidden (booked package)
+ *         description: Forbidden (booked or cancelled package, or not the owner; co-travellers send proposals instead)
  *       500:
  *         description: Internal Server Error
  */
 router.patch('/:packageId', [optionalAuthMiddleware], async (req: Request, res: Response) => {
     const packageId = pathParam(req.params.packageId);
     const body = req.body;
+    if (body?.dayOperations !== undefined) {
+        const errors = validateDayOperations(body.dayOperations);
+        if (errors.length) return res.status(400).json({ error: 'Bad Request', details: errors });
+    }
     try {
-        const result = await service.updateConfiguration(packageId, body);
+        // Co-travellers cannot edit directly; they send proposals the owner approves
+        const { role, ownerId } = await collaborationService.getAccess(packageId, (req as any).user?.id);
+        if (ownerId && role !== 'owner') {
+            return res.status(403).json({ error: 'Access denied: Only the owner can change this package; co-travellers can send proposals' });
+        }
+        const result = await service.updateConfiguration(packageId, body, (req as any).user?.id);
         res.json(result);
     } catch (error: any) {
-        if (error.message?.includes('booked')) {
+        if (error.message?.includes('booked') || error.message?.includes('cancelled')) {
             res.status(403).json({ error: error.message });
         } else if (error.message?.includes('not found')) {
             res.status(404).json({ error: error.message });
         } else {
-            res.status(500).json({ error: error.message || 'Failed to update package' });
+            res.status(getErrorHttpStatus(error)).json({ error: error.message || 'Failed to update package' });
         }
     }
 });
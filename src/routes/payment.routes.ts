@@ -0,0 +1,511 @@
+import { Request, Response, Router } from 'express';
+import { authMiddleware } from '../middlewares/auth.middleware';
+import { requireRoles } from '../middlewares/authorization.middleware';
+import { getDB } from '../configuration/database.config';
+import { getPaymentProvider } from '../configuration/payment.config';
+import { PaymentService } from '../services/payment.service';
+import { PaymentScheduleService } from '../services/payment-schedule.service';
+import { PaymentPlan } from '../interfaces/payment.interface';
+import { DEFAULT_PAYMENT_PLAN } from '../constants/payment-schedule';
+import { FakePaymentProvider } from '../services/fake-payment.provider';
+import { pathParam } from '../utils/path-param.util';
+import { getErrorHttpStatus } from '../utils/http-error-status.util';
+
+const router = Router();
+const paymentService = new PaymentService();
+const scheduleService = new PaymentScheduleService();
+
+const PAYMENT_SIGNATURE_HEADER = 'x-payment-signature';
+
+/**
+ * @swagger
+ * /payments/webhook:
+ *   post:
+ *     summary: Payment provider webhook
+ *     description: |
+ *       Called by the payment provider. The raw body must be signed with HMAC-SHA256 (hex) using
+ *       `PAYMENT_WEBHOOK_SECRET`, sent in the `X-Payment-Signature` header.
+ *
+ *       - `payment.captured` records a `charge` ledger entry and moves the package to `booked`.
+ *       - `payment.failed` marks the intent failed; the package stays `awaiting_payment`.
+ *       - `refund.succeeded` records a `refund` ledger entry and marks the cancellation refund as `refunded`.
+ *       - `refund.failed` marks the cancellation refund as `failed`.
+ *
+ *       Events are idempotent by `id`; replays return `duplicate: true`.
+ *     tags:
+ *       - Payments
+ *     security: []
+ *     parameters:
+ *       - in: header
+ *         name: X-Payment-Signature
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               id:
+ *                 type: string
+ *               type:
+ *                 type: string
+ *                 enum: [payment.captured, payment.failed, refund.succeeded, refund.failed]
+ *               providerIntentId:
+ *                 type: string
+ *               providerRefundId:
+ *                 type: string
+ *               amount:
+ *                 type: number
+ *               currency:
+ *                 type: string
+ *               occurredAt:
+ *                 type: string
+ *                 format: date-time
+ *     responses:
+ *       200:
+ *         description: Event accepted
+ *       401:
+ *         description: Invalid signature
+ *       404:
+ *         description: Unknown payment intent
+ */
+router.post('/webhook', async (req: Request, res: Response) => {
+    const rawBody: Buffer | undefined = (req as any).rawBody;
+    if (!rawBody) return res.status(400).json({ error: 'Empty webhook body' });
+
+    try {
+        const result = await paymentService.handleWebhook(rawBody, req.header(PAYMENT_SIGNATURE_HEADER));
+        res.json({ received: true, ...result });
+    } catch (error: any) {
+        res.status(getErrorHttpStatus(error)).json({ error: error.message || 'Failed to process webhook' });
+    }
+});
+
+/**
+ * @swagger
+ * /payments/packages/{packageId}/ledger:
+ *   get:
+ *     summary: Get the payment ledger of a package
+ *     description: All charges, refunds and adjustments recorded against the package, with totals. Owner only.
+ *     tags:
+ *       - Payments
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: packageId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Package ledger
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PackageLedger'
+ *       403:
+ *         description: Not the package owner
+ *       404:
+ *         description: Package not found
+ */
+router.get('/packages/:packageId/ledger', authMiddleware, async (req: Request, res: Response) => {
+    const packageId = pathParam(req.params.packageId);
+    const user = (req as any).user;
+
+    const { data: pkg, error } = await getDB().from('packages').select('user_id').eq('id', packageId).maybeSingle();
+    if (error) return res.status(500).json({ error: error.message });
+    if (!pkg) return res.status(404).json({ error: 'Package not found' });
+    if (pkg.user_id !== user.id) return res.status(403).json({ error: 'Access denied: You do not own this package' });
+
+    const ledger = await paymentService.getLedger(packageId);
+    res.json(ledger);
+});
+
+/**
+ * @swagger
+ * /payments/packages/{packageId}/adjustments:
+ *   post:
+ *     summary: Record a manual ledger adjustment (admin)
+ *     description: Adds a signed `adjustment` entry to the package ledger, e.g. a goodwill credit or a surcharge.
+ *     tags:
+ *       - Payments
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: packageId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [amount, description]
+ *             properties:
+ *               amount:
+ *                 type: number
+ *                 example: -500
+ *               description:
+ *                 type: string
+ *                 example: "Goodwill credit for delayed pickup"
+ *     responses:
+ *       201:
+ *         description: Adjustment recorded
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/LedgerEntry'
+ *       400:
+ *         description: Invalid amount or description
+ *       403:
+ *         description: Admin role required
+ *       404:
+ *         description: Package not found
+ */
+router.post('/packages/:packageId/adjustments', [authMiddleware, requireRoles('admin')], async (req: Request, res: Response) => {
+    const packageId = pathParam(req.params.packageId);
+    const user = (req as any).user;
+    const { amount, description } = req.body || {};
+
+    if (typeof amount !== 'number' || !Number.isFinite(amount) || amount === 0) {
+        return res.status(400).json({ error: 'amount must be a non-zero number' });
+    }
+    if (typeof description !== 'string' || !description.trim()) {
+        return res.status(400).json({ error: 'description is required' });
+    }
+
+    try {
+        const entry = await paymentService.recordAdjustment(packageId, {
+            amount,
+            description: description.trim(),
+            actorId: user.id,
+        });
+        res.status(201).json(entry);
+    } catch (error: any) {
+        res.status(getErrorHttpStatus(error)).json({ error: error.message });
+    }
+});
+
+/**
+ * @swagger
+ * /payments/packages/{packageId}/schedule:
+ *   get:
+ *     summary: Get the payment schedule of a package
+ *     description: Deposit and instalments with due dates and payment status. Returns 404 when the package is paid in full. Owner only.
+ *     tags:
+ *       - Payments
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: packageId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Payment schedule
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PaymentSchedule'
+ *       403:
+ *         description: Not the package owner
+ *       404:
+ *         description: Package not found or has no payment schedule
+ */
+router.get('/packages/:packageId/schedule', authMiddleware, async (req: Request, res: Response) => {
+    const packageId = pathParam(req.params.packageId);
+    const user = (req as any).user;
+
+    const { data: pkg, error } = await getDB().from('packages').select('user_id').eq('id', packageId).maybeSingle();
+    if (error) return res.status(500).json({ error: error.message });
+    if (!pkg) return res.status(404).json({ error: 'Package not found' });
+    if (pkg.user_id !== user.id) return res.status(403).json({ error: 'Access denied: You do not own this package' });
+
+    const schedule = await scheduleService.getSchedule(packageId);
+    if (!schedule) return res.status(404).json({ error: 'Package has no payment schedule' });
+    res.json(schedule);
+});
+
+/**
+ * @swagger
+ * /payments/packages/{packageId}/schedule:
+ *   put:
+ *     summary: Set the payment schedule of a package
+ *     description: |
+ *       Splits `totalBasePrice` into a deposit (due when booking) and instalments due a number of days before
+ *       `start_date`. Percentages must add up to 100. Omit the body to use the default plan (30% deposit, balance
+ *       14 days before arrival); send `depositPercent: 100` with no instalments to pay in full.
+ *       Due dates already in the past are moved to today. Only possible before the package is booked
+ *       and while nothing has been paid.
+ *     tags:
+ *       - Payments
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: packageId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/PaymentPlan'
+ *           example:
+ *             depositPercent: 25
+ *             instalments:
+ *               - percent: 25
+ *                 dueDaysBeforeStart: 30
+ *               - percent: 50
+ *                 dueDaysBeforeStart: 7
+ *     responses:
+ *       200:
+ *         description: Payment schedule
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PaymentSchedule'
+ *       400:
+ *         description: Invalid plan
+ *       403:
+ *         description: Not the package owner
+ *       404:
+ *         description: Package not found
+ *       409:
+ *         description: Package is booked/cancelled or an instalment is already paid
+ */
+router.put('/packages/:packageId/schedule', authMiddleware, async (req: Request, res: Response) => {
+    const packageId = pathParam(req.params.packageId);
+    const user = (req as any).user;
+
+    const { data: pkg, error } = await getDB().from('packages').select('user_id').eq('id', packageId).maybeSingle();
+    if (error) return res.status(500).json({ error: error.message });
+    if (!pkg) return res.status(404).json({ error: 'Package not found' });
+    if (pkg.user_id !== user.id) return res.status(403).json({ error: 'Access denied: You do not own this package' });
+
+    const body = req.body || {};
+    const plan: PaymentPlan =
+        body.depositPercent === undefined && body.instalments === undefined
+            ? DEFAULT_PAYMENT_PLAN
+            : { depositPercent: body.depositPercent, instalments: body.instalments ?? [] };
+
+    try {
+        if (plan.depositPercent === 100 && plan.instalments.length === 0) {
+            await scheduleService.clearSchedule(packageId);
+            return res.json({ packageId, plan: null });
+        }
+        const schedule = await scheduleService.setSchedule(packageId, plan);
+        res.json(schedule);
+    } catch (error: any) {
+        res.status(getErrorHttpStatus(error)).json({ error: error.message });
+    }
+});
+
+/**
+ * @swagger
+ * /payments/packages/{packageId}/instalments/{instalmentId}/intent:
+ *   post:
+ *     summary: Create a payment intent for an instalment
+ *     description: Returns the open intent for the instalment (or creates one). Capture is confirmed by the provider webhook. Owner only.
+ *     tags:
+ *       - Payments
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: packageId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: instalmentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Payment intent
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PaymentIntent'
+ *       403:
+ *         description: Not the package owner
+ *       404:
+ *         description: Package or instalment not found
+ *       409:
+ *         description: Instalment already paid or package cancelled
+ */
+router.post('/packages/:packageId/instalments/:instalmentId/intent', authMiddleware, async (req: Request, res: Response) => {
+    const packageId = pathParam(req.params.packageId);
+    const instalmentId = pathParam(req.params.instalmentId);
+    const user = (req as any).user;
+
+    const { data: pkg, error } = await getDB().from('packages').select('user_id').eq('id', packageId).maybeSingle();
+    if (error) return res.status(500).json({ error: error.message });
+    if (!pkg) return res.status(404).json({ error: 'Package not found' });
+    if (pkg.user_id !== user.id) return res.status(403).json({ error: 'Access denied: You do not own this package' });
+
+    try {
+        const intent = await paymentService.createIntentForPackage(packageId, user.id, instalmentId);
+        res.json(intent);
+    } catch (error: any) {
+        res.status(getErrorHttpStatus(error)).json({ error: error.message });
+    }
+});
+
+/**
+ * @swagger
+ * /payments/packages/{packageId}/instalments/{instalmentId}/record:
+ *   post:
+ *     summary: Record an instalment paid offline (admin/ops)
+ *     description: Marks the instalment paid and writes a `charge` ledger entry. Books a package waiting for its deposit and clears `payment_overdue` when nothing else is overdue.
+ *     tags:
+ *       - Payments
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: packageId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: instalmentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reference:
+ *                 type: string
+ *                 example: "NEFT UTR 1234567890"
+ *               note:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Instalment recorded
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/LedgerEntry'
+ *       403:
+ *         description: Admin or ops role required
+ *       404:
+ *         description: Instalment not found
+ *       409:
+ *         description: Instalment already paid, or the package is cancelled
+ */
+router.post(
+    '/packages/:packageId/instalments/:instalmentId/record',
+    [authMiddleware, requireRoles('admin', 'ops')],
+    async (req: Request, res: Response) => {
+        const packageId = pathParam(req.params.packageId);
+        const instalmentId = pathParam(req.params.instalmentId);
+        const user = (req as any).user;
+        const { reference, note } = req.body || {};
+
+        try {
+            const entry = await paymentService.recordInstalmentPayment(packageId, instalmentId, {
+                actorId: user.id,
+                reference,
+                note,
+            });
+            res.status(201).json(entry);
+        } catch (error: any) {
+            res.status(getErrorHttpStatus(error)).json({ error: error.message });
+        }
+    }
+);
+
+/**
+ * @swagger
+ * /payments/intents/{intentId}/simulate:
+ *   post:
+ *     summary: Simulate a provider outcome (fake provider only)
+ *     description: |
+ *       Development helper available when `PAYMENT_PROVIDER=fake` outside production. Builds a signed
+ *       webhook for the intent and processes it exactly like `POST /payments/webhook`.
+ *     tags:
+ *       - Payments
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: intentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               outcome:
+ *                 type: string
+ *                 enum: [captured, failed]
+ *                 default: captured
+ *     responses:
+ *       200:
+ *         description: Webhook processed
+ *       403:
+ *         description: Not the intent owner
+ *       404:
+ *         description: Intent not found or simulation disabled
+ */
+router.post('/intents/:intentId/simulate', authMiddleware, async (req: Request, res: Response) => {
+    const provider = getPaymentProvider();
+    if (!(provider instanceof FakePaymentProvider) || process.env.NODE_ENV === 'production') {
+        return res.status(404).json({ error: 'Payment simulation is disabled' });
+    }
+
+    const intentId = pathParam(req.params.intentId);
+    const user = (req as any).user;
+    const outcome = req.body?.outcome === 'failed' ? 'failed' : 'captured';
+
+    const intent = await paymentService.getIntentById(intentId);
+    if (!intent) return res.status(404).json({ error: 'Payment intent not found' });
+    if (intent.userId !== user.id) return res.status(403).json({ error: 'Access denied: You do not own this payment' });
+
+    const { body, signature } = provider.buildWebhook(outcome === 'failed' ? 'payment.failed' : 'payment.captured', {
+        providerIntentId: intent.providerIntentId,
+        amount: intent.amount,
+        currency: intent.currency,
+    });
+
+    try {
+        const result = await paymentService.handleWebhook(body, signature);
+        res.json({ outcome, ...result });
+    } catch (error: any) {
+        res.status(getErrorHttpStatus(error)).json({ error: error.message });
+    }
+});
+
+export default router;
@@ -0,0 +1,148 @@
+import { MAX_ACCLIMATIZATION_REST_DAYS } from '../constants/acclimatization';
+import {
+    AcclimatizationAdjustment,
+    AcclimatizationGuidelines,
+    AcclimatizationWarning,
+    PackageStop,
+} from '../interfaces/package.interface';
+import { addUtcDays, toYmdUtc } from '../utils/date.util';
+
+type DestinationInfo = { name?: string; altitude_m?: number | null };
+
+/**
+ * Checks the sleeping altitude of every night of a stop sequence against the acclimatization guidelines and,
+ * when asked to, changes the sequence to follow them: stops are climbed in ascending order and rest nights are added.
+ */
+export class AcclimatizationService {
+    constructor(private readonly guidelines: AcclimatizationGuidelines) {}
+
+    /**
+     * @desc Warnings for the nights of `stops` starting on `startDate`. Nights at destinations without a known
+     * altitude are skipped. Travellers are assumed to arrive from below the threshold.
+     */
+    check(stops: PackageStop[], destinations: Map<string, DestinationInfo>, startDate: string): AcclimatizationWarning[] {
+        const { thresholdM, maxDailyGainM, restDayEveryM } = this.guidelines;
+        const warnings: AcclimatizationWarning[] = [];
+        let previous: number | undefined;
+        let sinceRest = 0;
+        let dayIndex = 0;
+
+        stops.forEach((stop, stopIndex) => {
+            const dest = destinations.get(stop.destinationId);
+            const altitude = dest?.altitude_m != null ? Number(dest.altitude_m) : undefined;
+            for (let night = 0; night < stop.nights; night++, dayIndex++) {
+                if (altitude === undefined) continue;
+                const warn = (rule: AcclimatizationWarning['rule'], gainM: number, message: string) =>
+                    warnings.push({
+                        rule,
+                        dayIndex,
+                        date: toYmdUtc(addUtcDays(new Date(startDate), dayIndex)),
+                        stopIndex,
+                        destinationId: stop.destinationId,
+                        altitudeM: altitude,
+                        gainM,
+                        message: `${dest?.name || 'Destination'} (${altitude} m): ${message}`,
+                    });
+
+                const gain = altitude > thresholdM ? altitude - Math.max(previous ?? thresholdM, thresholdM) : 0;
+                if (gain <= 0) {
+                    // Same or lower altitude: a rest night
+                    sinceRest = 0;
+                } else {
+                    if (gain > maxDailyGainM) warn('excessive_gain', gain, `sleeping altitude rises ${gain} m in a day above ${thresholdM} m (guideline ${maxDailyGainM} m)`);
+                    sinceRest += gain;
+                    if (sinceRest > restDayEveryM) {
+                        warn('rest_day_needed', sinceRest, `${sinceRest} m gained above ${thresholdM} m without a rest night (guideline one per ${restDayEveryM} m)`);
+                        sinceRest = 0;
+                    }
+                }
+                previous = altitude;
+            }
+        });
+        return warnings;
+    }
+
+    /**
+     * @desc Make the stops follow the guidelines as far as possible: climb in ascending order (the first stop, and
+     * the last when `keepLast`, stay in place) when that ends with fewer warnings, and add rest nights, at most
+     * MAX_ACCLIMATIZATION_REST_DAYS. Gains that only an intermediate destination could break up remain as warnings.
+     */
+    enforce(
+        stops: PackageStop[],
+        destinations: Map<string, DestinationInfo>,
+        startDate: string,
+        options: { keepLast?: boolean } = {}
+    ): { stops: PackageStop[]; adjustments: AcclimatizationAdjustment[] } {
+        const name = (id: string) => destinations.get(id)?.name || 'destination';
+        const altitude = (s: PackageStop) => Number(destinations.get(s.destinationId)?.altitude_m ?? 0);
+        const current = stops.map((s) => ({ ...s }));
+        if (!this.check(current, destinations, startDate).length) return { stops: current, adjustments: [] };
+
+        const asRequested = this.addRestNights(current, destinations, startDate);
+        const fixedTail = options.keepLast && current.length > 2 ? current.slice(-1) : [];
+        const middle = current.slice(1, current.length - fixedTail.length);
+        const ascending = [current[0], ...[...middle].sort((a, b) => altitude(a) - altitude(b)), ...fixedTail];
+        if (ascending.every((s, i) => s === current[i])) return asRequested;
+
+        const reordered = this.addRestNights(ascending, destinations, startDate);
+        const remaining = (result: { stops: PackageStop[] }) => this.check(result.stops, destinations, startDate).length;
+        if (remaining(reordered) >= remaining(asRequested)) return asRequested;
+        return {
+            stops: reordered.stops,
+            adjustments: [
+                {
+                    type: 'reorder',
+                    message: `Stops reordered to climb gradually: ${ascending.map((s) => name(s.destinationId)).join(' → ')}`,
+                    order: ascending.map((s) => s.destinationId),
+                },
+                ...reordered.adjustments,
+            ],
+        };
+    }
+
+    /**
+     * Add, one at a time, the extra night that clears a warning until none does or the limit is reached
+     */
+    private addRestNights(
+        stops: PackageStop[],
+        destinations: Map<string, DestinationInfo>,
+        startDate: string
+    ): { stops: PackageStop[]; adjustments: AcclimatizationAdjustment[] } {
+        const name = (id: string) => destinations.get(id)?.name || 'destination';
+        const adjustments: AcclimatizationAdjustment[] = [];
+        let current = stops;
+        for (let added = 0; added < MAX_ACCLIMATIZATION_REST_DAYS; added++) {
+            const warnings = this.check(current, destinations, startDate);
+            const fix = warnings
+                .map((warning) => {
+                    const restAt = this.restStopFor(warning, current);
+                    if (restAt === undefined) return undefined;
+                    const candidate = current.map((s, i) => (i === restAt ? { ...s, nights: s.nights + 1 } : s));
+                    return this.check(candidate, destinations, startDate).length < warnings.length ? { warning, restAt, candidate } : undefined;
+                })
+                .find((f) => f !== undefined);
+            if (!fix) break;
+
+            const stop = current[fix.restAt];
+            current = fix.candidate;
+            adjustments.push({
+                type: 'rest_day',
+                destinationId: stop.destinationId,
+                message:
+                    fix.warning.rule === 'rest_day_needed'
+                        ? `Extra night in ${name(stop.destinationId)} to acclimatize before ${name(fix.warning.destinationId)}`
+                        : `Extra night in ${name(stop.destinationId)} to rest after the climb`,
+            });
+        }
+        return { stops: current, adjustments };
+    }
+
+    /**
+     * Stop where an extra night may help: the stop before the climb for a missing rest night, the climbed-to stop
+     * (before going higher) for an excessive daily gain
+     */
+    private restStopFor(warning: AcclimatizationWarning, stops: PackageStop[]): number | undefined {
+        if (warning.rule === 'rest_day_needed') return warning.stopIndex > 0 ? warning.stopIndex - 1 : undefined;
+        return warning.stopIndex < stops.length - 1 ? warning.stopIndex : undefined;
+    }
+}
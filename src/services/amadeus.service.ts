@@ -1,5 +1,6 @@
 import axios from 'axios';
 import { AmadeusAuthService } from './amadeus-auth.service';
+import { RoomOccupancy } from '../interfaces/package.interface';
 
 export type HotelSuggestion = {
     name: string;
@@ -16,6 +17,21 @@ export type HotelSuggestion = {
     longitude?: number;
 };
 
+export type HotelOffersParams = {
+    hotelIds: string[];
+    adults: number; // per room
+    childAges?: number[]; // per room
+    checkInDate: string;
+    checkOutDate: string;
+    roomQuantity?: number;
+    priceRange?: string;
+    currency?: string;
+    boardType?: 'ROOM_ONLY' | 'BREAKFAST' | 'HALF_BOARD' | 'FULL_BOARD' | 'ALL_INCLUSIVE';
+    includeClosed?: boolean;
+    bestRateOnly?: boolean;
+    lang?: string;
+};
+
 export class AmadeusService {
     private auth = new AmadeusAuthService();
     private get baseUrl() {
@@ -82,9 +98,9 @@ export class AmadeusService {
         }
     }
 
-    async getHotelOffers(params: { hotelIds: string[]; adults: number; checkInDate: string; checkOutDate: string; roomQuantity?: number; priceRange?: string; currency?: string; boardType?: 'ROOM_ONLY' | 'BREAKFAST' | 'HALF_BOARD' | 'FULL_BOARD' | 'ALL_INCLUSIVE'; includeClosed?: boolean; bestRateOnly?: boolean; lang?: string; }): Promise<any[]> {
+    async getHotelOffers(params: HotelOffersParams): Promise<any[]> {
         const {
-            hotelIds, adults, checkInDate, checkOutDate,
+            hotelIds, adults, childAges, checkInDate, checkOutDate,
             roomQuantity = 1, priceRange,
             currency = 'INR', boardType, includeClosed = false,
             bestRateOnly = true, lang = 'EN'
@@ -112,6 +128,9 @@ export class AmadeusService {
             if (boardType) {
                 requestParams.boardType = boardType;
             }
+            if (childAges && childAges.length) {
+                requestParams.childAges = childAges.join(',');
+            }
             
             const resp = await axios.get(`${this.baseUrl}/v3/shopping/hotel-offers`, {
                 headers: { Authorization: `Bearer ${token}` },
@@ -144,6 +163,43 @@ export class AmadeusService {
             return [];
         }
     }
-}
 
+    /**
+     * Offers for a whole room plan. Amadeus prices one occupancy per request, so identical rooms share a request
+     * and mixed plans are priced per occupancy and summed per hotel. Hotels that cannot host every room are left out.
+     * Merged offers keep the Amadeus shape (`offers[0].price.total` is the plan total) and list the parts in `roomOffers`.
+     */
+    async getHotelOffersForRooms(params: Omit<HotelOffersParams, 'adults' | 'childAges' | 'roomQuantity'> & { rooms: RoomOccupancy[] }): Promise<any[]> {
+        const { rooms, ...rest } = params;
+        const groups = new Map<string, { adults: number; childAges: number[]; roomQuantity: number }>();
+        for (const room of rooms) {
+            const childAges = [...(room.childAges || [])].sort((a, b) => a - b);
+            const key = `${room.adults}:${childAges.join(',')}`;
+            const group = groups.get(key);
+            if (group) group.roomQuantity++;
+            else groups.set(key, { adults: room.adults, childAges, roomQuantity: 1 });
+        }
+
+        const parts = Array.from(groups.values());
+        const results: any[][] = [];
+        for (const group of parts) {
+            results.push(await this.getHotelOffers({ ...rest, ...group }));
+        }
+        if (results.length === 1) return results[0];
 
+        const price = (o: any) => Number(o?.offers?.[0]?.price?.total || o?.offers?.[0]?.price?.base || 0);
+        return results[0]
+            .map((first: any) => {
+                const hotelId = first?.hotel?.hotelId;
+                const matches = results.map((list) => list.find((o: any) => o?.hotel?.hotelId === hotelId && price(o) > 0));
+                if (matches.some((m) => !m)) return null;
+                const total = matches.reduce((sum, m) => sum + price(m), 0);
+                return {
+                    ...first,
+                    offers: [{ ...first.offers[0], price: { ...first.offers[0].price, total: total.toFixed(2) } }],
+                    roomOffers: matches.map((m, i) => ({ ...parts[i], offer: m.offers[0] })),
+                };
+            })
+            .filter(Boolean);
+    }
+}
@@ -0,0 +1,192 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import moment from 'moment-timezone';
+import { getDB } from '../configuration/database.config';
+import {
+    DINNER_MINUTES,
+    DINNER_TIME,
+    DEFAULT_ACTIVITY_MINUTES,
+    LUNCH_EARLIEST,
+    LUNCH_MINUTES,
+    LUNCH_TIME,
+    SCHEDULE_DAY_END,
+    SCHEDULE_DAY_START,
+    SCHEDULE_TIMEZONE,
+} from '../constants/day-schedule';
+import {
+    ActivityWithPrice,
+    DayPlan,
+    DaySchedule,
+    OpeningHours,
+    PackageLeg,
+    RestaurantSuggestion,
+    ScheduleSlot,
+    ScheduleWarning,
+    Weekday,
+} from '../interfaces/package.interface';
+
+const WEEKDAYS: Weekday[] = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+type VenueHours = { open: number; close: number } | 'closed' | null;
+
+/**
+ * Lays out a timed schedule for each day of an itinerary: the drive from the previous stop, the day's activities
+ * (durations from `poi_pricing.metadata`), lunch and dinner at one of the suggested restaurants. Venue opening
+ * hours and the forecast's sunrise/sunset are checked along the way; problems become warnings, never errors.
+ */
+export class DayScheduleService {
+    private get db(): SupabaseClient {
+        return getDB();
+    }
+
+    /**
+     * @desc Set `schedule` on every day. Opening hours are read in one query per table; if that fails the
+     * schedule is still built with the hours treated as unknown.
+     */
+    async attach(days: DayPlan[], legs: PackageLeg[] = []): Promise<void> {
+        const poiIds = Array.from(new Set(days.flatMap((d) => (d.activities || []).map((a) => a.poiId)).filter(Boolean)));
+        const restaurantIds = Array.from(new Set(days.flatMap((d) => (d.restaurantSuggestions || []).map((r) => r.id)).filter(Boolean)));
+        const [poiHours, restaurantHours] = await Promise.all([this.fetchOpeningHours('pois', poiIds), this.fetchOpeningHours('restaurants', restaurantIds)]);
+
+        days.forEach((day, i) => {
+            const previous = days[i - 1];
+            const leg = previous && previous.destinationId !== day.destinationId
+                ? legs.find((l) => l.originId === previous.destinationId && l.destinationId === day.destinationId)
+                : undefined;
+            day.schedule = this.build(day, { previous, leg, poiHours, restaurantHours });
+        });
+    }
+
+    private build(
+        day: DayPlan,
+        context: { previous?: DayPlan; leg?: PackageLeg; poiHours: Map<string, OpeningHours>; restaurantHours: Map<string, OpeningHours> }
+    ): DaySchedule {
+        const weekday = WEEKDAYS[new Date(day.date).getUTCDay()];
+        const sunrise = this.toLocalMinutes(day.weather?.sunrise);
+        const sunset = this.toLocalMinutes(day.weather?.sunset);
+        const slots: ScheduleSlot[] = [];
+        const warnings: ScheduleWarning[] = [];
+        let cursor = Math.max(SCHEDULE_DAY_START, sunrise ?? 0);
+
+        if (context.previous && context.leg?.durationMinutes) {
+            const end = cursor + context.leg.durationMinutes;
+            slots.push({ kind: 'travel', start: this.formatTime(cursor), end: this.formatTime(end), title: `Drive from ${context.previous.destinationName} to ${day.destinationName}` });
+            cursor = end;
+        }
+
+        const usedRestaurants = new Set<string>();
+        const addMeal = (kind: 'lunch' | 'dinner', at: number, minutes: number) => {
+            const end = at + minutes;
+            const restaurants = day.restaurantSuggestions || [];
+            const open = (r: RestaurantSuggestion) => {
+                const hours = this.hoursOn(context.restaurantHours.get(r.id), weekday);
+                return hours === null || (hours !== 'closed' && hours.open <= at && end <= hours.close);
+            };
+            const restaurant = restaurants.find((r) => !usedRestaurants.has(r.id) && open(r)) || restaurants.find(open);
+            if (restaurant) usedRestaurants.add(restaurant.id);
+            else if (restaurants.length) {
+                warnings.push({ code: 'no_open_restaurant', message: `None of the suggested restaurants is open for ${kind} at ${this.formatTime(at)}` });
+            }
+            slots.push({
+                kind,
+                start: this.formatTime(at),
+                end: this.formatTime(end),
+                title: restaurant ? `${kind === 'lunch' ? 'Lunch' : 'Dinner'} at ${restaurant.name}` : kind === 'lunch' ? 'Lunch' : 'Dinner',
+                ...(restaurant ? { restaurantId: restaurant.id } : {}),
+            });
+            return end;
+        };
+
+        let hadLunch = false;
+        for (const activity of day.activities || []) {
+            if (!hadLunch && cursor >= LUNCH_EARLIEST) {
+                cursor = addMeal('lunch', cursor, LUNCH_MINUTES);
+                hadLunch = true;
+            }
+
+            const hours = this.hoursOn(context.poiHours.get(activity.poiId), weekday);
+            if (hours === 'closed') {
+                warnings.push({ code: 'venue_closed', message: `${activity.name} is closed on ${this.capitalize(weekday)}s`, poiId: activity.poiId });
+                continue;
+            }
+
+            const start = hours ? Math.max(cursor, hours.open) : cursor;
+            const end = start + this.activityMinutes(activity);
+            if (hours && end > hours.close) {
+                warnings.push({
+                    code: 'outside_opening_hours',
+                    message: `${activity.name} closes at ${this.formatTime(hours.close)}, before the visit would end (${this.formatTime(end)})`,
+                    poiId: activity.poiId,
+                });
+            }
+            if (sunset !== null && end > sunset) {
+                warnings.push({ code: 'after_sunset', message: `${activity.name} would end after sunset (${this.formatTime(sunset)})`, poiId: activity.poiId });
+            }
+            slots.push({ kind: 'activity', start: this.formatTime(start), end: this.formatTime(end), title: activity.name, poiId: activity.poiId });
+            cursor = end;
+        }
+
+        if (!hadLunch && cursor + LUNCH_MINUTES <= DINNER_TIME) cursor = addMeal('lunch', Math.max(cursor, LUNCH_TIME), LUNCH_MINUTES);
+        cursor = addMeal('dinner', Math.max(cursor, DINNER_TIME), DINNER_MINUTES);
+
+        if (cursor > SCHEDULE_DAY_END) {
+            warnings.push({ code: 'day_overrun', message: `The day runs until ${this.formatTime(cursor)}; consider moving an activity to another day` });
+        }
+        return {
+            weekday,
+            sunrise: sunrise === null ? null : this.formatTime(sunrise),
+            sunset: sunset === null ? null : this.formatTime(sunset),
+            slots,
+            warnings,
+        };
+    }
+
+    private activityMinutes(activity: ActivityWithPrice): number {
+        const minutes = Number(activity.metadata?.durationMinutes ?? activity.metadata?.duration_minutes);
+        return Number.isFinite(minutes) && minutes > 0 ? minutes : DEFAULT_ACTIVITY_MINUTES;
+    }
+
+    /**
+     * Hours of a venue on a weekday; null when unknown (no hours stored, or nothing usable for that day)
+     */
+    private hoursOn(hours: OpeningHours | undefined, weekday: Weekday): VenueHours {
+        const day = hours?.[weekday];
+        if (!day) return null;
+        if (day.closed) return 'closed';
+        const open = this.parseTime(day.open);
+        const close = this.parseTime(day.close);
+        if (open === null || close === null) return null;
+        // Closing after midnight (e.g. 18:00-01:00) keeps the venue open for the rest of the evening
+        return { open, close: close <= open ? close + 24 * 60 : close };
+    }
+
+    private async fetchOpeningHours(table: 'pois' | 'restaurants', ids: string[]): Promise<Map<string, OpeningHours>> {
+        const out = new Map<string, OpeningHours>();
+        if (!ids.length) return out;
+        const { data, error } = await this.db.from(table).select('id,opening_hours').in('id', ids);
+        if (error) console.error(`[DayScheduleService] Error fetching ${table} opening hours:`, error.message);
+        for (const row of data || []) {
+            if (row.opening_hours && typeof row.opening_hours === 'object') out.set(row.id, row.opening_hours);
+        }
+        return out;
+    }
+
+    private toLocalMinutes(iso?: string): number | null {
+        if (!iso) return null;
+        const local = moment(iso).tz(SCHEDULE_TIMEZONE);
+        return local.isValid() ? local.hours() * 60 + local.minutes() : null;
+    }
+
+    private parseTime(value?: string): number | null {
+        const match = /^(\d{1,2}):(\d{2})$/.exec(value || '');
+        return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+    }
+
+    private formatTime(minutes: number): string {
+        const m = Math.round(minutes) % (24 * 60);
+        return `${String(Math.floor(m / 60)).padStart(2, '0')}:${String(m % 60).padStart(2, '0')}`;
+    }
+
+    private capitalize(value: string): string {
+        return value.charAt(0).toUpperCase() + value.slice(1);
+    }
+}
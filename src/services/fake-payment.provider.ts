@@ -0,0 +1,61 @@
+import { randomUUID } from 'crypto';
+import { InternalServerError, UnauthorizedError } from '@hyperflake/http-errors';
+import {
+    PaymentProvider,
+    PaymentWebhookEvent,
+    PaymentWebhookEventType,
+    ProviderIntent,
+    ProviderRefund,
+} from '../interfaces/payment.interface';
+import { signWebhookPayload, verifyWebhookSignature } from '../utils/webhook-signature.util';
+
+/**
+ * In-process provider for local development and tests. Nothing is charged; captures and refunds
+ * are confirmed by posting a webhook signed with `PAYMENT_WEBHOOK_SECRET` (see `buildWebhook`).
+ */
+export class FakePaymentProvider implements PaymentProvider {
+    readonly name = 'fake';
+
+    private get secret(): string {
+        const secret = process.env.PAYMENT_WEBHOOK_SECRET;
+        if (!secret) throw new InternalServerError('PAYMENT_WEBHOOK_SECRET is not set');
+        return secret;
+    }
+
+    async createIntent(): Promise<ProviderIntent> {
+        const providerIntentId = `fake_pi_${randomUUID()}`;
+        return { providerIntentId, clientSecret: `${providerIntentId}_secret_${randomUUID().slice(0, 8)}` };
+    }
+
+    async cancelIntent(): Promise<void> {
+        // Nothing to release on the fake gateway
+    }
+
+    async refund(): Promise<ProviderRefund> {
+        return { providerRefundId: `fake_re_${randomUUID()}` };
+    }
+
+    parseWebhook(rawBody: Buffer, signature: string | undefined): PaymentWebhookEvent {
+        if (!verifyWebhookSignature(rawBody, signature, this.secret)) {
+            throw new UnauthorizedError('Invalid webhook signature');
+        }
+        return JSON.parse(rawBody.toString('utf8')) as PaymentWebhookEvent;
+    }
+
+    /**
+     * Build a signed webhook call, as the gateway would send it.
+     */
+    buildWebhook(
+        type: PaymentWebhookEventType,
+        params: { providerIntentId: string; amount: number; currency: string; providerRefundId?: string }
+    ): { body: Buffer; signature: string } {
+        const event: PaymentWebhookEvent = {
+            id: `fake_evt_${randomUUID()}`,
+            type,
+            occurredAt: new Date().toISOString(),
+            ...params,
+        };
+        const body = Buffer.from(JSON.stringify(event));
+        return { body, signature: signWebhookPayload(body, this.secret) };
+    }
+}
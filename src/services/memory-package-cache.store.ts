@@ -0,0 +1,44 @@
+import { PackageCacheEntryMeta, PackageCacheInvalidation, PackageCacheStore } from '../interfaces/package-cache.interface';
+import { PackageGenerationResult } from '../interfaces/package.interface';
+
+/**
+ * Per-process cache. Entries are stored serialized so callers can never mutate a cached package.
+ */
+export class MemoryPackageCacheStore implements PackageCacheStore {
+    readonly name = 'memory';
+    private entries = new Map<string, { expiry: number; payload: string; meta: PackageCacheEntryMeta }>();
+
+    async get(key: string): Promise<PackageGenerationResult | null> {
+        this.purgeExpired();
+        const entry = this.entries.get(key);
+        return entry ? JSON.parse(entry.payload) : null;
+    }
+
+    async set(key: string, value: PackageGenerationResult, ttlMs: number, meta: PackageCacheEntryMeta): Promise<void> {
+        if (ttlMs <= 0) return;
+        this.entries.set(key, { expiry: Date.now() + ttlMs, payload: JSON.stringify(value), meta });
+    }
+
+    async invalidate(filter: PackageCacheInvalidation = {}): Promise<number> {
+        if (!filter.destinationIds?.length) {
+            const count = this.entries.size;
+            this.entries.clear();
+            return count;
+        }
+        let count = 0;
+        for (const [key, entry] of this.entries.entries()) {
+            if (entry.meta.destinationIds.some((id) => filter.destinationIds!.includes(id))) {
+                this.entries.delete(key);
+                count++;
+            }
+        }
+        return count;
+    }
+
+    private purgeExpired() {
+        const now = Date.now();
+        for (const [key, entry] of this.entries.entries()) {
+            if (entry.expiry <= now) this.entries.delete(key);
+        }
+    }
+}
@@ -0,0 +1,151 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { BadRequestError, HttpError, NotFoundError } from '@hyperflake/http-errors';
+import { getDB } from '../configuration/database.config';
+import {
+    BookingStatus,
+    BookingTransitionContext,
+    PackageStatusHistoryItem,
+} from '../interfaces/package.interface';
+
+type PackageStateRow = { id: string; booking_status: BookingStatus; user_id: string | null; start_date: string };
+type TransitionGuard = (pkg: PackageStateRow, ctx: BookingTransitionContext) => string | null;
+
+/**
+ * Single owner of `packages.booking_status`. Every change goes through `transition`,
+ * which validates the move, applies guards and records it in `package_status_history`.
+ */
+export class PackageBookingStateMachine {
+    static readonly TRANSITIONS: Record<BookingStatus, BookingStatus[]> = {
+        generated: ['awaiting_auth', 'awaiting_verification', 'pending_kyc', 'awaiting_payment', 'cancelled'],
+        awaiting_auth: ['awaiting_verification', 'pending_kyc', 'awaiting_payment', 'cancelled'],
+        awaiting_verification: ['awaiting_auth', 'pending_kyc', 'awaiting_payment', 'cancelled'],
+        pending_kyc: ['awaiting_auth', 'awaiting_verification', 'awaiting_payment', 'cancelled'],
+        awaiting_payment: ['awaiting_verification', 'pending_kyc', 'booked', 'cancelled'],
+        booked: ['payment_overdue', 'cancelled'],
+        payment_overdue: ['booked', 'cancelled'],
+        cancelled: [],
+    };
+
+    /** States in which the itinerary may still be reconfigured. */
+    static readonly EDITABLE_STATES: BookingStatus[] = [
+        'generated',
+        'awaiting_auth',
+        'awaiting_verification',
+        'pending_kyc',
+        'awaiting_payment',
+    ];
+
+    private static readonly GUARDS: Partial<Record<BookingStatus, TransitionGuard>> = {
+        booked: (pkg, ctx) => {
+            if (!pkg.user_id) return 'A package must belong to a user before it can be booked';
+            // Only a confirmed payment (provider capture or an instalment recorded by staff) books a package
+            if (!ctx.metadata?.paymentIntentId && !ctx.metadata?.ledgerEntryId) {
+                return 'A package can only be booked once its payment is captured';
+            }
+            return null;
+        },
+        cancelled: (pkg) =>
+            (pkg.booking_status === 'booked' || pkg.booking_status === 'payment_overdue') &&
+            new Date(pkg.start_date).getTime() <= Date.now()
+                ? 'A trip that has already started cannot be cancelled'
+                : null,
+    };
+
+    private get db(): SupabaseClient {
+        return getDB();
+    }
+
+    canTransition(from: BookingStatus, to: BookingStatus): boolean {
+        return from === to || (PackageBookingStateMachine.TRANSITIONS[from] || []).includes(to);
+    }
+
+    /**
+     * Throws when the package can no longer be reconfigured (booked or cancelled).
+     */
+    assertEditable(status: BookingStatus) {
+        if (!PackageBookingStateMachine.EDITABLE_STATES.includes(status)) {
+            throw new HttpError(`Cannot modify a ${status} package`, 409);
+        }
+    }
+
+    async getStatus(packageId: string): Promise<BookingStatus> {
+        const pkg = await this.loadPackage(packageId);
+        return pkg.booking_status;
+    }
+
+    /**
+     * Move a package to `to`. Re-entering the current state is a no-op and is not recorded.
+     */
+    async transition(
+        packageId: string,
+        to: BookingStatus,
+        ctx: BookingTransitionContext = {}
+    ): Promise<{ from: BookingStatus; to: BookingStatus; changed: boolean }> {
+        const pkg = await this.loadPackage(packageId);
+        const from = pkg.booking_status;
+        if (from === to) return { from, to, changed: false };
+
+        if (!this.canTransition(from, to)) {
+            throw new HttpError(`Illegal booking status transition: ${from} -> ${to}`, 409);
+        }
+        const guardError = PackageBookingStateMachine.GUARDS[to]?.(pkg, ctx);
+        if (guardError) throw new HttpError(guardError, 409);
+
+        // Compare-and-set on the previous status so concurrent transitions cannot both win
+        const { data: updated, error } = await this.db
+            .from('packages')
+            .update({ booking_status: to })
+            .eq('id', packageId)
+            .eq('booking_status', from)
+            .select('id');
+        if (error) throw new BadRequestError(error.message);
+        if (!updated || updated.length === 0) {
+            throw new HttpError(`Booking status changed concurrently; expected ${from}`, 409);
+        }
+
+        const { error: historyErr } = await this.db.from('package_status_history').insert({
+            package_id: packageId,
+            from_status: from,
+            to_status: to,
+            actor_id: ctx.actorId ?? null,
+            actor_type: ctx.actorType || (ctx.actorId ? 'user' : 'system'),
+            reason: ctx.reason ?? null,
+            metadata: ctx.metadata || {},
+        });
+        if (historyErr) console.error('[PackageBookingStateMachine] Failed to record transition:', historyErr.message);
+
+        console.log(`[PackageBookingStateMachine] ${packageId}: ${from} -> ${to}${ctx.reason ? ` (${ctx.reason})` : ''}`);
+        return { from, to, changed: true };
+    }
+
+    async getHistory(packageId: string): Promise<PackageStatusHistoryItem[]> {
+        const { data, error } = await this.db
+            .from('package_status_history')
+            .select('*')
+            .eq('package_id', packageId)
+            .order('created_at', { ascending: true });
+        if (error) throw new BadRequestError(error.message);
+        return (data || []).map((row: any) => ({
+            id: row.id,
+            packageId: row.package_id,
+            fromStatus: row.from_status,
+            toStatus: row.to_status,
+            actorId: row.actor_id,
+            actorType: row.actor_type,
+            reason: row.reason,
+            metadata: row.metadata || {},
+            createdAt: row.created_at,
+        }));
+    }
+
+    private async loadPackage(packageId: string): Promise<PackageStateRow> {
+        const { data, error } = await this.db
+            .from('packages')
+            .select('id,booking_status,user_id,start_date')
+            .eq('id', packageId)
+            .maybeSingle();
+        if (error) throw new BadRequestError(error.message);
+        if (!data) throw new NotFoundError('Package not found');
+        return data as PackageStateRow;
+    }
+}
@@ -0,0 +1,180 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { getDB } from '../configuration/database.config';
+import { activityPrice, payingTravellers, resolveTravellers } from '../utils/traveller.util';
+import {
+    BudgetAdjustment,
+    BudgetFitSummary,
+    CabType,
+    DayPlan,
+    GeneratePackageRequest,
+    HotelOption,
+    PackageGenerationResult,
+    Travellers,
+} from '../interfaces/package.interface';
+
+export class PackageBudgetService {
+    private get db(): SupabaseClient {
+        return getDB();
+    }
+
+    /**
+     * Effective limit for the whole group, or undefined when the request has no budget
+     */
+    static resolveMaxTotal(req: Pick<GeneratePackageRequest, 'maxTotalBudget' | 'maxPerPersonBudget' | 'people'>): number | undefined {
+        const people = Math.max(1, Number(req.people || 1));
+        const limits = [
+            req.maxTotalBudget != null ? Number(req.maxTotalBudget) : undefined,
+            req.maxPerPersonBudget != null ? Number(req.maxPerPersonBudget) * people : undefined,
+        ].filter((n): n is number => n !== undefined && Number.isFinite(n) && n > 0);
+        return limits.length ? Math.min(...limits) : undefined;
+    }
+
+    /**
+     * @desc Bring a generated package under `maxTotal`, in place. Cheapest changes to the experience go first:
+     * 1. swap each stay to a cheaper offer from its `hotelOptions` (the priciest one that still closes the gap),
+     * 2. switch to the cheapest cab that fits the group,
+     * 3. drop priced auto-added attractions, lowest rated first (they move to `optionalAttractions`).
+     * Daily local transport comes from the price bucket and is never reduced. When even the cheapest combination
+     * is over the limit, that combination is kept and the summary reports the shortfall and minimum price.
+     */
+    async fit(result: PackageGenerationResult, maxTotal: number): Promise<BudgetFitSummary> {
+        const people = Math.max(1, Number(result.people || 1));
+        const travellers = resolveTravellers(result);
+        const breakdown = result.breakdown || { accommodation: 0, transport: 0, activities: 0, cab: 0 };
+        result.breakdown = breakdown;
+        const originalTotal = this.total(result);
+        const adjustments: BudgetAdjustment[] = [];
+        const gap = () => this.total(result) - maxTotal;
+
+        if (gap() > 0) this.fitHotels(result, gap, adjustments);
+        if (gap() > 0) await this.fitCab(result, people, adjustments);
+        if (gap() > 0) this.fitAttractions(result, travellers, gap, adjustments);
+
+        const fittedTotal = this.total(result);
+        result.totalBasePrice = fittedTotal;
+        result.perPersonPrice = fittedTotal / payingTravellers(travellers);
+
+        const withinBudget = fittedTotal <= maxTotal;
+        return {
+            maxTotal: this.round(maxTotal),
+            originalTotal: this.round(originalTotal),
+            fittedTotal: this.round(fittedTotal),
+            withinBudget,
+            shortfall: withinBudget ? 0 : this.round(fittedTotal - maxTotal),
+            ...(withinBudget
+                ? {}
+                : { minimumAchievableTotal: this.round(fittedTotal), minimumAchievablePerPerson: this.round(fittedTotal / payingTravellers(travellers)) }),
+            adjustments,
+        };
+    }
+
+    private fitHotels(result: PackageGenerationResult, gap: () => number, adjustments: BudgetAdjustment[]) {
+        const stays = new Map<number, DayPlan[]>();
+        result.days.forEach((day, i) => {
+            const key = day.stopIndex ?? i;
+            stays.set(key, [...(stays.get(key) || []), day]);
+        });
+
+        const candidates = Array.from(stays.entries())
+            .map(([stopIndex, days]) => {
+                const current = Number(days[0].hotel?.price || 0) * days.length;
+                const offers = (days[0].hotelOptions || [])
+                    .map((o: any) => ({ offer: o, price: Number(o?.offers?.[0]?.price?.total || o?.offers?.[0]?.price?.base || 0) }))
+                    .filter((x: any) => x.price > 0 && x.price < current)
+                    .sort((a: any, b: any) => a.price - b.price);
+                return { stopIndex, days, current, offers };
+            })
+            .filter((s) => s.days[0].hotel && s.offers.length)
+            // Stays that can save the most first, so fewer hotels change
+            .sort((a, b) => b.current - b.offers[0].price - (a.current - a.offers[0].price));
+
+        for (const stay of candidates) {
+            const needed = gap();
+            if (needed <= 0) break;
+            const closing = stay.offers.filter((o: any) => stay.current - o.price >= needed);
+            const pick = closing.length ? closing[closing.length - 1] : stay.offers[0];
+
+            const oldHotel = stay.days[0].hotel as HotelOption;
+            const nights = stay.days.length;
+            const newHotel: HotelOption = {
+                ...oldHotel,
+                name: pick.offer?.hotel?.name,
+                hotelId: pick.offer?.hotel?.hotelId,
+                latitude: pick.offer?.hotel?.latitude,
+                longitude: pick.offer?.hotel?.longitude,
+                currency: pick.offer?.offers?.[0]?.price?.currency,
+                price: pick.price / nights,
+            };
+            for (const day of stay.days) day.hotel = { ...newHotel };
+            result.breakdown!.accommodation -= stay.current - pick.price;
+            adjustments.push({
+                type: 'hotel',
+                stopIndex: stay.stopIndex,
+                destinationId: stay.days[0].destinationId,
+                from: oldHotel.name,
+                to: newHotel.name,
+                saving: this.round(stay.current - pick.price),
+            });
+        }
+    }
+
+    private async fitCab(result: PackageGenerationResult, people: number, adjustments: BudgetAdjustment[]) {
+        const totalKm = result.legs.reduce((s, l) => s + Number(l.distanceKm || 0), 0);
+        if (totalKm <= 0) return;
+
+        const { data: cabs } = await this.db
+            .from('cab_inventory')
+            .select('id,cab_type,base_price_per_km')
+            .gte('capacity', people)
+            .eq('is_available', true)
+            .order('base_price_per_km', { ascending: true })
+            .limit(1);
+        const cab = cabs?.[0];
+        if (!cab) return;
+
+        const rate = Number(cab.base_price_per_km || 0);
+        const newCabTotal = totalKm * rate;
+        const oldCabTotal = result.breakdown!.cab;
+        if (newCabTotal >= oldCabTotal) return;
+
+        for (const leg of result.legs) leg.cabCost = Number(leg.distanceKm || 0) * rate;
+        result.breakdown!.cab = newCabTotal;
+        const previousCabId = result.cabSelection?.id;
+        result.cabSelection = { id: cab.id, type: cab.cab_type as CabType, estimatedCost: newCabTotal };
+        adjustments.push({ type: 'cab', from: previousCabId, to: cab.id, saving: this.round(oldCabTotal - newCabTotal) });
+    }
+
+    private fitAttractions(result: PackageGenerationResult, travellers: Travellers, gap: () => number, adjustments: BudgetAdjustment[]) {
+        const priced = result.days
+            .flatMap((day) => day.activities.map((activity) => ({ day, activity, cost: activityPrice(activity, travellers) })))
+            .filter((x) => x.cost > 0)
+            .sort((a, b) => (a.activity.rating || 0) - (b.activity.rating || 0) || b.cost - a.cost);
+
+        for (const { day, activity, cost } of priced) {
+            if (gap() <= 0) break;
+            day.activities = day.activities.filter((a) => a !== activity);
+            day.activitiesCost = Number(day.activitiesCost || 0) - cost;
+            result.breakdown!.activities -= cost;
+            result.optionalAttractions = [
+                ...(result.optionalAttractions || []),
+                { poiId: activity.poiId, name: activity.name, price: activity.base_price },
+            ];
+            adjustments.push({
+                type: 'attraction_removed',
+                stopIndex: day.stopIndex,
+                destinationId: day.destinationId,
+                from: activity.name,
+                saving: this.round(cost),
+            });
+        }
+    }
+
+    private total(result: PackageGenerationResult): number {
+        const b = result.breakdown!;
+        return b.accommodation + b.transport + b.activities + b.cab;
+    }
+
+    private round(n: number): number {
+        return Math.round(n * 100) / 100;
+    }
+}
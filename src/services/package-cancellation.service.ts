@@ -0,0 +1,180 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { BadRequestError, HttpError, NotFoundError } from '@hyperflake/http-errors';
+import { getDB } from '../configuration/database.config';
+import {
+    CancellationQuote,
+    PackageCancellation,
+    RefundComponent,
+    RefundComponentQuote,
+    RefundPolicy,
+    RefundTier,
+} from '../interfaces/cancellation.interface';
+import { resolveRefundPolicy } from '../constants/refund-policy';
+import { startOfDayUtc } from '../utils/date.util';
+import { PackageBookingStateMachine } from './package-booking-state-machine.service';
+import { PaymentService } from './payment.service';
+import { PackageFulfilmentService } from './package-fulfilment.service';
+
+const COMPONENTS: RefundComponent[] = ['accommodation', 'transport', 'activities', 'cab'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class PackageCancellationService {
+    private stateMachine = new PackageBookingStateMachine();
+    private paymentService = new PaymentService();
+    private fulfilmentService = new PackageFulfilmentService();
+
+    private get db(): SupabaseClient {
+        return getDB();
+    }
+
+    /**
+     * @desc Compute the refund for cancelling now, without changing anything. The tiers decide how much of the
+     * price is kept; the refund is whatever was paid beyond that (a deposit may not cover it at all).
+     */
+    async getQuote(packageId: string, at: Date = new Date()): Promise<CancellationQuote> {
+        const { data: pkg, error } = await this.db
+            .from('packages')
+            .select('id,booking_status,start_date,currency,breakdown')
+            .eq('id', packageId)
+            .maybeSingle();
+        if (error) throw new BadRequestError(error.message);
+        if (!pkg) throw new NotFoundError('Package not found');
+
+        const ledger = await this.paymentService.getLedger(packageId);
+        return this.buildQuote(pkg, ledger.balance, resolveRefundPolicy(), at);
+    }
+
+    /**
+     * @desc Cancel the package through the state machine and store the refund quote it was cancelled with
+     */
+    async cancel(packageId: string, params: { actorId: string; reason?: string }): Promise<PackageCancellation> {
+        const quote = await this.getQuote(packageId);
+        // The state machine treats cancelled -> cancelled as a no-op; a second cancellation must not get that far
+        if (quote.bookingStatus === 'cancelled') throw new HttpError('Package is already cancelled', 409);
+        const wasBooked = quote.bookingStatus === 'booked' || quote.bookingStatus === 'payment_overdue';
+
+        await this.stateMachine.transition(packageId, 'cancelled', {
+            actorId: params.actorId,
+            reason: params.reason || 'cancelled_by_user',
+            metadata: { refundAmount: quote.refundAmount, currency: quote.currency },
+        });
+
+        if (wasBooked) {
+            await this.fulfilmentService.markCancelled(packageId).catch((err) => {
+                console.error(`[PackageCancellationService] Could not close fulfilment of ${packageId}:`, err.message);
+            });
+        }
+
+        let refundAmount = 0;
+        let refundStatus: PackageCancellation['refundStatus'] = 'not_applicable';
+        let providerRefundIds: string[] = [];
+        if (wasBooked && quote.refundAmount > 0) {
+            refundAmount = quote.refundAmount;
+            refundStatus = 'pending';
+            try {
+                const refund = await this.paymentService.refundPackage(packageId, quote.refundAmount, params.reason);
+                if (refund) {
+                    refundAmount = refund.amount;
+                    providerRefundIds = refund.providerRefundIds;
+                }
+            } catch (err: any) {
+                console.error(`[PackageCancellationService] Refund for ${packageId} failed:`, err.message);
+                refundStatus = 'failed';
+            }
+        } else if (!wasBooked) {
+            await this.paymentService.cancelOpenIntents(packageId, 'package_cancelled');
+        }
+
+        const { data, error } = await this.db
+            .from('package_cancellations')
+            .insert({
+                package_id: packageId,
+                cancelled_by: params.actorId,
+                reason: params.reason ?? null,
+                refund_amount: refundAmount,
+                currency: quote.currency,
+                refund_status: refundStatus,
+                provider_refund_ids: providerRefundIds,
+                quote,
+            })
+            .select('*')
+            .single();
+        if (error) throw new BadRequestError(error.message);
+
+        return this.mapRow(data);
+    }
+
+    async getCancellation(packageId: string): Promise<PackageCancellation | null> {
+        const { data, error } = await this.db
+            .from('package_cancellations')
+            .select('*')
+            .eq('package_id', packageId)
+            .maybeSingle();
+        if (error) throw new BadRequestError(error.message);
+        return data ? this.mapRow(data) : null;
+    }
+
+    private buildQuote(pkg: any, paidAmount: number, policy: RefundPolicy, at: Date): CancellationQuote {
+        const daysBeforeStart = Math.floor(
+            (startOfDayUtc(new Date(pkg.start_date)).getTime() - startOfDayUtc(at).getTime()) / DAY_MS
+        );
+        const breakdown = pkg.breakdown || {};
+
+        const components: RefundComponentQuote[] = COMPONENTS.map((component) => {
+            const amount = Number(breakdown[component] || 0);
+            const tier = this.matchTier(policy[component] || [], daysBeforeStart);
+            const refundPercent = tier ? Math.min(100, Math.max(0, tier.refundPercent)) : 0;
+            return {
+                component,
+                amount,
+                refundPercent,
+                refundAmount: this.round(amount * (refundPercent / 100)),
+                tier,
+            };
+        });
+
+        const totalAmount = this.round(components.reduce((s, c) => s + c.amount, 0));
+        const policyRefundAmount = this.round(components.reduce((s, c) => s + c.refundAmount, 0));
+        const nonRefundableAmount = this.round(totalAmount - policyRefundAmount);
+        const paid = this.round(Math.max(0, paidAmount));
+
+        return {
+            packageId: pkg.id,
+            bookingStatus: pkg.booking_status,
+            startDate: pkg.start_date,
+            daysBeforeStart,
+            currency: pkg.currency || 'INR',
+            totalAmount,
+            paidAmount: paid,
+            policyRefundAmount,
+            refundAmount: this.round(Math.max(0, paid - nonRefundableAmount)),
+            nonRefundableAmount,
+            components,
+            quotedAt: at.toISOString(),
+        };
+    }
+
+    private matchTier(tiers: RefundTier[], daysBeforeStart: number): RefundTier | null {
+        const sorted = [...tiers].sort((a, b) => b.minDaysBeforeStart - a.minDaysBeforeStart);
+        return sorted.find((t) => daysBeforeStart >= t.minDaysBeforeStart) || null;
+    }
+
+    private round(n: number): number {
+        return Math.round(n * 100) / 100;
+    }
+
+    private mapRow(row: any): PackageCancellation {
+        return {
+            id: row.id,
+            packageId: row.package_id,
+            cancelledBy: row.cancelled_by,
+            reason: row.reason,
+            refundAmount: Number(row.refund_amount || 0),
+            currency: row.currency,
+            refundStatus: row.refund_status,
+            providerRefundIds: row.provider_refund_ids || [],
+            quote: row.quote,
+            createdAt: row.created_at,
+        };
+    }
+}
@@ -0,0 +1,290 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { BadRequestError, ForbiddenError, HttpError, NotFoundError } from '@hyperflake/http-errors';
+import { getDB } from '../configuration/database.config';
+import {
+    AttractionVoteTally,
+    InvitePackageMemberRequest,
+    PackageGenerationResult,
+    PackageMember,
+    PackageProposal,
+    PackageProposalChange,
+    PackageRole,
+} from '../interfaces/package.interface';
+import { PackageRevisionService } from './package-revision.service';
+import { PackageService } from './package.service';
+
+const normalizeEmail = (email?: string | null) => (email ? email.trim().toLowerCase() : null);
+// Phones are matched on digits only, so `+91 98765-43210` and `919876543210` are the same invitee
+const normalizePhone = (phone?: string | null) => (phone ? phone.replace(/\D/g, '') || null : null);
+
+/**
+ * Co-travellers on a package: invitations by email or phone, roles, change proposals the owner approves or
+ * rejects, and votes on the package's optional attractions. The owner is always `packages.user_id`.
+ */
+export class PackageCollaborationService {
+    private readonly packageService = new PackageService();
+    private readonly revisions = new PackageRevisionService();
+
+    private get db(): SupabaseClient {
+        return getDB();
+    }
+
+    /**
+     * @desc Role of `userId` on the package, or null when they are neither the owner nor an accepted member.
+     * `ownerId` is null for packages generated without signing in.
+     */
+    async getAccess(packageId: string, userId?: string | null): Promise<{ role: PackageRole | null; isPublic: boolean; ownerId: string | null }> {
+        const { data: pkg, error } = await this.db.from('packages').select('user_id, is_public').eq('id', packageId).maybeSingle();
+        if (error) throw new BadRequestError(error.message);
+        if (!pkg) throw new NotFoundError('Package not found');
+        const access = { isPublic: !!pkg.is_public, ownerId: pkg.user_id ?? null };
+        if (!userId) return { role: null, ...access };
+        if (pkg.user_id === userId) return { role: 'owner', ...access };
+
+        const { data: member, error: memberErr } = await this.db
+            .from('package_members')
+            .select('role')
+            .eq('package_id', packageId)
+            .eq('user_id', userId)
+            .eq('status', 'accepted')
+            .maybeSingle();
+        if (memberErr) throw new BadRequestError(memberErr.message);
+        return { role: (member?.role as PackageRole) ?? null, ...access };
+    }
+
+    async listMembers(packageId: string): Promise<PackageMember[]> {
+        const { data, error } = await this.db
+            .from('package_members')
+            .select('*')
+            .eq('package_id', packageId)
+            .order('created_at', { ascending: true });
+        if (error) throw new BadRequestError(error.message);
+        return (data || []).map((row: any) => this.mapMember(row));
+    }
+
+    async invite(packageId: string, ownerId: string, request: InvitePackageMemberRequest): Promise<PackageMember> {
+        const email = normalizeEmail(request.email);
+        const phone = normalizePhone(request.phone);
+        const owner = await this.contacts(ownerId);
+        if ((email && email === owner.email) || (phone && phone === owner.phone)) throw new BadRequestError('The owner cannot be invited to their own package');
+
+        const { data, error } = await this.db
+            .from('package_members')
+            .insert({ package_id: packageId, invited_email: email, invited_phone: phone, role: request.role, invited_by: ownerId })
+            .select('*')
+            .single();
+        if (error?.code === '23505') throw new HttpError('This person is already invited to the package', 409);
+        if (error) throw new BadRequestError(error.message);
+        return this.mapMember(data);
+    }
+
+    async updateMemberRole(packageId: string, memberId: string, role: PackageMember['role']): Promise<PackageMember> {
+        await this.findMember(packageId, memberId);
+        const { data, error } = await this.db.from('package_members').update({ role }).eq('id', memberId).select('*').single();
+        if (error) throw new BadRequestError(error.message);
+        return this.mapMember(data);
+    }
+
+    /**
+     * @desc Remove a member or withdraw an invite. The owner can remove anyone; members can only remove themselves.
+     */
+    async removeMember(packageId: string, memberId: string, actor: { userId: string; role: PackageRole | null }): Promise<void> {
+        const member = await this.findMember(packageId, memberId);
+        if (actor.role !== 'owner' && member.user_id !== actor.userId) throw new ForbiddenError('Only the owner can remove other members');
+
+        const { error } = await this.db.from('package_members').delete().eq('id', memberId);
+        if (error) throw new BadRequestError(error.message);
+    }
+
+    /**
+     * @desc Pending invitations addressed to the user's email or phone
+     */
+    async listInvitations(userId: string): Promise<PackageMember[]> {
+        const { email, phone } = await this.contacts(userId);
+        const queries = [];
+        if (email) queries.push(this.db.from('package_members').select('*').eq('status', 'pending').eq('invited_email', email));
+        if (phone) queries.push(this.db.from('package_members').select('*').eq('status', 'pending').eq('invited_phone', phone));
+
+        const rows = new Map<string, any>();
+        for (const { data, error } of await Promise.all(queries)) {
+            if (error) throw new BadRequestError(error.message);
+            for (const row of data || []) rows.set(row.id, row);
+        }
+        return Array.from(rows.values())
+            .sort((a, b) => String(b.created_at).localeCompare(String(a.created_at)))
+            .map((row) => this.mapMember(row));
+    }
+
+    async respondToInvitation(memberId: string, userId: string, accept: boolean): Promise<PackageMember> {
+        const { data: member, error } = await this.db.from('package_members').select('*').eq('id', memberId).maybeSingle();
+        if (error) throw new BadRequestError(error.message);
+
+        const { email, phone } = await this.contacts(userId);
+        const addressedToUser = member && ((email && member.invited_email === email) || (phone && member.invited_phone === phone));
+        if (!member || !addressedToUser) throw new NotFoundError('Invitation not found');
+        if (member.status !== 'pending') throw new HttpError(`Invitation was already ${member.status}`, 409);
+
+        const { data, error: updateErr } = await this.db
+            .from('package_members')
+            .update({ status: accept ? 'accepted' : 'declined', user_id: accept ? userId : null, responded_at: new Date().toISOString() })
+            .eq('id', memberId)
+            .eq('status', 'pending')
+            .select('*')
+            .maybeSingle();
+        if (updateErr?.code === '23505') throw new HttpError('You are already a member of this package', 409);
+        if (updateErr) throw new BadRequestError(updateErr.message);
+        if (!data) throw new HttpError('Invitation was already answered', 409);
+        return this.mapMember(data);
+    }
+
+    async listProposals(packageId: string): Promise<PackageProposal[]> {
+        const { data, error } = await this.db
+            .from('package_proposals')
+            .select('*')
+            .eq('package_id', packageId)
+            .order('created_at', { ascending: false });
+        if (error) throw new BadRequestError(error.message);
+        return (data || []).map((row: any) => this.mapProposal(row));
+    }
+
+    async propose(packageId: string, userId: string, change: PackageProposalChange, note?: string): Promise<PackageProposal> {
+        const baseRevision = await this.revisions.latestRevisionNumber(packageId);
+        const { data, error } = await this.db
+            .from('package_proposals')
+            .insert({ package_id: packageId, proposed_by: userId, change, note: note ?? null, base_revision: baseRevision || null })
+            .select('*')
+            .single();
+        if (error) throw new BadRequestError(error.message);
+        return this.mapProposal(data);
+    }
+
+    /**
+     * @desc Approve (owner), reject (owner) or withdraw (proposer) a pending proposal. Approval applies the change
+     * as a normal configuration update on the current itinerary, so day indexes are read against the package as it
+     * is now; if it no longer applies the proposal stays pending and the error is returned.
+     */
+    async decide(
+        packageId: string,
+        proposalId: string,
+        decision: 'approve' | 'reject' | 'withdraw',
+        actor: { userId: string; role: PackageRole | null }
+    ): Promise<{ proposal: PackageProposal; package?: PackageGenerationResult }> {
+        const { data: existing, error } = await this.db
+            .from('package_proposals')
+            .select('*')
+            .eq('id', proposalId)
+            .eq('package_id', packageId)
+            .maybeSingle();
+        if (error) throw new BadRequestError(error.message);
+        if (!existing) throw new NotFoundError('Proposal not found');
+        if (decision === 'withdraw' ? existing.proposed_by !== actor.userId : actor.role !== 'owner') {
+            throw new ForbiddenError(decision === 'withdraw' ? 'Only the proposer can withdraw a proposal' : 'Only the owner can decide on proposals');
+        }
+
+        const status = { approve: 'approved', reject: 'rejected', withdraw: 'withdrawn' }[decision];
+        // Claim the proposal first so two concurrent decisions cannot both apply it
+        const { data: claimed, error: claimErr } = await this.db
+            .from('package_proposals')
+            .update({ status, decided_by: actor.userId, decided_at: new Date().toISOString() })
+            .eq('id', proposalId)
+            .eq('status', 'pending')
+            .select('*')
+            .maybeSingle();
+        if (claimErr) throw new BadRequestError(claimErr.message);
+        if (!claimed) throw new HttpError(`Proposal was already ${existing.status}`, 409);
+        if (decision !== 'approve') return { proposal: this.mapProposal(claimed) };
+
+        try {
+            const updated = await this.packageService.updateConfiguration(packageId, claimed.change, actor.userId);
+            return { proposal: this.mapProposal(claimed), package: updated };
+        } catch (err) {
+            await this.db.from('package_proposals').update({ status: 'pending', decided_by: null, decided_at: null }).eq('id', proposalId);
+            throw err;
+        }
+    }
+
+    /**
+     * @desc Votes per optional attraction offered when the package was generated
+     */
+    async listAttractionVotes(packageId: string, userId: string): Promise<AttractionVoteTally[]> {
+        const [attractions, { data, error }] = await Promise.all([
+            this.optionalAttractions(packageId),
+            this.db.from('package_attraction_votes').select('poi_id, user_id, vote').eq('package_id', packageId),
+        ]);
+        if (error) throw new BadRequestError(error.message);
+
+        return attractions.map((attraction) => {
+            const votes = (data || []).filter((v: any) => v.poi_id === attraction.poiId);
+            const mine = votes.find((v: any) => v.user_id === userId);
+            return {
+                ...attraction,
+                up: votes.filter((v: any) => v.vote > 0).length,
+                down: votes.filter((v: any) => v.vote < 0).length,
+                myVote: mine ? (mine.vote > 0 ? 1 : -1) : null,
+            };
+        });
+    }
+
+    async vote(packageId: string, userId: string, poiId: string, vote: 1 | -1 | null): Promise<AttractionVoteTally[]> {
+        const attractions = await this.optionalAttractions(packageId);
+        if (!attractions.some((a) => a.poiId === poiId)) throw new NotFoundError('Attraction is not an optional attraction of this package');
+
+        const { error } = vote === null
+            ? await this.db.from('package_attraction_votes').delete().eq('package_id', packageId).eq('poi_id', poiId).eq('user_id', userId)
+            : await this.db
+                .from('package_attraction_votes')
+                .upsert({ package_id: packageId, poi_id: poiId, user_id: userId, vote, updated_at: new Date().toISOString() }, { onConflict: 'package_id,poi_id,user_id' });
+        if (error) throw new BadRequestError(error.message);
+        return this.listAttractionVotes(packageId, userId);
+    }
+
+    private async optionalAttractions(packageId: string): Promise<Array<{ poiId: string; name: string; price?: number }>> {
+        const { data, error } = await this.db.from('packages').select('optional_attractions').eq('id', packageId).maybeSingle();
+        if (error) throw new BadRequestError(error.message);
+        if (!data) throw new NotFoundError('Package not found');
+        return data.optional_attractions || [];
+    }
+
+    private async findMember(packageId: string, memberId: string): Promise<any> {
+        const { data, error } = await this.db.from('package_members').select('*').eq('id', memberId).eq('package_id', packageId).maybeSingle();
+        if (error) throw new BadRequestError(error.message);
+        if (!data) throw new NotFoundError('Member not found');
+        return data;
+    }
+
+    private async contacts(userId: string): Promise<{ email: string | null; phone: string | null }> {
+        const { data, error } = await this.db.from('users').select('email, phone').eq('id', userId).maybeSingle();
+        if (error) throw new BadRequestError(error.message);
+        return { email: normalizeEmail(data?.email), phone: normalizePhone(data?.phone) };
+    }
+
+    private mapMember(row: any): PackageMember {
+        return {
+            memberId: row.id,
+            packageId: row.package_id,
+            userId: row.user_id ?? null,
+            invitedEmail: row.invited_email ?? null,
+            invitedPhone: row.invited_phone ?? null,
+            role: row.role,
+            status: row.status,
+            invitedBy: row.invited_by ?? null,
+            createdAt: row.created_at,
+            respondedAt: row.responded_at ?? null,
+        };
+    }
+
+    private mapProposal(row: any): PackageProposal {
+        return {
+            proposalId: row.id,
+            packageId: row.package_id,
+            proposedBy: row.proposed_by ?? null,
+            change: row.change,
+            note: row.note ?? null,
+            baseRevision: row.base_revision ?? null,
+            status: row.status,
+            decidedBy: row.decided_by ?? null,
+            decidedAt: row.decided_at ?? null,
+            createdAt: row.created_at,
+        };
+    }
+}
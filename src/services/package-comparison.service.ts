@@ -0,0 +1,133 @@
+import {
+    ComparisonComponent,
+    ComparisonComponentRow,
+    ComparisonDayCell,
+    ComparisonDayRow,
+    GeneratePackageRequest,
+    PackageComparison,
+    PackageComparisonOption,
+    PackageGenerationResult,
+    PriceBucket,
+} from '../interfaces/package.interface';
+import { PackageService } from './package.service';
+
+const COMPONENTS: ComparisonComponent[] = ['accommodation', 'activities', 'cab', 'transport', 'perPersonPrice', 'totalBasePrice'];
+
+export class PackageComparisonService {
+    private packageService = new PackageService();
+
+    /**
+     * @desc Generate the same request once per price bucket (nothing is persisted) and line the results up.
+     * Buckets are generated one after the other so the upstream hotel and weather APIs are not hit in parallel.
+     */
+    async compareBuckets(req: GeneratePackageRequest, buckets: PriceBucket[]): Promise<PackageComparison> {
+        const entries: Array<{ option: PackageComparisonOption; result: PackageGenerationResult }> = [];
+        for (const priceBucket of buckets) {
+            const result = await this.packageService.generatePackageContent({ ...req, priceBucket });
+            entries.push({ option: this.toOption(priceBucket, result, { priceBucket }), result });
+        }
+        return this.build('buckets', entries);
+    }
+
+    /**
+     * @desc Line up saved packages. Access checks are left to the caller.
+     */
+    async comparePackages(packageIds: string[]): Promise<PackageComparison> {
+        const entries: Array<{ option: PackageComparisonOption; result: PackageGenerationResult }> = [];
+        for (const packageId of packageIds) {
+            const result = await this.packageService.getById(packageId);
+            entries.push({ option: this.toOption(packageId, result, { packageId }), result });
+        }
+        return this.build('packages', entries);
+    }
+
+    private toOption(
+        key: string,
+        result: PackageGenerationResult,
+        source: { priceBucket?: PriceBucket; packageId?: string }
+    ): PackageComparisonOption {
+        const breakdown = result.breakdown || { accommodation: 0, transport: 0, activities: 0, cab: 0 };
+        return {
+            key,
+            ...source,
+            title: result.title,
+            startDate: result.startDate,
+            people: result.people,
+            cabType: result.cabType,
+            currency: result.currency,
+            totalBasePrice: this.round(Number(result.totalBasePrice || 0)),
+            perPersonPrice: this.round(Number(result.perPersonPrice || 0)),
+            breakdown: {
+                accommodation: this.round(Number(breakdown.accommodation || 0)),
+                transport: this.round(Number(breakdown.transport || 0)),
+                activities: this.round(Number(breakdown.activities || 0)),
+                cab: this.round(Number(breakdown.cab || 0)),
+            },
+        };
+    }
+
+    private build(
+        mode: PackageComparison['mode'],
+        entries: Array<{ option: PackageComparisonOption; result: PackageGenerationResult }>
+    ): PackageComparison {
+        const options = entries.map((e) => e.option);
+
+        const components: ComparisonComponentRow[] = COMPONENTS.map((component) => {
+            const values = options.map((o) => this.componentValue(o, component));
+            const min = Math.min(...values);
+            return {
+                component,
+                values,
+                differences: values.map((v) => this.round(v - values[0])),
+                cheapestKey: options[values.indexOf(min)].key,
+            };
+        });
+
+        // Days are aligned by position in the trip, not by date, so packages with different start dates still line up
+        const dayCount = Math.max(0, ...entries.map((e) => e.result.days.length));
+        const days: ComparisonDayRow[] = [];
+        for (let dayIndex = 0; dayIndex < dayCount; dayIndex++) {
+            const cells = entries.map((e) => this.toDayCell(e.result.days[dayIndex]));
+            const base = cells[0];
+            days.push({
+                dayIndex,
+                cells,
+                differences: cells.map((cell) =>
+                    cell && base
+                        ? {
+                              hotelPrice: this.round(cell.hotelPrice - base.hotelPrice),
+                              activitiesCost: this.round(cell.activitiesCost - base.activitiesCost),
+                              transportCost: this.round(cell.transportCost - base.transportCost),
+                          }
+                        : null
+                ),
+            });
+        }
+
+        return { mode, currency: options[0]?.currency || 'INR', options, components, days };
+    }
+
+    private toDayCell(day: PackageGenerationResult['days'][number] | undefined): ComparisonDayCell | null {
+        if (!day) return null;
+        return {
+            date: day.date,
+            destinationId: day.destinationId,
+            destinationName: day.destinationName,
+            hotelName: day.hotel?.name,
+            hotelPrice: this.round(Number(day.hotel?.price || 0)),
+            activities: (day.activities || []).map((a) => a.name),
+            activitiesCost: this.round(Number(day.activitiesCost || 0)),
+            transportCost: this.round(Number(day.transportCost || 0)),
+        };
+    }
+
+    private componentValue(option: PackageComparisonOption, component: ComparisonComponent): number {
+        if (component === 'perPersonPrice') return option.perPersonPrice;
+        if (component === 'totalBasePrice') return option.totalBasePrice;
+        return option.breakdown[component];
+    }
+
+    private round(n: number): number {
+        return Math.round(n * 100) / 100;
+    }
+}
@@ -0,0 +1,181 @@
+import moment from 'moment-timezone';
+import { BookingStatus, DayPlan, PackageGenerationResult, PackageLeg } from '../interfaces/package.interface';
+import { SimplePdfDocument } from '../utils/pdf.util';
+import { buildIcsCalendar, IcsEvent } from '../utils/ics.util';
+import { addUtcDays } from '../utils/date.util';
+import { resolveTravellers } from '../utils/traveller.util';
+
+// Legs have no departure time; calendar entries assume a morning start in local time
+const TRIP_TIMEZONE = 'Asia/Kolkata';
+const LEG_DEPARTURE_TIME = '09:00';
+const DEFAULT_LEG_MINUTES = 60;
+
+/**
+ * Printable and calendar exports of a saved package, built from `PackageService.getById`
+ */
+export class PackageExportService {
+    /**
+     * @desc PDF voucher: stays with check-in/out, cab, day-by-day plan with activities, restaurants, travel and
+     * weather, then the price breakdown. Packages that are not booked are titled as an itinerary instead.
+     */
+    renderPdf(pkg: PackageGenerationResult, bookingStatus?: BookingStatus): Buffer {
+        const doc = new SimplePdfDocument();
+        const currency = pkg.currency || 'INR';
+        const travellers = resolveTravellers(pkg);
+        const children = travellers.childAges?.length || 0;
+        const booked = bookingStatus === 'booked' || bookingStatus === 'payment_overdue';
+
+        doc.text(pkg.title, { size: 18, bold: true });
+        doc.text(booked ? 'Booking voucher' : 'Itinerary (not booked)', { size: 12 });
+        doc.space(4);
+        if (pkg.packageId) doc.text(`Package ID: ${pkg.packageId}`);
+        doc.text(`Dates: ${this.formatDate(pkg.days[0]?.date || pkg.startDate)} - ${this.formatDate(this.endDate(pkg))} (${pkg.days.length} day${pkg.days.length === 1 ? '' : 's'})`);
+        doc.text(`Travellers: ${travellers.adults} adult${travellers.adults === 1 ? '' : 's'}${children ? `, ${children} child${children === 1 ? '' : 'ren'} (ages ${travellers.childAges!.join(', ')})` : ''}`);
+        if (pkg.rooms?.length) doc.text(`Rooms: ${pkg.rooms.length}`);
+        doc.rule();
+
+        doc.heading('Stays');
+        for (const stay of this.stays(pkg.days)) {
+            const hotel = stay.days[0].hotel;
+            doc.text(`${stay.days[0].destinationName}: ${hotel?.name || 'Hotel to be confirmed'}`, { bold: true });
+            doc.text(`Check-in ${this.formatDate(hotel?.checkInDate || stay.days[0].date)}, check-out ${this.formatDate(hotel?.checkOutDate || addUtcDays(new Date(stay.days[0].date), stay.days.length).toISOString())}, ${stay.days.length} night${stay.days.length === 1 ? '' : 's'}${hotel?.roomQuantity ? `, ${hotel.roomQuantity} room${hotel.roomQuantity === 1 ? '' : 's'}` : ''}`, { indent: 12 });
+            if (hotel?.price) doc.text(`${this.money(hotel.price, hotel.currency || currency)} per night`, { indent: 12 });
+        }
+
+        doc.heading('Cab');
+        const cab = pkg.availableCabs?.find((c) => c.id && c.id === pkg.cabSelection?.id);
+        doc.text(cab ? `${this.capitalize(cab.type)}: ${cab.make} ${cab.model} (${cab.capacity} seats)` : this.capitalize(pkg.cabSelection?.type || pkg.cabType));
+        if (pkg.cabSelection?.estimatedCost) doc.text(`Estimated cab cost: ${this.money(pkg.cabSelection.estimatedCost, currency)}`, { indent: 12 });
+
+        doc.heading('Day-by-day plan');
+        pkg.days.forEach((day, i) => {
+            doc.space(4);
+            doc.text(`Day ${i + 1} - ${this.formatDate(day.date)} - ${day.destinationName}`, { size: 11, bold: true });
+            if (day.title) doc.text(day.title, { indent: 12 });
+            const leg = this.arrivalLeg(pkg, i);
+            if (leg) doc.text(`Travel: ${pkg.days[i - 1].destinationName} to ${day.destinationName}${this.legDetails(leg)}`, { indent: 12 });
+            if (day.hotel?.name) doc.text(`Hotel: ${day.hotel.name}`, { indent: 12 });
+            doc.text(`Activities: ${day.activities?.length ? day.activities.map((a) => a.name).join(', ') : 'Free day'}`, { indent: 12 });
+            if (day.restaurantSuggestions?.length) {
+                doc.text(`Restaurants: ${day.restaurantSuggestions.map((r) => `${r.name}${r.cuisine_types?.length ? ` (${r.cuisine_types.join(', ')})` : ''}`).join('; ')}`, { indent: 12 });
+            }
+            doc.text(`Weather: ${this.weatherSummary(day.weather)}`, { indent: 12 });
+        });
+
+        doc.heading('Price breakdown');
+        const breakdown = pkg.breakdown || { accommodation: 0, transport: 0, activities: 0, cab: 0 };
+        doc.text(`Accommodation: ${this.money(breakdown.accommodation, currency)}`);
+        doc.text(`Local transport: ${this.money(breakdown.transport, currency)}`);
+        doc.text(`Activities: ${this.money(breakdown.activities, currency)}`);
+        doc.text(`Cab: ${this.money(breakdown.cab, currency)}`);
+        doc.rule();
+        doc.text(`Total: ${this.money(pkg.totalBasePrice, currency)}`, { bold: true });
+        doc.text(`Per paying traveller: ${this.money(pkg.perPersonPrice, currency)}`);
+        if (!booked && pkg.quoteValidUntil) doc.text(`Prices valid until ${moment(pkg.quoteValidUntil).tz(TRIP_TIMEZONE).format('D MMM YYYY, HH:mm')} IST`, { size: 9 });
+
+        return doc.toBuffer();
+    }
+
+    /**
+     * @desc iCalendar with an all-day event per day and a timed event per leg. Legs start at
+     * LEG_DEPARTURE_TIME local time on the day of arrival and last `durationMinutes`.
+     */
+    renderIcs(pkg: PackageGenerationResult): string {
+        const uidBase = pkg.packageId || 'package';
+        const events: IcsEvent[] = [];
+
+        pkg.days.forEach((day, i) => {
+            const date = new Date(`${day.date.slice(0, 10)}T00:00:00Z`);
+            const details = [
+                day.hotel?.name ? `Hotel: ${day.hotel.name}` : null,
+                day.activities?.length ? `Activities: ${day.activities.map((a) => a.name).join(', ')}` : null,
+                day.restaurantSuggestions?.length ? `Restaurants: ${day.restaurantSuggestions.map((r) => r.name).join(', ')}` : null,
+                `Weather: ${this.weatherSummary(day.weather)}`,
+            ].filter(Boolean);
+            events.push({
+                uid: `${uidBase}-day-${i + 1}@kashmirbnb`,
+                summary: `Day ${i + 1}: ${day.destinationName}`,
+                description: details.join('\n'),
+                location: day.hotel?.name ? `${day.hotel.name}, ${day.destinationName}` : day.destinationName,
+                start: date,
+                end: addUtcDays(date, 1),
+                allDay: true,
+            });
+
+            const leg = this.arrivalLeg(pkg, i);
+            if (leg) {
+                const start = moment.tz(`${day.date.slice(0, 10)} ${LEG_DEPARTURE_TIME}`, 'YYYY-MM-DD HH:mm', TRIP_TIMEZONE);
+                const minutes = Number(leg.durationMinutes) || DEFAULT_LEG_MINUTES;
+                events.push({
+                    uid: `${uidBase}-leg-${i}@kashmirbnb`,
+                    summary: `Drive: ${pkg.days[i - 1].destinationName} to ${day.destinationName}`,
+                    description: `Cab transfer${this.legDetails(leg)}`,
+                    location: pkg.days[i - 1].destinationName,
+                    start: start.toDate(),
+                    end: start.clone().add(minutes, 'minutes').toDate(),
+                });
+            }
+        });
+
+        return buildIcsCalendar(events, { name: pkg.title });
+    }
+
+    /**
+     * Leg driven to reach day `index`, when that day starts a new stop. Matched by origin and destination
+     * because saved legs are not stored in trip order.
+     */
+    private arrivalLeg(pkg: PackageGenerationResult, index: number): PackageLeg | undefined {
+        const previous = pkg.days[index - 1];
+        const day = pkg.days[index];
+        if (!previous || previous.destinationId === day.destinationId) return undefined;
+        return (pkg.legs || []).find((l) => l.originId === previous.destinationId && l.destinationId === day.destinationId) ?? { originId: previous.destinationId, destinationId: day.destinationId };
+    }
+
+    private legDetails(leg: PackageLeg): string {
+        const parts = [
+            leg.distanceKm ? `${Math.round(Number(leg.distanceKm))} km` : null,
+            leg.durationMinutes ? `about ${Math.floor(leg.durationMinutes / 60)}h ${String(leg.durationMinutes % 60).padStart(2, '0')}m` : null,
+        ].filter(Boolean);
+        return parts.length ? ` (${parts.join(', ')})` : '';
+    }
+
+    private stays(days: DayPlan[]): Array<{ days: DayPlan[] }> {
+        const stays: Array<{ days: DayPlan[] }> = [];
+        days.forEach((day, i) => {
+            const previous = days[i - 1];
+            const sameStay = previous && (day.stopIndex != null ? day.stopIndex === previous.stopIndex : day.destinationId === previous.destinationId);
+            if (sameStay) stays[stays.length - 1].days.push(day);
+            else stays.push({ days: [day] });
+        });
+        return stays;
+    }
+
+    private weatherSummary(weather: any): string {
+        if (!weather) return 'Forecast not available yet';
+        const min = weather.temperature?.min;
+        const max = weather.temperature?.max;
+        const rain = weather.precipitationProbability?.max;
+        const parts = [
+            min != null && max != null ? `${Math.round(min)}°C to ${Math.round(max)}°C` : null,
+            rain != null ? `${Math.round(rain)}% chance of rain` : null,
+        ].filter(Boolean);
+        return parts.length ? parts.join(', ') : 'Forecast not available yet';
+    }
+
+    private endDate(pkg: PackageGenerationResult): string {
+        const last = pkg.days[pkg.days.length - 1];
+        return addUtcDays(new Date(last?.date || pkg.startDate), 1).toISOString();
+    }
+
+    private formatDate(iso: string): string {
+        return moment.utc(iso.slice(0, 10)).format('ddd D MMM YYYY');
+    }
+
+    private money(amount: number | undefined, currency: string): string {
+        return `${currency} ${Number(amount || 0).toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+    }
+
+    private capitalize(value?: string): string {
+        return value ? value.charAt(0).toUpperCase() + value.slice(1) : '';
+    }
+}
@@ -0,0 +1,299 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { BadRequestError, HttpError, NotFoundError } from '@hyperflake/http-errors';
+import { getDB } from '../configuration/database.config';
+import {
+    FulfilmentItem,
+    FulfilmentItemStatus,
+    FulfilmentQueueFilters,
+    FulfilmentQueueItem,
+    PackageFulfilment,
+    PackageFulfilmentStatus,
+    RestaurantReservationRequest,
+    UpdateFulfilmentItemRequest,
+} from '../interfaces/fulfilment.interface';
+import { PackageGenerationResult } from '../interfaces/package.interface';
+import { activityPrice, resolveTravellers } from '../utils/traveller.util';
+import { PackageService } from './package.service';
+
+const BOOKED_STATES = ['booked', 'payment_overdue'];
+const DEFAULT_QUEUE_LIMIT = 100;
+
+/**
+ * Turns a booked package into line items for the ops team (hotel nights, cab legs, activity tickets and
+ * restaurant reservations the traveller asked for) and keeps `packages.fulfilment_status` in sync with them.
+ */
+export class PackageFulfilmentService {
+    private readonly packageService = new PackageService();
+
+    private get db(): SupabaseClient {
+        return getDB();
+    }
+
+    /**
+     * @desc Create the line items of a booked package. Items are keyed per package, so calling this again only
+     * adds what is missing and never resets the status of items ops already worked.
+     */
+    async createForPackage(packageId: string): Promise<PackageFulfilment> {
+        await this.loadBookedPackage(packageId);
+        const pkg = await this.packageService.getById(packageId);
+
+        const rows = this.buildItems(pkg).map((item) => ({ package_id: packageId, currency: pkg.currency || 'INR', ...item }));
+        if (rows.length) {
+            const { error } = await this.db
+                .from('package_fulfilment_items')
+                .upsert(rows, { onConflict: 'package_id,item_key', ignoreDuplicates: true });
+            if (error) throw new BadRequestError(error.message);
+        }
+        return this.refreshStatus(packageId);
+    }
+
+    async getForPackage(packageId: string): Promise<PackageFulfilment> {
+        const { data: pkg, error } = await this.db.from('packages').select('fulfilment_status').eq('id', packageId).maybeSingle();
+        if (error) throw new BadRequestError(error.message);
+        if (!pkg) throw new NotFoundError('Package not found');
+
+        const items = await this.listItems(packageId);
+        return { packageId, status: pkg.fulfilment_status ?? null, counts: this.count(items), items };
+    }
+
+    /**
+     * @desc Items of booked packages in a given status (pending by default), soonest service date first
+     */
+    async queue(filters: FulfilmentQueueFilters = {}): Promise<FulfilmentQueueItem[]> {
+        let query = this.db
+            .from('package_fulfilment_items')
+            .select('*, packages!inner(title, start_date, booking_status)')
+            .eq('status', filters.status || 'pending')
+            .in('packages.booking_status', BOOKED_STATES);
+        if (filters.kind) query = query.eq('kind', filters.kind);
+        if (filters.from) query = query.gte('service_date', filters.from);
+        if (filters.to) query = query.lte('service_date', filters.to);
+
+        const { data, error } = await query
+            .order('service_date', { ascending: true })
+            .order('created_at', { ascending: true })
+            .limit(filters.limit || DEFAULT_QUEUE_LIMIT);
+        if (error) throw new BadRequestError(error.message);
+
+        return (data || []).map((row: any) => ({
+            ...this.mapItem(row),
+            packageTitle: row.packages?.title,
+            packageStartDate: row.packages?.start_date,
+        }));
+    }
+
+    /**
+     * @desc Record the outcome of an item. Confirming needs the supplier's confirmation reference and failing needs a
+     * reason; a failed item can be retried by setting it back to pending or confirming it.
+     */
+    async updateItem(itemId: string, actorId: string, update: UpdateFulfilmentItemRequest): Promise<FulfilmentItem> {
+        const { data: existing, error } = await this.db.from('package_fulfilment_items').select('*').eq('id', itemId).maybeSingle();
+        if (error) throw new BadRequestError(error.message);
+        if (!existing) throw new NotFoundError('Fulfilment item not found');
+
+        const status = update.status ?? existing.status;
+        const confirmationRef = update.confirmationRef ?? existing.confirmation_ref;
+        if (status === 'confirmed' && !confirmationRef) throw new BadRequestError('confirmationRef is required to confirm an item');
+        if (status === 'failed' && !(update.failureReason ?? existing.failure_reason)) throw new BadRequestError('failureReason is required to fail an item');
+
+        const { data, error: updateErr } = await this.db
+            .from('package_fulfilment_items')
+            .update({
+                status,
+                confirmation_ref: confirmationRef ?? null,
+                failure_reason: status === 'failed' ? update.failureReason ?? existing.failure_reason : null,
+                note: update.note ?? existing.note,
+                updated_by: actorId,
+                updated_at: new Date().toISOString(),
+            })
+            .eq('id', itemId)
+            .select('*')
+            .single();
+        if (updateErr) throw new BadRequestError(updateErr.message);
+
+        await this.refreshStatus(existing.package_id);
+        return this.mapItem(data);
+    }
+
+    /**
+     * @desc Ask ops to reserve a table at one of the restaurants suggested for a day of a booked trip
+     */
+    async requestRestaurantReservation(packageId: string, request: RestaurantReservationRequest): Promise<FulfilmentItem> {
+        await this.loadBookedPackage(packageId);
+        const pkg = await this.packageService.getById(packageId);
+        const day = pkg.days[request.dayIndex];
+        if (!day) throw new BadRequestError(`dayIndex must be between 0 and ${pkg.days.length - 1}`);
+        const restaurant = (day.restaurantSuggestions || []).find((r) => r.id === request.restaurantId);
+        if (!restaurant) throw new BadRequestError('restaurantId must be one of the restaurants suggested for that day');
+
+        const date = day.date.slice(0, 10);
+        const { data, error } = await this.db
+            .from('package_fulfilment_items')
+            .insert({
+                package_id: packageId,
+                kind: 'restaurant_reservation',
+                item_key: `restaurant:${date}:${restaurant.id}`,
+                day_index: request.dayIndex,
+                service_date: date,
+                description: `Table at ${restaurant.name}, ${day.destinationName}${request.time ? ` at ${request.time}` : ''}`,
+                details: { restaurantId: restaurant.id, restaurantName: restaurant.name, destinationId: day.destinationId, time: request.time ?? null, partySize: pkg.people },
+                currency: pkg.currency || 'INR',
+                note: request.note ?? null,
+            })
+            .select('*')
+            .single();
+        if (error?.code === '23505') throw new HttpError('A reservation at this restaurant is already requested for that day', 409);
+        if (error) throw new BadRequestError(error.message);
+
+        await this.refreshStatus(packageId);
+        return this.mapItem(data);
+    }
+
+    /**
+     * @desc A cancelled booking keeps its items (ops may need to release confirmed ones) but leaves the queue
+     */
+    async markCancelled(packageId: string): Promise<void> {
+        const { error } = await this.db
+            .from('packages')
+            .update({ fulfilment_status: 'cancelled' })
+            .eq('id', packageId)
+            .not('fulfilment_status', 'is', null);
+        if (error) throw new BadRequestError(error.message);
+    }
+
+    private async refreshStatus(packageId: string): Promise<PackageFulfilment> {
+        const { data: pkg, error: pkgErr } = await this.db.from('packages').select('booking_status').eq('id', packageId).maybeSingle();
+        if (pkgErr) throw new BadRequestError(pkgErr.message);
+        const items = await this.listItems(packageId);
+        const counts = this.count(items);
+        const status: PackageFulfilmentStatus = pkg?.booking_status === 'cancelled'
+            ? 'cancelled'
+            : counts.failed
+                ? 'failed'
+                // A package without items has nothing confirmed yet; it stays pending until ops adds some
+                : items.length && counts.confirmed === items.length
+                    ? 'fulfilled'
+                    : counts.confirmed
+                        ? 'in_progress'
+                        : 'pending';
+
+        const { error } = await this.db.from('packages').update({ fulfilment_status: status }).eq('id', packageId);
+        if (error) throw new BadRequestError(error.message);
+        return { packageId, status, counts, items };
+    }
+
+    private buildItems(pkg: PackageGenerationResult): Array<Record<string, any>> {
+        const travellers = resolveTravellers(pkg);
+        const items: Array<Record<string, any>> = [];
+
+        pkg.days.forEach((day, dayIndex) => {
+            const date = day.date.slice(0, 10);
+            const previous = pkg.days[dayIndex - 1];
+
+            // The cab drives to a new stop on the morning of the first day there
+            if (previous && previous.destinationId !== day.destinationId) {
+                const leg = (pkg.legs || []).find((l) => l.originId === previous.destinationId && l.destinationId === day.destinationId);
+                items.push({
+                    kind: 'cab_leg',
+                    item_key: `cab:${date}:${previous.destinationId}:${day.destinationId}`,
+                    day_index: dayIndex,
+                    service_date: date,
+                    description: `${pkg.cabType} cab from ${previous.destinationName} to ${day.destinationName}`,
+                    details: {
+                        cabId: pkg.cabSelection?.id ?? null,
+                        cabType: pkg.cabSelection?.type || pkg.cabType,
+                        originId: previous.destinationId,
+                        destinationId: day.destinationId,
+                        distanceKm: leg?.distanceKm ?? null,
+                        durationMinutes: leg?.durationMinutes ?? null,
+                        passengers: pkg.people,
+                    },
+                    amount: leg?.cabCost ?? null,
+                });
+            }
+
+            if (day.hotel) {
+                items.push({
+                    kind: 'hotel_night',
+                    item_key: `hotel:${date}`,
+                    day_index: dayIndex,
+                    service_date: date,
+                    description: `${day.hotel.name}, ${day.destinationName}`,
+                    details: {
+                        hotelId: day.hotel.hotelId ?? null,
+                        hotelName: day.hotel.name,
+                        address: day.hotel.address ?? null,
+                        destinationId: day.destinationId,
+                        roomQuantity: day.hotel.roomQuantity ?? pkg.rooms?.length ?? null,
+                        rooms: pkg.rooms ?? null,
+                        checkInDate: day.hotel.checkInDate ?? null,
+                        checkOutDate: day.hotel.checkOutDate ?? null,
+                    },
+                    amount: day.hotel.price ?? null,
+                });
+            }
+
+            // Only activities with a price need tickets
+            for (const activity of day.activities || []) {
+                const amount = activityPrice(activity, travellers);
+                if (amount <= 0) continue;
+                items.push({
+                    kind: 'activity',
+                    item_key: `activity:${date}:${activity.poiId}`,
+                    day_index: dayIndex,
+                    service_date: date,
+                    description: `${activity.name} tickets, ${day.destinationName}`,
+                    details: { poiId: activity.poiId, pricingType: activity.pricing_type ?? null, adults: travellers.adults, childAges: travellers.childAges || [] },
+                    amount,
+                });
+            }
+        });
+        return items;
+    }
+
+    private async listItems(packageId: string): Promise<FulfilmentItem[]> {
+        const { data, error } = await this.db
+            .from('package_fulfilment_items')
+            .select('*')
+            .eq('package_id', packageId)
+            .order('service_date', { ascending: true })
+            .order('created_at', { ascending: true });
+        if (error) throw new BadRequestError(error.message);
+        return (data || []).map((row: any) => this.mapItem(row));
+    }
+
+    private async loadBookedPackage(packageId: string) {
+        const { data, error } = await this.db.from('packages').select('id, booking_status').eq('id', packageId).maybeSingle();
+        if (error) throw new BadRequestError(error.message);
+        if (!data) throw new NotFoundError('Package not found');
+        if (!BOOKED_STATES.includes(data.booking_status)) throw new HttpError(`Only booked packages are fulfilled (package is ${data.booking_status})`, 409);
+        return data;
+    }
+
+    private count(items: FulfilmentItem[]): Record<FulfilmentItemStatus, number> {
+        const counts: Record<FulfilmentItemStatus, number> = { pending: 0, confirmed: 0, failed: 0 };
+        for (const item of items) counts[item.status]++;
+        return counts;
+    }
+
+    private mapItem(row: any): FulfilmentItem {
+        return {
+            id: row.id,
+            packageId: row.package_id,
+            kind: row.kind,
+            dayIndex: row.day_index ?? null,
+            serviceDate: row.service_date,
+            description: row.description,
+            details: row.details || {},
+            amount: row.amount === null || row.amount === undefined ? null : Number(row.amount),
+            currency: row.currency,
+            status: row.status,
+            confirmationRef: row.confirmation_ref ?? null,
+            failureReason: row.failure_reason ?? null,
+            note: row.note ?? null,
+            updatedBy: row.updated_by ?? null,
+            createdAt: row.created_at,
+            updatedAt: row.updated_at,
+        };
+    }
+}
@@ -0,0 +1,125 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { BadRequestError } from '@hyperflake/http-errors';
+import { getDB } from '../configuration/database.config';
+import { GALLERY_DEFAULT_LIMIT, GALLERY_MAX_LIMIT, POPULAR_CLONE_COUNT } from '../constants/package-gallery';
+import { PublicPackageCard, PublicPackageFilters, PublicPackagePage, PublicPackageSort } from '../interfaces/package.interface';
+import { addUtcDays } from '../utils/date.util';
+
+// Sort column and direction per sort option; `id` breaks ties so the cursor is stable
+const SORTS: Record<PublicPackageSort, { column: string; ascending: boolean }> = {
+    trending: { column: 'trending_score', ascending: false },
+    clones: { column: 'clone_count', ascending: false },
+    recent: { column: 'created_at', ascending: false },
+    price_asc: { column: 'per_person_price', ascending: true },
+    price_desc: { column: 'per_person_price', ascending: false },
+};
+
+type GalleryCursor = { s: PublicPackageSort; v: string | number; id: string };
+
+/**
+ * Browse public packages through `vw_public_packages`, with keyset (cursor) pagination
+ */
+export class PackageGalleryService {
+    private get db(): SupabaseClient {
+        return getDB();
+    }
+
+    async list(filters: PublicPackageFilters = {}): Promise<PublicPackagePage> {
+        const sort = filters.sort || 'trending';
+        const { column, ascending } = SORTS[sort];
+        const limit = Math.min(GALLERY_MAX_LIMIT, Math.max(1, filters.limit || GALLERY_DEFAULT_LIMIT));
+
+        let query = this.db.from('vw_public_packages').select('*');
+        if (filters.destinationIds?.length) query = query.contains('destination_ids', filters.destinationIds);
+        if (filters.minDays !== undefined) query = query.gte('day_count', filters.minDays);
+        if (filters.maxDays !== undefined) query = query.lte('day_count', filters.maxDays);
+        if (filters.priceBucket) query = query.eq('price_bucket', filters.priceBucket);
+        if (filters.minPrice !== undefined) query = query.gte('per_person_price', filters.minPrice);
+        if (filters.maxPrice !== undefined) query = query.lte('per_person_price', filters.maxPrice);
+        if (filters.month !== undefined) query = query.eq('start_month', filters.month);
+
+        if (filters.cursor) {
+            const cursor = this.decodeCursor(filters.cursor);
+            if (cursor.s !== sort) throw new BadRequestError('cursor belongs to a different sort order');
+            const op = ascending ? 'gt' : 'lt';
+            // Timestamps contain reserved characters, so string values are quoted in the filter
+            const value = typeof cursor.v === 'number' ? cursor.v : `"${cursor.v}"`;
+            query = query.or(`${column}.${op}.${value},and(${column}.eq.${value},id.${op}.${cursor.id})`);
+        }
+
+        const { data, error } = await query
+            .order(column, { ascending })
+            .order('id', { ascending })
+            .limit(limit + 1);
+        if (error) throw new BadRequestError(error.message);
+
+        const rows = (data || []) as any[];
+        const page = rows.slice(0, limit);
+        const last = page[page.length - 1];
+        const nextCursor = rows.length > limit && last ? this.encodeCursor({ s: sort, v: this.cursorValue(last[column]), id: last.id }) : null;
+
+        const images = await this.fetchDestinationImages(page);
+        return { items: page.map((row) => this.toCard(row, images)), nextCursor };
+    }
+
+    private toCard(row: any, images: Map<string, string>): PublicPackageCard {
+        const days = Number(row.day_count || 0);
+        const destinationIds: string[] = row.destination_ids || [];
+        const clonedCount = Number(row.clone_count || 0);
+        return {
+            packageId: row.id,
+            title: row.title,
+            startDate: row.start_date,
+            endDate: addUtcDays(new Date(row.start_date), Math.max(0, days - 1)).toISOString(),
+            days,
+            people: row.people,
+            priceBucket: row.price_bucket ?? undefined,
+            totalBasePrice: Number(row.total_base_price || 0),
+            perPersonPrice: Number(row.per_person_price || 0),
+            currency: row.currency || 'INR',
+            destinationIds,
+            destinationImage: destinationIds.length ? images.get(destinationIds[0]) : undefined,
+            booked: row.booking_status === 'booked' || row.booking_status === 'payment_overdue',
+            stats: {
+                clonedCount,
+                bookedCloneCount: Number(row.booked_clone_count || 0),
+                isPopular: clonedCount >= POPULAR_CLONE_COUNT,
+                trendingScore: Number(row.trending_score || 0),
+            },
+        };
+    }
+
+    private async fetchDestinationImages(rows: any[]): Promise<Map<string, string>> {
+        const images = new Map<string, string>();
+        const ids = Array.from(new Set(rows.map((r) => r.destination_ids?.[0]).filter(Boolean)));
+        if (!ids.length) return images;
+
+        const { data } = await this.db.from('vw_destinations_public').select('id, images').in('id', ids);
+        for (const d of data || []) {
+            if (Array.isArray((d as any).images) && (d as any).images.length) images.set((d as any).id, (d as any).images[0]);
+        }
+        return images;
+    }
+
+    // Numeric columns may come back as strings; timestamps are kept verbatim so no precision is lost
+    private cursorValue(value: any): string | number {
+        if (typeof value === 'number') return value;
+        const asNumber = Number(value);
+        return value !== null && value !== '' && Number.isFinite(asNumber) ? asNumber : String(value);
+    }
+
+    private encodeCursor(cursor: GalleryCursor): string {
+        return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+    }
+
+    private decodeCursor(raw: string): GalleryCursor {
+        try {
+            const cursor = JSON.parse(Buffer.from(raw, 'base64url').toString('utf8'));
+            const validValue = typeof cursor?.v === 'number' || (typeof cursor?.v === 'string' && !Number.isNaN(Date.parse(cursor.v)));
+            if (!SORTS[cursor?.s as PublicPackageSort] || !validValue || !/^[0-9a-f-]{36}$/i.test(cursor?.id)) throw new Error();
+            return cursor;
+        } catch {
+            throw new BadRequestError('Invalid cursor');
+        }
+    }
+}
@@ -0,0 +1,148 @@
+import { EventEmitter } from 'events';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { BadRequestError, NotFoundError } from '@hyperflake/http-errors';
+import { getDB } from '../configuration/database.config';
+import {
+    GeneratePackageRequest,
+    GenerationProgressEvent,
+    GenerationProgressStage,
+    PackageGenerationJob,
+} from '../interfaces/package.interface';
+import { PackageService } from './package.service';
+
+export type PackageJobEvent =
+    | { type: 'progress'; jobId: string; userId?: string; event: GenerationProgressEvent }
+    | { type: 'completed'; jobId: string; userId?: string; packageId?: string }
+    | { type: 'failed'; jobId: string; userId?: string; error: string };
+
+// Progress reached when each stage finishes; hotels advance per stop between reference and weather
+const STAGE_PROGRESS: Record<GenerationProgressStage, number> = {
+    destinations: 10,
+    reference: 25,
+    hotels: 75,
+    weather: 80,
+    assemble: 90,
+    budget: 95,
+    saved: 100,
+};
+
+export class PackageJobService {
+    // Jobs run inside this process; anything still running after this long was lost to a restart
+    private static readonly STALE_AFTER_MS = 10 * 60 * 1000;
+
+    /**
+     * Job lifecycle events. SocketBootstrap forwards them to the requesting user.
+     */
+    static readonly events = new EventEmitter();
+
+    private packageService = new PackageService();
+
+    private get db(): SupabaseClient {
+        return getDB();
+    }
+
+    /**
+     * @desc Queue a generation job and start it in the background. Returns immediately.
+     */
+    async create(req: GeneratePackageRequest, userId?: string): Promise<PackageGenerationJob> {
+        const { data, error } = await this.db
+            .from('package_generation_jobs')
+            .insert({ user_id: userId || null, status: 'queued', request: req, progress: 0, events: [] })
+            .select('*')
+            .single();
+        if (error) throw new BadRequestError(error.message);
+
+        const job = this.mapRow(data);
+        setImmediate(() => {
+            this.run(job, req, userId).catch((err) => console.error(`[PackageJobService] Job ${job.jobId} crashed:`, err?.message || err));
+        });
+        return job;
+    }
+
+    async get(jobId: string): Promise<PackageGenerationJob & { userId?: string }> {
+        const { data, error } = await this.db.from('package_generation_jobs').select('*').eq('id', jobId).maybeSingle();
+        if (error) throw new BadRequestError(error.message);
+        if (!data) throw new NotFoundError('Job not found');
+
+        const job = this.mapRow(data);
+        const stale = ['queued', 'running'].includes(job.status) && Date.now() - new Date(job.updatedAt).getTime() > PackageJobService.STALE_AFTER_MS;
+        if (stale) return { ...job, status: 'failed', error: 'Generation was interrupted; please retry', userId: data.user_id ?? undefined };
+        return { ...job, userId: data.user_id ?? undefined };
+    }
+
+    private async run(job: PackageGenerationJob, req: GeneratePackageRequest, userId?: string) {
+        const partial: NonNullable<PackageGenerationJob['partial']> = { hotels: [], weatherAttached: false };
+        const events: GenerationProgressEvent[] = [];
+        let progress = 0;
+        // Progress updates are written one after the other so the stored row never goes backwards
+        let writes: Promise<void> = this.update(job.jobId, { status: 'running' });
+
+        const record = (stage: GenerationProgressStage, message: string, data?: any) => {
+            if (stage === 'hotels') {
+                const stops = Math.max(1, Number(data?.stops || 1));
+                const found = partial.hotels.length;
+                progress = Math.max(progress, STAGE_PROGRESS.reference + ((STAGE_PROGRESS.hotels - STAGE_PROGRESS.reference) * found) / stops);
+            } else {
+                progress = Math.max(progress, STAGE_PROGRESS[stage]);
+            }
+            const event: GenerationProgressEvent = { stage, message, progress: Math.round(progress), at: new Date().toISOString(), data };
+            events.push(event);
+            PackageJobService.events.emit('job', { type: 'progress', jobId: job.jobId, userId, event } as PackageJobEvent);
+            const snapshot = { progress: event.progress, events: [...events], partial: { ...partial, hotels: [...partial.hotels] } };
+            writes = writes.then(() => this.update(job.jobId, snapshot));
+        };
+
+        try {
+            const result = await this.packageService.generate(req, userId, (e) => {
+                if (e.stage === 'destinations') {
+                    partial.order = e.data?.order;
+                    partial.title = e.data?.title;
+                }
+                if (e.stage === 'hotels') {
+                    partial.hotels.push({ stopIndex: e.data?.stopIndex, dayIndexes: e.data?.dayIndexes || [], hotel: e.data?.hotel ?? null });
+                }
+                if (e.stage === 'weather') partial.weatherAttached = true;
+                record(e.stage, e.message, e.data);
+            });
+
+            record('saved', result.packageId ? 'Package saved' : 'Package ready', { packageId: result.packageId });
+            await writes;
+            await this.update(job.jobId, {
+                status: 'completed',
+                result,
+                package_id: result.packageId ?? null,
+                completed_at: new Date().toISOString(),
+            });
+            PackageJobService.events.emit('job', { type: 'completed', jobId: job.jobId, userId, packageId: result.packageId } as PackageJobEvent);
+        } catch (err: any) {
+            const message = err?.message || 'Package generation failed';
+            await writes.catch(() => undefined);
+            await this.update(job.jobId, { status: 'failed', error: message, completed_at: new Date().toISOString() });
+            PackageJobService.events.emit('job', { type: 'failed', jobId: job.jobId, userId, error: message } as PackageJobEvent);
+        }
+    }
+
+    private async update(jobId: string, patch: Record<string, any>) {
+        const { error } = await this.db
+            .from('package_generation_jobs')
+            .update({ ...patch, updated_at: new Date().toISOString() })
+            .eq('id', jobId);
+        if (error) console.error(`[PackageJobService] Failed to update job ${jobId}:`, error.message);
+    }
+
+    private mapRow(row: any): PackageGenerationJob {
+        return {
+            jobId: row.id,
+            status: row.status,
+            progress: Number(row.progress || 0),
+            events: row.events || [],
+            partial: row.partial ?? undefined,
+            packageId: row.package_id ?? undefined,
+            result: row.result ?? undefined,
+            error: row.error ?? undefined,
+            createdAt: row.created_at,
+            updatedAt: row.updated_at,
+            completedAt: row.completed_at ?? undefined,
+        };
+    }
+}
@@ -0,0 +1,172 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { BadRequestError, HttpError, NotFoundError } from '@hyperflake/http-errors';
+import { getDB } from '../configuration/database.config';
+import { DocumentStatus } from '../interfaces/document.interface';
+import { BookingStatus, PackageTraveller, PackageTravellerInput, TravellerManifest } from '../interfaces/package.interface';
+import { PriceBand, priceBand, resolveTravellers } from '../utils/traveller.util';
+
+type ManifestPackage = { id: string; user_id: string | null; people: number; travellers: any; booking_status: BookingStatus };
+
+/**
+ * Named travellers of a package (`package_travellers`) with their ID proof from `user_documents`.
+ * Booking requires a complete manifest: one entry per person, each with an ID document that was not rejected.
+ */
+export class PackageManifestService {
+    private get db(): SupabaseClient {
+        return getDB();
+    }
+
+    async getManifest(packageId: string): Promise<TravellerManifest> {
+        const pkg = await this.loadPackage(packageId);
+        const travellers = await this.list(packageId);
+        const issues = this.findIssues(pkg, travellers);
+        return { packageId, required: pkg.people, travellers, complete: issues.length === 0, issues };
+    }
+
+    async add(packageId: string, actorId: string, input: PackageTravellerInput): Promise<PackageTraveller> {
+        const pkg = await this.loadPackage(packageId);
+        this.assertManifestEditable(pkg.booking_status);
+
+        const { count, error: countErr } = await this.db
+            .from('package_travellers')
+            .select('id', { count: 'exact', head: true })
+            .eq('package_id', packageId);
+        if (countErr) throw new BadRequestError(countErr.message);
+        if ((count || 0) >= pkg.people) throw new BadRequestError(`The manifest already lists all ${pkg.people} travellers`);
+        if (input.documentId) await this.assertDocumentUsable(input.documentId, [actorId, pkg.user_id]);
+
+        const { data, error } = await this.db
+            .from('package_travellers')
+            .insert({
+                package_id: packageId,
+                full_name: input.fullName.trim(),
+                age: input.age,
+                gender: input.gender,
+                document_id: input.documentId ?? null,
+                created_by: actorId,
+            })
+            .select('*')
+            .single();
+        if (error) throw new BadRequestError(error.message);
+        return (await this.withDocumentStatus([data]))[0];
+    }
+
+    async update(packageId: string, travellerId: string, actorId: string, input: Partial<PackageTravellerInput>): Promise<PackageTraveller> {
+        const pkg = await this.loadPackage(packageId);
+        this.assertManifestEditable(pkg.booking_status);
+        await this.findTraveller(packageId, travellerId);
+        if (input.documentId) await this.assertDocumentUsable(input.documentId, [actorId, pkg.user_id]);
+
+        const patch: Record<string, any> = { updated_at: new Date().toISOString() };
+        if (input.fullName !== undefined) patch.full_name = input.fullName.trim();
+        if (input.age !== undefined) patch.age = input.age;
+        if (input.gender !== undefined) patch.gender = input.gender;
+        if (input.documentId !== undefined) patch.document_id = input.documentId;
+
+        const { data, error } = await this.db.from('package_travellers').update(patch).eq('id', travellerId).select('*').single();
+        if (error) throw new BadRequestError(error.message);
+        return (await this.withDocumentStatus([data]))[0];
+    }
+
+    /**
+     * @desc Booked packages keep their manifest complete: entries can be corrected but not removed
+     */
+    async remove(packageId: string, travellerId: string): Promise<void> {
+        const pkg = await this.loadPackage(packageId);
+        this.assertManifestEditable(pkg.booking_status);
+        if (pkg.booking_status === 'booked' || pkg.booking_status === 'payment_overdue') {
+            throw new HttpError('Travellers cannot be removed from a booked package; update the entry instead', 409);
+        }
+        await this.findTraveller(packageId, travellerId);
+
+        const { error } = await this.db.from('package_travellers').delete().eq('id', travellerId);
+        if (error) throw new BadRequestError(error.message);
+    }
+
+    private async list(packageId: string): Promise<PackageTraveller[]> {
+        const { data, error } = await this.db
+            .from('package_travellers')
+            .select('*')
+            .eq('package_id', packageId)
+            .order('created_at', { ascending: true });
+        if (error) throw new BadRequestError(error.message);
+        return this.withDocumentStatus(data || []);
+    }
+
+    private findIssues(pkg: ManifestPackage, travellers: PackageTraveller[]): string[] {
+        const issues: string[] = [];
+        if (travellers.length < pkg.people) issues.push(`${pkg.people - travellers.length} of ${pkg.people} travellers still need to be added`);
+        if (travellers.length > pkg.people) issues.push(`The manifest lists ${travellers.length} travellers but the package is for ${pkg.people}`);
+
+        // Prices depend on the ages only when the package was generated with explicit travellers; compare the
+        // same price bands the package was priced with
+        if (pkg.travellers && travellers.length === pkg.people) {
+            const priced = resolveTravellers(pkg);
+            const expected = this.countBands([...(priced.childAges || []).map(priceBand), ...Array<PriceBand>(priced.adults).fill('adult')]);
+            const listed = this.countBands(travellers.map((t) => priceBand(t.age)));
+            if (expected !== listed) issues.push(`The package is priced for ${expected} but the manifest has ${listed}`);
+        }
+
+        const withoutDocument = travellers.filter((t) => !t.documentId).map((t) => t.fullName);
+        if (withoutDocument.length) issues.push(`ID proof missing for ${withoutDocument.join(', ')}`);
+        const rejected = travellers.filter((t) => t.documentStatus === 'rejected').map((t) => t.fullName);
+        if (rejected.length) issues.push(`ID proof was rejected for ${rejected.join(', ')}`);
+        return issues;
+    }
+
+    private countBands(bands: PriceBand[]): string {
+        const count = (band: PriceBand) => bands.filter((b) => b === band).length;
+        return `${count('adult')} adult(s), ${count('child')} child(ren) and ${count('infant')} infant(s)`;
+    }
+
+    private assertManifestEditable(status: BookingStatus) {
+        if (status === 'cancelled') throw new HttpError('Cannot modify the travellers of a cancelled package', 409);
+    }
+
+    /**
+     * A traveller's ID proof must be uploaded by the person editing the manifest or by the package owner
+     */
+    private async assertDocumentUsable(documentId: string, allowedOwners: Array<string | null>) {
+        const { data, error } = await this.db.from('user_documents').select('id, user_id, status').eq('id', documentId).maybeSingle();
+        if (error) throw new BadRequestError(error.message);
+        if (!data || !allowedOwners.includes(data.user_id)) throw new BadRequestError('documentId must be one of your uploaded documents');
+        if (data.status === 'rejected') throw new BadRequestError('The document was rejected; upload a new ID proof');
+    }
+
+    private async withDocumentStatus(rows: any[]): Promise<PackageTraveller[]> {
+        const ids = Array.from(new Set(rows.map((r) => r.document_id).filter(Boolean)));
+        const statuses = new Map<string, DocumentStatus>();
+        if (ids.length) {
+            const { data, error } = await this.db.from('user_documents').select('id, status').in('id', ids);
+            if (error) throw new BadRequestError(error.message);
+            for (const doc of data || []) statuses.set(doc.id, doc.status);
+        }
+
+        return rows.map((row) => ({
+            travellerId: row.id,
+            packageId: row.package_id,
+            fullName: row.full_name,
+            age: row.age,
+            gender: row.gender,
+            documentId: row.document_id ?? null,
+            documentStatus: row.document_id ? statuses.get(row.document_id) ?? null : null,
+            createdBy: row.created_by ?? null,
+            createdAt: row.created_at,
+            updatedAt: row.updated_at,
+        }));
+    }
+
+    private async findTraveller(packageId: string, travellerId: string): Promise<any> {
+        const { data, error } = await this.db.from('package_travellers').select('id').eq('id', travellerId).eq('package_id', packageId).maybeSingle();
+        if (error) throw new BadRequestError(error.message);
+        if (!data) throw new NotFoundError('Traveller not found');
+        return data;
+    }
+
+    private async loadPackage(packageId: string): Promise<ManifestPackage> {
+        const { data, error } = await this.db.from('packages').select('id, user_id, people, travellers, booking_status').eq('id', packageId).maybeSingle();
+        if (error) throw new BadRequestError(error.message);
+        if (!data) throw new NotFoundError('Package not found');
+        return data as ManifestPackage;
+    }
+}
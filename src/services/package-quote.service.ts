@@ -0,0 +1,281 @@
+import { randomUUID } from 'crypto';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { BadRequestError, NotFoundError } from '@hyperflake/http-errors';
+import { getDB } from '../configuration/database.config';
+import {
+    HotelOption,
+    HotelPriceChange,
+    PackagePriceChange,
+    PendingRequote,
+    PriceComponent,
+} from '../interfaces/package.interface';
+import { AmadeusService } from './amadeus.service';
+import { payingTravellers, resolveRoomPlan, resolveTravellers } from '../utils/traveller.util';
+
+export type QuoteCheckResult =
+    | { status: 'valid'; quoteValidUntil: string; priceChange?: PackagePriceChange } // priceChange: re-priced to the same total
+    | { status: 'repriced'; quoteValidUntil: string; priceChange: PackagePriceChange }
+    | { status: 'price_changed'; priceChange: PackagePriceChange };
+
+export class PackageQuoteService {
+    // How long a generated or re-priced quote is honoured
+    static readonly QUOTE_TTL_MS = Number(process.env.PACKAGE_QUOTE_TTL_HOURS || 24) * 60 * 60 * 1000;
+    // How long the user has to accept a price change
+    private static readonly REQUOTE_HOLD_MS = 30 * 60 * 1000;
+    private static readonly MAX_ALTERNATIVE_HOTELS = 5;
+
+    private get db(): SupabaseClient {
+        return getDB();
+    }
+
+    static nextQuoteValidUntil(from: Date = new Date()): string {
+        return new Date(from.getTime() + PackageQuoteService.QUOTE_TTL_MS).toISOString();
+    }
+
+    /**
+     * @desc Make sure the package price can still be honoured before taking payment.
+     * - Quote still valid: nothing to do.
+     * - Expired: hotels and cabs are re-priced. An unchanged total just renews the quote; otherwise the diff is
+     *   stored as a pending re-quote and returned as `price_changed` until the user accepts it with `acceptPriceChange`.
+     */
+    async ensureValidQuote(packageId: string, options: { acceptPriceChange?: boolean } = {}): Promise<QuoteCheckResult> {
+        const pkg = await this.loadPackage(packageId);
+        const now = new Date();
+
+        if (pkg.quote_valid_until && new Date(pkg.quote_valid_until).getTime() > now.getTime()) {
+            return { status: 'valid', quoteValidUntil: pkg.quote_valid_until };
+        }
+
+        const pending: PendingRequote | undefined = pkg.meta?.pendingRequote;
+        if (pending && new Date(pending.acceptBefore).getTime() > now.getTime()) {
+            if (!options.acceptPriceChange) return { status: 'price_changed', priceChange: this.publicView(pending) };
+            const quoteValidUntil = await this.applyRequote(pkg, pending);
+            return { status: 'repriced', quoteValidUntil, priceChange: this.publicView(pending) };
+        }
+
+        const requote = await this.computeRequote(pkg, now);
+        if (Math.abs(requote.difference) < 0.01) {
+            const quoteValidUntil = await this.applyRequote(pkg, requote);
+            return { status: 'valid', quoteValidUntil, priceChange: this.publicView(requote) };
+        }
+
+        const { error } = await this.db
+            .from('packages')
+            .update({ meta: { ...(pkg.meta || {}), pendingRequote: requote } })
+            .eq('id', packageId);
+        if (error) throw new BadRequestError(error.message);
+
+        return { status: 'price_changed', priceChange: this.publicView(requote) };
+    }
+
+    private async computeRequote(pkg: any, now: Date): Promise<PendingRequote> {
+        const people = Math.max(1, Number(pkg.people || 1));
+        const rooms = resolveRoomPlan({ people, travellers: pkg.travellers, rooms: pkg.room_plan });
+        const days: any[] = [...(pkg.package_days || [])].sort((a, b) => a.day_index - b.day_index);
+        const legs: any[] = pkg.package_legs || [];
+
+        // Group nights by stop so each stay is re-priced with one offer, as at generation time
+        const stays = new Map<string, any[]>();
+        for (const day of days) {
+            const key = day.stop_index != null ? `s${day.stop_index}` : `d${day.day_index}`;
+            stays.set(key, [...(stays.get(key) || []), day]);
+        }
+
+        const amadeus = new AmadeusService();
+        const hotels: HotelPriceChange[] = [];
+        const hotelUpdates: PendingRequote['hotelUpdates'] = [];
+        let newAccommodation = 0;
+        for (const stayDays of stays.values()) {
+            const first = stayDays[0];
+            const oldHotel: HotelOption | undefined = first.hotel || undefined;
+            const oldStayPrice = stayDays.reduce((s, d) => s + Number(d.hotel?.price || 0), 0);
+            if (!oldHotel?.hotelId || !oldHotel.checkInDate || !oldHotel.checkOutDate) {
+                newAccommodation += oldStayPrice;
+                continue;
+            }
+
+            const offerParams = {
+                rooms,
+                checkInDate: oldHotel.checkInDate,
+                checkOutDate: oldHotel.checkOutDate,
+                currency: pkg.currency || 'INR',
+                bestRateOnly: true,
+            };
+            let offers = await amadeus.getHotelOffersForRooms({ ...offerParams, hotelIds: [oldHotel.hotelId] });
+            if (!this.cheapest(offers)) {
+                // Same hotel sold out: fall back to the other hotels offered for this stop
+                const alternatives = (first.hotel_options || [])
+                    .map((o: any) => o?.hotel?.hotelId)
+                    .filter((id: string | undefined) => id && id !== oldHotel.hotelId)
+                    .slice(0, PackageQuoteService.MAX_ALTERNATIVE_HOTELS);
+                offers = alternatives.length ? await amadeus.getHotelOffersForRooms({ ...offerParams, hotelIds: alternatives }) : [];
+            }
+
+            const pick = this.cheapest(offers);
+            const nights = stayDays.length;
+            if (!pick) {
+                hotels.push({
+                    stopIndex: first.stop_index ?? first.day_index,
+                    destinationId: first.destination_id,
+                    oldHotelId: oldHotel.hotelId,
+                    newHotelId: oldHotel.hotelId,
+                    oldStayPrice: this.round(oldStayPrice),
+                    newStayPrice: this.round(oldStayPrice),
+                    available: false,
+                });
+                newAccommodation += oldStayPrice;
+                continue;
+            }
+
+            const newHotel: HotelOption = {
+                ...oldHotel,
+                name: pick.offer?.hotel?.name ?? oldHotel.name,
+                hotelId: pick.offer?.hotel?.hotelId ?? oldHotel.hotelId,
+                latitude: pick.offer?.hotel?.latitude ?? oldHotel.latitude,
+                longitude: pick.offer?.hotel?.longitude ?? oldHotel.longitude,
+                currency: pick.offer?.offers?.[0]?.price?.currency ?? oldHotel.currency,
+                price: pick.price / nights,
+            };
+            hotels.push({
+                stopIndex: first.stop_index ?? first.day_index,
+                destinationId: first.destination_id,
+                oldHotelId: oldHotel.hotelId,
+                newHotelId: newHotel.hotelId,
+                oldStayPrice: this.round(oldStayPrice),
+                newStayPrice: this.round(pick.price),
+                available: true,
+            });
+            hotelUpdates.push({ dayIndexes: stayDays.map((d) => d.day_index), hotel: newHotel });
+            newAccommodation += pick.price;
+        }
+
+        // Without any bookable cab the previous cab costs are kept
+        const cab = await this.resolveCabRate(pkg, people);
+        const legCabCosts = legs.map((leg) => ({
+            legId: leg.id,
+            cabCost: cab ? Number(leg.distance_km || 0) * cab.ratePerKm : Number(leg.cab_cost || 0),
+        }));
+        const newCab = legCabCosts.reduce((s, l) => s + l.cabCost, 0);
+        const oldCabRate = legs.find((l) => Number(l.distance_km) > 0);
+
+        const oldBreakdown = pkg.breakdown || {};
+        const newBreakdown: Record<PriceComponent, number> = {
+            accommodation: newAccommodation,
+            transport: Number(oldBreakdown.transport || 0),
+            activities: Number(oldBreakdown.activities || 0),
+            cab: newCab,
+        };
+        const components = (Object.keys(newBreakdown) as PriceComponent[]).map((component) => {
+            const oldAmount = this.round(Number(oldBreakdown[component] || 0));
+            const newAmount = this.round(newBreakdown[component]);
+            return { component, oldAmount, newAmount, difference: this.round(newAmount - oldAmount) };
+        });
+        const oldTotal = this.round(Number(pkg.total_base_price || 0));
+        const newTotal = this.round(components.reduce((s, c) => s + c.newAmount, 0));
+
+        return {
+            requoteId: randomUUID(),
+            packageId: pkg.id,
+            currency: pkg.currency || 'INR',
+            previousQuoteValidUntil: pkg.quote_valid_until ?? null,
+            oldTotal,
+            newTotal,
+            difference: this.round(newTotal - oldTotal),
+            components,
+            hotels,
+            cab: {
+                oldRatePerKm: oldCabRate ? this.round(Number(oldCabRate.cab_cost || 0) / Number(oldCabRate.distance_km)) : undefined,
+                newRatePerKm: cab?.ratePerKm ?? 0,
+                cabId: cab?.cabId,
+            },
+            computedAt: now.toISOString(),
+            acceptBefore: new Date(now.getTime() + PackageQuoteService.REQUOTE_HOLD_MS).toISOString(),
+            hotelUpdates,
+            legCabCosts,
+        };
+    }
+
+    private async applyRequote(pkg: any, requote: PendingRequote): Promise<string> {
+        const days: any[] = pkg.package_days || [];
+        for (const update of requote.hotelUpdates) {
+            const ids = days.filter((d) => update.dayIndexes.includes(d.day_index)).map((d) => d.id);
+            if (!ids.length) continue;
+            const { error } = await this.db.from('package_days').update({ hotel: update.hotel }).in('id', ids);
+            if (error) throw new BadRequestError(error.message);
+        }
+        for (const leg of requote.legCabCosts) {
+            await this.db.from('package_legs').update({ cab_cost: leg.cabCost }).eq('id', leg.legId);
+        }
+
+        const breakdown = Object.fromEntries(requote.components.map((c) => [c.component, c.newAmount]));
+        const { pendingRequote, ...meta } = pkg.meta || {};
+        const quoteValidUntil = PackageQuoteService.nextQuoteValidUntil();
+        const { error } = await this.db
+            .from('packages')
+            .update({
+                breakdown,
+                total_base_price: requote.newTotal,
+                per_person_price: requote.newTotal / payingTravellers(resolveTravellers({ people: pkg.people, travellers: pkg.travellers })),
+                cab_id: requote.cab.cabId ?? pkg.cab_id ?? null,
+                quote_valid_until: quoteValidUntil,
+                meta,
+            })
+            .eq('id', pkg.id);
+        if (error) throw new BadRequestError(error.message);
+
+        console.log(`[PackageQuoteService] Re-priced ${pkg.id}: ${requote.oldTotal} -> ${requote.newTotal} ${requote.currency}`);
+        return quoteValidUntil;
+    }
+
+    /**
+     * Current per-km rate of the package's cab, or of the cheapest available cab of the same type
+     */
+    private async resolveCabRate(pkg: any, people: number): Promise<{ cabId: string; ratePerKm: number } | null> {
+        if (pkg.cab_id) {
+            const { data } = await this.db
+                .from('cab_inventory')
+                .select('id,base_price_per_km,is_available')
+                .eq('id', pkg.cab_id)
+                .maybeSingle();
+            if (data?.is_available) return { cabId: data.id, ratePerKm: Number(data.base_price_per_km || 0) };
+        }
+
+        const { data: cabs } = await this.db
+            .from('cab_inventory')
+            .select('id,base_price_per_km')
+            .eq('cab_type', pkg.cab_type)
+            .gte('capacity', people)
+            .eq('is_available', true)
+            .order('base_price_per_km', { ascending: true })
+            .limit(1);
+        const cab = cabs?.[0];
+        return cab ? { cabId: cab.id, ratePerKm: Number(cab.base_price_per_km || 0) } : null;
+    }
+
+    private cheapest(offers: any[] | undefined): { offer: any; price: number } | undefined {
+        return (offers || [])
+            .map((o: any) => ({ offer: o, price: Number(o?.offers?.[0]?.price?.total || o?.offers?.[0]?.price?.base || 0) }))
+            .filter((x) => x.price > 0)
+            .sort((a, b) => a.price - b.price)[0];
+    }
+
+    private publicView(requote: PendingRequote): PackagePriceChange {
+        const { hotelUpdates, legCabCosts, ...view } = requote;
+        return view;
+    }
+
+    private async loadPackage(packageId: string) {
+        const { data, error } = await this.db
+            .from('packages')
+            .select('*, package_days(id,day_index,stop_index,destination_id,hotel,hotel_options), package_legs(id,distance_km,cab_cost)')
+            .eq('id', packageId)
+            .maybeSingle();
+        if (error) throw new BadRequestError(error.message);
+        if (!data) throw new NotFoundError('Package not found');
+        return data as any;
+    }
+
+    private round(n: number): number {
+        return Math.round(n * 100) / 100;
+    }
+}
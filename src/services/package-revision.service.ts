@@ -0,0 +1,189 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { BadRequestError, NotFoundError } from '@hyperflake/http-errors';
+import { getDB } from '../configuration/database.config';
+import {
+    DayPlan,
+    PackageRevision,
+    PackageRevisionDayDiff,
+    PackageRevisionDiff,
+    PackageRevisionReason,
+    PackageRevisionSnapshot,
+    PriceComponent,
+    RevisionHotelRef,
+} from '../interfaces/package.interface';
+
+const PRICE_COMPONENTS: PriceComponent[] = ['accommodation', 'transport', 'activities', 'cab'];
+// Package-level values compared between revisions
+const SNAPSHOT_FIELDS = ['title', 'startDate', 'people', 'cabType', 'totalBasePrice', 'perPersonPrice', 'is_public'] as const;
+
+/**
+ * Append-only history of a package's configuration in `package_revisions`. Restoring a revision is done by
+ * PackageService, which owns the package tables, and is itself recorded as a new revision.
+ */
+export class PackageRevisionService {
+    private static readonly MAX_INSERT_ATTEMPTS = 3;
+
+    private get db(): SupabaseClient {
+        return getDB();
+    }
+
+    async record(
+        packageId: string,
+        snapshot: PackageRevisionSnapshot,
+        options: { reason: PackageRevisionReason; actorId?: string | null; change?: Record<string, any> | null }
+    ): Promise<PackageRevision> {
+        // Two concurrent edits can pick the same number; the unique key rejects one and it takes the next
+        for (let attempt = 1; ; attempt++) {
+            const latest = await this.latestRevisionNumber(packageId);
+            const { data, error } = await this.db
+                .from('package_revisions')
+                .insert({
+                    package_id: packageId,
+                    revision: latest + 1,
+                    reason: options.reason,
+                    created_by: options.actorId ?? null,
+                    change: options.change ?? null,
+                    snapshot,
+                    total_base_price: Number(snapshot.totalBasePrice || 0),
+                })
+                .select('package_id,revision,reason,created_by,change,total_base_price,created_at')
+                .single();
+            if (!error) return this.mapRow(data);
+            if (error.code !== '23505' || attempt >= PackageRevisionService.MAX_INSERT_ATTEMPTS) throw new BadRequestError(error.message);
+        }
+    }
+
+    async hasRevisions(packageId: string): Promise<boolean> {
+        return (await this.latestRevisionNumber(packageId)) > 0;
+    }
+
+    async list(packageId: string): Promise<PackageRevision[]> {
+        const { data, error } = await this.db
+            .from('package_revisions')
+            .select('package_id,revision,reason,created_by,change,total_base_price,created_at')
+            .eq('package_id', packageId)
+            .order('revision', { ascending: true });
+        if (error) throw new BadRequestError(error.message);
+        return (data || []).map((row: any) => this.mapRow(row));
+    }
+
+    async get(packageId: string, revision: number): Promise<PackageRevision & { snapshot: PackageRevisionSnapshot }> {
+        const { data, error } = await this.db
+            .from('package_revisions')
+            .select('*')
+            .eq('package_id', packageId)
+            .eq('revision', revision)
+            .maybeSingle();
+        if (error) throw new BadRequestError(error.message);
+        if (!data) throw new NotFoundError(`Revision ${revision} not found`);
+        return { ...this.mapRow(data), snapshot: data.snapshot };
+    }
+
+    /**
+     * @desc Structured diff from one revision to another. Days are compared by position in the trip, so an inserted
+     * day shows up as changes on every later day; hotels are compared by `hotelId` (name when missing) and price.
+     * Omitting `to` compares with the latest revision; omitting `from` compares with the revision before `to`.
+     */
+    async diff(packageId: string, from?: number, to?: number): Promise<PackageRevisionDiff> {
+        const target = to ?? (await this.latestRevisionNumber(packageId));
+        const base = from ?? target - 1;
+        if (target < 1 || base < 1) throw new BadRequestError('At least two revisions are needed for a diff');
+
+        const [older, newer] = await Promise.all([this.get(packageId, base), this.get(packageId, target)]);
+        const a = older.snapshot;
+        const b = newer.snapshot;
+
+        const fields: PackageRevisionDiff['fields'] = SNAPSHOT_FIELDS.filter((field) => !this.same(a[field], b[field])).map((field) => ({
+            field,
+            from: a[field] ?? null,
+            to: b[field] ?? null,
+        }));
+        if (!this.same(a.cabSelection?.id, b.cabSelection?.id)) fields.push({ field: 'cabId', from: a.cabSelection?.id ?? null, to: b.cabSelection?.id ?? null });
+
+        const breakdown: PackageRevisionDiff['breakdown'] = PRICE_COMPONENTS.map((component) => {
+            const before = this.round(Number(a.breakdown?.[component] || 0));
+            const after = this.round(Number(b.breakdown?.[component] || 0));
+            return { component, from: before, to: after, difference: this.round(after - before) };
+        }).filter((row) => row.difference !== 0);
+
+        const days: PackageRevisionDayDiff[] = [];
+        const dayCount = Math.max(a.days?.length || 0, b.days?.length || 0);
+        for (let dayIndex = 0; dayIndex < dayCount; dayIndex++) {
+            const day = this.diffDay(dayIndex, a.days?.[dayIndex], b.days?.[dayIndex]);
+            if (day) days.push(day);
+        }
+
+        return { packageId, from: base, to: target, fields, breakdown, days };
+    }
+
+    private diffDay(dayIndex: number, before?: DayPlan, after?: DayPlan): PackageRevisionDayDiff | null {
+        const beforeActivities = new Map((before?.activities || []).map((a) => [a.poiId, a.name]));
+        const afterActivities = new Map((after?.activities || []).map((a) => [a.poiId, a.name]));
+        const diff: PackageRevisionDayDiff = {
+            dayIndex,
+            status: !before ? 'added' : !after ? 'removed' : 'changed',
+            activitiesAdded: Array.from(afterActivities).filter(([poiId]) => !beforeActivities.has(poiId)).map(([poiId, name]) => ({ poiId, name })),
+            activitiesRemoved: Array.from(beforeActivities).filter(([poiId]) => !afterActivities.has(poiId)).map(([poiId, name]) => ({ poiId, name })),
+        };
+
+        const date = (d?: DayPlan) => d?.date?.slice(0, 10) ?? null;
+        if (date(before) !== date(after)) diff.date = { from: date(before), to: date(after) };
+
+        if (before?.destinationId !== after?.destinationId) {
+            const destination = (d?: DayPlan) => (d ? { destinationId: d.destinationId, destinationName: d.destinationName } : null);
+            diff.destination = { from: destination(before), to: destination(after) };
+        }
+
+        const hotelBefore = this.hotelRef(before);
+        const hotelAfter = this.hotelRef(after);
+        if (!this.same(hotelBefore, hotelAfter)) diff.hotel = { from: hotelBefore, to: hotelAfter };
+
+        const activitiesCost = { from: this.round(Number(before?.activitiesCost || 0)), to: this.round(Number(after?.activitiesCost || 0)) };
+        if (activitiesCost.from !== activitiesCost.to) diff.activitiesCost = activitiesCost;
+        const transportCost = { from: this.round(Number(before?.transportCost || 0)), to: this.round(Number(after?.transportCost || 0)) };
+        if (transportCost.from !== transportCost.to) diff.transportCost = transportCost;
+
+        const changed =
+            diff.status !== 'changed' ||
+            diff.date || diff.destination || diff.hotel || diff.activitiesCost || diff.transportCost ||
+            diff.activitiesAdded.length || diff.activitiesRemoved.length;
+        return changed ? diff : null;
+    }
+
+    private hotelRef(day?: DayPlan): RevisionHotelRef | null {
+        if (!day?.hotel) return null;
+        return { hotelId: day.hotel.hotelId, name: day.hotel.name, price: this.round(Number(day.hotel.price || 0)) };
+    }
+
+    async latestRevisionNumber(packageId: string): Promise<number> {
+        const { data, error } = await this.db
+            .from('package_revisions')
+            .select('revision')
+            .eq('package_id', packageId)
+            .order('revision', { ascending: false })
+            .limit(1)
+            .maybeSingle();
+        if (error) throw new BadRequestError(error.message);
+        return Number(data?.revision || 0);
+    }
+
+    private mapRow(row: any): PackageRevision {
+        return {
+            revision: row.revision,
+            packageId: row.package_id,
+            reason: row.reason,
+            createdBy: row.created_by ?? null,
+            change: row.change ?? null,
+            totalBasePrice: Number(row.total_base_price || 0),
+            createdAt: row.created_at,
+        };
+    }
+
+    private same(a: unknown, b: unknown): boolean {
+        return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+    }
+
+    private round(n: number): number {
+        return Math.round(n * 100) / 100;
+    }
+}
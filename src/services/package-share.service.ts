@@ -0,0 +1,165 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { BadRequestError, InternalServerError, NotFoundError } from '@hyperflake/http-errors';
+import { getDB } from '../configuration/database.config';
+import { SHARE_DEFAULT_TTL_HOURS } from '../constants/package-share';
+import {
+    CreatedPackageShare,
+    CreatePackageShareRequest,
+    PackageGenerationResult,
+    PackageShareLink,
+    SharedPackage,
+    SharedPackageView,
+} from '../interfaces/package.interface';
+import { PackageService } from './package.service';
+
+/**
+ * Read-only links to a package. A token is `<shareId>.<expiresAt seconds>.<HMAC>` signed with
+ * `PACKAGE_SHARE_SECRET`, so forged or expired tokens are rejected without a lookup; revocation and view
+ * counts live in `package_share_links`.
+ */
+export class PackageShareService {
+    private readonly packageService = new PackageService();
+
+    private get db(): SupabaseClient {
+        return getDB();
+    }
+
+    // Anyone knowing the key can mint links to any package, so the development fallback is refused in production
+    private get secret(): string {
+        const secret = process.env.PACKAGE_SHARE_SECRET;
+        if (secret) return secret;
+        if (process.env.NODE_ENV === 'production') throw new InternalServerError('PACKAGE_SHARE_SECRET is not set');
+        return 'package-share-secret';
+    }
+
+    async create(packageId: string, userId: string, request: CreatePackageShareRequest = {}): Promise<CreatedPackageShare> {
+        const hours = request.expiresInHours ?? SHARE_DEFAULT_TTL_HOURS;
+        // Whole seconds, so the timestamp in the token matches the stored one
+        const expiresAt = new Date(Math.floor((Date.now() + hours * 3600 * 1000) / 1000) * 1000);
+
+        const { data, error } = await this.db
+            .from('package_share_links')
+            .insert({ package_id: packageId, created_by: userId, hide_prices: !!request.hidePrices, expires_at: expiresAt.toISOString() })
+            .select('*')
+            .single();
+        if (error) throw new BadRequestError(error.message);
+
+        return { ...this.mapRow(data), token: this.sign(data.id, expiresAt) };
+    }
+
+    async list(packageId: string): Promise<PackageShareLink[]> {
+        const { data, error } = await this.db
+            .from('package_share_links')
+            .select('*')
+            .eq('package_id', packageId)
+            .order('created_at', { ascending: false });
+        if (error) throw new BadRequestError(error.message);
+        return (data || []).map((row: any) => this.mapRow(row));
+    }
+
+    async revoke(packageId: string, shareId: string): Promise<PackageShareLink> {
+        const { data: existing, error: findErr } = await this.db
+            .from('package_share_links')
+            .select('*')
+            .eq('id', shareId)
+            .eq('package_id', packageId)
+            .maybeSingle();
+        if (findErr) throw new BadRequestError(findErr.message);
+        if (!existing) throw new NotFoundError('Share link not found');
+        if (existing.revoked_at) return this.mapRow(existing);
+
+        const { data, error } = await this.db
+            .from('package_share_links')
+            .update({ revoked_at: new Date().toISOString() })
+            .eq('id', shareId)
+            .select('*')
+            .single();
+        if (error) throw new BadRequestError(error.message);
+        return this.mapRow(data);
+    }
+
+    /**
+     * @desc Resolve a token to the redacted package and count the view. Invalid, expired and revoked tokens all
+     * surface as 404 so a link's state is not disclosed.
+     */
+    async resolve(token: string): Promise<SharedPackageView> {
+        const shareId = this.verify(token);
+        if (!shareId) throw new NotFoundError('Share link not found or expired');
+
+        const { data, error } = await this.db.rpc('record_package_share_view', { p_share_id: shareId });
+        if (error) throw new BadRequestError(error.message);
+        const link = Array.isArray(data) ? data[0] : data;
+        if (!link) throw new NotFoundError('Share link not found or expired');
+
+        let pkg: PackageGenerationResult;
+        try {
+            pkg = await this.packageService.getById(link.package_id);
+        } catch {
+            throw new NotFoundError('Share link not found or expired');
+        }
+
+        return {
+            share: { hidePrices: link.hide_prices, expiresAt: link.expires_at, viewCount: link.view_count },
+            package: this.redact(pkg, link.hide_prices),
+        };
+    }
+
+    private redact(pkg: PackageGenerationResult, hidePrices: boolean): SharedPackage {
+        const shared: SharedPackage = {
+            title: pkg.title,
+            startDate: pkg.startDate,
+            people: pkg.people,
+            travellers: pkg.travellers,
+            rooms: pkg.rooms,
+            cabType: pkg.cabType,
+            currency: pkg.currency,
+            days: pkg.days.map(({ hotelOptions, activitiesCost, transportCost, legTransportCost, ...day }) => ({
+                ...day,
+                activities: day.activities.map(({ base_price, child_price, ...activity }) => (hidePrices ? activity : { ...activity, base_price, child_price })),
+                hotel: day.hotel && hidePrices ? { ...day.hotel, price: undefined } : day.hotel,
+                ...(hidePrices ? {} : { activitiesCost, transportCost, legTransportCost }),
+            })),
+            legs: pkg.legs.map(({ cabCost, ...leg }) => (hidePrices ? leg : { ...leg, cabCost })),
+        };
+        if (!hidePrices) {
+            shared.totalBasePrice = pkg.totalBasePrice;
+            shared.perPersonPrice = pkg.perPersonPrice;
+            shared.breakdown = pkg.breakdown;
+        }
+        return shared;
+    }
+
+    private sign(shareId: string, expiresAt: Date): string {
+        const payload = `${shareId}.${Math.floor(expiresAt.getTime() / 1000)}`;
+        return `${payload}.${this.signature(payload)}`;
+    }
+
+    // Returns the share id of a well-formed, correctly signed and unexpired token
+    private verify(token: string): string | null {
+        const [shareId, expires, signature] = String(token || '').split('.');
+        if (!shareId || !expires || !signature || !/^[0-9a-f-]{36}$/i.test(shareId) || !/^\d+$/.test(expires)) return null;
+
+        const expected = Buffer.from(this.signature(`${shareId}.${expires}`));
+        const received = Buffer.from(signature);
+        if (received.length !== expected.length || !timingSafeEqual(received, expected)) return null;
+        return Number(expires) * 1000 > Date.now() ? shareId : null;
+    }
+
+    private signature(payload: string): string {
+        return createHmac('sha256', this.secret).update(payload).digest('base64url');
+    }
+
+    private mapRow(row: any): PackageShareLink {
+        return {
+            shareId: row.id,
+            packageId: row.package_id,
+            hidePrices: row.hide_prices,
+            expiresAt: row.expires_at,
+            revokedAt: row.revoked_at ?? null,
+            viewCount: Number(row.view_count || 0),
+            lastViewedAt: row.last_viewed_at ?? null,
+            createdAt: row.created_at,
+        };
+    }
+}
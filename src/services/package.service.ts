@@ -1,57 +1,93 @@
 import { SupabaseClient } from '@supabase/supabase-js';
 import { getDB } from '../configuration/database.config';
-import { GeneratePackageRequest, PackageGenerationResult, CabType, DayPlan, PackageLeg, PriceBucket, ActivityWithPrice, UpdatePackageConfigurationRequest, BookingHistoryItem } from '../interfaces/package.interface';
+import { GeneratePackageRequest, PackageGenerationResult, CabType, DayPlan, PackageLeg, PriceBucket, ActivityWithPrice, UpdatePackageConfigurationRequest, DayOperation, BookingHistoryItem, PackageRevisionSnapshot, PackageStop, RouteOptimizationSummary, RoomOccupancy, HotelOption, GenerationProgressListener, AcclimatizationSummary } from '../interfaces/package.interface';
 import { AmadeusService } from './amadeus.service';
+import { PackageBudgetService } from './package-budget.service';
+import { PackageQuoteService, QuoteCheckResult } from './package-quote.service';
+import { PackageRevisionService } from './package-revision.service';
+import { RouteOptimizerService } from './route-optimizer.service';
+import { PackageBookingStateMachine } from './package-booking-state-machine.service';
+import { DayScheduleService } from './day-schedule.service';
+import { AcclimatizationService } from './acclimatization.service';
+import { RouteClosureService } from './route-closure.service';
 import { WeatherService } from './weather.service';
 import { addUtcDays, toYmdUtc } from '../utils/date.util';
+import { createStageTimer, mapWithConcurrency } from '../utils/pipeline.util';
+import { activityPrice, headcount, payingTravellers, resolveRoomPlan, resolveTravellers } from '../utils/traveller.util';
 import { createHash } from 'crypto';
+import { POPULAR_CLONE_COUNT } from '../constants/package-gallery';
+import { resolveAcclimatizationGuidelines } from '../constants/acclimatization';
+import { BadRequestError, NotFoundError } from '@hyperflake/http-errors';
+import { getPackageCacheStore, getPackageCacheTtl } from '../configuration/package-cache.config';
+import { PackageCacheInvalidation } from '../interfaces/package-cache.interface';
 
 export class PackageService {
-    private static readonly CACHE_TTL_MS = Number(process.env.PACKAGE_CACHE_TTL_MS || 15000);
-    private static responseCache = new Map<string, { expiry: number; promise: Promise<PackageGenerationResult> }>();
+    // Hotel searches and weather refreshes in flight at once during generation
+    private static readonly GENERATION_CONCURRENCY = Math.max(1, Math.floor(Number(process.env.PACKAGE_GENERATION_CONCURRENCY) || 4));
+    private static inFlight = new Map<string, Promise<unknown>>();
 
-    private static buildCacheKey(input: { destinations: string[]; startDate: string; people: number; bucket: PriceBucket }): string {
+    private static buildCacheKey(input: { stops: PackageStop[]; startDate: string; people: number; rooms: RoomOccupancy[]; bucket: PriceBucket; activities?: string[]; includeCommonAttractions?: boolean; optimizeRoute?: GeneratePackageRequest['optimizeRoute']; enforceAcclimatization?: boolean; maxTotal?: number }): string {
         const payload = JSON.stringify({
-            d: input.destinations,
-            s: input.startDate,
+            d: input.stops.map((s) => `${s.destinationId}:${s.nights}`),
+            s: input.startDate.slice(0, 10), // days are planned per UTC date
             p: input.people,
+            r: input.rooms.map((r) => `${r.adults}:${(r.childAges || []).join('.')}`),
             b: input.bucket,
+            a: [...(input.activities || [])].sort(),
+            c: !!input.includeCommonAttractions,
+            o: input.optimizeRoute || false,
+            e: !!input.enforceAcclimatization,
+            m: input.maxTotal ?? null,
         });
         return createHash('sha256').update(payload).digest('hex');
     }
 
+    /**
+     * Share one running producer between identical concurrent calls in this process
+     */
     private static withDedupe<R>(key: string, producer: () => Promise<R>): Promise<R> {
-        const now = Date.now();
-        // purge expired
-        for (const [k, v] of PackageService.responseCache.entries()) {
-            if (v.expiry <= now) PackageService.responseCache.delete(k);
-        }
-        const existing = PackageService.responseCache.get(key);
-        if (existing && existing.expiry > now) {
-            console.log(`[PackageService] Dedupe cache hit key=${key.slice(0,8)}...`);
-            return existing.promise as Promise<R>;
+        const existing = PackageService.inFlight.get(key);
+        if (existing) {
+            console.log(`[PackageService] Dedupe in-flight hit key=${key.slice(0,8)}...`);
+            return existing as Promise<R>;
         }
-        const promise = producer();
-        PackageService.responseCache.set(key, { expiry: now + PackageService.CACHE_TTL_MS, promise: promise as any });
+        const promise = producer().finally(() => PackageService.inFlight.delete(key));
+        PackageService.inFlight.set(key, promise);
         return promise;
     }
+
+    /**
+     * Drop cached packages after prices change outside the database triggers (e.g. for the in-memory store)
+     */
+    static invalidateCache(filter?: PackageCacheInvalidation): Promise<number> {
+        return getPackageCacheStore().invalidate(filter);
+    }
+
+    private stateMachine = new PackageBookingStateMachine();
+    private revisions = new PackageRevisionService();
+    private quotes = new PackageQuoteService();
+    private schedules = new DayScheduleService();
+    private closures = new RouteClosureService();
+
     private get db(): SupabaseClient {
         return getDB();
     }
 
-    async generate(req: GeneratePackageRequest, userId?: string): Promise<PackageGenerationResult> {
+    /**
+     * @desc Generate and save a package. Generated content is shared through the package cache (per price bucket TTL);
+     * every caller still gets its own saved package, except identical concurrent calls from the same user.
+     */
+    async generate(req: GeneratePackageRequest, userId?: string, onProgress?: GenerationProgressListener): Promise<PackageGenerationResult> {
         // Build cache key based on request params
-        const destinationIds = (req.destinationIds || []).filter(Boolean);
-        const people = Math.max(1, Number(req.people || 1));
+        const stops = this.resolveStops(req);
+        const people = headcount(resolveTravellers(req));
+        const rooms = resolveRoomPlan(req);
         const startDate = this.resolveStartDate(req.startDate);
-        
-        // Ensure strictly ordered for cache key consistency
-        const sortedIds = [...destinationIds].sort();
 
-        const cacheKey = PackageService.buildCacheKey({ destinations: sortedIds, startDate, people, bucket: req.priceBucket });
-        
-        return await PackageService.withDedupe(cacheKey, async () => {
-            const result = await this.generatePackageContent(req);
+        const cacheKey = PackageService.buildCacheKey({ stops, startDate, people, rooms, bucket: req.priceBucket, activities: req.activities, includeCommonAttractions: req.includeCommonAttractions, optimizeRoute: req.optimizeRoute, enforceAcclimatization: req.enforceAcclimatization, maxTotal: PackageBudgetService.resolveMaxTotal({ ...req, people }) });
+
+        return await PackageService.withDedupe(`${cacheKey}:${userId || 'anonymous'}`, async () => {
+            const result = await this.getCachedContent(cacheKey, req, stops, onProgress);
             
             // Persist the generated package for future retrieval
             try {
@@ -64,233 +100,393 @@ export class PackageService {
         });
     }
 
-    private async generatePackageContent(req: GeneratePackageRequest): Promise<PackageGenerationResult> {
-        const destinationIds = (req.destinationIds || []).filter(Boolean);
-        if (destinationIds.length === 0) {
-            throw new Error('destinationIds must be non-empty');
+    /**
+     * Cached content for the request, generating (once per process) on a miss. Always returns a private copy.
+     */
+    private async getCachedContent(cacheKey: string, req: GeneratePackageRequest, stops: PackageStop[], onProgress?: GenerationProgressListener): Promise<PackageGenerationResult> {
+        const store = getPackageCacheStore();
+        const cached = await store.get(cacheKey);
+        if (cached) {
+            console.log(`[PackageService] ${store.name} cache hit key=${cacheKey.slice(0,8)}...`);
+            return cached;
         }
 
-        const startDate = this.resolveStartDate(req.startDate);
-        const cabType = this.presuggestCabType(req.people);
-
-        const { data: destinations } = await this.db
-            .from('vw_destinations_public')
-            .select('id,name,slug,base_price,metadata,center_lat,center_lng,altitude_m')
-            .in('id', destinationIds);
-
-        const idToDestination = new Map((destinations || []).map((d: any) => [d.id, d]));
-        let ordered = destinationIds.filter((id) => idToDestination.has(id));
+        const content = await PackageService.withDedupe(`content:${cacheKey}`, async () => {
+            const generated = await this.generatePackageContent(req, onProgress);
+            await store.set(cacheKey, generated, getPackageCacheTtl(req.priceBucket), {
+                bucket: req.priceBucket,
+                destinationIds: Array.from(new Set(stops.map((s) => s.destinationId))),
+            });
+            return generated;
+        });
+        return JSON.parse(JSON.stringify(content));
+    }
 
-        // Ensure Srinagar (if present) is first in sequence
-        const srinagarId = ordered.find((id) => (idToDestination.get(id)?.slug || '').toLowerCase() === 'srinagar');
-        if (srinagarId && ordered[0] !== srinagarId) {
-            ordered = [srinagarId, ...ordered.filter((id) => id !== srinagarId)];
+    /**
+     * @desc Staged pipeline: destinations and route order, then every reference table in bulk, then hotel
+     * searches per stop and weather per destination under PackageService.GENERATION_CONCURRENCY, then assembly
+     * and the timed day schedules.
+     * Stage timings are returned in `meta.timings`; `onProgress` hears about each stage as it finishes.
+     */
+    async generatePackageContent(req: GeneratePackageRequest, onProgress: GenerationProgressListener = () => {}): Promise<PackageGenerationResult> {
+        const requestedStops = this.resolveStops(req);
+        if (requestedStops.length === 0) {
+            throw new Error('destinationIds or stops must be non-empty');
         }
 
-        // Price bucket components
-        const pricingRows = await this.fetchPricingBuckets(ordered, req.priceBucket);
-        const pricingMap = new Map<string, { accommodation_price: number; transport_price: number }>();
-        for (const r of pricingRows) {
-            // destination_id key
-            const id = (r as any).destination_id;
-            pricingMap.set(id, { accommodation_price: Number((r as any).accommodation_price || 0), transport_price: Number((r as any).transport_price || 0) });
-        }
-        const people = Math.max(1, Number(req.people || 1));
+        const timer = createStageTimer();
+        const concurrency = PackageService.GENERATION_CONCURRENCY;
+        const startDate = this.resolveStartDate(req.startDate);
+        const travellers = resolveTravellers(req);
+        const rooms = resolveRoomPlan(req);
+        const people = headcount(travellers);
+        const cabType = this.presuggestCabType(people);
+        const requestedIds = Array.from(new Set(requestedStops.map((s) => s.destinationId)));
+
+        // Stage 1: destinations and stop order
+        const { idToDestination, stops, routeOptimization, acclimatization } = await timer.run('destinations', async () => {
+            const { data: destinations } = await this.db
+                .from('vw_destinations_public')
+                .select('id,name,slug,base_price,metadata,center_lat,center_lng,altitude_m')
+                .in('id', requestedIds);
+
+            const idToDestination = new Map((destinations || []).map((d: any) => [d.id, d]));
+            let stops = requestedStops.filter((s) => idToDestination.has(s.destinationId));
+
+            // Ensure Srinagar (if present) is first in sequence
+            const srinagarStop = stops.find((s) => (idToDestination.get(s.destinationId)?.slug || '').toLowerCase() === 'srinagar');
+            let routeOptimization: RouteOptimizationSummary | undefined;
+            if (req.optimizeRoute) {
+                const options = typeof req.optimizeRoute === 'object' ? req.optimizeRoute : {};
+                const optimized = await new RouteOptimizerService().optimize(stops, {
+                    metric: options.metric,
+                    startDestinationId: options.startDestinationId || srinagarStop?.destinationId,
+                    endDestinationId: options.endDestinationId,
+                });
+                stops = this.mergeConsecutiveStops(optimized.stops);
+                routeOptimization = optimized.summary;
+            } else if (srinagarStop && stops[0] !== srinagarStop) {
+                stops = this.mergeConsecutiveStops([srinagarStop, ...stops.filter((s) => s !== srinagarStop)]);
+            }
+
+            // Altitude gain per night against the guidelines; optionally reorder and add rest nights to follow them
+            const guidelines = resolveAcclimatizationGuidelines();
+            const acclimatizer = new AcclimatizationService(guidelines);
+            let adjustments: AcclimatizationSummary['adjustments'] = [];
+            if (req.enforceAcclimatization) {
+                const keepLast = typeof req.optimizeRoute === 'object' && !!req.optimizeRoute.endDestinationId;
+                const enforced = acclimatizer.enforce(stops, idToDestination, startDate, { keepLast });
+                stops = this.mergeConsecutiveStops(enforced.stops);
+                adjustments = enforced.adjustments;
+            }
+            const acclimatization: AcclimatizationSummary = {
+                guidelines,
+                enforced: !!req.enforceAcclimatization,
+                warnings: acclimatizer.check(stops, idToDestination, startDate),
+                adjustments,
+            };
+            return { idToDestination, stops, routeOptimization, acclimatization };
+        });
+        const ordered = stops.map((s) => s.destinationId);
+        const totalNights = stops.reduce((sum, s) => sum + s.nights, 0);
+        onProgress({ stage: 'destinations', message: `Route set: ${ordered.map((id) => idToDestination.get(id)?.name).join(' → ')}`, data: { order: ordered, title: this.buildTitle(ordered, idToDestination) } });
+        const maxTotal = PackageBudgetService.resolveMaxTotal({ ...req, people });
 
         // Request meta log
         const rangeStart = toYmdUtc(new Date(startDate));
-        const rangeEnd = toYmdUtc(addUtcDays(new Date(startDate), Math.max(0, ordered.length - 1)));
-        console.log(`[PackageService] Generate: startDate=${rangeStart}, range=${rangeStart}..${rangeEnd}, destinations=${ordered.length}, people=${people}, bucket=${req.priceBucket}`);
+        const rangeEnd = toYmdUtc(addUtcDays(new Date(startDate), Math.max(0, totalNights - 1)));
+        console.log(`[PackageService] Generate: startDate=${rangeStart}, range=${rangeStart}..${rangeEnd}, stops=${stops.length}, nights=${totalNights}, people=${people}, rooms=${rooms.length}, bucket=${req.priceBucket}, concurrency=${concurrency}`);
+
+        // Stop calendar: check-in/out per stop and the date of every night
+        let dayOffset = 0;
+        const stays = stops.map((stop) => {
+            const checkInDate = addUtcDays(new Date(startDate), dayOffset);
+            const dayIndexes = Array.from({ length: stop.nights }, (_, n) => dayOffset + n);
+            dayOffset += stop.nights;
+            return { ...stop, checkInDate, dayIndexes, checkInISO: toYmdUtc(checkInDate), checkOutISO: toYmdUtc(addUtcDays(checkInDate, stop.nights)) };
+        });
 
-        const legs: PackageLeg[] = await this.buildLegs(ordered);
-        // Prepare containers
-        const amadeus = new AmadeusService();
-        const hotelSuggestionsByDay: Record<string, any[]> = {};
-        const accommodationCostsByDay: Record<string, number> = {};
+        // Stage 2: reference data, one query per table
+        const { pricingMap, legs, restaurantsByDest, autoAddedAttractions, optionalAttractions, cabSelection, availableCabs } = await timer.run('reference', async () => {
+            const [pricingRows, legs, restaurantsByDest, attractions, cabSelection, availableCabs] = await Promise.all([
+                this.fetchPricingBuckets(ordered, req.priceBucket),
+                // Each leg is driven on the check-in day of the next stop
+                this.buildLegs(ordered, stays.slice(1).map((s) => s.checkInISO)),
+                // Restaurants top 3 by rating per destination and aligned with bucket
+                this.fetchTopRestaurants(requestedIds, req.priceBucket),
+                // Common attractions
+                req.includeCommonAttractions
+                    ? this.fetchAttractions(requestedIds)
+                    : Promise.resolve({ autoAddedAttractions: {}, optionalAttractions: {} } as { autoAddedAttractions: Record<string, any[]>; optionalAttractions: Record<string, any[]> }),
+                this.selectCab(req.priceBucket, people),
+                // Available cabs for UI switching (capacity >= people, available)
+                this.fetchAvailableCabs(people),
+            ]);
+            const pricingMap = new Map<string, { accommodation_price: number; transport_price: number }>();
+            for (const r of pricingRows) {
+                pricingMap.set((r as any).destination_id, { accommodation_price: Number((r as any).accommodation_price || 0), transport_price: Number((r as any).transport_price || 0) });
+            }
+            return { pricingMap, legs, restaurantsByDest, ...attractions, cabSelection, availableCabs };
+        });
+        onProgress({ stage: 'reference', message: 'Prices, restaurants and attractions loaded' });
 
-        // Restaurants top 3 by rating per destination and aligned with bucket
-        const restaurantsByDest = await this.fetchTopRestaurants(ordered, req.priceBucket);
+        // Stage 3: hotels per stop and weather per destination, bounded together so Amadeus and Tomorrow.io are not flooded
+        const amadeus = new AmadeusService();
+        const [stayHotels, weatherByDay] = await Promise.all([
+            timer.run('hotels', () =>
+                mapWithConcurrency(stays, concurrency, async (stay, stopIndex) => {
+                    const found = await this.findStayHotel(amadeus, idToDestination.get(stay.destinationId), stay, {
+                        rooms,
+                        priceBucket: req.priceBucket,
+                        accommodationCap: pricingMap.get(stay.destinationId)?.accommodation_price || 0,
+                        collectAllOffers: maxTotal !== undefined,
+                    });
+                    const first = stay.dayIndexes[0] + 1;
+                    const last = stay.dayIndexes[stay.dayIndexes.length - 1] + 1;
+                    onProgress({
+                        stage: 'hotels',
+                        message: `${found.selectedHotel ? 'Hotels' : 'No hotel offers'} for day ${first === last ? first : `${first}-${last}`} ${found.selectedHotel ? 'found' : 'available'}`,
+                        data: { stopIndex, dayIndexes: stay.dayIndexes, hotel: found.selectedHotel, stops: stays.length },
+                    });
+                    return found;
+                })
+            ),
+            timer.run('weather', () =>
+                this.fetchWeatherForDays(
+                    stays.flatMap((stay) =>
+                        Array.from({ length: stay.nights }, (_, night) => ({ destinationId: stay.destinationId, dateISO: toYmdUtc(addUtcDays(stay.checkInDate, night)) }))
+                    ),
+                    concurrency
+                ).then((weather) => {
+                    onProgress({ stage: 'weather', message: 'Weather attached' });
+                    return weather;
+                })
+            ),
+        ]);
 
-        // Common attractions
-        const { autoAddedAttractions, optionalAttractions } = req.includeCommonAttractions
-            ? await this.fetchAttractions(ordered)
-            : { autoAddedAttractions: {}, optionalAttractions: {} } as any;
+        // Stage 4: assemble days and prices
+        const result = await timer.run('assemble', async () => {
+            const days: DayPlan[] = [];
+            let activitiesTotal = 0;
+            let accommodationTotal = 0;
+            let transportDailyTotal = 0;
+            const weatherNullDays: Array<{ date: string; destinationId: string; reason: string }> = [];
+            for (let stopIndex = 0; stopIndex < stays.length; stopIndex++) {
+                const { destinationId: id, nights, checkInDate } = stays[stopIndex];
+                const { offers, selectedHotel, stayCost } = stayHotels[stopIndex];
+                const dest = idToDestination.get(id);
+                accommodationTotal += stayCost;
+
+                // Restaurants enriched
+                const richRestaurants = (restaurantsByDest[id] || []).map((r: any) => this.toRestaurantSuggestion(r));
+
+                // Activities enriched, spread across the nights of the stop
+                const stopActivities: any[] = (autoAddedAttractions[id] || []).map((a: any) => this.toActivity(a));
+
+                const destinationName = dest?.name || 'Unknown Destination';
+                for (let night = 0; night < nights; night++) {
+                    const dayIndex = days.length;
+                    const dayDate = addUtcDays(checkInDate, night);
+                    const dateISO = toYmdUtc(dayDate);
+                    const weather = weatherByDay.get(`${id}|${dateISO}`) ?? null;
+                    if (weather == null) {
+                        weatherNullDays.push({ date: dateISO, destinationId: id, reason: 'outside_5_day_forecast' });
+                    }
 
-        // Weather per day
-        const weatherService = new WeatherService();
-        const days: DayPlan[] = [];
-        let activitiesTotal = 0;
-        let accommodationTotal = 0;
-        let transportDailyTotal = 0;
-        const weatherNullDays: Array<{ date: string; destinationId: string; reason: string }> = [];
-        for (let i = 0; i < ordered.length; i++) {
-            const id = ordered[i];
-            const dayDate = addUtcDays(new Date(startDate), i);
-            const dateISO = toYmdUtc(dayDate);
-            const weather = await this.fetchWeatherForDate(weatherService, id, dateISO);
-            if (weather == null) {
-                weatherNullDays.push({ date: dateISO, destinationId: id, reason: 'outside_5_day_forecast' });
+                    const actObjs = stopActivities.filter((_, j) => j % nights === night);
+                    const activitiesCost = actObjs.reduce((s, a) => s + activityPrice(a, travellers), 0);
+                    activitiesTotal += activitiesCost;
+
+                    // Daily local transport cost from bucket
+                    const transportCost = (pricingMap.get(id)?.transport_price || 0) * people;
+                    transportDailyTotal += transportCost;
+
+                    days.push({
+                        date: dayDate.toISOString(),
+                        title: dayIndex === 0 ? 'Arrival & Check-in' : `Day ${dayIndex + 1} in ${destinationName}`,
+                        destinationId: id,
+                        destinationName,
+                        destinationAltitudeM: dest?.altitude_m ?? undefined,
+                        stopIndex,
+                        nightOfStay: night + 1,
+                        activities: actObjs,
+                        activitiesCost,
+                        hotel: selectedHotel ? { ...selectedHotel } : undefined,
+                        hotelOptions: offers, // raw return as requested
+                        restaurantSuggestions: richRestaurants,
+                        transportCost,
+                        weather,
+                    });
+                }
             }
 
-            // Hotel: check-in today, check-out next day, 2 per room
-            const dest = idToDestination.get(id);
-            const nextDate = addUtcDays(dayDate, 1);
-            const roomQuantity = Math.ceil(people / 2);
-            // Geocode-based hotels near destination center - try expanding radius if needed
-            const lat = Number(dest?.center_lat);
-            const lng = Number(dest?.center_lng);
-            const ratings = this.mapBucketToRatings(req.priceBucket);
-            
-            // First try 5km radius with rating filter
-            let nearby = await amadeus.searchHotelsByGeocode({ latitude: lat, longitude: lng, radius: 10, radiusUnit: 'KM', ratings, hotelSource: 'ALL' });
-            
-            // If few hotels found (less than 3), expand to 15km radius with same ratings
-            if (!nearby || nearby.length < 3) {
-                console.log(`[PackageService] Only ${nearby?.length || 0} hotels found in 5km, expanding to 15km`);
-                const expanded = await amadeus.searchHotelsByGeocode({ latitude: lat, longitude: lng, radius: 15, radiusUnit: 'KM', ratings, hotelSource: 'ALL' });
-                nearby = [...(nearby || []), ...(expanded || [])];
+            // cab costs on legs using selected cab
+            let cabTotal = 0;
+            for (const leg of legs) {
+                const km = Number(leg.distanceKm || 0);
+                const legCost = km * Number((cabSelection as any)?.base_price_per_km || 0);
+                leg.cabCost = legCost;
+                cabTotal += legCost;
             }
-            
-            // If still few hotels, try without rating filter in 15km radius
-            if (!nearby || nearby.length < 5) {
-                console.log(`[PackageService] Only ${nearby?.length || 0} hotels found with ratings, removing rating filter`);
-                const unfiltered = await amadeus.searchHotelsByGeocode({ latitude: lat, longitude: lng, radius: 15, radiusUnit: 'KM', ratings: [], hotelSource: 'ALL' });
-                nearby = [...(nearby || []), ...(unfiltered || [])];
-            }
-            
-            // Remove duplicates based on hotelId
-            const uniqueHotels = nearby?.filter((hotel, index, self) => 
-                index === self.findIndex(h => h.hotelId === hotel.hotelId)
-            ) || [];
-            
-            const sortedNearby = uniqueHotels.sort((a: any, b: any) => (a.distanceKm || 0) - (b.distanceKm || 0));
-            const topHotelIds = sortedNearby.slice(0, 15).map((h: any) => h.hotelId).filter(Boolean);
-            
-            console.log(`[PackageService] Found ${topHotelIds.length} hotels for ${dest?.name}: ${topHotelIds.join(', ')}`);
 
-            // Fetch offers for the shortlist - try in batches if needed
-            const boardType = req.priceBucket === 'budget_conscious' ? 'ROOM_ONLY' : 'BREAKFAST';
-            const priceCap = pricingMap.get(id)?.accommodation_price || 0;
-            const priceRange = this.buildPriceRangeForBucket(req.priceBucket, priceCap);
-            
-            let offers: any[] = [];
-            if (topHotelIds.length > 0) {
-                // Try hotels in batches of 5 to avoid overwhelming the API
-                for (let batchStart = 0; batchStart < topHotelIds.length && offers.length === 0; batchStart += 5) {
-                    const batchIds = topHotelIds.slice(batchStart, batchStart + 5);
-                    console.log(`[PackageService] Trying hotel batch: ${batchIds.join(', ')}`);
-                    
-                    const batchOffers = await amadeus.getHotelOffers({
-                        hotelIds: batchIds,
-                        adults: people,
-                        checkInDate: dateISO,
-                        checkOutDate: toYmdUtc(nextDate),
-                        roomQuantity: 1,
-                        priceRange,
-                        currency: 'INR',
-                        boardType: boardType as any,
-                        includeClosed: false,
-                        bestRateOnly: true,
-                        lang: 'EN'
-                    });
-                    
-                    if (batchOffers && batchOffers.length > 0) {
-                        offers = batchOffers;
-                        console.log(`[PackageService] Found ${offers.length} offers in batch`);
-                        break;
-                    }
-                }
-            }
+            const result: PackageGenerationResult = {
+                title: this.buildTitle(ordered, idToDestination),
+                startDate,
+                people,
+                travellers,
+                rooms,
+                cabType,
+                totalBasePrice: accommodationTotal + transportDailyTotal + activitiesTotal + cabTotal,
+                perPersonPrice: (accommodationTotal + transportDailyTotal + activitiesTotal + cabTotal) / payingTravellers(travellers),
+                days,
+                legs,
+                currency: 'INR',
+                cabSelection: cabSelection ? { id: (cabSelection as any).id, type: cabType, estimatedCost: cabTotal } : { type: cabType, estimatedCost: cabTotal },
+                optionalAttractions: Object.values(optionalAttractions).flat().map((a: any) => ({ poiId: a.id, name: a.name, price: a.poi_pricing?.base_price ? Number(a.poi_pricing.base_price) : undefined })),
+                breakdown: { accommodation: accommodationTotal, transport: transportDailyTotal, activities: activitiesTotal, cab: cabTotal },
+                meta: { weatherNullDays, ...(routeOptimization ? { routeOptimization } : {}), acclimatization },
+                quoteValidUntil: PackageQuoteService.nextQuoteValidUntil(),
+                availableCabs,
+            };
+            return result;
+        });
+        onProgress({ stage: 'assemble', message: 'Itinerary assembled', data: { totalBasePrice: result.totalBasePrice } });
 
-            hotelSuggestionsByDay[dateISO + ':' + id] = offers; // raw return as requested
-            // pick cheapest across hotels
-            const pick = (offers || []).map((o: any) => ({
-                offer: o,
-                price: Number(o?.offers?.[0]?.price?.total || o?.offers?.[0]?.price?.base || 0)
-            }))
-            .filter((x: any) => x.price > 0)
-            .sort((a: any, b: any) => a.price - b.price)[0];
-            const accommodationCost = pick?.price || 0;
-            const selectedHotel = pick?.offer ? {
-                name: pick.offer?.hotel?.name,
-                rating: undefined,
-                address: undefined,
-                price: accommodationCost,
-                currency: pick.offer?.offers?.[0]?.price?.currency,
-                checkInDate: dateISO,
-                checkOutDate: toYmdUtc(nextDate),
-                roomQuantity: 1,
-                hotelId: pick.offer?.hotel?.hotelId,
-                latitude: pick.offer?.hotel?.latitude,
-                longitude: pick.offer?.hotel?.longitude,
-            } : null;
-            accommodationCostsByDay[dateISO + ':' + id] = accommodationCost;
-            accommodationTotal += accommodationCost;
-
-            // Restaurants enriched
-            const richRestaurants = (restaurantsByDest[id] || []).map((r: any) => ({ id: r.id, name: r.name, price_range: r.price_range, special_delicacies: r.special_delicacies, average_rating: r.average_rating, veg_non_veg: r.veg_non_veg, cuisine_types: r.cuisine_types, description: r.description }));
-
-            // Activities enriched
-            const actObjs: any[] = (autoAddedAttractions[id] || []).map((a: any) => ({ poiId: a.id, name: a.name, pricing_type: a.poi_pricing?.pricing_type, base_price: a.poi_pricing?.base_price ? Number(a.poi_pricing.base_price) : undefined, metadata: a.poi_pricing?.metadata }));
-            const activitiesCost = actObjs.reduce((s, a) => {
-                if (!a.base_price || a.pricing_type === 'free') return s;
-                if (a.pricing_type === 'per_person') return s + a.base_price * people;
-                return s + a.base_price;
-            }, 0);
-            activitiesTotal += activitiesCost;
-
-            // Daily local transport cost from bucket
-            const transportCost = (pricingMap.get(id)?.transport_price || 0) * people;
-            transportDailyTotal += transportCost;
+        if (maxTotal !== undefined) {
+            result.meta!.budget = await timer.run('budget', () => new PackageBudgetService().fit(result, maxTotal));
+            onProgress({ stage: 'budget', message: result.meta!.budget.withinBudget ? 'Fitted to budget' : 'Budget cannot be met', data: result.meta!.budget });
+        }
 
-            const destinationName = dest?.name || 'Unknown Destination';
-            days.push({
-                date: dayDate.toISOString(),
-                title: i === 0 ? 'Arrival & Check-in' : `Day ${i + 1} in ${destinationName}`,
-                destinationId: id,
-                destinationName,
-                destinationAltitudeM: dest?.altitude_m ?? undefined,
-                activities: actObjs,
-                activitiesCost,
-                hotel: selectedHotel || undefined,
-                hotelOptions: hotelSuggestionsByDay[dateISO + ':' + id] || [],
-                restaurantSuggestions: richRestaurants,
-                transportCost,
-                weather,
-            });
+        // Timed schedule per day, after the budget fit has settled the activities
+        await timer.run('schedule', () => this.schedules.attach(result.days, result.legs));
+
+        result.meta!.timings = { ...timer.summary(), concurrency };
+        console.log(`[PackageService] Generated in ${result.meta!.timings.totalMs}ms: ${result.meta!.timings.stages.map((s) => `${s.stage}=${s.ms}ms`).join(', ')}`);
+        return result;
+    }
+
+    /**
+     * Hotel search for one stay (multi-night check-in/check-out), priced for the whole room plan.
+     * Picks the cheapest offer from the first batch that returns any.
+     */
+    private async findStayHotel(
+        amadeus: AmadeusService,
+        dest: any,
+        stay: { nights: number; checkInISO: string; checkOutISO: string },
+        options: { rooms: RoomOccupancy[]; priceBucket: PriceBucket; accommodationCap: number; collectAllOffers: boolean }
+    ): Promise<{ offers: any[]; selectedHotel: HotelOption | null; stayCost: number }> {
+        const { nights, checkInISO, checkOutISO } = stay;
+        // Geocode-based hotels near destination center - try expanding radius if needed
+        const lat = Number(dest?.center_lat);
+        const lng = Number(dest?.center_lng);
+        const ratings = this.mapBucketToRatings(options.priceBucket);
+
+        // First try 10km radius with rating filter
+        let nearby = await amadeus.searchHotelsByGeocode({ latitude: lat, longitude: lng, radius: 10, radiusUnit: 'KM', ratings, hotelSource: 'ALL' });
+
+        // If few hotels found (less than 3), expand to 15km radius with same ratings
+        if (!nearby || nearby.length < 3) {
+            console.log(`[PackageService] Only ${nearby?.length || 0} hotels found in 10km, expanding to 15km`);
+            const expanded = await amadeus.searchHotelsByGeocode({ latitude: lat, longitude: lng, radius: 15, radiusUnit: 'KM', ratings, hotelSource: 'ALL' });
+            nearby = [...(nearby || []), ...(expanded || [])];
         }
 
-        // cab costs on legs using selected cab
-        const cabSelection = await this.selectCab(req.priceBucket, people);
-        let cabTotal = 0;
-        for (const leg of legs) {
-            const km = Number(leg.distanceKm || 0);
-            const legCost = km * Number((cabSelection as any)?.base_price_per_km || 0);
-            leg.cabCost = legCost;
-            cabTotal += legCost;
+        // If still few hotels, try without rating filter in 15km radius
+        if (!nearby || nearby.length < 5) {
+            console.log(`[PackageService] Only ${nearby?.length || 0} hotels found with ratings, removing rating filter`);
+            const unfiltered = await amadeus.searchHotelsByGeocode({ latitude: lat, longitude: lng, radius: 15, radiusUnit: 'KM', ratings: [], hotelSource: 'ALL' });
+            nearby = [...(nearby || []), ...(unfiltered || [])];
         }
 
-        // Available cabs for UI switching (capacity >= people, available)
-        const availableCabs = await this.fetchAvailableCabs(people);
+        // Remove duplicates based on hotelId
+        const uniqueHotels = nearby?.filter((hotel, index, self) =>
+            index === self.findIndex(h => h.hotelId === hotel.hotelId)
+        ) || [];
+
+        const sortedNearby = uniqueHotels.sort((a: any, b: any) => (a.distanceKm || 0) - (b.distanceKm || 0));
+        const topHotelIds = sortedNearby.slice(0, 15).map((h: any) => h.hotelId).filter(Boolean);
+
+        console.log(`[PackageService] Found ${topHotelIds.length} hotels for ${dest?.name}: ${topHotelIds.join(', ')}`);
+
+        // Fetch offers for the shortlist - try in batches if needed
+        const boardType = options.priceBucket === 'budget_conscious' ? 'ROOM_ONLY' : 'BREAKFAST';
+        const priceRange = this.buildPriceRangeForBucket(options.priceBucket, options.accommodationCap);
+
+        // With a budget every batch is fetched so cheaper offers are available in hotelOptions
+        let offers: any[] = [];
+        let primaryOffers: any[] = [];
+        // Try hotels in batches of 5 to avoid overwhelming the API
+        for (let batchStart = 0; batchStart < topHotelIds.length && (options.collectAllOffers || offers.length === 0); batchStart += 5) {
+            const batchIds = topHotelIds.slice(batchStart, batchStart + 5);
+            console.log(`[PackageService] Trying hotel batch: ${batchIds.join(', ')}`);
+
+            const batchOffers = await amadeus.getHotelOffersForRooms({
+                hotelIds: batchIds,
+                rooms: options.rooms,
+                checkInDate: checkInISO,
+                checkOutDate: checkOutISO,
+                priceRange,
+                currency: 'INR',
+                boardType: boardType as any,
+                includeClosed: false,
+                bestRateOnly: true,
+                lang: 'EN'
+            });
 
-        const result: PackageGenerationResult = {
-            title: this.buildTitle(ordered, idToDestination),
-            startDate,
-            people: req.people,
-            cabType,
-            totalBasePrice: accommodationTotal + transportDailyTotal + activitiesTotal + cabTotal,
-            perPersonPrice: (accommodationTotal + transportDailyTotal + activitiesTotal + cabTotal) / people,
-            days,
-            legs,
-            currency: 'INR',
-            cabSelection: cabSelection ? { id: (cabSelection as any).id, type: cabType, estimatedCost: cabTotal } : { type: cabType, estimatedCost: cabTotal },
-            optionalAttractions: Object.values(optionalAttractions).flat().map((a: any) => ({ poiId: a.id, name: a.name, price: a.poi_pricing?.base_price ? Number(a.poi_pricing.base_price) : undefined })),
-            breakdown: { accommodation: accommodationTotal, transport: transportDailyTotal, activities: activitiesTotal, cab: cabTotal },
-            meta: { weatherNullDays },
-            availableCabs,
-        };
-        
-        return result;
+            if (batchOffers && batchOffers.length > 0) {
+                if (!primaryOffers.length) primaryOffers = batchOffers;
+                offers = [...offers, ...batchOffers];
+                console.log(`[PackageService] Found ${batchOffers.length} offers in batch`);
+            }
+        }
+
+        // pick cheapest across the first batch with offers; offer totals cover the whole stay
+        const pick = primaryOffers.map((o: any) => ({
+            offer: o,
+            price: Number(o?.offers?.[0]?.price?.total || o?.offers?.[0]?.price?.base || 0)
+        }))
+        .filter((x: any) => x.price > 0)
+        .sort((a: any, b: any) => a.price - b.price)[0];
+        const stayCost = pick?.price || 0;
+        const selectedHotel: HotelOption | null = pick?.offer ? {
+            name: pick.offer?.hotel?.name,
+            rating: undefined,
+            address: undefined,
+            price: stayCost / nights,
+            currency: pick.offer?.offers?.[0]?.price?.currency,
+            checkInDate: checkInISO,
+            checkOutDate: checkOutISO,
+            roomQuantity: options.rooms.length,
+            nights,
+            hotelId: pick.offer?.hotel?.hotelId,
+            latitude: pick.offer?.hotel?.latitude,
+            longitude: pick.offer?.hotel?.longitude,
+        } : null;
+        return { offers, selectedHotel, stayCost };
+    }
+
+    /**
+     * Normalize the request into ordered stops. `stops` wins over the legacy `destinationIds`,
+     * where each entry counts as one night.
+     */
+    private resolveStops(req: GeneratePackageRequest): PackageStop[] {
+        const raw: PackageStop[] = Array.isArray(req.stops) && req.stops.length
+            ? req.stops.map((s) => ({ destinationId: s?.destinationId, nights: Math.max(1, Math.floor(Number(s?.nights || 1))) }))
+            : (req.destinationIds || []).map((id) => ({ destinationId: id, nights: 1 }));
+        return this.mergeConsecutiveStops(raw.filter((s) => !!s.destinationId));
+    }
+
+    private mergeConsecutiveStops(stops: PackageStop[]): PackageStop[] {
+        const merged: PackageStop[] = [];
+        for (const stop of stops) {
+            const last = merged[merged.length - 1];
+            if (last && last.destinationId === stop.destinationId) {
+                last.nights += stop.nights;
+            } else {
+                merged.push({ ...stop });
+            }
+        }
+        return merged;
     }
 
     private resolveStartDate(start?: string): string {
@@ -314,25 +510,33 @@ export class PackageService {
         return data || [];
     }
 
-    private async buildLegs(ordered: string[]): Promise<PackageLeg[]> {
+    /**
+     * Legs between consecutive stops from the distance matrix. With `travelDates` (the check-in date of each next
+     * stop) road closures on those dates are applied: closed legs are rerouted or the itinerary is rejected.
+     */
+    private async buildLegs(ordered: string[], travelDates?: string[]): Promise<PackageLeg[]> {
+        if (ordered.length < 2) return [];
+        const { data } = await this.db
+            .from('destination_distance_matrix')
+            .select('origin_id,destination_id,distance_km,duration_minutes')
+            .in('origin_id', ordered.slice(0, -1))
+            .in('destination_id', ordered.slice(1));
+        const matrix = new Map((data || []).map((row: any) => [`${row.origin_id}|${row.destination_id}`, row]));
+
         const legs: PackageLeg[] = [];
         for (let i = 0; i < ordered.length - 1; i++) {
             const origin = ordered[i];
             const dest = ordered[i + 1];
-            const { data } = await this.db
-                .from('destination_distance_matrix')
-                .select('distance_km,duration_minutes')
-                .eq('origin_id', origin)
-                .eq('destination_id', dest)
-                .maybeSingle();
+            const row: any = matrix.get(`${origin}|${dest}`);
             legs.push({
                 originId: origin,
                 destinationId: dest,
-                distanceKm: data?.distance_km ? Number(data.distance_km) : undefined,
-                durationMinutes: data?.duration_minutes || undefined,
+                distanceKm: row?.distance_km ? Number(row.distance_km) : undefined,
+                durationMinutes: row?.duration_minutes || undefined,
+                ...(travelDates?.[i] ? { date: travelDates[i] } : {}),
             });
         }
-        return legs;
+        return travelDates ? this.closures.applyToLegs(legs) : legs;
     }
 
     private async fetchTopRestaurants(ids: string[], bucket: PriceBucket) {
@@ -341,94 +545,94 @@ export class PackageService {
             optimal: 'mid_range',
             go_crazy: 'premium',
         };
+        const { data } = await this.db
+            .from('restaurants')
+            .select('id,destination_id,name,average_rating,total_ratings,price_range,special_delicacies,veg_non_veg,cuisine_types,description')
+            .in('destination_id', ids)
+            .eq('price_range', priceMap[bucket])
+            .order('average_rating', { ascending: false })
+            .order('total_ratings', { ascending: false });
         const out: Record<string, any[]> = {};
         for (const id of ids) {
-            const { data } = await this.db
-                .from('restaurants')
-                .select('id,name,average_rating,total_ratings,price_range,special_delicacies,veg_non_veg,cuisine_types,description')
-                .eq('destination_id', id)
-                .eq('price_range', priceMap[bucket])
-                .order('average_rating', { ascending: false })
-                .order('total_ratings', { ascending: false })
-                .limit(3);
-            out[id] = data || [];
+            out[id] = (data || []).filter((r: any) => r.destination_id === id).slice(0, 3);
         }
         return out;
     }
 
+    private toActivity(poi: any): ActivityWithPrice {
+        const pricing = poi.poi_pricing;
+        return {
+            poiId: poi.id,
+            name: poi.name,
+            pricing_type: pricing?.pricing_type,
+            base_price: pricing?.base_price ? Number(pricing.base_price) : undefined,
+            metadata: pricing?.metadata,
+            rating: poi.average_rating ?? undefined,
+            child_price: pricing?.child_price != null ? Number(pricing.child_price) : undefined,
+            child_max_age: pricing?.child_max_age ?? undefined,
+            infant_max_age: pricing?.infant_max_age ?? undefined,
+        };
+    }
+
+    private toRestaurantSuggestion(r: any) {
+        return { id: r.id, name: r.name, price_range: r.price_range, special_delicacies: r.special_delicacies, average_rating: r.average_rating, veg_non_veg: r.veg_non_veg, cuisine_types: r.cuisine_types, description: r.description };
+    }
+
     private async fetchAttractions(ids: string[]) {
         const autoAdded: Record<string, any[]> = {};
         const optional: Record<string, any[]> = {};
+        const { data } = await this.db
+            .from('pois')
+            .select('id,destination_id,name,average_rating,poi_pricing:poi_pricing(base_price,is_purchasable,pricing_type,metadata,child_price,child_max_age,infant_max_age)')
+            .in('destination_id', ids);
         for (const id of ids) {
-            const { data } = await this.db
-                .from('pois')
-                .select('id,name,average_rating,poi_pricing:poi_pricing(base_price,is_purchasable,pricing_type,metadata)')
-                .eq('destination_id', id);
-            const purchasable = (data || []).filter((p: any) => p.poi_pricing?.is_purchasable);
+            const purchasable = (data || []).filter((p: any) => p.destination_id === id && p.poi_pricing?.is_purchasable);
             autoAdded[id] = purchasable.sort((a: any, b: any) => (b.average_rating || 0) - (a.average_rating || 0)).slice(0, 3);
             optional[id] = purchasable.filter((p: any) => !autoAdded[id].find((a: any) => a.id === p.id));
         }
         return { autoAddedAttractions: autoAdded, optionalAttractions: optional };
     }
 
-    private async fetchWeatherForDate(weatherService: WeatherService, destinationId: string, dateISO: string) {
-        try {
-            console.log(`[PackageService] Checking weather cache for ${dateISO}...`);
-            
-            // First, check what dates exist in the database for this destination
-            const { data: allSnapshots } = await this.db
-                .from('weather_snapshots')
-                .select('snapshot_date')
-                .eq('destination_id', destinationId)
-                .order('snapshot_date', { ascending: true });
-            
-            if (allSnapshots && allSnapshots.length > 0) {
-                const dates = allSnapshots.map((s: any) => s.snapshot_date).join(', ');
-                console.log(`[PackageService] Existing weather snapshots for destination: ${dates}`);
-            } else {
-                console.log(`[PackageService] No weather snapshots found in database for this destination`);
-            }
-            
+    /**
+     * Daily weather for every (destination, date) of the trip keyed by `destinationId|YYYY-MM-DD`.
+     * Cached snapshots are read in one query; destinations with gaps refresh their forecast window once each.
+     * Dates outside the forecast window stay null.
+     */
+    private async fetchWeatherForDays(wanted: Array<{ destinationId: string; dateISO: string }>, concurrency: number): Promise<Map<string, any>> {
+        const out = new Map<string, any>();
+        if (!wanted.length) return out;
+        const dates = wanted.map((w) => w.dateISO).sort();
+
+        const load = async (destinationIds: string[]) => {
             const { data, error } = await this.db
                 .from('weather_snapshots')
-                .select('mapped,snapshot_date,is_final')
-                .eq('destination_id', destinationId)
-                .eq('snapshot_date', dateISO)
-                .maybeSingle();
-            
-            if (error) {
-                console.error(`[PackageService] Error fetching weather for ${dateISO}:`, error);
-            }
-            
-            if (data && (data as any).mapped?.daily?.length) {
-                console.log(`[PackageService] ✓ Weather data found in cache for ${dateISO}`);
-                return (data as any).mapped.daily[0] || null;
+                .select('destination_id,snapshot_date,mapped')
+                .in('destination_id', destinationIds)
+                .gte('snapshot_date', dates[0])
+                .lte('snapshot_date', dates[dates.length - 1]);
+            if (error) console.error('[PackageService] Error fetching weather snapshots:', error.message);
+            for (const row of data || []) {
+                const daily = (row as any).mapped?.daily?.[0];
+                if (daily) out.set(`${(row as any).destination_id}|${(row as any).snapshot_date}`, daily);
             }
-            
-            // Populate efficiently using full forecast window (saves next ~5 days in one call)
-            console.log(`[PackageService] Weather data not found for ${dateISO}, fetching full forecast window...`);
-            await weatherService.fetchAndStoreForDestination(destinationId, false);
-            
-            const { data: after, error: afterError } = await this.db
-                .from('weather_snapshots')
-                .select('mapped')
-                .eq('destination_id', destinationId)
-                .eq('snapshot_date', dateISO)
-                .maybeSingle();
-            
-            if (afterError) {
-                console.error(`[PackageService] Error fetching weather after save for ${dateISO}:`, afterError);
-            } else if (after) {
-                console.log(`[PackageService] ✓ Weather data saved and retrieved for ${dateISO}`);
-            } else {
-                console.warn(`[PackageService] ⚠ Weather data not found after save for ${dateISO}`);
+        };
+
+        await load(Array.from(new Set(wanted.map((w) => w.destinationId))));
+        const missing = Array.from(new Set(wanted.filter((w) => !out.has(`${w.destinationId}|${w.dateISO}`)).map((w) => w.destinationId)));
+        if (!missing.length) return out;
+
+        // Populate efficiently using full forecast window (saves next ~5 days in one call)
+        console.log(`[PackageService] Weather missing for ${missing.length} destination(s), fetching forecast windows...`);
+        const weatherService = new WeatherService();
+        await mapWithConcurrency(missing, concurrency, async (destinationId) => {
+            try {
+                await weatherService.fetchAndStoreForDestination(destinationId, false);
+            } catch (err: any) {
+                console.error(`[PackageService] Error fetching weather for ${destinationId}:`, err.message);
             }
-            
-            return (after as any)?.mapped?.daily?.[0] || null;
-        } catch (err: any) {
-            console.error(`[PackageService] Error in fetchWeatherForDate for ${dateISO}:`, err.message, err);
-            return null;
-        }
+        });
+        await load(missing);
+        return out;
     }
 
     private filterHotelsByBucket(hotels: any[], bucket: PriceBucket) {
@@ -554,6 +758,22 @@ export class PackageService {
                 }))
         );
 
+        const storedRequest: GeneratePackageRequest = {
+            destinationIds: req.destinationIds,
+            stops: this.resolveStops(req),
+            people: req.people,
+            travellers: req.travellers,
+            rooms: req.rooms,
+            priceBucket: req.priceBucket,
+            activities: req.activities,
+            includeCommonAttractions: req.includeCommonAttractions,
+            startDate: req.startDate,
+            optimizeRoute: req.optimizeRoute,
+            maxTotalBudget: req.maxTotalBudget,
+            maxPerPersonBudget: req.maxPerPersonBudget,
+            enforceAcclimatization: req.enforceAcclimatization,
+        };
+
         // 1) Save packages row
         const { data: pkgRow, error: pkgErr } = await this.db
             .from('packages')
@@ -561,25 +781,23 @@ export class PackageService {
                 title: pkg.title,
                 start_date: pkg.startDate,
                 people: pkg.people,
+                travellers: pkg.travellers ?? null,
+                room_plan: pkg.rooms ?? null,
                 cab_type: pkg.cabType,
                 total_base_price: pkg.totalBasePrice,
                 per_person_price: pkg.perPersonPrice,
                 currency: pkg.currency,
+                cab_id: pkg.cabSelection?.id ?? null,
+                quote_valid_until: pkg.quoteValidUntil ?? PackageQuoteService.nextQuoteValidUntil(),
                 user_id: userId || null, // Save user_id if user is authenticated (even if not verified)
-                request: {
-                    destinationIds: req.destinationIds,
-                    people: req.people,
-                    priceBucket: req.priceBucket,
-                    activities: req.activities,
-                    includeCommonAttractions: req.includeCommonAttractions,
-                    startDate: req.startDate,
-                },
+                request: storedRequest,
                 breakdown: pkg.breakdown || {},
                 meta: {
                     ...(pkg.meta || {}),
                     ...(req.clonedFrom ? { clonedFrom: req.clonedFrom } : {})
                 },
                 available_cabs: pkg.availableCabs || [],
+                optional_attractions: pkg.optionalAttractions || [],
                 destination_ids: destinationIds,
                 activities_refs: activitiesRefs,
                 restaurant_refs: restaurantRefs,
@@ -598,6 +816,9 @@ export class PackageService {
                 distance_km: l.distanceKm ?? null,
                 duration_minutes: l.durationMinutes ?? null,
                 cab_cost: (l as any).cabCost ?? null,
+                travel_date: l.date ?? null,
+                via_destination_ids: l.viaDestinationIds ?? [],
+                notices: l.notices ?? [],
             }));
             const { error: legsErr } = await this.db.from('package_legs').insert(legRows);
             if (legsErr) console.error('[PackageService] Failed to insert package legs:', legsErr.message);
@@ -620,27 +841,11 @@ export class PackageService {
         const weatherSnapshotIds: string[] = [];
         for (let i = 0; i < (pkg.days || []).length; i++) {
             const d = pkg.days[i];
-            const ymd = d.date.slice(0, 10);
             const weatherSnapshotId = d.weather ? await getWeatherSnapshotId(d.destinationId, d.date) : null;
             if (weatherSnapshotId) weatherSnapshotIds.push(weatherSnapshotId);
             const { data: dayRow, error: dayErr } = await this.db
                 .from('package_days')
-                .insert({
-                    package_id: packageId,
-                    day_index: i,
-                    date: ymd,
-                    title: d.title,
-                    destination_id: d.destinationId,
-                    destination_name: d.destinationName,
-                    destination_altitude_m: d.destinationAltitudeM ?? null,
-                    activities_cost: d.activitiesCost ?? null,
-                    transport_cost: d.transportCost ?? null,
-                    leg_transport_cost: d.legTransportCost ?? null,
-                    hotel: d.hotel ? (d.hotel as any) : null,
-                    hotel_options: d.hotelOptions ? (d.hotelOptions as any) : null,
-                    weather_snapshot_id: weatherSnapshotId,
-                    weather_daily: d.weather ? (d.weather as any) : null,
-                })
+                .insert(this.buildDayRow(packageId, i, d, weatherSnapshotId))
                 .select('id')
                 .maybeSingle();
             if (dayErr || !dayRow) {
@@ -696,14 +901,147 @@ export class PackageService {
             await this.db.from('packages').update({ weather_snapshot_ids: distinctWeatherIds }).eq('id', packageId);
         }
 
+        // 5) First revision, so later configuration changes can be diffed against the generated package
+        await this.recordRevision(packageId, { ...pkg, packageId, request: storedRequest }, { reason: 'generated', actorId: userId });
+
         return packageId;
     }
 
+    private buildDayRow(packageId: string, dayIndex: number, d: DayPlan, weatherSnapshotId: string | null) {
+        return {
+            package_id: packageId,
+            day_index: dayIndex,
+            date: d.date.slice(0, 10),
+            title: d.title,
+            destination_id: d.destinationId,
+            destination_name: d.destinationName,
+            destination_altitude_m: d.destinationAltitudeM ?? null,
+            stop_index: d.stopIndex ?? null,
+            night_of_stay: d.nightOfStay ?? null,
+            activities_cost: d.activitiesCost ?? null,
+            transport_cost: d.transportCost ?? null,
+            leg_transport_cost: d.legTransportCost ?? null,
+            hotel: d.hotel ? (d.hotel as any) : null,
+            hotel_options: d.hotelOptions ? (d.hotelOptions as any) : null,
+            weather_snapshot_id: weatherSnapshotId,
+            weather_daily: d.weather ? (d.weather as any) : null,
+        };
+    }
+
+    /**
+     * Rebuild a generation request from the one stored on a package row.
+     */
+    private restoreRequest(pkg: any, overrides: Partial<GeneratePackageRequest> = {}): GeneratePackageRequest {
+        const originalReq = (pkg.request as any) || {};
+        return {
+            destinationIds: originalReq.destinationIds || [],
+            stops: originalReq.stops,
+            people: originalReq.people || pkg.people || 1,
+            travellers: originalReq.travellers ?? pkg.travellers ?? undefined,
+            rooms: originalReq.rooms ?? pkg.room_plan ?? undefined,
+            priceBucket: originalReq.priceBucket || 'optimal',
+            activities: originalReq.activities || [],
+            includeCommonAttractions: originalReq.includeCommonAttractions ?? true,
+            optimizeRoute: originalReq.optimizeRoute,
+            maxTotalBudget: originalReq.maxTotalBudget,
+            maxPerPersonBudget: originalReq.maxPerPersonBudget,
+            enforceAcclimatization: originalReq.enforceAcclimatization,
+            ...overrides,
+        };
+    }
+
+    /**
+     * Update package configuration and record the result as a new revision
+     */
+    async updateConfiguration(packageId: string, config: UpdatePackageConfigurationRequest, actorId?: string): Promise<PackageGenerationResult> {
+        // Packages saved before revisions existed get their current state as the baseline first
+        if (!(await this.revisions.hasRevisions(packageId))) {
+            await this.recordRevision(packageId, await this.buildSnapshot(packageId), { reason: 'baseline' });
+        }
+
+        const result = await this.applyConfiguration(packageId, config);
+        await this.recordRevision(packageId, await this.buildSnapshot(packageId, result), { reason: 'configuration', actorId, change: config as Record<string, any> });
+        return result;
+    }
+
+    /**
+     * @desc Make sure the package price can still be honoured before taking payment (see
+     * PackageQuoteService.ensureValidQuote). A re-quote that was applied is recorded as a `requote` revision.
+     */
+    async ensureValidQuote(packageId: string, options: { acceptPriceChange?: boolean } = {}, actorId?: string): Promise<QuoteCheckResult> {
+        const result = await this.quotes.ensureValidQuote(packageId, options);
+        if (result.status !== 'price_changed' && result.priceChange) {
+            const { requoteId, oldTotal, newTotal, currency } = result.priceChange;
+            await this.recordRevision(packageId, await this.buildSnapshot(packageId), { reason: 'requote', actorId, change: { requoteId, oldTotal, newTotal, currency } });
+        }
+        return result;
+    }
+
+    /**
+     * @desc Put a package back to the state saved in `revision` (itinerary, prices, cab, request) and record that as
+     * a new revision, so the history stays append-only. Prices are restored as they were; if that quote has expired
+     * booking re-prices as usual.
+     */
+    async restoreRevision(packageId: string, revision: number, actorId?: string): Promise<PackageGenerationResult> {
+        const { data: pkg, error } = await this.db.from('packages').select('booking_status').eq('id', packageId).maybeSingle();
+        if (error) throw new BadRequestError(error.message);
+        if (!pkg) throw new NotFoundError('Package not found');
+        this.stateMachine.assertEditable(pkg.booking_status);
+
+        const { snapshot } = await this.revisions.get(packageId, revision);
+        const { error: updateErr } = await this.db
+            .from('packages')
+            .update({
+                title: snapshot.title,
+                start_date: snapshot.startDate,
+                people: snapshot.people,
+                travellers: snapshot.travellers ?? null,
+                room_plan: snapshot.rooms ?? null,
+                cab_type: snapshot.cabType,
+                cab_id: snapshot.cabSelection?.id ?? null,
+                total_base_price: snapshot.totalBasePrice,
+                per_person_price: snapshot.perPersonPrice,
+                currency: snapshot.currency,
+                breakdown: snapshot.breakdown || {},
+                available_cabs: snapshot.availableCabs || [],
+                quote_valid_until: snapshot.quoteValidUntil ?? null,
+                destination_ids: Array.from(new Set((snapshot.days || []).map((d) => d.destinationId))),
+                // A pending re-quote was computed for the configuration being replaced
+                meta: { ...(snapshot.meta || {}), pendingRequote: undefined },
+                ...(snapshot.request ? { request: snapshot.request } : {}),
+                ...(snapshot.is_public !== undefined ? { is_public: snapshot.is_public } : {}),
+            })
+            .eq('id', packageId);
+        if (updateErr) throw new BadRequestError(updateErr.message);
+        await this.replaceItinerary(packageId, snapshot.days || [], snapshot.legs || []);
+
+        const result = await this.getById(packageId);
+        await this.recordRevision(packageId, await this.buildSnapshot(packageId, result), { reason: 'restore', actorId, change: { restoredFrom: revision } });
+        return result;
+    }
+
+    private async buildSnapshot(packageId: string, content?: PackageGenerationResult): Promise<PackageRevisionSnapshot> {
+        const [{ stats, ...rest }, { data }] = await Promise.all([
+            content ? Promise.resolve(content) : this.getById(packageId),
+            this.db.from('packages').select('request').eq('id', packageId).maybeSingle(),
+        ]);
+        return { ...rest, request: (data as any)?.request ?? undefined };
+    }
+
+    // The change itself is already saved; a failed history write is logged rather than reported as a failed update
+    private async recordRevision(packageId: string, snapshot: PackageRevisionSnapshot, options: Parameters<PackageRevisionService['record']>[2]) {
+        try {
+            await this.revisions.record(packageId, snapshot, options);
+        } catch (e: any) {
+            console.error(`[PackageService] Failed to record revision for package ${packageId}:`, e?.message || e);
+        }
+    }
+
     /**
      * Update package configuration (Cab, Hotels) and recalculate prices
      */
-    async updateConfiguration(packageId: string, config: UpdatePackageConfigurationRequest): Promise<PackageGenerationResult> {
-        const { startDate, cabId, dayConfigurations, is_public } = config;
+    private async applyConfiguration(packageId: string, config: UpdatePackageConfigurationRequest): Promise<PackageGenerationResult> {
+        const { startDate, cabId, dayConfigurations, dayOperations, is_public } = config;
 
         // 1. Fetch package and verify status
         const { data: pkg, error: pkgErr } = await this.db
@@ -713,10 +1051,10 @@ export class PackageService {
             .single();
 
         if (pkgErr || !pkg) throw new Error('Package not found');
-        if (pkg.booking_status === 'booked') throw new Error('Cannot modify a booked package');
+        this.stateMachine.assertEditable(pkg.booking_status);
 
         // Handle simple is_public update if no other structural changes are requested
-        if (is_public !== undefined && !startDate && !cabId && (!dayConfigurations || dayConfigurations.length === 0)) {
+        if (is_public !== undefined && !startDate && !cabId && (!dayConfigurations || dayConfigurations.length === 0) && (!dayOperations || dayOperations.length === 0)) {
             const { error: updateErr } = await this.db
                 .from('packages')
                 .update({ is_public })
@@ -758,18 +1096,9 @@ export class PackageService {
         // 0. Handle Reschedule (Date Change) - Major Update
         if (config.startDate) {
             // Restore original request parameters
-            const originalReq = (pkg.request as any) || {};
             // If request definition is missing, we can't faithfully regenerate. 
             // Fallback to simple properties if necessary, but 'request' column is reliable in new packages.
-            
-            const regenerateReq: GeneratePackageRequest = {
-                destinationIds: originalReq.destinationIds || [],
-                people: originalReq.people || pkg.people || 1,
-                priceBucket: originalReq.priceBucket || 'optimal',
-                activities: originalReq.activities || [],
-                includeCommonAttractions: originalReq.includeCommonAttractions ?? true,
-                startDate: config.startDate, // Apply new date
-            };
+            const regenerateReq = this.restoreRequest(pkg, { startDate: config.startDate }); // Apply new date
 
             console.log(`[PackageService] Rescheduling package ${packageId} to ${config.startDate}`);
 
@@ -782,10 +1111,14 @@ export class PackageService {
                 title: newContent.title,
                 start_date: newContent.startDate,
                 people: newContent.people,
+                travellers: newContent.travellers ?? null,
+                room_plan: newContent.rooms ?? null,
                 cab_type: newContent.cabType,
                 total_base_price: newContent.totalBasePrice,
                 per_person_price: newContent.perPersonPrice,
                 currency: newContent.currency,
+                cab_id: newContent.cabSelection?.id ?? null,
+                quote_valid_until: newContent.quoteValidUntil, // fresh offers, fresh quote
                 request: regenerateReq, // update request with new date
                 breakdown: newContent.breakdown || {},
                 meta: newContent.meta || {},
@@ -794,100 +1127,8 @@ export class PackageService {
                 // We'll trust trigger/logic, or we could update activities_refs here too for completeness
             }).eq('id', packageId);
 
-            // 2. Overwrite Legs (Delete & Insert)
-            await this.db.from('package_legs').delete().eq('package_id', packageId);
-            if (newContent.legs && newContent.legs.length) {
-                const legRows = newContent.legs.map((l) => ({
-                    package_id: packageId,
-                    origin_id: l.originId,
-                    destination_id: l.destinationId,
-                    distance_km: l.distanceKm ?? null,
-                    duration_minutes: l.durationMinutes ?? null,
-                    cab_cost: (l as any).cabCost ?? null,
-                }));
-                await this.db.from('package_legs').insert(legRows);
-            }
-
-            // 3. Overwrite Days (Delete & Insert - Cascades to activities/restaurants)
-            await this.db.from('package_days').delete().eq('package_id', packageId);
-            await this.db.from('package_destinations').delete().eq('package_id', packageId);
-
-            for (let i = 0; i < (newContent.days || []).length; i++) {
-                const d = newContent.days[i];
-                const ymd = d.date.slice(0, 10);
-                
-                // Helper to lookup weather snapshot id for a given day/destination
-                const getWeatherSnapshotId = async (destinationId: string, isoDate: string): Promise<string | null> => {
-                    const ymd = isoDate.slice(0, 10);
-                    const { data, error } = await this.db.from('weather_snapshots').select('id').eq('destination_id', destinationId).eq('snapshot_date', ymd).maybeSingle();
-                    return (data as any)?.id ?? null;
-                };
-
-                const weatherSnapshotId = d.weather ? await getWeatherSnapshotId(d.destinationId, d.date) : null;
-                
-                const { data: dayRow } = await this.db
-                    .from('package_days')
-                    .insert({
-                        package_id: packageId,
-                        day_index: i,
-                        date: ymd,
-                        title: d.title,
-                        destination_id: d.destinationId,
-                        destination_name: d.destinationName,
-                        destination_altitude_m: d.destinationAltitudeM ?? null,
-                        activities_cost: d.activitiesCost ?? null,
-                        transport_cost: d.transportCost ?? null,
-                        leg_transport_cost: d.legTransportCost ?? null,
-                        hotel: d.hotel ? (d.hotel as any) : null,
-                        hotel_options: d.hotelOptions ? (d.hotelOptions as any) : null,
-                        weather_snapshot_id: weatherSnapshotId,
-                        weather_daily: d.weather ? (d.weather as any) : null,
-                    })
-                    .select('id')
-                    .single();
-                
-                if (dayRow) {
-                    const packageDayId = (dayRow as any).id;
-                    // destinations join
-                    await this.db.from('package_destinations').insert({ package_id: packageId, day_index: i, destination_id: d.destinationId });
-                    
-                    // Activities
-                    if (d.activities && d.activities.length) {
-                        const activityRows = d.activities
-                            .filter((a) => !!a.poiId)
-                            .map((a) => ({
-                                package_day_id: packageDayId,
-                                poi_id: a.poiId,
-                                name: a.name,
-                                pricing_type: a.pricing_type,
-                                base_price: a.base_price,
-                                metadata: a.metadata,
-                            }));
-                        if (activityRows.length) await this.db.from('package_day_activities').insert(activityRows);
-                    }
-                    // Restaurants
-                    if (d.restaurantSuggestions && d.restaurantSuggestions.length) {
-                         const restaurantRows = d.restaurantSuggestions
-                            .filter((r: any) => !!r.id)
-                            .map((r: any) => ({
-                                package_day_id: packageDayId,
-                                restaurant_id: r.id,
-                                name: r.name,
-                                suggestion: r,
-                            }));
-                        if (restaurantRows.length) await this.db.from('package_day_restaurants').insert(restaurantRows);
-                    }
-                }
-            }
-            
-            // Sync refs (duplicating logic for robustness)
-            const activitiesRefs = (newContent.days || []).flatMap((d, idx) =>
-                (d.activities || []).filter((a) => !!a.poiId).map((a) => ({ day_index: idx, destination_id: d.destinationId, poi_id: a.poiId, name: a.name }))
-            );
-             const restaurantRefs = (newContent.days || []).flatMap((d, idx) =>
-                (d.restaurantSuggestions || []).filter((r: any) => !!r.id).map((r: any) => ({ day_index: idx, destination_id: d.destinationId, restaurant_id: r.id, name: r.name }))
-            );
-            await this.db.from('packages').update({ activities_refs: activitiesRefs, restaurant_refs: restaurantRefs }).eq('id', packageId);
+            // 2. Overwrite legs, days and their nested rows
+            await this.replaceItinerary(packageId, newContent.days || [], newContent.legs || []);
 
             // Since we completely regenerated, we can return early or allow further minor tweaks? 
             // Usually valid to return here as subsequent tweaks (e.g. specific hotel swap) 
@@ -908,6 +1149,22 @@ export class PackageService {
             pkg.people = newContent.people;
             pkg.total_base_price = newContent.totalBasePrice;
             pkg.cab_type = newContent.cabType;
+            pkg.cab_id = newContent.cabSelection?.id ?? null;
+            pkg.start_date = newContent.startDate;
+            pkg.request = regenerateReq;
+            // The regenerated meta replaced the stored one (and with it any pending re-quote)
+            pkg.meta = newContent.meta || {};
+            updated = true;
+        }
+
+        // 1b. Structural day edits, applied after a reschedule so they work on the regenerated days
+        if (config.dayOperations && config.dayOperations.length > 0) {
+            pkg.breakdown = await this.applyDayOperations(pkg, config.dayOperations);
+
+            const { data: freshLegs } = await this.db.from('package_legs').select('*').eq('package_id', packageId).order('origin_id');
+            const { data: freshDays } = await this.db.from('package_days').select('*').eq('package_id', packageId).order('day_index', { ascending: true });
+            if (freshLegs) legs.splice(0, legs.length, ...freshLegs);
+            if (freshDays) days.splice(0, days.length, ...freshDays);
             updated = true;
         }
 
@@ -933,6 +1190,7 @@ export class PackageService {
 
                 if (cabInventory) {
                     pkg.cab_type = selectedCab.type;
+                    pkg.cab_id = config.cabId;
                     
                     let newCabTotal = 0;
                     for (const leg of legs || []) {
@@ -960,25 +1218,33 @@ export class PackageService {
                     const targetOffer = options.find((o: any) => o.hotel?.hotelId === dayConfig.hotelId);
 
                     if (targetOffer) {
-                        const price = Number(targetOffer.offers?.[0]?.price?.total || targetOffer.offers?.[0]?.price?.base || 0);
-                        const newHotel = {
-                            name: targetOffer.hotel?.name,
-                            // Preserve extra fields if needed or take from offer
-                            currency: targetOffer.offers?.[0]?.price?.currency,
-                            price: price,
-                            checkInDate: day.hotel?.checkInDate,
-                            checkOutDate: day.hotel?.checkOutDate,
-                            roomQuantity: day.hotel?.roomQuantity,
-                            hotelId: targetOffer.hotel?.hotelId,
-                            latitude: targetOffer.hotel?.latitude,
-                            longitude: targetOffer.hotel?.longitude,
-                        };
-                        day.hotel = newHotel;
-                        // Update day in DB
-                        await this.db.from('package_days').update({ hotel: newHotel }).eq('id', day.id);
+                        // Offers cover the whole stay, so the swap applies to every night of the same stop
+                        const nights = Number(day.hotel?.nights || 1);
+                        const stayDays = day.stop_index != null ? days.filter((d: any) => d.stop_index === day.stop_index) : [day];
+                        const price = Number(targetOffer.offers?.[0]?.price?.total || targetOffer.offers?.[0]?.price?.base || 0) / nights;
+                        for (const stayDay of stayDays) {
+                            const newHotel = {
+                                name: targetOffer.hotel?.name,
+                                // Preserve extra fields if needed or take from offer
+                                currency: targetOffer.offers?.[0]?.price?.currency,
+                                price: price,
+                                checkInDate: stayDay.hotel?.checkInDate,
+                                checkOutDate: stayDay.hotel?.checkOutDate,
+                                roomQuantity: stayDay.hotel?.roomQuantity,
+                                nights: stayDay.hotel?.nights,
+                                hotelId: targetOffer.hotel?.hotelId,
+                                latitude: targetOffer.hotel?.latitude,
+                                longitude: targetOffer.hotel?.longitude,
+                            };
+                            stayDay.hotel = newHotel;
+                            // Update day in DB
+                            await this.db.from('package_days').update({ hotel: newHotel }).eq('id', stayDay.id);
+                        }
                     }
                 }
-                // Recalculate total from current (potentially updated) hotel
+            }
+            // Recalculate total from current (potentially updated) hotels
+            for (const day of days || []) {
                 accommodationTotal += Number(day.hotel?.price || 0);
             }
             pkg.breakdown.accommodation = accommodationTotal;
@@ -1007,7 +1273,7 @@ export class PackageService {
                     if (dayConfig.activityIds.length > 0) {
                         const { data: pois } = await this.db
                             .from('pois')
-                            .select('id,name,poi_pricing:poi_pricing(base_price,pricing_type,metadata)')
+                            .select('id,name,poi_pricing:poi_pricing(base_price,pricing_type,metadata,child_price,child_max_age,infant_max_age)')
                             .in('id', dayConfig.activityIds);
                         
                         const poiMap = new Map((pois || []).map((p: any) => [p.id, p]));
@@ -1018,12 +1284,18 @@ export class PackageService {
                                 const pricing = (poi.poi_pricing as any);
                                 const basePrice = pricing?.base_price ? Number(pricing.base_price) : 0;
                                 const pricingType = pricing?.pricing_type || 'one_time';
-                                let cost = 0;
-                                if (pricingType === 'per_person') {
-                                    cost = basePrice * Number(pkg.people || 1);
-                                } else if (pricingType !== 'free') {
-                                    cost = basePrice; // one_time, rental, etc.
-                                }
+                                const cost = activityPrice(
+                                    {
+                                        poiId: poi.id,
+                                        name: poi.name,
+                                        pricing_type: pricingType,
+                                        base_price: basePrice,
+                                        child_price: pricing?.child_price != null ? Number(pricing.child_price) : undefined,
+                                        child_max_age: pricing?.child_max_age ?? undefined,
+                                        infant_max_age: pricing?.infant_max_age ?? undefined,
+                                    },
+                                    resolveTravellers({ people: pkg.people, travellers: pkg.travellers })
+                                );
                                 
                                 dailyActivitiesCost += cost;
 
@@ -1083,15 +1355,18 @@ export class PackageService {
                 Number(pkg.breakdown.cab || 0);
 
             pkg.total_base_price = total;
-            pkg.per_person_price = total / Number(pkg.people || 1);
+            pkg.per_person_price = total / payingTravellers(resolveTravellers({ people: pkg.people, travellers: pkg.travellers }));
 
             await this.db
                 .from('packages')
                 .update({
                     cab_type: pkg.cab_type,
+                    cab_id: pkg.cab_id ?? null,
                     breakdown: pkg.breakdown,
                     total_base_price: pkg.total_base_price,
                     per_person_price: pkg.per_person_price,
+                    // A re-quote computed for the previous configuration no longer applies
+                    ...(pkg.meta?.pendingRequote ? { meta: { ...pkg.meta, pendingRequote: undefined } } : {}),
                 })
                 .eq('id', packageId);
         }
@@ -1101,6 +1376,251 @@ export class PackageService {
     }
 
 
+    /**
+     * @desc Insert, remove, move or re-target days and rewrite the itinerary. Surviving days keep their activities and
+     * restaurants; a stay keeps its hotel (re-dated to its new nights) while any of its days survive. New days get the
+     * destination's top attractions not already in the trip, and stays left without a hotel are searched again.
+     * Returns the recomputed breakdown; the caller stores totals.
+     */
+    private async applyDayOperations(pkg: any, operations: DayOperation[]): Promise<NonNullable<PackageGenerationResult['breakdown']>> {
+        const packageId: string = pkg.id;
+        const current = await this.getById(packageId);
+        const req = this.restoreRequest(pkg);
+        const travellers = resolveTravellers({ people: pkg.people, travellers: pkg.travellers });
+        const people = headcount(travellers);
+        const rooms = pkg.room_plan ?? resolveRoomPlan(req);
+
+        // Working list of days; a slot without `day` is new content for its destination
+        const slots: Array<{ destinationId: string; day?: DayPlan }> = current.days.map((day) => ({ destinationId: day.destinationId, day }));
+        operations.forEach((op, i) => {
+            const index = (value: unknown, max: number) => {
+                const n = Number(value);
+                if (!Number.isInteger(n) || n < 0 || n > max) throw new BadRequestError(`dayOperations[${i}]: day index ${value} is out of range 0..${max}`);
+                return n;
+            };
+            switch (op.type) {
+                case 'insert':
+                    slots.splice(index(op.dayIndex, slots.length), 0, { destinationId: op.destinationId });
+                    break;
+                case 'remove':
+                    if (slots.length === 1) throw new BadRequestError(`dayOperations[${i}]: a package needs at least one day`);
+                    slots.splice(index(op.dayIndex, slots.length - 1), 1);
+                    break;
+                case 'move': {
+                    const [slot] = slots.splice(index(op.fromIndex, slots.length - 1), 1);
+                    slots.splice(index(op.toIndex, slots.length), 0, slot);
+                    break;
+                }
+                case 'change_destination': {
+                    const at = index(op.dayIndex, slots.length - 1);
+                    if (slots[at].destinationId !== op.destinationId) slots[at] = { destinationId: op.destinationId };
+                    break;
+                }
+                default:
+                    throw new BadRequestError(`dayOperations[${i}]: unknown type ${(op as any)?.type}`);
+            }
+        });
+
+        // Consecutive days in one destination form a stay
+        const stays: Array<{ destinationId: string; slots: typeof slots }> = [];
+        for (const slot of slots) {
+            const last = stays[stays.length - 1];
+            if (last && last.destinationId === slot.destinationId) last.slots.push(slot);
+            else stays.push({ destinationId: slot.destinationId, slots: [slot] });
+        }
+        const ordered = stays.map((s) => s.destinationId);
+        const destinationIds = Array.from(new Set(ordered));
+        const newDestinationIds = Array.from(new Set(slots.filter((s) => !s.day).map((s) => s.destinationId)));
+
+        let dayOffset = 0;
+        const stayPlans = stays.map((stay) => {
+            const checkInDate = addUtcDays(new Date(current.startDate), dayOffset);
+            const nights = stay.slots.length;
+            dayOffset += nights;
+            return { ...stay, nights, checkInDate, checkInISO: toYmdUtc(checkInDate), checkOutISO: toYmdUtc(addUtcDays(checkInDate, nights)) };
+        });
+
+        const [destinationsRes, pricingRows, legs, restaurantsByDest, attractions, cabRes] = await Promise.all([
+            this.db.from('vw_destinations_public').select('id,name,center_lat,center_lng,altitude_m').in('id', destinationIds),
+            this.fetchPricingBuckets(destinationIds, req.priceBucket),
+            this.buildLegs(ordered, stayPlans.slice(1).map((s) => s.checkInISO)),
+            this.fetchTopRestaurants(newDestinationIds, req.priceBucket),
+            req.includeCommonAttractions && newDestinationIds.length
+                ? this.fetchAttractions(newDestinationIds)
+                : Promise.resolve({ autoAddedAttractions: {} as Record<string, any[]> }),
+            pkg.cab_id ? this.db.from('cab_inventory').select('base_price_per_km').eq('id', pkg.cab_id).maybeSingle() : Promise.resolve({ data: null }),
+        ]);
+        const idToDestination = new Map((destinationsRes.data || []).map((d: any) => [d.id, d]));
+        const unknown = destinationIds.filter((id) => !idToDestination.has(id));
+        if (unknown.length) throw new BadRequestError(`Unknown destination(s): ${unknown.join(', ')}`);
+        const pricingMap = new Map((pricingRows as any[]).map((r) => [r.destination_id, { accommodation_price: Number(r.accommodation_price || 0), transport_price: Number(r.transport_price || 0) }]));
+
+        const amadeus = new AmadeusService();
+        const [stayHotels, weatherByDay] = await Promise.all([
+            mapWithConcurrency(stayPlans, PackageService.GENERATION_CONCURRENCY, async (stay) => {
+                const source = stay.slots.find((s) => s.day?.hotel)?.day;
+                if (source?.hotel) {
+                    return {
+                        hotel: { ...source.hotel, checkInDate: stay.checkInISO, checkOutDate: stay.checkOutISO, nights: stay.nights } as HotelOption,
+                        // Offer totals cover the original stay, so they only stay valid when its length is unchanged
+                        offers: Number(source.hotel.nights || 0) === stay.nights ? source.hotelOptions : undefined,
+                    };
+                }
+                const found = await this.findStayHotel(amadeus, idToDestination.get(stay.destinationId), stay, {
+                    rooms,
+                    priceBucket: req.priceBucket,
+                    accommodationCap: pricingMap.get(stay.destinationId)?.accommodation_price || 0,
+                    collectAllOffers: false,
+                });
+                return { hotel: found.selectedHotel ?? undefined, offers: found.offers };
+            }),
+            this.fetchWeatherForDays(
+                stayPlans.flatMap((stay) => stay.slots.map((_, night) => ({ destinationId: stay.destinationId, dateISO: toYmdUtc(addUtcDays(stay.checkInDate, night)) }))),
+                PackageService.GENERATION_CONCURRENCY
+            ),
+        ]);
+
+        const usedPoiIds = new Set(slots.flatMap((s) => (s.day?.activities || []).map((a) => a.poiId)));
+        const days: DayPlan[] = [];
+        stayPlans.forEach((stay, stopIndex) => {
+            const dest = idToDestination.get(stay.destinationId);
+            const destinationName = dest?.name || 'Unknown Destination';
+            stay.slots.forEach((slot, night) => {
+                const dayIndex = days.length;
+                const dayDate = addUtcDays(stay.checkInDate, night);
+
+                let activities = slot.day?.activities;
+                if (!activities) {
+                    activities = ((attractions.autoAddedAttractions as Record<string, any[]>)[stay.destinationId] || [])
+                        .filter((a: any) => !usedPoiIds.has(a.id))
+                        .map((a: any) => this.toActivity(a));
+                    activities.forEach((a) => usedPoiIds.add(a.poiId));
+                }
+                const activitiesCost = slot.day?.activitiesCost != null
+                    ? Number(slot.day.activitiesCost)
+                    : activities.reduce((sum, a) => sum + activityPrice(a, travellers), 0);
+
+                days.push({
+                    date: dayDate.toISOString(),
+                    title: dayIndex === 0 ? 'Arrival & Check-in' : `Day ${dayIndex + 1} in ${destinationName}`,
+                    destinationId: stay.destinationId,
+                    destinationName,
+                    destinationAltitudeM: dest?.altitude_m ?? undefined,
+                    stopIndex,
+                    nightOfStay: night + 1,
+                    activities,
+                    activitiesCost,
+                    hotel: stayHotels[stopIndex].hotel ? { ...stayHotels[stopIndex].hotel! } : undefined,
+                    hotelOptions: stayHotels[stopIndex].offers,
+                    restaurantSuggestions: slot.day?.restaurantSuggestions ?? (restaurantsByDest[stay.destinationId] || []).map((r: any) => this.toRestaurantSuggestion(r)),
+                    transportCost: (pricingMap.get(stay.destinationId)?.transport_price || 0) * people,
+                    weather: weatherByDay.get(`${stay.destinationId}|${toYmdUtc(dayDate)}`) ?? null,
+                });
+            });
+        });
+
+        const rate = Number((cabRes.data as any)?.base_price_per_km || 0);
+        for (const leg of legs) leg.cabCost = Number(leg.distanceKm || 0) * rate;
+
+        await this.replaceItinerary(packageId, days, legs);
+        await this.db
+            .from('packages')
+            .update({
+                title: this.buildTitle(ordered, idToDestination),
+                destination_ids: destinationIds,
+                // Reschedules regenerate from the stored request, so it must describe the edited route
+                request: { ...(pkg.request || {}), destinationIds: ordered, stops: stays.map((s) => ({ destinationId: s.destinationId, nights: s.slots.length })), optimizeRoute: undefined },
+            })
+            .eq('id', packageId);
+
+        return {
+            accommodation: days.reduce((sum, d) => sum + Number(d.hotel?.price || 0), 0),
+            transport: days.reduce((sum, d) => sum + Number(d.transportCost || 0), 0),
+            activities: days.reduce((sum, d) => sum + Number(d.activitiesCost || 0), 0),
+            cab: legs.reduce((sum, l) => sum + Number(l.cabCost || 0), 0),
+        };
+    }
+
+    /**
+     * Replace a saved package's legs, days (with activities and restaurants), destination join and denormalized refs
+     */
+    private async replaceItinerary(packageId: string, days: DayPlan[], legs: PackageLeg[]) {
+        await this.db.from('package_legs').delete().eq('package_id', packageId);
+        if (legs.length) {
+            const legRows = legs.map((l) => ({
+                package_id: packageId,
+                origin_id: l.originId,
+                destination_id: l.destinationId,
+                distance_km: l.distanceKm ?? null,
+                duration_minutes: l.durationMinutes ?? null,
+                cab_cost: l.cabCost ?? null,
+                travel_date: l.date ?? null,
+                via_destination_ids: l.viaDestinationIds ?? [],
+                notices: l.notices ?? [],
+            }));
+            await this.db.from('package_legs').insert(legRows);
+        }
+
+        // Deleting days cascades to their activities and restaurants
+        await this.db.from('package_days').delete().eq('package_id', packageId);
+        await this.db.from('package_destinations').delete().eq('package_id', packageId);
+
+        const weatherSnapshotIds: string[] = [];
+        for (let i = 0; i < days.length; i++) {
+            const d = days[i];
+            const { data: snapshot } = d.weather
+                ? await this.db.from('weather_snapshots').select('id').eq('destination_id', d.destinationId).eq('snapshot_date', d.date.slice(0, 10)).maybeSingle()
+                : { data: null };
+            const weatherSnapshotId: string | null = (snapshot as any)?.id ?? null;
+            if (weatherSnapshotId) weatherSnapshotIds.push(weatherSnapshotId);
+
+            const { data: dayRow } = await this.db
+                .from('package_days')
+                .insert(this.buildDayRow(packageId, i, d, weatherSnapshotId))
+                .select('id')
+                .single();
+            if (!dayRow) continue;
+            const packageDayId = (dayRow as any).id;
+
+            await this.db.from('package_destinations').insert({ package_id: packageId, day_index: i, destination_id: d.destinationId });
+
+            const activityRows = (d.activities || [])
+                .filter((a) => !!a.poiId)
+                .map((a) => ({
+                    package_day_id: packageDayId,
+                    poi_id: a.poiId,
+                    name: a.name,
+                    pricing_type: a.pricing_type ?? null,
+                    base_price: a.base_price ?? null,
+                    metadata: a.metadata ?? {},
+                }));
+            if (activityRows.length) await this.db.from('package_day_activities').insert(activityRows);
+
+            const restaurantRows = (d.restaurantSuggestions || [])
+                .filter((r: any) => !!r.id)
+                .map((r: any) => ({
+                    package_day_id: packageDayId,
+                    restaurant_id: r.id,
+                    name: r.name,
+                    price_range: r.price_range ?? null,
+                    suggestion: r,
+                }));
+            if (restaurantRows.length) await this.db.from('package_day_restaurants').insert(restaurantRows);
+        }
+
+        const activitiesRefs = days.flatMap((d, idx) =>
+            (d.activities || []).filter((a) => !!a.poiId).map((a) => ({ day_index: idx, destination_id: d.destinationId, poi_id: a.poiId, name: a.name }))
+        );
+        const restaurantRefs = days.flatMap((d, idx) =>
+            (d.restaurantSuggestions || []).filter((r: any) => !!r.id).map((r: any) => ({ day_index: idx, destination_id: d.destinationId, restaurant_id: r.id, name: r.name }))
+        );
+        await this.db
+            .from('packages')
+            .update({ activities_refs: activitiesRefs, restaurant_refs: restaurantRefs, weather_snapshot_ids: Array.from(new Set(weatherSnapshotIds)) })
+            .eq('id', packageId);
+    }
+
+
     /**
      * Clone an existing package with a new start date
      */
@@ -1118,16 +1638,7 @@ export class PackageService {
         // The controller should verify if user can access this package (is_public or owner).
         
         // 3. Construct new generation request
-        const originalReq = (pkg.request as any) || {};
-        const newReq: GeneratePackageRequest = {
-            destinationIds: originalReq.destinationIds || [],
-            people: originalReq.people || pkg.people || 1,
-            priceBucket: originalReq.priceBucket || 'optimal',
-            activities: originalReq.activities || [],
-            includeCommonAttractions: originalReq.includeCommonAttractions ?? true,
-            startDate: cloneDate,
-            clonedFrom: sourcePackageId,
-        };
+        const newReq = this.restoreRequest(pkg, { startDate: cloneDate, clonedFrom: sourcePackageId });
 
         // 4. Generate new package (this handles persistence)
         // Use userId from parameter (cloning user) or fallback to source package user_id
@@ -1223,6 +1734,8 @@ export class PackageService {
                 destinationId: pd.destination_id,
                 destinationName: pd.destination_name,
                 destinationAltitudeM: pd.destination_altitude_m,
+                stopIndex: pd.stop_index ?? undefined,
+                nightOfStay: pd.night_of_stay ?? undefined,
                 activities: (pd.package_day_activities || []).map((a: any) => ({
                     poiId: a.poi_id,
                     name: a.name,
@@ -1246,6 +1759,9 @@ export class PackageService {
             distanceKm: pl.distance_km,
             durationMinutes: pl.duration_minutes,
             cabCost: pl.cab_cost,
+            date: pl.travel_date ?? undefined,
+            viaDestinationIds: pl.via_destination_ids?.length ? pl.via_destination_ids : undefined,
+            notices: pl.notices?.length ? pl.notices : undefined,
         }));
 
         // Calculate clone stats
@@ -1256,25 +1772,31 @@ export class PackageService {
              .eq('meta->>clonedFrom', packageId);
 
         const clonedCount = count || 0;
-        const isPopular = clonedCount >= 5; // Threshold for popularity
+        const isPopular = clonedCount >= POPULAR_CLONE_COUNT;
+
+        await this.schedules.attach(days, legs);
 
         return {
             packageId: pkg.id,
             title: pkg.title,
             startDate: pkg.start_date,
             people: pkg.people,
+            travellers: pkg.travellers ?? undefined,
+            rooms: pkg.room_plan ?? undefined,
             cabType: pkg.cab_type,
             totalBasePrice: pkg.total_base_price,
             perPersonPrice: pkg.per_person_price,
             currency: pkg.currency,
             days,
             legs,
-            cabSelection: { type: pkg.cab_type, estimatedCost: pkg.breakdown?.cab },
+            cabSelection: { id: pkg.cab_id ?? undefined, type: pkg.cab_type, estimatedCost: pkg.breakdown?.cab },
             availableCabs: pkg.available_cabs,
             meta: pkg.meta,
+            quoteValidUntil: pkg.quote_valid_until ?? undefined,
             breakdown: pkg.breakdown,
-            optionalAttractions: [], // Omitted
+            optionalAttractions: pkg.optional_attractions || [],
             is_public: pkg.is_public,
+            fulfilmentStatus: pkg.fulfilment_status ?? null,
             stats: {
                 clonedCount,
                 isPopular
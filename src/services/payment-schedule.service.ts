@@ -0,0 +1,281 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { BadRequestError, HttpError, NotFoundError } from '@hyperflake/http-errors';
+import { getDB } from '../configuration/database.config';
+import { MAX_INSTALMENTS, MIN_DEPOSIT_PERCENT } from '../constants/payment-schedule';
+import { PaymentInstalment, PaymentPlan, PaymentSchedule } from '../interfaces/payment.interface';
+import { addUtcDays, startOfDayUtc, toYmdUtc } from '../utils/date.util';
+import { PackageBookingStateMachine } from './package-booking-state-machine.service';
+
+export class PaymentScheduleService {
+    private stateMachine = new PackageBookingStateMachine();
+
+    private get db(): SupabaseClient {
+        return getDB();
+    }
+
+    /**
+     * Throws BadRequestError when the plan does not add up to 100% or has unusable due dates
+     */
+    validatePlan(plan: PaymentPlan) {
+        if (!plan || typeof plan.depositPercent !== 'number' || !Array.isArray(plan.instalments)) {
+            throw new BadRequestError('paymentPlan requires depositPercent and instalments');
+        }
+        if (plan.depositPercent < MIN_DEPOSIT_PERCENT || plan.depositPercent > 100) {
+            throw new BadRequestError(`depositPercent must be between ${MIN_DEPOSIT_PERCENT} and 100`);
+        }
+        if (plan.instalments.length > MAX_INSTALMENTS) {
+            throw new BadRequestError(`At most ${MAX_INSTALMENTS} instalments are allowed after the deposit`);
+        }
+        for (const inst of plan.instalments) {
+            if (typeof inst.percent !== 'number' || inst.percent <= 0) {
+                throw new BadRequestError('Each instalment percent must be a positive number');
+            }
+            if (!Number.isInteger(inst.dueDaysBeforeStart) || inst.dueDaysBeforeStart < 0) {
+                throw new BadRequestError('dueDaysBeforeStart must be a non-negative integer');
+            }
+        }
+        const dueDays = plan.instalments.map((i) => i.dueDaysBeforeStart);
+        if (dueDays.some((d, i) => i > 0 && d >= dueDays[i - 1])) {
+            throw new BadRequestError('Instalments must be ordered by due date (decreasing dueDaysBeforeStart)');
+        }
+        const total = plan.depositPercent + plan.instalments.reduce((s, i) => s + i.percent, 0);
+        if (Math.abs(total - 100) > 0.001) {
+            throw new BadRequestError(`Deposit and instalments must add up to 100% (got ${total}%)`);
+        }
+    }
+
+    async getSchedule(packageId: string): Promise<PaymentSchedule | null> {
+        const { data: pkg, error } = await this.db
+            .from('packages')
+            .select('id,payment_plan,total_base_price,currency')
+            .eq('id', packageId)
+            .maybeSingle();
+        if (error) throw new BadRequestError(error.message);
+        if (!pkg) throw new NotFoundError('Package not found');
+        if (!pkg.payment_plan) return null;
+
+        const instalments = await this.getInstalments(packageId);
+        const paidAmount = this.round(instalments.filter((i) => i.status === 'paid').reduce((s, i) => s + i.amount, 0));
+        const totalAmount = this.round(instalments.reduce((s, i) => s + i.amount, 0));
+
+        return {
+            packageId,
+            plan: pkg.payment_plan,
+            currency: pkg.currency || 'INR',
+            totalAmount,
+            paidAmount,
+            outstandingAmount: this.round(totalAmount - paidAmount),
+            instalments,
+            nextDue: instalments.find((i) => i.status !== 'paid') || null,
+        };
+    }
+
+    /**
+     * @desc Attach a plan to the package and (re)build its instalments from the current totalBasePrice.
+     * Only possible while nothing has been paid.
+     */
+    async setSchedule(packageId: string, plan: PaymentPlan): Promise<PaymentSchedule> {
+        this.validatePlan(plan);
+
+        const { data: pkg, error } = await this.db
+            .from('packages')
+            .select('id,booking_status,start_date,total_base_price,currency')
+            .eq('id', packageId)
+            .maybeSingle();
+        if (error) throw new BadRequestError(error.message);
+        if (!pkg) throw new NotFoundError('Package not found');
+        this.stateMachine.assertEditable(pkg.booking_status);
+
+        const existing = await this.getInstalments(packageId);
+        if (existing.some((i) => i.status === 'paid')) {
+            throw new HttpError('Payment schedule cannot change after an instalment is paid', 409);
+        }
+
+        const rows = this.buildInstalments(packageId, plan, Number(pkg.total_base_price || 0), pkg.currency || 'INR', new Date(pkg.start_date));
+
+        const { error: delErr } = await this.db.from('package_payment_instalments').delete().eq('package_id', packageId);
+        if (delErr) throw new BadRequestError(delErr.message);
+        const { error: insErr } = await this.db.from('package_payment_instalments').insert(rows);
+        if (insErr) throw new BadRequestError(insErr.message);
+        const { error: updErr } = await this.db.from('packages').update({ payment_plan: plan }).eq('id', packageId);
+        if (updErr) throw new BadRequestError(updErr.message);
+
+        return (await this.getSchedule(packageId))!;
+    }
+
+    /**
+     * @desc Drop the plan so the package is paid in full again
+     */
+    async clearSchedule(packageId: string) {
+        const existing = await this.getInstalments(packageId);
+        if (existing.some((i) => i.status === 'paid')) {
+            throw new HttpError('Payment schedule cannot change after an instalment is paid', 409);
+        }
+        await this.db.from('package_payment_instalments').delete().eq('package_id', packageId);
+        await this.db.from('packages').update({ payment_plan: null }).eq('id', packageId);
+    }
+
+    /**
+     * @desc Recompute unpaid amounts after the package price changed. No-op without a plan or once anything is paid.
+     * Instalments are updated in place so their ids (referenced by open payment intents) stay valid; the deposit
+     * keeps the due date it was created with.
+     */
+    async refreshAmounts(packageId: string): Promise<PaymentSchedule | null> {
+        const schedule = await this.getSchedule(packageId);
+        if (!schedule || schedule.paidAmount > 0) return schedule;
+
+        const { data: pkg, error } = await this.db
+            .from('packages')
+            .select('start_date,total_base_price,currency')
+            .eq('id', packageId)
+            .single();
+        if (error) throw new BadRequestError(error.message);
+
+        const expected = this.buildInstalments(packageId, schedule.plan, Number(pkg.total_base_price || 0), pkg.currency || 'INR', new Date(pkg.start_date));
+        // The stored plan always yields the same instalments; rebuild only if the rows no longer match it
+        if (expected.length !== schedule.instalments.length) return this.setSchedule(packageId, schedule.plan);
+
+        let changed = false;
+        for (const [i, current] of schedule.instalments.entries()) {
+            const row = expected[i];
+            const update: Record<string, any> = {};
+            if (row.amount !== current.amount) update.amount = row.amount;
+            if (row.currency !== current.currency) update.currency = row.currency;
+            if (current.sequence > 0 && row.due_date !== current.dueDate) update.due_date = row.due_date;
+            if (!Object.keys(update).length) continue;
+
+            const { error: updErr } = await this.db.from('package_payment_instalments').update(update).eq('id', current.id);
+            if (updErr) throw new BadRequestError(updErr.message);
+            changed = true;
+        }
+        return changed ? this.getSchedule(packageId) : schedule;
+    }
+
+    async getInstalment(instalmentId: string): Promise<PaymentInstalment | null> {
+        const { data, error } = await this.db
+            .from('package_payment_instalments')
+            .select('*')
+            .eq('id', instalmentId)
+            .maybeSingle();
+        if (error) throw new BadRequestError(error.message);
+        return data ? this.mapRow(data) : null;
+    }
+
+    /**
+     * @desc Mark an instalment paid. Returns false if it was already paid.
+     */
+    async markPaid(instalmentId: string, paymentIntentId: string | null, paidAt: string = new Date().toISOString()): Promise<boolean> {
+        const { data, error } = await this.db
+            .from('package_payment_instalments')
+            .update({ status: 'paid', paid_at: paidAt, payment_intent_id: paymentIntentId })
+            .eq('id', instalmentId)
+            .in('status', ['pending', 'overdue'])
+            .select('id');
+        if (error) throw new BadRequestError(error.message);
+        return !!data && data.length > 0;
+    }
+
+    async hasOverdue(packageId: string): Promise<boolean> {
+        const { count, error } = await this.db
+            .from('package_payment_instalments')
+            .select('id', { count: 'exact', head: true })
+            .eq('package_id', packageId)
+            .eq('status', 'overdue');
+        if (error) throw new BadRequestError(error.message);
+        return (count || 0) > 0;
+    }
+
+    /**
+     * @desc Flag unpaid instalments of booked packages whose due date has passed and move those
+     * packages to `payment_overdue`. Returns the affected package ids.
+     */
+    async flagOverdue(now: Date = new Date()): Promise<string[]> {
+        const today = toYmdUtc(startOfDayUtc(now));
+        const { data, error } = await this.db
+            .from('package_payment_instalments')
+            .select('id,package_id,packages!inner(booking_status)')
+            .eq('status', 'pending')
+            .lt('due_date', today)
+            .in('packages.booking_status', ['booked', 'payment_overdue']);
+        if (error) throw new BadRequestError(error.message);
+        if (!data || data.length === 0) return [];
+
+        const { error: updErr } = await this.db
+            .from('package_payment_instalments')
+            .update({ status: 'overdue' })
+            .in('id', data.map((r: any) => r.id))
+            .eq('status', 'pending');
+        if (updErr) throw new BadRequestError(updErr.message);
+
+        const packageIds = Array.from(new Set(data.map((r: any) => r.package_id as string)));
+        for (const packageId of packageIds) {
+            try {
+                await this.stateMachine.transition(packageId, 'payment_overdue', {
+                    actorType: 'system',
+                    reason: 'instalment_overdue',
+                });
+            } catch (err: any) {
+                console.error(`[PaymentScheduleService] Could not flag ${packageId} as overdue:`, err.message);
+            }
+        }
+        return packageIds;
+    }
+
+    private buildInstalments(packageId: string, plan: PaymentPlan, total: number, currency: string, startDate: Date) {
+        const today = startOfDayUtc(new Date());
+        const parts = [
+            { label: 'deposit', percent: plan.depositPercent, due: today },
+            ...plan.instalments.map((inst, i) => {
+                const due = startOfDayUtc(addUtcDays(startDate, -inst.dueDaysBeforeStart));
+                return { label: `instalment_${i + 1}`, percent: inst.percent, due: due < today ? today : due };
+            }),
+        ];
+
+        let allocated = 0;
+        return parts.map((p, sequence) => {
+            // Last part takes the rounding remainder so instalments always sum to the total
+            const amount = sequence === parts.length - 1 ? this.round(total - allocated) : this.round((total * p.percent) / 100);
+            allocated = this.round(allocated + amount);
+            return {
+                package_id: packageId,
+                sequence,
+                label: p.label,
+                percent: p.percent,
+                amount,
+                currency,
+                due_date: toYmdUtc(p.due),
+                status: 'pending',
+            };
+        });
+    }
+
+    private async getInstalments(packageId: string): Promise<PaymentInstalment[]> {
+        const { data, error } = await this.db
+            .from('package_payment_instalments')
+            .select('*')
+            .eq('package_id', packageId)
+            .order('sequence', { ascending: true });
+        if (error) throw new BadRequestError(error.message);
+        return (data || []).map((row: any) => this.mapRow(row));
+    }
+
+    private round(n: number): number {
+        return Math.round(n * 100) / 100;
+    }
+
+    private mapRow(row: any): PaymentInstalment {
+        return {
+            id: row.id,
+            packageId: row.package_id,
+            sequence: row.sequence,
+            label: row.label,
+            percent: Number(row.percent),
+            amount: Number(row.amount || 0),
+            currency: row.currency,
+            dueDate: row.due_date,
+            status: row.status,
+            paidAt: row.paid_at,
+            paymentIntentId: row.payment_intent_id,
+        };
+    }
+}
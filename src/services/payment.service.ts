@@ -0,0 +1,550 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { BadRequestError, HttpError, NotFoundError } from '@hyperflake/http-errors';
+import { getDB } from '../configuration/database.config';
+import { getPaymentProvider } from '../configuration/payment.config';
+import {
+    LedgerEntry,
+    LedgerEntryType,
+    PackageLedger,
+    PaymentInstalment,
+    PaymentIntent,
+    PaymentProvider,
+    PaymentWebhookEvent,
+} from '../interfaces/payment.interface';
+import { BookingTransitionContext } from '../interfaces/package.interface';
+import { PackageBookingStateMachine } from './package-booking-state-machine.service';
+import { PaymentScheduleService } from './payment-schedule.service';
+import { PackageFulfilmentService } from './package-fulfilment.service';
+
+export class PaymentService {
+    private stateMachine = new PackageBookingStateMachine();
+    private scheduleService = new PaymentScheduleService();
+    private fulfilmentService = new PackageFulfilmentService();
+
+    private get db(): SupabaseClient {
+        return getDB();
+    }
+
+    private get provider(): PaymentProvider {
+        return getPaymentProvider();
+    }
+
+    /**
+     * @desc Get (or create) the open payment intent for what is due on the package: the next unpaid instalment
+     * (or `instalmentId`) when it has a payment schedule, otherwise the full `total_base_price`.
+     * An open intent for a different amount (package was reconfigured) is cancelled and replaced.
+     */
+    async createIntentForPackage(packageId: string, userId: string, instalmentId?: string): Promise<PaymentIntent> {
+        const { data: pkg, error } = await this.db
+            .from('packages')
+            .select('id,booking_status,total_base_price,currency,payment_plan')
+            .eq('id', packageId)
+            .maybeSingle();
+        if (error) throw new BadRequestError(error.message);
+        if (!pkg) throw new NotFoundError('Package not found');
+        if (pkg.booking_status === 'cancelled') {
+            throw new HttpError('Cannot take payment for a cancelled package', 409);
+        }
+
+        const isBooked = pkg.booking_status === 'booked' || pkg.booking_status === 'payment_overdue';
+        let amount = this.round(Number(pkg.total_base_price || 0));
+        let instalment: PaymentInstalment | null = null;
+        if (pkg.payment_plan) {
+            // Unpaid amounts follow the current price until the first payment
+            const schedule = isBooked
+                ? await this.scheduleService.getSchedule(packageId)
+                : await this.scheduleService.refreshAmounts(packageId);
+            instalment = instalmentId
+                ? schedule?.instalments.find((i) => i.id === instalmentId) || null
+                : schedule?.nextDue || null;
+            if (!instalment) throw new NotFoundError(instalmentId ? 'Instalment not found' : 'Nothing left to pay');
+            if (instalment.status === 'paid') throw new HttpError('Instalment is already paid', 409);
+            amount = instalment.amount;
+        } else if (isBooked) {
+            throw new HttpError('Package is already paid in full', 409);
+        } else if (instalmentId) {
+            throw new NotFoundError('Package has no payment schedule');
+        }
+
+        const currency = pkg.currency || 'INR';
+        if (amount <= 0) throw new BadRequestError('Package has no payable amount');
+
+        const open = await this.getOpenIntent(packageId);
+        if (open && open.amount === amount && open.currency === currency && open.instalmentId === (instalment?.id ?? null)) {
+            return open;
+        }
+        if (open) await this.cancelIntent(open, 'amount_changed');
+
+        const created = await this.provider.createIntent({
+            amount,
+            currency,
+            reference: packageId,
+            metadata: { packageId, userId, instalmentId: instalment?.id },
+        });
+
+        const { data, error: insErr } = await this.db
+            .from('payment_intents')
+            .insert({
+                package_id: packageId,
+                user_id: userId,
+                instalment_id: instalment?.id ?? null,
+                provider: this.provider.name,
+                provider_intent_id: created.providerIntentId,
+                client_secret: created.clientSecret,
+                amount,
+                currency,
+                status: 'requires_payment',
+            })
+            .select('*')
+            .single();
+        if (insErr) throw new BadRequestError(insErr.message);
+
+        return this.mapIntent(data);
+    }
+
+    /**
+     * @desc Record an instalment paid outside the provider (bank transfer, cash at the desk)
+     */
+    async recordInstalmentPayment(
+        packageId: string,
+        instalmentId: string,
+        params: { actorId: string; reference?: string; note?: string }
+    ): Promise<LedgerEntry> {
+        const instalment = await this.scheduleService.getInstalment(instalmentId);
+        if (!instalment || instalment.packageId !== packageId) throw new NotFoundError('Instalment not found');
+        // Checked before anything is written: settling a cancelled package below would fail after the charge
+        if ((await this.stateMachine.getStatus(packageId)) === 'cancelled') {
+            throw new HttpError('Cannot record a payment for a cancelled package', 409);
+        }
+
+        const marked = await this.scheduleService.markPaid(instalmentId, null);
+        if (!marked) throw new HttpError('Instalment is already paid', 409);
+
+        // An intent the customer may still complete for this instalment would charge it a second time
+        const { data: open, error: openErr } = await this.db
+            .from('payment_intents')
+            .select('*')
+            .eq('instalment_id', instalmentId)
+            .eq('status', 'requires_payment');
+        if (openErr) throw new BadRequestError(openErr.message);
+        for (const row of open || []) {
+            await this.cancelIntent(this.mapIntent(row), 'instalment_recorded');
+        }
+
+        const entry = await this.addLedgerEntry(packageId, {
+            type: 'charge',
+            amount: instalment.amount,
+            currency: instalment.currency,
+            providerReference: params.reference ?? null,
+            description: params.note || `Instalment ${instalment.label} recorded manually`,
+            createdBy: params.actorId,
+        });
+
+        await this.settlePackageStatus(packageId, {
+            actorId: params.actorId,
+            actorType: 'admin',
+            reason: 'instalment_recorded',
+            metadata: { ledgerEntryId: entry.id, instalmentId },
+        });
+        return entry;
+    }
+
+    async getOpenIntent(packageId: string): Promise<PaymentIntent | null> {
+        const { data, error } = await this.db
+            .from('payment_intents')
+            .select('*')
+            .eq('package_id', packageId)
+            .eq('status', 'requires_payment')
+            .order('created_at', { ascending: false })
+            .limit(1)
+            .maybeSingle();
+        if (error) throw new BadRequestError(error.message);
+        return data ? this.mapIntent(data) : null;
+    }
+
+    async getIntentById(intentId: string): Promise<PaymentIntent | null> {
+        const { data, error } = await this.db.from('payment_intents').select('*').eq('id', intentId).maybeSingle();
+        if (error) throw new BadRequestError(error.message);
+        return data ? this.mapIntent(data) : null;
+    }
+
+    /**
+     * @desc Cancel every unpaid intent of a package (e.g. when the package is cancelled)
+     */
+    async cancelOpenIntents(packageId: string, reason: string) {
+        const { data, error } = await this.db
+            .from('payment_intents')
+            .select('*')
+            .eq('package_id', packageId)
+            .eq('status', 'requires_payment');
+        if (error) throw new BadRequestError(error.message);
+        for (const row of data || []) {
+            await this.cancelIntent(this.mapIntent(row), reason);
+        }
+    }
+
+    /**
+     * @desc Start a refund against the captured payments of a package, newest first, capped at the ledger
+     * balance. The ledger entries are written when the provider confirms via webhook. Returns null when
+     * nothing can be refunded.
+     */
+    async refundPackage(
+        packageId: string,
+        amount: number,
+        reason?: string
+    ): Promise<{ providerRefundIds: string[]; amount: number } | null> {
+        const { data: intents, error } = await this.db
+            .from('payment_intents')
+            .select('*')
+            .eq('package_id', packageId)
+            .eq('status', 'captured')
+            .order('captured_at', { ascending: false });
+        if (error) throw new BadRequestError(error.message);
+        if (!intents || intents.length === 0) return null;
+
+        const ledger = await this.getLedger(packageId);
+        let remaining = this.round(Math.min(amount, ledger.balance));
+        if (remaining <= 0) return null;
+
+        const providerRefundIds: string[] = [];
+        let refunded = 0;
+        for (const intent of intents) {
+            if (remaining <= 0) break;
+            const part = this.round(Math.min(remaining, Number(intent.amount)));
+            const refund = await this.provider.refund({
+                providerIntentId: intent.provider_intent_id,
+                amount: part,
+                currency: intent.currency,
+                reason,
+            });
+            providerRefundIds.push(refund.providerRefundId);
+            refunded = this.round(refunded + part);
+            remaining = this.round(remaining - part);
+        }
+        return { providerRefundIds, amount: refunded };
+    }
+
+    /**
+     * @desc Verify and apply a provider webhook. Events are applied at most once: the event row is the
+     * duplicate guard, and it is removed again when applying fails so the provider's retry is processed.
+     */
+    async handleWebhook(rawBody: Buffer, signature: string | undefined): Promise<{ eventId: string; duplicate: boolean }> {
+        const event = this.provider.parseWebhook(rawBody, signature);
+
+        const { error: dupErr } = await this.db.from('payment_webhook_events').insert({
+            provider: this.provider.name,
+            event_id: event.id,
+            type: event.type,
+            payload: event,
+        });
+        if (dupErr) {
+            if (dupErr.code === '23505') return { eventId: event.id, duplicate: true };
+            throw new BadRequestError(dupErr.message);
+        }
+
+        try {
+            await this.applyWebhookEvent(event);
+        } catch (err) {
+            const { error: delErr } = await this.db
+                .from('payment_webhook_events')
+                .delete()
+                .eq('provider', this.provider.name)
+                .eq('event_id', event.id);
+            if (delErr) console.error(`[PaymentService] Failed to release webhook event ${event.id}:`, delErr.message);
+            throw err;
+        }
+
+        return { eventId: event.id, duplicate: false };
+    }
+
+    private async applyWebhookEvent(event: PaymentWebhookEvent) {
+        const { data: row, error } = await this.db
+            .from('payment_intents')
+            .select('*')
+            .eq('provider', this.provider.name)
+            .eq('provider_intent_id', event.providerIntentId)
+            .maybeSingle();
+        if (error) throw new BadRequestError(error.message);
+        if (!row) throw new NotFoundError(`Unknown payment intent: ${event.providerIntentId}`);
+        const intent = this.mapIntent(row);
+
+        switch (event.type) {
+            case 'payment.captured':
+                await this.onCaptured(intent, event);
+                break;
+            case 'payment.failed':
+                await this.db
+                    .from('payment_intents')
+                    .update({ status: 'failed' })
+                    .eq('id', intent.id)
+                    .eq('status', 'requires_payment');
+                break;
+            case 'refund.succeeded':
+                await this.addLedgerEntry(intent.packageId, {
+                    type: 'refund',
+                    amount: -Math.abs(event.amount),
+                    currency: event.currency,
+                    paymentIntentId: intent.id,
+                    providerReference: event.providerRefundId ?? null,
+                    description: 'Refund confirmed by provider',
+                });
+                await this.syncRefundStatus(intent.packageId, 'succeeded');
+                break;
+            case 'refund.failed':
+                await this.syncRefundStatus(intent.packageId, 'failed');
+                break;
+        }
+    }
+
+    async recordAdjustment(
+        packageId: string,
+        params: { amount: number; description: string; actorId: string }
+    ): Promise<LedgerEntry> {
+        const { data: pkg, error } = await this.db.from('packages').select('id,currency').eq('id', packageId).maybeSingle();
+        if (error) throw new BadRequestError(error.message);
+        if (!pkg) throw new NotFoundError('Package not found');
+
+        return this.addLedgerEntry(packageId, {
+            type: 'adjustment',
+            amount: this.round(params.amount),
+            currency: pkg.currency || 'INR',
+            description: params.description,
+            createdBy: params.actorId,
+        });
+    }
+
+    async getLedger(packageId: string): Promise<PackageLedger> {
+        const { data, error } = await this.db
+            .from('payment_ledger_entries')
+            .select('*')
+            .eq('package_id', packageId)
+            .order('created_at', { ascending: true });
+        if (error) throw new BadRequestError(error.message);
+
+        const entries = (data || []).map((row: any) => this.mapLedgerEntry(row));
+        const sum = (type: LedgerEntryType) =>
+            this.round(entries.filter((e) => e.type === type).reduce((s, e) => s + e.amount, 0));
+        const charged = sum('charge');
+        const refunded = sum('refund');
+        const adjustments = sum('adjustment');
+
+        return {
+            packageId,
+            currency: entries[0]?.currency || 'INR',
+            entries,
+            charged,
+            refunded: Math.abs(refunded),
+            adjustments,
+            balance: this.round(charged + refunded + adjustments),
+        };
+    }
+
+    private async onCaptured(intent: PaymentIntent, event: PaymentWebhookEvent) {
+        // Only the amount we asked for pays for the package; anything else is left for ops to reconcile
+        if (this.round(event.amount) !== intent.amount || event.currency !== intent.currency) {
+            await this.flagCapture(intent, 'amount_mismatch', `${event.amount} ${event.currency} does not match ${intent.amount} ${intent.currency}`);
+            return;
+        }
+        // Same for a second payment of an instalment that was already paid (recorded by hand, or by another intent)
+        if (intent.instalmentId) {
+            const instalment = await this.scheduleService.getInstalment(intent.instalmentId);
+            if (instalment?.status === 'paid' && instalment.paymentIntentId !== intent.id) {
+                await this.flagCapture(intent, 'instalment_already_paid', `instalment ${instalment.label} is already paid`);
+                return;
+            }
+        }
+
+        const { data: updated, error } = await this.db
+            .from('payment_intents')
+            .update({ status: 'captured', captured_at: event.occurredAt || new Date().toISOString() })
+            .eq('id', intent.id)
+            .in('status', ['requires_payment', 'failed', 'cancelled'])
+            .select('id');
+        if (error) throw new BadRequestError(error.message);
+        if (!updated || updated.length === 0) return; // already captured
+
+        // The capture, its ledger charge and the paid instalment go together: undo the first two if a later one
+        // fails so the retried webhook finds the intent uncaptured and applies all of them
+        let charge: LedgerEntry | undefined;
+        try {
+            charge = await this.addLedgerEntry(intent.packageId, {
+                type: 'charge',
+                amount: intent.amount,
+                currency: intent.currency,
+                paymentIntentId: intent.id,
+                providerReference: event.providerIntentId,
+                description: 'Payment captured',
+            });
+
+            // Paid in the meantime: undo, and the retried webhook flags the capture above
+            if (intent.instalmentId && !(await this.scheduleService.markPaid(intent.instalmentId, intent.id, event.occurredAt))) {
+                throw new HttpError(`Instalment ${intent.instalmentId} was paid while capturing intent ${intent.id}`, 409);
+            }
+        } catch (err) {
+            if (charge) await this.db.from('payment_ledger_entries').delete().eq('id', charge.id);
+            await this.db.from('payment_intents').update({ status: intent.status, captured_at: null }).eq('id', intent.id);
+            throw err;
+        }
+
+        // Money arrived for an intent we had already given up on (superseded, or package cancelled): send it back
+        if (intent.status === 'cancelled') {
+            await this.refundCapture(intent, event, 'intent_superseded');
+            return;
+        }
+
+        try {
+            await this.settlePackageStatus(intent.packageId, {
+                actorId: intent.userId ?? undefined,
+                actorType: 'system',
+                reason: 'payment_captured',
+                metadata: { paymentIntentId: intent.id, amount: event.amount, currency: event.currency },
+            });
+        } catch (err: any) {
+            console.error(`[PaymentService] Captured payment for ${intent.packageId} but could not book it:`, err.message);
+            await this.refundCapture(intent, event, 'booking_failed');
+        }
+    }
+
+    /**
+     * Leave a capture that must not pay for the package out of the ledger and mark its intent for ops to reconcile
+     */
+    private async flagCapture(intent: PaymentIntent, reason: string, detail: string) {
+        console.error(`[PaymentService] Capture for intent ${intent.id} not applied (${reason}): ${detail}`);
+        const { error } = await this.db
+            .from('payment_intents')
+            .update({ status: 'failed', cancel_reason: reason })
+            .eq('id', intent.id)
+            .in('status', ['requires_payment', 'failed', 'cancelled']);
+        if (error) throw new BadRequestError(error.message);
+    }
+
+    /**
+     * A payment books a package waiting for it, and clears `payment_overdue` once nothing is overdue anymore
+     */
+    private async settlePackageStatus(packageId: string, ctx: BookingTransitionContext) {
+        const status = await this.stateMachine.getStatus(packageId);
+        if (status === 'awaiting_payment') {
+            await this.stateMachine.transition(packageId, 'booked', ctx);
+            // The booking stands even if its fulfilment items cannot be created now; ops can generate them later
+            await this.fulfilmentService.createForPackage(packageId).catch((err) => {
+                console.error(`[PaymentService] Could not create fulfilment items for ${packageId}:`, err.message);
+            });
+        } else if (status === 'payment_overdue' && !(await this.scheduleService.hasOverdue(packageId))) {
+            await this.stateMachine.transition(packageId, 'booked', { ...ctx, reason: 'overdue_instalment_paid' });
+        } else if (status === 'cancelled') {
+            throw new HttpError('Package was cancelled before the payment arrived', 409);
+        }
+    }
+
+    private async refundCapture(intent: PaymentIntent, event: PaymentWebhookEvent, reason: string) {
+        await this.provider.refund({
+            providerIntentId: intent.providerIntentId,
+            amount: event.amount,
+            currency: event.currency,
+            reason,
+        });
+    }
+
+    private async cancelIntent(intent: PaymentIntent, reason: string) {
+        await this.provider.cancelIntent(intent.providerIntentId);
+        const { error } = await this.db
+            .from('payment_intents')
+            .update({ status: 'cancelled', cancel_reason: reason })
+            .eq('id', intent.id)
+            .eq('status', 'requires_payment');
+        if (error) throw new BadRequestError(error.message);
+    }
+
+    /**
+     * A cancellation refund may be split over several captures; it is `refunded` once the ledger covers it
+     */
+    private async syncRefundStatus(packageId: string, outcome: 'succeeded' | 'failed') {
+        const { data: cancellation, error } = await this.db
+            .from('package_cancellations')
+            .select('id,refund_amount,refund_status')
+            .eq('package_id', packageId)
+            .maybeSingle();
+        if (error || !cancellation) {
+            if (error) console.error('[PaymentService] Failed to load cancellation:', error.message);
+            return;
+        }
+
+        let status = cancellation.refund_status;
+        if (outcome === 'failed') {
+            status = 'failed';
+        } else {
+            const ledger = await this.getLedger(packageId);
+            if (ledger.refunded >= Number(cancellation.refund_amount || 0)) status = 'refunded';
+        }
+        if (status === cancellation.refund_status) return;
+
+        const { error: updErr } = await this.db.from('package_cancellations').update({ refund_status: status }).eq('id', cancellation.id);
+        if (updErr) console.error('[PaymentService] Failed to update refund status:', updErr.message);
+    }
+
+    private async addLedgerEntry(
+        packageId: string,
+        entry: {
+            type: LedgerEntryType;
+            amount: number;
+            currency: string;
+            paymentIntentId?: string;
+            providerReference?: string | null;
+            description?: string;
+            createdBy?: string;
+        }
+    ): Promise<LedgerEntry> {
+        const { data, error } = await this.db
+            .from('payment_ledger_entries')
+            .insert({
+                package_id: packageId,
+                payment_intent_id: entry.paymentIntentId ?? null,
+                type: entry.type,
+                amount: entry.amount,
+                currency: entry.currency,
+                provider_reference: entry.providerReference ?? null,
+                description: entry.description ?? null,
+                created_by: entry.createdBy ?? null,
+            })
+            .select('*')
+            .single();
+        if (error) throw new BadRequestError(error.message);
+        return this.mapLedgerEntry(data);
+    }
+
+    private round(n: number): number {
+        return Math.round(n * 100) / 100;
+    }
+
+    private mapIntent(row: any): PaymentIntent {
+        return {
+            id: row.id,
+            packageId: row.package_id,
+            userId: row.user_id,
+            instalmentId: row.instalment_id ?? null,
+            provider: row.provider,
+            providerIntentId: row.provider_intent_id,
+            amount: Number(row.amount || 0),
+            currency: row.currency,
+            status: row.status,
+            clientSecret: row.client_secret,
+            capturedAt: row.captured_at,
+            createdAt: row.created_at,
+        };
+    }
+
+    private mapLedgerEntry(row: any): LedgerEntry {
+        return {
+            id: row.id,
+            packageId: row.package_id,
+            paymentIntentId: row.payment_intent_id,
+            type: row.type,
+            amount: Number(row.amount || 0),
+            currency: row.currency,
+            providerReference: row.provider_reference,
+            description: row.description,
+            createdBy: row.created_by,
+            createdAt: row.created_at,
+        };
+    }
+}
@@ -0,0 +1,58 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { getDB } from '../configuration/database.config';
+import { PackageCacheEntryMeta, PackageCacheInvalidation, PackageCacheStore } from '../interfaces/package-cache.interface';
+import { PackageGenerationResult } from '../interfaces/package.interface';
+
+/**
+ * Cache shared by every instance through the `package_response_cache` table. Database triggers on
+ * `destination_pricing_buckets` and `cab_inventory` drop affected rows when prices change.
+ */
+export class PostgresPackageCacheStore implements PackageCacheStore {
+    readonly name = 'postgres';
+
+    private get db(): SupabaseClient {
+        return getDB();
+    }
+
+    async get(key: string): Promise<PackageGenerationResult | null> {
+        const { data, error } = await this.db
+            .from('package_response_cache')
+            .select('value')
+            .eq('key', key)
+            .gt('expires_at', new Date().toISOString())
+            .maybeSingle();
+        if (error) {
+            console.error('[PostgresPackageCacheStore] Read failed:', error.message);
+            return null;
+        }
+        return (data?.value as PackageGenerationResult) ?? null;
+    }
+
+    async set(key: string, value: PackageGenerationResult, ttlMs: number, meta: PackageCacheEntryMeta): Promise<void> {
+        if (ttlMs <= 0) return;
+        const now = Date.now();
+        const { error } = await this.db.from('package_response_cache').upsert({
+            key,
+            value,
+            price_bucket: meta.bucket,
+            destination_ids: meta.destinationIds,
+            created_at: new Date(now).toISOString(),
+            expires_at: new Date(now + ttlMs).toISOString(),
+        });
+        if (error) console.error('[PostgresPackageCacheStore] Write failed:', error.message);
+
+        // Opportunistic cleanup keeps the table small without a scheduler
+        await this.db.from('package_response_cache').delete().lt('expires_at', new Date(now).toISOString());
+    }
+
+    async invalidate(filter: PackageCacheInvalidation = {}): Promise<number> {
+        let query = this.db.from('package_response_cache').delete({ count: 'exact' });
+        query = filter.destinationIds?.length ? query.overlaps('destination_ids', filter.destinationIds) : query.neq('key', '');
+        const { count, error } = await query;
+        if (error) {
+            console.error('[PostgresPackageCacheStore] Invalidation failed:', error.message);
+            return 0;
+        }
+        return count || 0;
+    }
+}
@@ -0,0 +1,224 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { BadRequestError, HttpError, NotFoundError } from '@hyperflake/http-errors';
+import { getDB } from '../configuration/database.config';
+import { getPackageCacheStore } from '../configuration/package-cache.config';
+import { PackageLeg } from '../interfaces/package.interface';
+import {
+    CreateRouteClosureRequest,
+    RouteClosure,
+    RouteClosureFilters,
+    RouteNotice,
+    UpdateRouteClosureRequest,
+} from '../interfaces/route-closure.interface';
+
+/**
+ * Seasonal road and pass closures between destinations (`route_closures`). The distance matrix says which pairs
+ * are drivable at all; this says on which dates they are not. Legs on a closed date are rerouted through a third
+ * destination when one is open on both sides, otherwise rejected.
+ */
+export class RouteClosureService {
+    private get db(): SupabaseClient {
+        return getDB();
+    }
+
+    async list(filters: RouteClosureFilters = {}): Promise<RouteClosure[]> {
+        let query = this.db.from('route_closures').select('*');
+        if (filters.destinationId) query = query.or(`origin_id.eq.${filters.destinationId},destination_id.eq.${filters.destinationId}`);
+        if (filters.kind) query = query.eq('kind', filters.kind);
+        if (filters.from) query = query.gte('ends_on', filters.from);
+        if (filters.to) query = query.lte('starts_on', filters.to);
+
+        const { data, error } = await query.order('starts_on', { ascending: true });
+        if (error) throw new BadRequestError(error.message);
+        return (data || []).map((row: any) => this.mapClosure(row));
+    }
+
+    async create(input: CreateRouteClosureRequest, actorId: string): Promise<RouteClosure> {
+        const { data, error } = await this.db
+            .from('route_closures')
+            .insert({
+                origin_id: input.originId,
+                destination_id: input.destinationId,
+                kind: input.kind,
+                starts_on: input.startsOn,
+                ends_on: input.endsOn,
+                bidirectional: input.bidirectional ?? true,
+                reason: input.reason.trim(),
+                created_by: actorId,
+            })
+            .select('*')
+            .single();
+        if (error?.code === '23503') throw new BadRequestError('originId and destinationId must be existing destinations');
+        if (error) throw new BadRequestError(error.message);
+
+        const closure = this.mapClosure(data);
+        await this.invalidateGenerated(closure);
+        return closure;
+    }
+
+    async update(closureId: string, patch: UpdateRouteClosureRequest): Promise<RouteClosure> {
+        const existing = await this.findClosure(closureId);
+        const startsOn = patch.startsOn ?? existing.starts_on;
+        const endsOn = patch.endsOn ?? existing.ends_on;
+        if (endsOn < startsOn) throw new BadRequestError('endsOn must not be before startsOn');
+
+        const update: Record<string, any> = { starts_on: startsOn, ends_on: endsOn, updated_at: new Date().toISOString() };
+        if (patch.kind !== undefined) update.kind = patch.kind;
+        if (patch.bidirectional !== undefined) update.bidirectional = patch.bidirectional;
+        if (patch.reason !== undefined) update.reason = patch.reason.trim();
+
+        const { data, error } = await this.db.from('route_closures').update(update).eq('id', closureId).select('*').single();
+        if (error) throw new BadRequestError(error.message);
+
+        const closure = this.mapClosure(data);
+        await this.invalidateGenerated(closure);
+        return closure;
+    }
+
+    async remove(closureId: string): Promise<void> {
+        const existing = await this.findClosure(closureId);
+        const { error } = await this.db.from('route_closures').delete().eq('id', closureId);
+        if (error) throw new BadRequestError(error.message);
+        await this.invalidateGenerated(this.mapClosure(existing));
+    }
+
+    /**
+     * @desc Attach the closures and advisories of each leg's travel date. A closed leg is rerouted through the
+     * destination that makes the shortest open detour; without one the whole itinerary is rejected (409).
+     * Legs without a date are returned unchanged.
+     */
+    async applyToLegs(legs: PackageLeg[]): Promise<PackageLeg[]> {
+        const dated = legs.filter((l) => l.date);
+        if (!dated.length) return legs;
+
+        const ids = Array.from(new Set(dated.flatMap((l) => [l.originId, l.destinationId])));
+        const dates = dated.map((l) => l.date!).sort();
+        const { data, error } = await this.db
+            .from('route_closures')
+            .select('*')
+            .or(`origin_id.in.(${ids.join(',')}),destination_id.in.(${ids.join(',')})`)
+            .lte('starts_on', dates[dates.length - 1])
+            .gte('ends_on', dates[0]);
+        if (error) throw new BadRequestError(error.message);
+        const closures = (data || []).map((row: any) => this.mapClosure(row));
+        if (!closures.length) return legs;
+
+        const out: PackageLeg[] = [];
+        for (const leg of legs) {
+            if (!leg.date) {
+                out.push(leg);
+                continue;
+            }
+            const notices = this.noticesFor(closures, leg.originId, leg.destinationId, leg.date);
+            const closed = notices.find((n) => n.kind === 'closure');
+            if (!closed) {
+                out.push(notices.length ? { ...leg, notices } : leg);
+                continue;
+            }
+
+            const detour = await this.findDetour(closures, leg.originId, leg.destinationId, leg.date);
+            if (!detour) {
+                const names = await this.destinationNames([leg.originId, leg.destinationId]);
+                throw new HttpError(
+                    `The road from ${names.get(leg.originId) || leg.originId} to ${names.get(leg.destinationId) || leg.destinationId} is closed on ${leg.date} (${closed.reason}) and there is no open detour; choose other dates or another order`,
+                    409
+                );
+            }
+            out.push({
+                ...leg,
+                distanceKm: detour.distanceKm,
+                durationMinutes: detour.durationMinutes,
+                viaDestinationIds: [detour.viaId],
+                notices: [
+                    ...notices,
+                    ...this.noticesFor(closures, leg.originId, detour.viaId, leg.date),
+                    ...this.noticesFor(closures, detour.viaId, leg.destinationId, leg.date),
+                ],
+            });
+        }
+        return out;
+    }
+
+    private noticesFor(closures: RouteClosure[], originId: string, destinationId: string, date: string): RouteNotice[] {
+        return closures
+            .filter((c) => c.startsOn <= date && date <= c.endsOn)
+            .filter(
+                (c) =>
+                    (c.originId === originId && c.destinationId === destinationId) ||
+                    (c.bidirectional && c.originId === destinationId && c.destinationId === originId)
+            )
+            .map((c) => ({ closureId: c.id, kind: c.kind, originId: c.originId, destinationId: c.destinationId, reason: c.reason, startsOn: c.startsOn, endsOn: c.endsOn }));
+    }
+
+    /**
+     * Shortest origin -> via -> destination drive in the distance matrix with both parts open on the date
+     */
+    private async findDetour(
+        closures: RouteClosure[],
+        originId: string,
+        destinationId: string,
+        date: string
+    ): Promise<{ viaId: string; distanceKm: number; durationMinutes?: number } | undefined> {
+        const [fromOrigin, toDestination] = await Promise.all([
+            this.db.from('destination_distance_matrix').select('destination_id,distance_km,duration_minutes').eq('origin_id', originId),
+            this.db.from('destination_distance_matrix').select('origin_id,distance_km,duration_minutes').eq('destination_id', destinationId),
+        ]);
+        if (fromOrigin.error) throw new BadRequestError(fromOrigin.error.message);
+        if (toDestination.error) throw new BadRequestError(toDestination.error.message);
+
+        const secondHalf = new Map((toDestination.data || []).map((row: any) => [row.origin_id, row]));
+        const isOpen = (a: string, b: string) => !this.noticesFor(closures, a, b, date).some((n) => n.kind === 'closure');
+        let best: { viaId: string; distanceKm: number; durationMinutes?: number } | undefined;
+        for (const first of (fromOrigin.data || []) as any[]) {
+            const viaId = first.destination_id;
+            const second: any = secondHalf.get(viaId);
+            if (!second || viaId === destinationId || viaId === originId) continue;
+            if (!isOpen(originId, viaId) || !isOpen(viaId, destinationId)) continue;
+
+            const distanceKm = Number(first.distance_km || 0) + Number(second.distance_km || 0);
+            if (best && best.distanceKm <= distanceKm) continue;
+            const durationMinutes = first.duration_minutes != null && second.duration_minutes != null ? first.duration_minutes + second.duration_minutes : undefined;
+            best = { viaId, distanceKm, durationMinutes };
+        }
+        return best;
+    }
+
+    private async destinationNames(ids: string[]): Promise<Map<string, string>> {
+        const { data } = await this.db.from('vw_destinations_public').select('id,name').in('id', ids);
+        return new Map((data || []).map((d: any) => [d.id, d.name]));
+    }
+
+    /**
+     * Generated packages are cached with their legs; drop the ones that could route over this pair
+     */
+    private async invalidateGenerated(closure: RouteClosure) {
+        try {
+            await getPackageCacheStore().invalidate({ destinationIds: [closure.originId, closure.destinationId] });
+        } catch (e: any) {
+            console.error('[RouteClosureService] Failed to invalidate package cache:', e?.message || e);
+        }
+    }
+
+    private async findClosure(closureId: string): Promise<any> {
+        const { data, error } = await this.db.from('route_closures').select('*').eq('id', closureId).maybeSingle();
+        if (error) throw new BadRequestError(error.message);
+        if (!data) throw new NotFoundError('Route closure not found');
+        return data;
+    }
+
+    private mapClosure(row: any): RouteClosure {
+        return {
+            id: row.id,
+            originId: row.origin_id,
+            destinationId: row.destination_id,
+            kind: row.kind,
+            startsOn: row.starts_on,
+            endsOn: row.ends_on,
+            bidirectional: row.bidirectional,
+            reason: row.reason,
+            createdBy: row.created_by ?? null,
+            createdAt: row.created_at,
+            updatedAt: row.updated_at,
+        };
+    }
+}
@@ -0,0 +1,180 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { getDB } from '../configuration/database.config';
+import { PackageStop, RouteMetric, RouteOptimizationSummary } from '../interfaces/package.interface';
+
+type MatrixEntry = { distanceKm: number; durationMinutes: number };
+
+export class RouteOptimizerService {
+    // Exhaustive search is cheap up to 8 free stops (8! = 40320 orders); beyond that fall back to a heuristic
+    private static readonly EXACT_SEARCH_LIMIT = 8;
+    // Pairs missing from the matrix are still allowed, but only as a last resort
+    private static readonly MISSING_PAIR_PENALTY = 1e6;
+    // Same estimate used when seeding destination_distance_matrix
+    private static readonly FALLBACK_SPEED_KMH = 40;
+
+    private get db(): SupabaseClient {
+        return getDB();
+    }
+
+    /**
+     * Reorder stops to minimise total distance or driving time using destination_distance_matrix.
+     * Nights stay attached to their stop; pinned start/end stops are kept in place.
+     */
+    async optimize(
+        stops: PackageStop[],
+        options: { metric?: RouteMetric; startDestinationId?: string; endDestinationId?: string } = {}
+    ): Promise<{ stops: PackageStop[]; summary: RouteOptimizationSummary }> {
+        const metric: RouteMetric = options.metric === 'duration' ? 'duration' : 'distance';
+        const matrix = await this.loadMatrix(Array.from(new Set(stops.map((s) => s.destinationId))));
+
+        let head: PackageStop | undefined;
+        let tail: PackageStop | undefined;
+        let free = [...stops];
+        if (options.startDestinationId) {
+            head = free.find((s) => s.destinationId === options.startDestinationId);
+            free = free.filter((s) => s !== head);
+        }
+        if (options.endDestinationId && free.length > 0) {
+            tail = [...free].reverse().find((s) => s.destinationId === options.endDestinationId);
+            free = free.filter((s) => s !== tail);
+        }
+
+        const cost = (order: PackageStop[]) => this.routeCost(order, matrix, metric);
+        const withPins = (middle: PackageStop[]) => [...(head ? [head] : []), ...middle, ...(tail ? [tail] : [])];
+
+        const best = free.length <= RouteOptimizerService.EXACT_SEARCH_LIMIT
+            ? this.exactSearch(free, (middle) => cost(withPins(middle)))
+            : this.twoOpt(this.nearestNeighbour(free, head, matrix, metric), (middle) => cost(withPins(middle)));
+
+        let optimized = withPins(best);
+        // Keep the caller's order (with the pins still applied) when optimisation brings no improvement
+        const pinned = withPins(free);
+        if (cost(optimized) >= cost(pinned)) optimized = pinned;
+
+        const original = this.totals(stops, matrix);
+        const next = this.totals(optimized, matrix);
+        const originalOrder = stops.map((s) => s.destinationId);
+        const optimizedOrder = optimized.map((s) => s.destinationId);
+
+        return {
+            stops: optimized,
+            summary: {
+                metric,
+                reordered: originalOrder.join(',') !== optimizedOrder.join(','),
+                originalOrder,
+                optimizedOrder,
+                originalTotalKm: original.km,
+                optimizedTotalKm: next.km,
+                originalTotalMinutes: original.minutes,
+                optimizedTotalMinutes: next.minutes,
+            },
+        };
+    }
+
+    private async loadMatrix(ids: string[]): Promise<Map<string, MatrixEntry>> {
+        const matrix = new Map<string, MatrixEntry>();
+        if (ids.length < 2) return matrix;
+        const { data, error } = await this.db
+            .from('destination_distance_matrix')
+            .select('origin_id,destination_id,distance_km,duration_minutes')
+            .in('origin_id', ids)
+            .in('destination_id', ids);
+        if (error) {
+            console.error('[RouteOptimizerService] Failed to load distance matrix:', error.message);
+            return matrix;
+        }
+        for (const row of data || []) {
+            const distanceKm = Number((row as any).distance_km || 0);
+            const durationMinutes = (row as any).duration_minutes != null
+                ? Number((row as any).duration_minutes)
+                : Math.ceil((distanceKm / RouteOptimizerService.FALLBACK_SPEED_KMH) * 60);
+            matrix.set(`${(row as any).origin_id}:${(row as any).destination_id}`, { distanceKm, durationMinutes });
+        }
+        return matrix;
+    }
+
+    private edgeCost(from: string, to: string, matrix: Map<string, MatrixEntry>, metric: RouteMetric): number {
+        if (from === to) return 0;
+        const entry = matrix.get(`${from}:${to}`);
+        if (!entry) return RouteOptimizerService.MISSING_PAIR_PENALTY;
+        return metric === 'duration' ? entry.durationMinutes : entry.distanceKm;
+    }
+
+    private routeCost(order: PackageStop[], matrix: Map<string, MatrixEntry>, metric: RouteMetric): number {
+        let total = 0;
+        for (let i = 0; i < order.length - 1; i++) {
+            total += this.edgeCost(order[i].destinationId, order[i + 1].destinationId, matrix, metric);
+        }
+        return total;
+    }
+
+    private totals(order: PackageStop[], matrix: Map<string, MatrixEntry>): { km: number; minutes: number } {
+        let km = 0;
+        let minutes = 0;
+        for (let i = 0; i < order.length - 1; i++) {
+            const entry = matrix.get(`${order[i].destinationId}:${order[i + 1].destinationId}`);
+            km += entry?.distanceKm || 0;
+            minutes += entry?.durationMinutes || 0;
+        }
+        return { km: Math.round(km * 100) / 100, minutes };
+    }
+
+    private exactSearch(stops: PackageStop[], cost: (order: PackageStop[]) => number): PackageStop[] {
+        let best = [...stops];
+        let bestCost = cost(best);
+        const permute = (prefix: PackageStop[], rest: PackageStop[]) => {
+            if (rest.length === 0) {
+                const c = cost(prefix);
+                if (c < bestCost) {
+                    bestCost = c;
+                    best = prefix;
+                }
+                return;
+            }
+            for (let i = 0; i < rest.length; i++) {
+                permute([...prefix, rest[i]], [...rest.slice(0, i), ...rest.slice(i + 1)]);
+            }
+        };
+        permute([], stops);
+        return best;
+    }
+
+    private nearestNeighbour(stops: PackageStop[], head: PackageStop | undefined, matrix: Map<string, MatrixEntry>, metric: RouteMetric): PackageStop[] {
+        const remaining = [...stops];
+        const order: PackageStop[] = [];
+        let current = head?.destinationId ?? remaining[0]?.destinationId;
+        while (remaining.length) {
+            let bestIdx = 0;
+            for (let i = 1; i < remaining.length; i++) {
+                if (this.edgeCost(current, remaining[i].destinationId, matrix, metric) < this.edgeCost(current, remaining[bestIdx].destinationId, matrix, metric)) {
+                    bestIdx = i;
+                }
+            }
+            const [next] = remaining.splice(bestIdx, 1);
+            order.push(next);
+            current = next.destinationId;
+        }
+        return order;
+    }
+
+    private twoOpt(order: PackageStop[], cost: (order: PackageStop[]) => number): PackageStop[] {
+        let best = [...order];
+        let bestCost = cost(best);
+        let improved = true;
+        while (improved) {
+            improved = false;
+            for (let i = 0; i < best.length - 1; i++) {
+                for (let j = i + 1; j < best.length; j++) {
+                    const candidate = [...best.slice(0, i), ...best.slice(i, j + 1).reverse(), ...best.slice(j + 1)];
+                    const c = cost(candidate);
+                    if (c < bestCost) {
+                        best = candidate;
+                        bestCost = c;
+                        improved = true;
+                    }
+                }
+            }
+        }
+        return best;
+    }
+}
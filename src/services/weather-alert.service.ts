@@ -0,0 +1,299 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { BadRequestError } from '@hyperflake/http-errors';
+import { getDB } from '../configuration/database.config';
+import { INDOOR_POI_CATEGORIES, resolveWeatherAlertThresholds, WEATHER_FORECAST_DAYS } from '../constants/weather-alerts';
+import { DayOperation, DayPlan, PackageGenerationResult } from '../interfaces/package.interface';
+import {
+    WeatherAlert,
+    WeatherAlertRule,
+    WeatherAlertSeverity,
+    WeatherAlertStatus,
+    WeatherAlertSuggestion,
+    WeatherAlertThresholds,
+} from '../interfaces/weather-alert.interface';
+import { DailyForecast } from '../interfaces/weather.interface';
+import { addUtcDays, toYmdUtc } from '../utils/date.util';
+import { PackageService } from './package.service';
+
+const BOOKED_STATES = ['booked', 'payment_overdue'];
+
+type PoiInfo = { id: string; name: string; destinationId: string; elevation: number | null; indoor: boolean; rating: number };
+type Trip = { rule: WeatherAlertRule; severity: WeatherAlertSeverity; message: string; forecast: Record<string, number | null> };
+
+/**
+ * Rules over the daily forecast of every upcoming package day: rain, wind at high altitude (gondola, passes) and
+ * low visibility on days with a drive. Tripped rules are stored as alerts in `package_weather_alerts` together with
+ * suggested fixes (swap the day with one at another destination, or replace outdoor activities with indoor ones).
+ */
+export class WeatherAlertService {
+    private readonly packageService = new PackageService();
+
+    private get db(): SupabaseClient {
+        return getDB();
+    }
+
+    async list(packageId: string, status?: WeatherAlertStatus): Promise<WeatherAlert[]> {
+        let query = this.db.from('package_weather_alerts').select('*').eq('package_id', packageId);
+        if (status) query = query.eq('status', status);
+        const { data, error } = await query.order('alert_date', { ascending: true }).order('rule', { ascending: true });
+        if (error) throw new BadRequestError(error.message);
+        return (data || []).map((row: any) => this.mapAlert(row));
+    }
+
+    /**
+     * @desc Re-run the rules on the package's upcoming days against the latest stored forecasts. Alerts that still
+     * trip are refreshed (keeping when they were first detected); active alerts that no longer trip are resolved.
+     */
+    async evaluatePackage(packageId: string): Promise<WeatherAlert[]> {
+        const pkg = await this.packageService.getById(packageId);
+        const thresholds = resolveWeatherAlertThresholds();
+        const today = toYmdUtc(new Date());
+        const lastForecastDay = toYmdUtc(addUtcDays(new Date(), WEATHER_FORECAST_DAYS));
+
+        const destinationIds = Array.from(new Set(pkg.days.map((d) => d.destinationId)));
+        const [forecasts, pois] = await Promise.all([
+            this.loadForecasts(destinationIds, today, lastForecastDay),
+            this.loadPois(pkg, destinationIds),
+        ]);
+
+        const now = new Date().toISOString();
+        const rows: Array<Record<string, any>> = [];
+        pkg.days.forEach((day, dayIndex) => {
+            const date = day.date.slice(0, 10);
+            const forecast = forecasts.get(`${day.destinationId}|${date}`);
+            if (date < today || !forecast) return;
+
+            const previous = pkg.days[dayIndex - 1];
+            const isLegDay = !!previous && previous.destinationId !== day.destinationId;
+            for (const trip of this.check(forecast, this.altitudeOf(day, pois), isLegDay, thresholds)) {
+                rows.push({
+                    package_id: packageId,
+                    day_index: dayIndex,
+                    alert_date: date,
+                    destination_id: day.destinationId,
+                    rule: trip.rule,
+                    severity: trip.severity,
+                    message: `${day.destinationName}, ${date}: ${trip.message}`,
+                    forecast: trip.forecast,
+                    suggestions: this.suggest(pkg, dayIndex, trip.rule, forecasts, pois, thresholds),
+                    status: 'active',
+                    last_evaluated_at: now,
+                    resolved_at: null,
+                });
+            }
+        });
+
+        if (rows.length) {
+            const { error } = await this.db
+                .from('package_weather_alerts')
+                .upsert(rows, { onConflict: 'package_id,alert_date,destination_id,rule' });
+            if (error) throw new BadRequestError(error.message);
+        }
+
+        // Whatever was active and did not trip this time is over (better forecast, or the itinerary changed)
+        const tripped = new Set(rows.map((r) => `${r.alert_date}|${r.destination_id}|${r.rule}`));
+        const stale = (await this.list(packageId, 'active')).filter((a) => !tripped.has(`${a.date}|${a.destinationId}|${a.rule}`));
+        if (stale.length) {
+            const { error } = await this.db
+                .from('package_weather_alerts')
+                .update({ status: 'resolved', resolved_at: now, last_evaluated_at: now })
+                .in('id', stale.map((a) => a.id));
+            if (error) throw new BadRequestError(error.message);
+        }
+
+        return this.list(packageId, 'active');
+    }
+
+    /**
+     * @desc Re-evaluate every booked package with a day inside the forecast window. Returns how many were checked.
+     */
+    async evaluateBookedPackages(): Promise<number> {
+        const { data, error } = await this.db
+            .from('package_days')
+            .select('package_id, packages!inner(booking_status)')
+            .gte('date', toYmdUtc(new Date()))
+            .lte('date', toYmdUtc(addUtcDays(new Date(), WEATHER_FORECAST_DAYS)))
+            .in('packages.booking_status', BOOKED_STATES);
+        if (error) throw new BadRequestError(error.message);
+
+        const packageIds = Array.from(new Set((data || []).map((row: any) => row.package_id as string)));
+        for (const packageId of packageIds) {
+            try {
+                await this.evaluatePackage(packageId);
+            } catch (err: any) {
+                console.error(`[WeatherAlertService] Evaluation failed for package ${packageId}:`, err?.message || err);
+            }
+        }
+        return packageIds.length;
+    }
+
+    private check(forecast: DailyForecast, altitudeM: number, isLegDay: boolean, t: WeatherAlertThresholds): Trip[] {
+        const trips: Trip[] = [];
+
+        const precipitation = forecast.precipitationProbability?.max;
+        if (precipitation != null && precipitation >= t.precipitationProbability) {
+            trips.push({
+                rule: 'heavy_precipitation',
+                severity: precipitation >= Math.min(100, t.precipitationProbability + 20) ? 'severe' : 'warning',
+                message: `${Math.round(precipitation)}% chance of rain or snow`,
+                forecast: { precipitationProbability: precipitation },
+            });
+        }
+
+        const wind = forecast.wind?.max;
+        if (altitudeM >= t.windAltitudeM && wind != null && wind >= t.windSpeed) {
+            trips.push({
+                rule: 'high_wind',
+                severity: wind >= t.windSpeed * 1.5 ? 'severe' : 'warning',
+                message: `winds up to ${Math.round(wind)} m/s at ${altitudeM} m; cable cars and high-altitude outings may be suspended`,
+                forecast: { windSpeedMax: wind, altitudeM },
+            });
+        }
+
+        const visibility = forecast.visibility?.min;
+        if (isLegDay && visibility != null && visibility < t.visibilityKm) {
+            trips.push({
+                rule: 'low_visibility',
+                severity: visibility < t.visibilityKm / 2 ? 'severe' : 'warning',
+                message: `visibility down to ${visibility} km on a driving day`,
+                forecast: { visibilityMinKm: visibility },
+            });
+        }
+        return trips;
+    }
+
+    private suggest(
+        pkg: PackageGenerationResult,
+        dayIndex: number,
+        rule: WeatherAlertRule,
+        forecasts: Map<string, DailyForecast>,
+        pois: Map<string, PoiInfo>,
+        t: WeatherAlertThresholds
+    ): WeatherAlertSuggestion[] {
+        const suggestions: WeatherAlertSuggestion[] = [];
+        const day = pkg.days[dayIndex];
+
+        // Swap with the nearest day at another destination where both days would have clear weather
+        const clear = (moved: DayPlan, date: string) => {
+            const forecast = forecasts.get(`${moved.destinationId}|${date}`);
+            return !!forecast && this.check(forecast, this.altitudeOf(moved, pois), true, t).length === 0;
+        };
+        const candidates = pkg.days
+            .map((other, otherIndex) => ({ other, otherIndex }))
+            .filter(({ other, otherIndex }) => otherIndex !== dayIndex && other.destinationId !== day.destinationId)
+            .sort((a, b) => Math.abs(a.otherIndex - dayIndex) - Math.abs(b.otherIndex - dayIndex));
+        const swap = candidates.find(({ other }) => clear(day, other.date.slice(0, 10)) && clear(other, day.date.slice(0, 10)));
+        if (swap) {
+            const [lo, hi] = [Math.min(dayIndex, swap.otherIndex), Math.max(dayIndex, swap.otherIndex)];
+            const dayOperations: DayOperation[] = [
+                { type: 'move', fromIndex: lo, toIndex: hi },
+                { type: 'move', fromIndex: hi - 1, toIndex: lo },
+            ];
+            suggestions.push({
+                type: 'swap_days',
+                dayIndex,
+                withDayIndex: swap.otherIndex,
+                message: `Swap with day ${swap.otherIndex + 1} in ${swap.other.destinationName}; the forecast is clear for both`,
+                dayOperations,
+            });
+        }
+
+        // Rain and wind spoil outdoor activities; low visibility only affects the drive
+        if (rule === 'low_visibility') return suggestions;
+        const activityIds = (day.activities || []).map((a) => a.poiId);
+        const indoor = Array.from(pois.values())
+            .filter((p) => p.indoor && p.destinationId === day.destinationId && !activityIds.includes(p.id))
+            .sort((a, b) => b.rating - a.rating);
+        for (const activity of day.activities || []) {
+            if (pois.get(activity.poiId)?.indoor) continue;
+            const replacement = indoor.shift();
+            if (!replacement) break;
+            suggestions.push({
+                type: 'replace_activity',
+                dayIndex,
+                poiId: activity.poiId,
+                replacementPoiId: replacement.id,
+                replacementName: replacement.name,
+                message: `Replace ${activity.name} with ${replacement.name} (indoor)`,
+                dayConfiguration: { dayIndex, activityIds: activityIds.map((id) => (id === activity.poiId ? replacement.id : id)) },
+            });
+        }
+        return suggestions;
+    }
+
+    private altitudeOf(day: DayPlan, pois: Map<string, PoiInfo>): number {
+        const elevations = (day.activities || []).map((a) => pois.get(a.poiId)?.elevation || 0);
+        return Math.max(Number(day.destinationAltitudeM || 0), ...elevations);
+    }
+
+    /**
+     * Daily forecasts keyed by `destinationId|YYYY-MM-DD`, from the snapshots the weather scheduler keeps fresh
+     */
+    private async loadForecasts(destinationIds: string[], from: string, to: string): Promise<Map<string, DailyForecast>> {
+        const out = new Map<string, DailyForecast>();
+        if (!destinationIds.length) return out;
+        const { data, error } = await this.db
+            .from('weather_snapshots')
+            .select('destination_id,snapshot_date,mapped')
+            .in('destination_id', destinationIds)
+            .gte('snapshot_date', from)
+            .lte('snapshot_date', to);
+        if (error) throw new BadRequestError(error.message);
+        for (const row of data || []) {
+            const daily = (row as any).mapped?.daily?.[0];
+            if (daily) out.set(`${(row as any).destination_id}|${(row as any).snapshot_date}`, daily);
+        }
+        return out;
+    }
+
+    /**
+     * The package's activities plus the indoor POIs of its destinations (replacement candidates)
+     */
+    private async loadPois(pkg: PackageGenerationResult, destinationIds: string[]): Promise<Map<string, PoiInfo>> {
+        const activityIds = Array.from(new Set(pkg.days.flatMap((d) => (d.activities || []).map((a) => a.poiId))));
+        const columns = 'id,name,destination_id,elevation,average_rating,poi_categories!inner(name)';
+        const [activities, indoor] = await Promise.all([
+            activityIds.length ? this.db.from('pois').select(columns).in('id', activityIds) : Promise.resolve({ data: [], error: null }),
+            this.db
+                .from('pois')
+                .select(columns)
+                .in('destination_id', destinationIds)
+                .eq('is_active', true)
+                .in('poi_categories.name', INDOOR_POI_CATEGORIES),
+        ]);
+        if (activities.error) throw new BadRequestError(activities.error.message);
+        if (indoor.error) throw new BadRequestError(indoor.error.message);
+
+        const out = new Map<string, PoiInfo>();
+        for (const row of [...(activities.data || []), ...(indoor.data || [])] as any[]) {
+            out.set(row.id, {
+                id: row.id,
+                name: row.name,
+                destinationId: row.destination_id,
+                elevation: row.elevation ?? null,
+                indoor: INDOOR_POI_CATEGORIES.includes(row.poi_categories?.name),
+                rating: Number(row.average_rating || 0),
+            });
+        }
+        return out;
+    }
+
+    private mapAlert(row: any): WeatherAlert {
+        return {
+            id: row.id,
+            packageId: row.package_id,
+            dayIndex: row.day_index,
+            date: row.alert_date,
+            destinationId: row.destination_id,
+            rule: row.rule,
+            severity: row.severity,
+            message: row.message,
+            forecast: row.forecast || {},
+            suggestions: row.suggestions || [],
+            status: row.status,
+            firstDetectedAt: row.first_detected_at,
+            lastEvaluatedAt: row.last_evaluated_at,
+            resolvedAt: row.resolved_at ?? null,
+        };
+    }
+}
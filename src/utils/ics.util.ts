@@ -0,0 +1,55 @@
+export interface IcsEvent {
+    uid: string;
+    summary: string;
+    description?: string;
+    location?: string;
+    start: Date;
+    end: Date;
+    allDay?: boolean; // start/end are then taken as UTC calendar dates, end exclusive
+}
+
+const escapeText = (value: string) => value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+const formatDateTime = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const formatDate = (date: Date) => date.toISOString().slice(0, 10).replace(/-/g, '');
+
+/**
+ * RFC 5545 content lines are limited to 75 octets; longer ones continue on lines starting with a space
+ */
+function fold(line: string): string {
+    const parts: string[] = [];
+    let current = '';
+    for (const char of line) {
+        if (Buffer.byteLength(current + char, 'utf8') > (parts.length ? 74 : 75)) {
+            parts.push(current);
+            current = '';
+        }
+        current += char;
+    }
+    parts.push(current);
+    return parts.join('\r\n ');
+}
+
+/**
+ * Build an iCalendar (.ics) document with one VEVENT per event
+ */
+export function buildIcsCalendar(events: IcsEvent[], options: { name: string }): string {
+    const stamp = formatDateTime(new Date());
+    const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', 'PRODID:-//KashmirBnB//Itinerary//EN', 'CALSCALE:GREGORIAN', 'METHOD:PUBLISH', `X-WR-CALNAME:${escapeText(options.name)}`];
+    for (const event of events) {
+        lines.push(
+            'BEGIN:VEVENT',
+            `UID:${event.uid}`,
+            `DTSTAMP:${stamp}`,
+            event.allDay ? `DTSTART;VALUE=DATE:${formatDate(event.start)}` : `DTSTART:${formatDateTime(event.start)}`,
+            event.allDay ? `DTEND;VALUE=DATE:${formatDate(event.end)}` : `DTEND:${formatDateTime(event.end)}`,
+            `SUMMARY:${escapeText(event.summary)}`
+        );
+        if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+        if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+        lines.push('END:VEVENT');
+    }
+    lines.push('END:VCALENDAR');
+    return lines.map(fold).join('\r\n') + '\r\n';
+}
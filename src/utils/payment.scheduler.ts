@@ -0,0 +1,31 @@
+import cron from 'node-cron';
+import { PaymentScheduleService } from '../services/payment-schedule.service';
+
+export class PaymentScheduler {
+    private readonly scheduleService: PaymentScheduleService;
+
+    constructor() {
+        this.scheduleService = new PaymentScheduleService();
+    }
+
+    /**
+     * Start scheduler
+     * Runs cron every hour to flag overdue instalments
+     */
+    public start() {
+        cron.schedule('15 * * * *', async () => {
+            await this.flagOverdueInstalments();
+        });
+    }
+
+    public async flagOverdueInstalments() {
+        try {
+            const packageIds = await this.scheduleService.flagOverdue();
+            if (packageIds.length > 0) {
+                console.log(`[PaymentScheduler] Flagged ${packageIds.length} package(s) as payment_overdue`);
+            }
+        } catch (err: any) {
+            console.error('[PaymentScheduler] Overdue check failed:', err.message);
+        }
+    }
+}
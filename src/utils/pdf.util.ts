@@ -0,0 +1,126 @@
+/**
+ * Minimal text-only PDF writer: A4 pages, Helvetica / Helvetica-Bold, word wrapping and automatic page breaks.
+ * Text is encoded as WinAnsi, so characters outside Latin-1 are replaced with close ASCII equivalents.
+ */
+export class SimplePdfDocument {
+    private static readonly PAGE_WIDTH = 595;
+    private static readonly PAGE_HEIGHT = 842;
+    private static readonly MARGIN = 50;
+    // Average Helvetica glyph width as a share of the font size; good enough for wrapping
+    private static readonly CHAR_WIDTH = 0.5;
+
+    private pages: string[][] = [];
+    private y = 0;
+
+    constructor() {
+        this.addPage();
+    }
+
+    heading(text: string, size = 13): this {
+        this.space(size * 0.6);
+        return this.text(text, { size, bold: true });
+    }
+
+    text(text: string, options: { size?: number; bold?: boolean; indent?: number } = {}): this {
+        const size = options.size ?? 10;
+        const indent = options.indent ?? 0;
+        const lineHeight = size * 1.35;
+        const width = SimplePdfDocument.PAGE_WIDTH - 2 * SimplePdfDocument.MARGIN - indent;
+        const maxChars = Math.max(10, Math.floor(width / (size * SimplePdfDocument.CHAR_WIDTH)));
+
+        for (const line of this.wrap(this.toLatin1(text), maxChars)) {
+            if (this.y - lineHeight < SimplePdfDocument.MARGIN) this.addPage();
+            this.y -= lineHeight;
+            const x = SimplePdfDocument.MARGIN + indent;
+            this.current.push(`BT /${options.bold ? 'F2' : 'F1'} ${size} Tf ${x} ${this.y.toFixed(2)} Td (${this.escape(line)}) Tj ET`);
+        }
+        return this;
+    }
+
+    space(height = 6): this {
+        this.y -= height;
+        if (this.y < SimplePdfDocument.MARGIN) this.addPage();
+        return this;
+    }
+
+    rule(): this {
+        this.space(4);
+        const right = SimplePdfDocument.PAGE_WIDTH - SimplePdfDocument.MARGIN;
+        this.current.push(`0.5 w ${SimplePdfDocument.MARGIN} ${this.y.toFixed(2)} m ${right} ${this.y.toFixed(2)} l S`);
+        return this.space(4);
+    }
+
+    toBuffer(): Buffer {
+        // Objects: 1 catalog, 2 page tree, 3-4 fonts, then a page and its content stream per page
+        const objects: string[] = [];
+        const pageIds = this.pages.map((_, i) => 5 + i * 2);
+        objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+        objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+        objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+        objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+        this.pages.forEach((ops, i) => {
+            const content = ops.join('\n');
+            objects[pageIds[i]] =
+                `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${SimplePdfDocument.PAGE_WIDTH} ${SimplePdfDocument.PAGE_HEIGHT}] ` +
+                `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`;
+            objects[pageIds[i] + 1] = `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`;
+        });
+
+        let out = '%PDF-1.4\n';
+        const offsets: number[] = [];
+        for (let id = 1; id < objects.length; id++) {
+            offsets[id] = Buffer.byteLength(out, 'latin1');
+            out += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+        }
+        const xrefOffset = Buffer.byteLength(out, 'latin1');
+        out += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+        for (let id = 1; id < objects.length; id++) out += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+        out += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+        return Buffer.from(out, 'latin1');
+    }
+
+    private get current(): string[] {
+        return this.pages[this.pages.length - 1];
+    }
+
+    private addPage() {
+        this.pages.push([]);
+        this.y = SimplePdfDocument.PAGE_HEIGHT - SimplePdfDocument.MARGIN;
+    }
+
+    private wrap(text: string, maxChars: number): string[] {
+        const lines: string[] = [];
+        for (const paragraph of text.split('\n')) {
+            let line = '';
+            for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+                if (!line) line = word;
+                else if (line.length + 1 + word.length <= maxChars) line += ` ${word}`;
+                else {
+                    lines.push(line);
+                    line = word;
+                }
+                while (line.length > maxChars) {
+                    lines.push(line.slice(0, maxChars));
+                    line = line.slice(maxChars);
+                }
+            }
+            lines.push(line);
+        }
+        return lines;
+    }
+
+    private toLatin1(text: string): string {
+        return String(text ?? '')
+            .replace(/[‘’]/g, "'")
+            .replace(/[“”]/g, '"')
+            .replace(/[–—]/g, '-')
+            .replace(/•/g, '-')
+            .replace(/→/g, '->')
+            .replace(/₹/g, 'INR ')
+            .replace(/[^\x00-\xFF]/g, '?');
+    }
+
+    private escape(text: string): string {
+        return text.replace(/\\/g, '\\\\').replace(/\(/g, '\\(').replace(/\)/g, '\\)');
+    }
+}
@@ -0,0 +1,45 @@
+/**
+ * Map over items with at most `limit` calls in flight (at least one, also for a non-numeric limit). Results keep
+ * the input order. The first rejection rejects the whole call right away; calls already in flight keep running
+ * and their results are discarded.
+ */
+export async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T, index: number) => Promise<R>): Promise<R[]> {
+    const results = new Array<R>(items.length);
+    let next = 0;
+    const worker = async () => {
+        while (next < items.length) {
+            const index = next++;
+            results[index] = await fn(items[index], index);
+        }
+    };
+    const size = Number.isFinite(limit) ? Math.floor(limit) : 1;
+    const workers = Array.from({ length: Math.max(1, Math.min(size, items.length)) }, worker);
+    await Promise.all(workers);
+    return results;
+}
+
+export interface StageTiming {
+    stage: string;
+    ms: number;
+}
+
+/**
+ * Records how long each named stage of a pipeline takes
+ */
+export function createStageTimer() {
+    const startedAt = Date.now();
+    const stages: StageTiming[] = [];
+    return {
+        async run<R>(stage: string, fn: () => Promise<R>): Promise<R> {
+            const start = Date.now();
+            try {
+                return await fn();
+            } finally {
+                stages.push({ stage, ms: Date.now() - start });
+            }
+        },
+        summary() {
+            return { stages: [...stages], totalMs: Date.now() - startedAt };
+        },
+    };
+}
@@ -0,0 +1,83 @@
+import { CHILD_MAX_AGE, INFANT_MAX_AGE, MAX_ROOM_OCCUPANCY } from '../constants/travellers';
+import { ActivityWithPrice, RoomOccupancy, Travellers } from '../interfaces/package.interface';
+
+/**
+ * Travellers from the request; a bare `people` count means that many adults
+ */
+export function resolveTravellers(input: { people?: number; travellers?: Travellers | null }): Travellers {
+    if (input.travellers && Number(input.travellers.adults) >= 1) {
+        return {
+            adults: Math.floor(Number(input.travellers.adults)),
+            childAges: (input.travellers.childAges || []).map((age) => Math.floor(Number(age))),
+        };
+    }
+    return { adults: Math.max(1, Math.floor(Number(input.people || 1))), childAges: [] };
+}
+
+export function headcount(travellers: Travellers): number {
+    return travellers.adults + (travellers.childAges?.length || 0);
+}
+
+/**
+ * Travellers that pay a share of the package; infants are free
+ */
+export function payingTravellers(travellers: Travellers): number {
+    return travellers.adults + (travellers.childAges || []).filter((age) => age > INFANT_MAX_AGE).length;
+}
+
+export type PriceBand = 'adult' | 'child' | 'infant';
+
+/**
+ * Default price band of a traveller's age (see CHILD_MAX_AGE)
+ */
+export function priceBand(age: number): PriceBand {
+    if (age <= INFANT_MAX_AGE) return 'infant';
+    return age <= CHILD_MAX_AGE ? 'child' : 'adult';
+}
+
+/**
+ * Two adults per room, children spread over the least occupied rooms. When every room is full an adult
+ * moves to a new room so children are never placed alone.
+ */
+export function defaultRoomPlan(travellers: Travellers): RoomOccupancy[] {
+    const rooms: RoomOccupancy[] = Array.from({ length: Math.max(1, Math.ceil(travellers.adults / 2)) }, () => ({ adults: 0, childAges: [] }));
+    for (let i = 0; i < travellers.adults; i++) rooms[i % rooms.length].adults++;
+
+    const occupancy = (r: RoomOccupancy) => r.adults + (r.childAges?.length || 0);
+    for (const age of [...(travellers.childAges || [])].sort((a, b) => a - b)) {
+        let room = [...rooms].sort((a, b) => occupancy(a) - occupancy(b))[0];
+        const shared = rooms.find((r) => r.adults > 1);
+        if (occupancy(room) >= MAX_ROOM_OCCUPANCY && shared) {
+            shared.adults--;
+            room = { adults: 1, childAges: [] };
+            rooms.push(room);
+        }
+        room.childAges!.push(age);
+    }
+    return rooms;
+}
+
+export function resolveRoomPlan(input: { people?: number; travellers?: Travellers | null; rooms?: RoomOccupancy[] | null }): RoomOccupancy[] {
+    if (Array.isArray(input.rooms) && input.rooms.length) {
+        return input.rooms.map((r) => ({ adults: Math.floor(Number(r.adults)), childAges: (r.childAges || []).map((age) => Math.floor(Number(age))) }));
+    }
+    return defaultRoomPlan(resolveTravellers(input));
+}
+
+/**
+ * Price of an activity for the whole party. Per-person prices charge children `child_price`
+ * (falling back to the adult price) and let infants in free.
+ */
+export function activityPrice(activity: ActivityWithPrice, travellers: Travellers): number {
+    if (!activity.base_price || activity.pricing_type === 'free') return 0;
+    if (activity.pricing_type !== 'per_person') return activity.base_price;
+
+    const infantMaxAge = activity.infant_max_age ?? INFANT_MAX_AGE;
+    const childMaxAge = activity.child_max_age ?? CHILD_MAX_AGE;
+    const childPrice = activity.child_price ?? activity.base_price;
+    const children = (travellers.childAges || []).reduce((sum, age) => {
+        if (age <= infantMaxAge) return sum;
+        return sum + (age <= childMaxAge ? childPrice : activity.base_price!);
+    }, 0);
+    return travellers.adults * activity.base_price + children;
+}
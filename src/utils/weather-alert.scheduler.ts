@@ -0,0 +1,29 @@
+import cron from 'node-cron';
+import { WeatherAlertService } from '../services/weather-alert.service';
+
+export class WeatherAlertScheduler {
+    private readonly alertService: WeatherAlertService;
+
+    constructor() {
+        this.alertService = new WeatherAlertService();
+    }
+
+    /**
+     * Start scheduler
+     * Runs 30 minutes after each weather refresh (every 9 hours) to re-check booked packages
+     */
+    public start() {
+        cron.schedule('30 */9 * * *', async () => {
+            await this.evaluateBookedPackages();
+        });
+    }
+
+    public async evaluateBookedPackages() {
+        try {
+            const checked = await this.alertService.evaluateBookedPackages();
+            console.log(`[WeatherAlertScheduler] Re-evaluated weather alerts for ${checked} booked package(s)`);
+        } catch (err: any) {
+            console.error('[WeatherAlertScheduler] Evaluation failed:', err.message);
+        }
+    }
+}
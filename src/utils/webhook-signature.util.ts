@@ -0,0 +1,15 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+/**
+ * Hex HMAC-SHA256 of the raw request body.
+ */
+export function signWebhookPayload(payload: Buffer | string, secret: string): string {
+    return createHmac('sha256', secret).update(payload).digest('hex');
+}
+
+export function verifyWebhookSignature(payload: Buffer | string, signature: string | undefined, secret: string): boolean {
+    if (!signature) return false;
+    const expected = Buffer.from(signWebhookPayload(payload, secret), 'hex');
+    const received = Buffer.from(signature.trim(), 'hex');
+    return received.length === expected.length && timingSafeEqual(received, expected);
+}
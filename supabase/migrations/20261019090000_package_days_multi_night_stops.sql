@@ -0,0 +1,12 @@
+-- Track which stop (multi-night stay) each package day belongs to
+
+BEGIN;
+
+ALTER TABLE package_days
+  ADD COLUMN IF NOT EXISTS stop_index INT CHECK (stop_index >= 0),
+  ADD COLUMN IF NOT EXISTS night_of_stay INT CHECK (night_of_stay >= 1);
+
+COMMENT ON COLUMN package_days.stop_index IS 'Index of the stop (consecutive nights at one destination) this day belongs to';
+COMMENT ON COLUMN package_days.night_of_stay IS '1-based night within the stop';
+
+COMMIT;
@@ -0,0 +1,21 @@
+-- Audit trail for package booking status transitions
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS package_status_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  package_id UUID NOT NULL REFERENCES packages(id) ON DELETE CASCADE,
+  from_status TEXT,
+  to_status TEXT NOT NULL,
+  actor_id UUID NULL REFERENCES users(id) ON DELETE SET NULL,
+  actor_type TEXT NOT NULL DEFAULT 'system' CHECK (actor_type IN ('user','system','admin')),
+  reason TEXT,
+  metadata JSONB DEFAULT '{}'::jsonb,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS ix_package_status_history_pkg ON package_status_history(package_id, created_at);
+
+COMMENT ON TABLE package_status_history IS 'Every booking_status transition applied by PackageBookingStateMachine';
+
+COMMIT;
@@ -0,0 +1,32 @@
+-- Cancellation records with the refund quote applied at cancellation time
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS package_cancellations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  package_id UUID NOT NULL UNIQUE REFERENCES packages(id) ON DELETE CASCADE,
+  cancelled_by UUID NULL REFERENCES users(id) ON DELETE SET NULL,
+  reason TEXT,
+  refund_amount NUMERIC(12,2) NOT NULL DEFAULT 0,
+  currency TEXT NOT NULL DEFAULT 'INR',
+  refund_status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (refund_status IN ('pending','not_applicable','refunded','failed')),
+  quote JSONB NOT NULL DEFAULT '{}'::jsonb,     -- per-component refund breakdown
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE OR REPLACE FUNCTION trg_update_package_cancellations_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at := NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS package_cancellations_updated_at ON package_cancellations;
+CREATE TRIGGER package_cancellations_updated_at
+BEFORE UPDATE ON package_cancellations
+FOR EACH ROW EXECUTE FUNCTION trg_update_package_cancellations_updated_at();
+
+COMMIT;
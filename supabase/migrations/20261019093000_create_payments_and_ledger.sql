@@ -0,0 +1,73 @@
+-- Payment intents, provider webhook log and the per-package ledger; packages wait in awaiting_payment until captured
+
+BEGIN;
+
+ALTER TABLE packages DROP CONSTRAINT IF EXISTS packages_booking_status_check;
+ALTER TABLE packages
+  ADD CONSTRAINT packages_booking_status_check
+    CHECK (booking_status IN ('generated','awaiting_auth','awaiting_verification','pending_kyc','awaiting_payment','booked','cancelled'));
+
+CREATE TABLE IF NOT EXISTS payment_intents (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  package_id UUID NOT NULL REFERENCES packages(id) ON DELETE CASCADE,
+  user_id UUID NULL REFERENCES users(id) ON DELETE SET NULL,
+  provider TEXT NOT NULL,
+  provider_intent_id TEXT NOT NULL,
+  client_secret TEXT,
+  amount NUMERIC(12,2) NOT NULL CHECK (amount > 0),
+  currency TEXT NOT NULL DEFAULT 'INR',
+  status TEXT NOT NULL DEFAULT 'requires_payment'
+    CHECK (status IN ('requires_payment','captured','failed','cancelled')),
+  cancel_reason TEXT,
+  captured_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (provider, provider_intent_id)
+);
+
+CREATE INDEX IF NOT EXISTS ix_payment_intents_pkg_status ON payment_intents(package_id, status);
+
+CREATE OR REPLACE FUNCTION trg_update_payment_intents_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at := NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS payment_intents_updated_at ON payment_intents;
+CREATE TRIGGER payment_intents_updated_at
+BEFORE UPDATE ON payment_intents
+FOR EACH ROW EXECUTE FUNCTION trg_update_payment_intents_updated_at();
+
+-- Append-only; amounts are signed (charges positive, refunds negative)
+CREATE TABLE IF NOT EXISTS payment_ledger_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  package_id UUID NOT NULL REFERENCES packages(id) ON DELETE CASCADE,
+  payment_intent_id UUID NULL REFERENCES payment_intents(id) ON DELETE SET NULL,
+  type TEXT NOT NULL CHECK (type IN ('charge','refund','adjustment')),
+  amount NUMERIC(12,2) NOT NULL,
+  currency TEXT NOT NULL DEFAULT 'INR',
+  provider_reference TEXT,
+  description TEXT,
+  created_by UUID NULL REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS ix_payment_ledger_entries_pkg ON payment_ledger_entries(package_id, created_at);
+
+-- Processed webhook events, for idempotency
+CREATE TABLE IF NOT EXISTS payment_webhook_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  provider TEXT NOT NULL,
+  event_id TEXT NOT NULL,
+  type TEXT NOT NULL,
+  payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+  received_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (provider, event_id)
+);
+
+ALTER TABLE package_cancellations
+  ADD COLUMN IF NOT EXISTS provider_refund_id TEXT;
+
+COMMIT;
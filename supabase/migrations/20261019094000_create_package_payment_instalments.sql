@@ -0,0 +1,40 @@
+-- Deposits and instalment schedules; packages with an unpaid instalment past its due date become payment_overdue
+
+BEGIN;
+
+ALTER TABLE packages DROP CONSTRAINT IF EXISTS packages_booking_status_check;
+ALTER TABLE packages
+  ADD CONSTRAINT packages_booking_status_check
+    CHECK (booking_status IN ('generated','awaiting_auth','awaiting_verification','pending_kyc','awaiting_payment','booked','payment_overdue','cancelled'));
+
+ALTER TABLE packages
+  ADD COLUMN IF NOT EXISTS payment_plan JSONB NULL;   -- { depositPercent, instalments: [{ percent, dueDaysBeforeStart }] }
+
+CREATE TABLE IF NOT EXISTS package_payment_instalments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  package_id UUID NOT NULL REFERENCES packages(id) ON DELETE CASCADE,
+  sequence INT NOT NULL CHECK (sequence >= 0),   -- 0 = deposit
+  label TEXT NOT NULL,
+  percent NUMERIC(5,2) NOT NULL CHECK (percent > 0 AND percent <= 100),
+  amount NUMERIC(12,2) NOT NULL DEFAULT 0,
+  currency TEXT NOT NULL DEFAULT 'INR',
+  due_date DATE NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending','paid','overdue')),
+  paid_at TIMESTAMPTZ,
+  payment_intent_id UUID NULL REFERENCES payment_intents(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (package_id, sequence)
+);
+
+CREATE INDEX IF NOT EXISTS ix_package_payment_instalments_due ON package_payment_instalments(status, due_date);
+
+ALTER TABLE payment_intents
+  ADD COLUMN IF NOT EXISTS instalment_id UUID NULL REFERENCES package_payment_instalments(id) ON DELETE SET NULL;
+
+-- A cancellation refund can be spread over several captured payments
+ALTER TABLE package_cancellations
+  ADD COLUMN IF NOT EXISTS provider_refund_ids TEXT[] NOT NULL DEFAULT '{}'::text[];
+ALTER TABLE package_cancellations
+  DROP COLUMN IF EXISTS provider_refund_id;
+
+COMMIT;
@@ -0,0 +1,15 @@
+-- Price-lock: packages carry the time until which their quote is honoured and the selected cab
+
+BEGIN;
+
+ALTER TABLE packages
+  ADD COLUMN IF NOT EXISTS quote_valid_until TIMESTAMPTZ NULL,
+  ADD COLUMN IF NOT EXISTS cab_id UUID NULL REFERENCES cab_inventory(id) ON DELETE SET NULL;
+
+-- Existing packages are treated as expired so they are re-priced on booking
+UPDATE packages
+   SET quote_valid_until = created_at
+ WHERE quote_valid_until IS NULL
+   AND booking_status NOT IN ('booked','payment_overdue','cancelled');
+
+COMMIT;
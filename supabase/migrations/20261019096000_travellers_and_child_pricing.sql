@@ -0,0 +1,23 @@
+-- Traveller breakdown, room plans and child pricing for activities
+
+BEGIN;
+
+ALTER TABLE packages
+  ADD COLUMN IF NOT EXISTS travellers JSONB,
+  ADD COLUMN IF NOT EXISTS room_plan JSONB;
+
+COMMENT ON COLUMN packages.travellers IS 'Adults and child ages; NULL for packages generated from a bare headcount';
+COMMENT ON COLUMN packages.room_plan IS 'Rooms used for hotel pricing: [{ adults, childAges }]';
+
+-- NULL child_price charges children the adult price; NULL ages fall back to src/constants/travellers.ts
+ALTER TABLE poi_pricing
+  ADD COLUMN IF NOT EXISTS child_price NUMERIC(10,2),
+  ADD COLUMN IF NOT EXISTS child_max_age SMALLINT,
+  ADD COLUMN IF NOT EXISTS infant_max_age SMALLINT;
+
+ALTER TABLE poi_pricing DROP CONSTRAINT IF EXISTS poi_pricing_child_ages_check;
+ALTER TABLE poi_pricing
+  ADD CONSTRAINT poi_pricing_child_ages_check
+  CHECK (infant_max_age IS NULL OR child_max_age IS NULL OR infant_max_age < child_max_age);
+
+COMMIT;
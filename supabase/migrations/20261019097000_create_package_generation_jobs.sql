@@ -0,0 +1,23 @@
+-- Background package generation jobs polled via GET /api/packages/jobs/:jobId
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS package_generation_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NULL REFERENCES users(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued','running','completed','failed')),
+  request JSONB NOT NULL,
+  progress SMALLINT NOT NULL DEFAULT 0 CHECK (progress BETWEEN 0 AND 100),
+  events JSONB NOT NULL DEFAULT '[]'::jsonb,
+  partial JSONB,
+  result JSONB,
+  package_id UUID REFERENCES packages(id) ON DELETE SET NULL,
+  error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  completed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_package_generation_jobs_user ON package_generation_jobs(user_id, created_at DESC);
+
+COMMIT;
@@ -0,0 +1,53 @@
+-- Shared cache of generated package content (PACKAGE_CACHE_DRIVER=postgres).
+-- Price changes in destination_pricing_buckets / cab_inventory drop the affected entries.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS package_response_cache (
+  key TEXT PRIMARY KEY,
+  value JSONB NOT NULL,
+  price_bucket TEXT NOT NULL CHECK (price_bucket IN ('budget_conscious','optimal','go_crazy')),
+  destination_ids UUID[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_package_response_cache_expires ON package_response_cache(expires_at);
+CREATE INDEX IF NOT EXISTS idx_package_response_cache_destinations ON package_response_cache USING GIN (destination_ids);
+
+-- Pricing rows are per destination and bucket, so only packages using that pair are affected
+CREATE OR REPLACE FUNCTION invalidate_package_cache_for_pricing()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE','DELETE') THEN
+    DELETE FROM package_response_cache
+    WHERE price_bucket = OLD.bucket_type AND destination_ids && ARRAY[OLD.destination_id];
+  END IF;
+  IF TG_OP IN ('INSERT','UPDATE') THEN
+    DELETE FROM package_response_cache
+    WHERE price_bucket = NEW.bucket_type AND destination_ids && ARRAY[NEW.destination_id];
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_pricing_buckets_invalidate_package_cache ON destination_pricing_buckets;
+CREATE TRIGGER trg_pricing_buckets_invalidate_package_cache
+AFTER INSERT OR UPDATE OR DELETE ON destination_pricing_buckets
+FOR EACH ROW EXECUTE FUNCTION invalidate_package_cache_for_pricing();
+
+-- Any cab may be picked for any package, so cab changes clear the whole cache
+CREATE OR REPLACE FUNCTION invalidate_package_cache_for_cabs()
+RETURNS TRIGGER AS $$
+BEGIN
+  DELETE FROM package_response_cache;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_cab_inventory_invalidate_package_cache ON cab_inventory;
+CREATE TRIGGER trg_cab_inventory_invalidate_package_cache
+AFTER INSERT OR UPDATE OR DELETE ON cab_inventory
+FOR EACH STATEMENT EXECUTE FUNCTION invalidate_package_cache_for_cabs();
+
+COMMIT;
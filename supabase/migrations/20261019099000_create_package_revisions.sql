@@ -0,0 +1,31 @@
+-- Immutable snapshots of a package after generation and every configuration change
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS package_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  package_id UUID NOT NULL REFERENCES packages(id) ON DELETE CASCADE,
+  revision INTEGER NOT NULL CHECK (revision > 0),
+  reason TEXT NOT NULL CHECK (reason IN ('generated','baseline','configuration','restore')),
+  created_by UUID NULL REFERENCES users(id) ON DELETE SET NULL,
+  change JSONB,
+  snapshot JSONB NOT NULL,
+  total_base_price NUMERIC(12,2) NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (package_id, revision)
+);
+
+-- Revisions are append-only
+CREATE OR REPLACE FUNCTION prevent_package_revision_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'package_revisions rows are immutable';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_package_revisions_immutable ON package_revisions;
+CREATE TRIGGER trg_package_revisions_immutable
+BEFORE UPDATE ON package_revisions
+FOR EACH ROW EXECUTE FUNCTION prevent_package_revision_changes();
+
+COMMIT;
@@ -0,0 +1,46 @@
+-- Public package gallery: clone and booking stats per public package with a trending score.
+-- Trending score: clones in the last 30 days + 2 per booked clone + 3 when the package itself is booked.
+
+BEGIN;
+
+ALTER TABLE packages ADD COLUMN IF NOT EXISTS is_public BOOLEAN NOT NULL DEFAULT FALSE;
+
+CREATE INDEX IF NOT EXISTS ix_packages_cloned_from ON packages ((meta->>'clonedFrom'));
+CREATE INDEX IF NOT EXISTS ix_packages_public_created ON packages (created_at DESC) WHERE is_public;
+
+CREATE OR REPLACE VIEW vw_public_packages AS
+SELECT
+  p.id,
+  p.title,
+  p.start_date,
+  EXTRACT(MONTH FROM p.start_date AT TIME ZONE 'UTC')::int AS start_month,
+  p.people,
+  p.total_base_price,
+  p.per_person_price,
+  p.currency,
+  p.request->>'priceBucket' AS price_bucket,
+  p.destination_ids,
+  p.booking_status,
+  p.created_at,
+  COALESCE(d.day_count, 0) AS day_count,
+  COALESCE(c.clone_count, 0) AS clone_count,
+  COALESCE(c.recent_clone_count, 0) AS recent_clone_count,
+  COALESCE(c.booked_clone_count, 0) AS booked_clone_count,
+  COALESCE(c.recent_clone_count, 0)
+    + 2 * COALESCE(c.booked_clone_count, 0)
+    + CASE WHEN p.booking_status IN ('booked','payment_overdue') THEN 3 ELSE 0 END AS trending_score
+FROM packages p
+LEFT JOIN LATERAL (
+  SELECT COUNT(*)::int AS day_count FROM package_days pd WHERE pd.package_id = p.id
+) d ON TRUE
+LEFT JOIN LATERAL (
+  SELECT
+    COUNT(*)::int AS clone_count,
+    (COUNT(*) FILTER (WHERE cp.created_at >= NOW() - INTERVAL '30 days'))::int AS recent_clone_count,
+    (COUNT(*) FILTER (WHERE cp.booking_status IN ('booked','payment_overdue')))::int AS booked_clone_count
+  FROM packages cp
+  WHERE cp.meta->>'clonedFrom' = p.id::text
+) c ON TRUE
+WHERE p.is_public AND p.booking_status <> 'cancelled';
+
+COMMIT;
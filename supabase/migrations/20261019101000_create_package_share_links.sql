@@ -0,0 +1,31 @@
+-- Read-only share links for packages: signed tokens reference a row here, which can expire or be revoked
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS package_share_links (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  package_id UUID NOT NULL REFERENCES packages(id) ON DELETE CASCADE,
+  created_by UUID NULL REFERENCES users(id) ON DELETE SET NULL,
+  hide_prices BOOLEAN NOT NULL DEFAULT FALSE,
+  expires_at TIMESTAMPTZ NOT NULL,
+  revoked_at TIMESTAMPTZ NULL,
+  view_count INTEGER NOT NULL DEFAULT 0,
+  last_viewed_at TIMESTAMPTZ NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_package_share_links_package ON package_share_links (package_id, created_at DESC);
+
+-- Counts a view only while the link is live; returns no row for revoked or expired links
+CREATE OR REPLACE FUNCTION record_package_share_view(p_share_id UUID)
+RETURNS SETOF package_share_links AS $$
+  UPDATE package_share_links
+  SET view_count = view_count + 1,
+      last_viewed_at = NOW()
+  WHERE id = p_share_id
+    AND revoked_at IS NULL
+    AND expires_at > NOW()
+  RETURNING *;
+$$ LANGUAGE sql;
+
+COMMIT;
@@ -0,0 +1,54 @@
+-- Group trip planning: co-travellers invited to a package, their change proposals and votes on optional attractions
+
+BEGIN;
+
+-- Optional attractions offered at generation time, so members can vote on them later
+ALTER TABLE packages ADD COLUMN IF NOT EXISTS optional_attractions JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- The owner stays packages.user_id; this table holds everyone else. user_id is set when the invite is accepted.
+CREATE TABLE IF NOT EXISTS package_members (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  package_id UUID NOT NULL REFERENCES packages(id) ON DELETE CASCADE,
+  user_id UUID NULL REFERENCES users(id) ON DELETE CASCADE,
+  invited_email TEXT NULL,
+  invited_phone TEXT NULL, -- digits only
+  role TEXT NOT NULL CHECK (role IN ('editor','viewer')),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending','accepted','declined')),
+  invited_by UUID NULL REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  responded_at TIMESTAMPTZ NULL,
+  CHECK (invited_email IS NOT NULL OR invited_phone IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_package_members_package ON package_members (package_id);
+CREATE UNIQUE INDEX IF NOT EXISTS uq_package_members_user ON package_members (package_id, user_id) WHERE user_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS uq_package_members_email ON package_members (package_id, lower(invited_email)) WHERE invited_email IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS uq_package_members_phone ON package_members (package_id, invited_phone) WHERE invited_phone IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_package_members_pending_email ON package_members (lower(invited_email)) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_package_members_pending_phone ON package_members (invited_phone) WHERE status = 'pending';
+
+CREATE TABLE IF NOT EXISTS package_proposals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  package_id UUID NOT NULL REFERENCES packages(id) ON DELETE CASCADE,
+  proposed_by UUID NULL REFERENCES users(id) ON DELETE SET NULL,
+  change JSONB NOT NULL, -- subset of the PATCH /packages/:id body
+  note TEXT NULL,
+  base_revision INTEGER NULL, -- package revision the proposal was made against
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending','approved','rejected','withdrawn')),
+  decided_by UUID NULL REFERENCES users(id) ON DELETE SET NULL,
+  decided_at TIMESTAMPTZ NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_package_proposals_package ON package_proposals (package_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS package_attraction_votes (
+  package_id UUID NOT NULL REFERENCES packages(id) ON DELETE CASCADE,
+  poi_id UUID NOT NULL,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  vote SMALLINT NOT NULL CHECK (vote IN (-1, 1)),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (package_id, poi_id, user_id)
+);
+
+COMMIT;
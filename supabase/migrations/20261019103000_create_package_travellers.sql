@@ -0,0 +1,20 @@
+-- Traveller manifest: one row per person on a package, with the ID proof hotels and cab operators ask for
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS package_travellers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  package_id UUID NOT NULL REFERENCES packages(id) ON DELETE CASCADE,
+  full_name TEXT NOT NULL CHECK (length(btrim(full_name)) > 0),
+  age INTEGER NOT NULL CHECK (age BETWEEN 0 AND 120), -- at the start of the trip
+  gender TEXT NOT NULL CHECK (gender IN ('male','female','other')),
+  document_id UUID NULL REFERENCES user_documents(id) ON DELETE SET NULL,
+  created_by UUID NULL REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_package_travellers_package ON package_travellers (package_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_package_travellers_document ON package_travellers (document_id) WHERE document_id IS NOT NULL;
+
+COMMIT;
@@ -0,0 +1,35 @@
+-- Fulfilment of booked packages: one line item per hotel night, cab leg, activity ticket and requested
+-- restaurant reservation, worked by the ops team, plus a rolled-up status on the package
+
+BEGIN;
+
+ALTER TABLE packages ADD COLUMN IF NOT EXISTS fulfilment_status TEXT NULL
+  CHECK (fulfilment_status IN ('pending','in_progress','fulfilled','failed','cancelled'));
+
+CREATE TABLE IF NOT EXISTS package_fulfilment_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  package_id UUID NOT NULL REFERENCES packages(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('hotel_night','cab_leg','activity','restaurant_reservation')),
+  item_key TEXT NOT NULL, -- stable per package so regenerating items never duplicates them
+  day_index INTEGER NULL,
+  service_date DATE NOT NULL,
+  description TEXT NOT NULL,
+  details JSONB NOT NULL DEFAULT '{}'::jsonb,
+  amount NUMERIC(12,2) NULL,
+  currency TEXT NOT NULL DEFAULT 'INR',
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending','confirmed','failed')),
+  confirmation_ref TEXT NULL,
+  failure_reason TEXT NULL,
+  note TEXT NULL,
+  updated_by UUID NULL REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (package_id, item_key),
+  CHECK (status <> 'confirmed' OR confirmation_ref IS NOT NULL)
+);
+
+-- The ops queue: open items by date
+CREATE INDEX IF NOT EXISTS idx_package_fulfilment_items_queue ON package_fulfilment_items (status, service_date);
+CREATE INDEX IF NOT EXISTS idx_package_fulfilment_items_package ON package_fulfilment_items (package_id, service_date);
+
+COMMIT;
@@ -0,0 +1,26 @@
+-- Weather alerts on package days (rain, wind at altitude, low visibility on drive days) with suggested fixes,
+-- re-evaluated as forecasts refresh; an alert is resolved once its rule no longer trips
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS package_weather_alerts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  package_id UUID NOT NULL REFERENCES packages(id) ON DELETE CASCADE,
+  day_index INTEGER NOT NULL,
+  alert_date DATE NOT NULL,
+  destination_id UUID NOT NULL REFERENCES destinations(id) ON DELETE CASCADE,
+  rule TEXT NOT NULL CHECK (rule IN ('heavy_precipitation','high_wind','low_visibility')),
+  severity TEXT NOT NULL CHECK (severity IN ('warning','severe')),
+  message TEXT NOT NULL,
+  forecast JSONB NOT NULL DEFAULT '{}'::jsonb,
+  suggestions JSONB NOT NULL DEFAULT '[]'::jsonb,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active','resolved')),
+  first_detected_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_evaluated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  resolved_at TIMESTAMPTZ NULL,
+  UNIQUE (package_id, alert_date, destination_id, rule)
+);
+
+CREATE INDEX IF NOT EXISTS idx_package_weather_alerts_package ON package_weather_alerts (package_id, status, alert_date);
+
+COMMIT;
@@ -0,0 +1,29 @@
+-- Date-ranged road and pass closures (and softer advisories) between destinations. Package legs that fall on a
+-- closed date are rerouted through another destination or rejected; legs keep the detour and notices they got.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS route_closures (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  origin_id UUID NOT NULL REFERENCES destinations(id) ON DELETE CASCADE,
+  destination_id UUID NOT NULL REFERENCES destinations(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('closure','advisory')),
+  starts_on DATE NOT NULL,
+  ends_on DATE NOT NULL, -- inclusive
+  bidirectional BOOLEAN NOT NULL DEFAULT true,
+  reason TEXT NOT NULL,
+  created_by UUID NULL REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (origin_id <> destination_id),
+  CHECK (ends_on >= starts_on)
+);
+
+CREATE INDEX IF NOT EXISTS idx_route_closures_origin ON route_closures (origin_id, starts_on, ends_on);
+CREATE INDEX IF NOT EXISTS idx_route_closures_destination ON route_closures (destination_id, starts_on, ends_on);
+
+ALTER TABLE package_legs ADD COLUMN IF NOT EXISTS travel_date DATE NULL;
+ALTER TABLE package_legs ADD COLUMN IF NOT EXISTS via_destination_ids UUID[] NOT NULL DEFAULT '{}';
+ALTER TABLE package_legs ADD COLUMN IF NOT EXISTS notices JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+COMMIT;
@@ -0,0 +1,10 @@
+-- Re-pricing an expired quote at booking is recorded as a `requote` package revision
+
+BEGIN;
+
+ALTER TABLE package_revisions DROP CONSTRAINT IF EXISTS package_revisions_reason_check;
+ALTER TABLE package_revisions
+  ADD CONSTRAINT package_revisions_reason_check
+    CHECK (reason IN ('generated','baseline','configuration','restore','requote'));
+
+COMMIT;